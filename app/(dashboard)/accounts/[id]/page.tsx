@@ -0,0 +1,364 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Calendar } from '@/components/ui/calendar'
+import { ArrowLeft, CalendarIcon, CheckCircle2, ClipboardCheck, Undo2 } from 'lucide-react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { useCurrencyStore, useLedgerStore } from '@/lib/store'
+import { accountTypeLabel, reconciliationDifference } from '@/lib/accounts'
+import {
+  getAccountRegister,
+  reconcileAccount,
+  undoReconciliation,
+  type RegisterEntry,
+  type SerializedReconciliation,
+} from '@/lib/actions/accounts'
+import { AccountIcon } from '@/components/accounts/account-icon'
+
+type Register = {
+  account: { id: string; name: string; type: string; balance: number; ledgerId: string | null }
+  canEdit: boolean
+  entries: RegisterEntry[]
+  clearedBalance: number
+  reconciliations: SerializedReconciliation[]
+}
+
+// Everything paid from or into one account with the running balance, and
+// reconciling it against a statement: enter the statement's closing
+// balance and tick off the transactions on it until nothing is left over.
+export default function AccountPage() {
+  const { id } = useParams<{ id: string }>()
+  const { formatAmount } = useCurrencyStore()
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const setLedgerId = useLedgerStore((state) => state.setLedgerId)
+  const [register, setRegister] = useState<Register | null>(null)
+  const [error, setError] = useState('')
+  const [isReconciling, setIsReconciling] = useState(false)
+  const [statementDate, setStatementDate] = useState(new Date())
+  const [statementBalance, setStatementBalance] = useState('')
+  const [ticked, setTicked] = useState<Set<string>>(new Set())
+  const [isSaving, setIsSaving] = useState(false)
+  // Bumped to load the register again after a change
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    getAccountRegister(id)
+      .then((result) => {
+        if (result.success && result.account) {
+          setRegister({
+            account: result.account,
+            canEdit: result.canEdit,
+            entries: result.entries,
+            clearedBalance: result.clearedBalance,
+            reconciliations: result.reconciliations,
+          })
+        } else {
+          setError(result.error || 'Failed to load account')
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load account:', error)
+        setError('Failed to load account')
+      })
+  }, [id, version])
+
+  const signed = (amount: number) => `${amount < 0 ? '-' : ''}${formatAmount(Math.abs(amount))}`
+
+  const startReconciling = () => {
+    setStatementDate(new Date())
+    setStatementBalance('')
+    setTicked(new Set())
+    setIsReconciling(true)
+  }
+
+  const toggleEntry = (entryId: string) => {
+    setTicked(prev => {
+      const next = new Set(prev)
+      if (next.has(entryId)) {
+        next.delete(entryId)
+      } else {
+        next.add(entryId)
+      }
+      return next
+    })
+  }
+
+  // Runs a reconciliation action, then reloads the register
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    setIsSaving(true)
+    try {
+      const result = await action()
+      if (!result.success) {
+        alert(result.error || failure)
+        return false
+      }
+      setVersion(prev => prev + 1)
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(failure)
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleFinish = async () => {
+    const finished = await run(
+      () => reconcileAccount(id, { statementDate, statementBalance, transactionIds: [...ticked] }),
+      'Failed to reconcile account'
+    )
+    if (finished) {
+      setIsReconciling(false)
+    }
+  }
+
+  const handleUndo = (reconciliation: SerializedReconciliation) => {
+    if (confirm(`Undo the reconciliation against the statement of ${format(new Date(reconciliation.statementDate), 'MMM d, yyyy')}?`)) {
+      run(() => undoReconciliation(reconciliation.id), 'Failed to undo reconciliation')
+    }
+  }
+
+  const backLink = (
+    <Button variant="ghost" asChild>
+      <Link href="/records" className="flex items-center gap-2">
+        <ArrowLeft className="w-4 h-4" />
+        Records
+      </Link>
+    </Button>
+  )
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-4">
+        {backLink}
+        <p className="text-center text-muted-foreground">{error}</p>
+      </div>
+    )
+  }
+  if (!register) {
+    return <p className="container mx-auto px-4 py-8 text-center animate-pulse text-muted-foreground">Loading...</p>
+  }
+
+  const { account, entries } = register
+
+  // The amounts are in the currency of the ledger the account belongs to
+  if (account.ledgerId !== ledgerId) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-4">
+        {backLink}
+        <Card>
+          <CardContent className="text-center py-12 space-y-4">
+            <p className="text-muted-foreground">
+              {account.name} belongs to {account.ledgerId ? 'a shared ledger' : 'your personal ledger'}.
+            </p>
+            <Button onClick={() => setLedgerId(account.ledgerId)}>
+              {account.ledgerId ? 'Switch to That Ledger' : 'Switch to Personal'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const unreconciled = entries.filter(entry => !entry.reconciled)
+  const tickedAmounts = unreconciled.filter(entry => ticked.has(entry.id)).map(entry => entry.amount)
+  const statement = parseFloat(statementBalance)
+  const difference = isNaN(statement)
+    ? null
+    : reconciliationDifference(statement, register.clearedBalance, tickedAmounts)
+  // Only the latest reconciliation can be undone
+  const latestReconciliation = register.reconciliations.reduce<SerializedReconciliation | null>(
+    (latest, r) => !latest || new Date(r.createdAt) > new Date(latest.createdAt) ? r : latest,
+    null
+  )
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+      {backLink}
+
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="flex items-center gap-2 text-3xl font-bold font-serif">
+            <AccountIcon type={account.type} className="w-7 h-7" />
+            {account.name}
+          </h1>
+          <p className="text-muted-foreground">
+            {accountTypeLabel(account.type)} • Balance {signed(account.balance)} • Reconciled {signed(register.clearedBalance)}
+          </p>
+        </div>
+        {register.canEdit && !isReconciling && unreconciled.length > 0 && (
+          <Button onClick={startReconciling} className="flex items-center gap-2">
+            <ClipboardCheck className="w-4 h-4" />
+            Reconcile
+          </Button>
+        )}
+      </div>
+
+      {/* Reconciling */}
+      {isReconciling && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Reconcile</CardTitle>
+            <CardDescription>
+              Enter the closing balance from your statement, then tick off every transaction on it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Statement Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-full justify-start text-left font-normal">
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {format(statementDate, "PPP")}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={statementDate}
+                      onSelect={(date) => {
+                        if (date) {
+                          setStatementDate(date)
+                        }
+                      }}
+                      defaultMonth={statementDate}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="statement-balance">Statement Balance</Label>
+                <Input
+                  id="statement-balance"
+                  type="number"
+                  step="0.01"
+                  placeholder={account.type === 'CreditCard' ? 'e.g., -250.00 when owed' : '0.00'}
+                  value={statementBalance}
+                  onChange={(e) => setStatementBalance(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1 max-h-96 overflow-y-auto">
+              {unreconciled.map((entry) => (
+                <label key={entry.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={ticked.has(entry.id)}
+                    onChange={() => toggleEntry(entry.id)}
+                  />
+                  <span className="w-24 shrink-0 text-muted-foreground">{format(new Date(entry.date), 'MMM d, yyyy')}</span>
+                  <span className="flex-1 truncate">{entry.name}</span>
+                  <span className={entry.amount < 0 ? 'text-destructive' : 'text-emerald-600'}>{signed(entry.amount)}</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4 border-t pt-4">
+              <div className="text-sm space-y-0.5">
+                <div>Ticked off: {ticked.size} • {signed(tickedAmounts.reduce((sum, amount) => sum + amount, 0))}</div>
+                <div className={cn('font-medium', difference !== 0 && 'text-destructive')}>
+                  {difference === null
+                    ? 'Enter the statement balance'
+                    : difference === 0
+                      ? 'Matches the statement'
+                      : `${signed(difference)} left to find`}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setIsReconciling(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleFinish} disabled={difference !== 0 || ticked.size === 0 || isSaving}>
+                  {isSaving ? 'Saving...' : 'Finish'}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Register */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Transactions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing has been paid from or into this account yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {[...entries].reverse().map((entry) => (
+                <div key={entry.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50 text-sm">
+                  <span className="w-24 shrink-0 text-muted-foreground">{format(new Date(entry.date), 'MMM d, yyyy')}</span>
+                  <span className="flex-1 min-w-0 truncate">
+                    {entry.name}
+                    {entry.type === 'Transfer' && (
+                      <span className="text-muted-foreground">
+                        {entry.amount < 0 ? ` → ${entry.otherAccount ?? 'Outside'}` : ` ← ${entry.otherAccount ?? 'Outside'}`}
+                      </span>
+                    )}
+                  </span>
+                  <span title={entry.reconciled ? 'Reconciled' : undefined} className="w-4 shrink-0">
+                    {entry.reconciled && <CheckCircle2 className="w-4 h-4 text-emerald-600" />}
+                  </span>
+                  <span className={cn('w-24 text-right shrink-0', entry.amount < 0 ? 'text-destructive' : 'text-emerald-600')}>
+                    {signed(entry.amount)}
+                  </span>
+                  <span className="w-24 text-right shrink-0 text-muted-foreground">{signed(entry.balance)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Past Reconciliations */}
+      {register.reconciliations.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Statements</CardTitle>
+            <CardDescription>Reconciled transactions can&apos;t be changed until their reconciliation is undone.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {register.reconciliations.map((reconciliation) => (
+              <div key={reconciliation.id} className="flex items-center justify-between gap-2 p-2 rounded-lg hover:bg-muted/50 text-sm">
+                <span>
+                  {format(new Date(reconciliation.statementDate), 'MMM d, yyyy')}
+                  <span className="text-muted-foreground"> • {reconciliation.transactionCount} transactions</span>
+                </span>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span>{signed(reconciliation.statementBalance)}</span>
+                  {register.canEdit && reconciliation.id === latestReconciliation?.id && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Undo reconciliation"
+                      disabled={isSaving}
+                      onClick={() => handleUndo(reconciliation)}
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
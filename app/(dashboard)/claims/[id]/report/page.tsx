@@ -0,0 +1,167 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { useUser } from '@clerk/nextjs'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, FileText, Printer } from 'lucide-react'
+import { format } from 'date-fns'
+import { formatCurrency } from '@/lib/currency'
+import { categoryLabel } from '@/lib/categories'
+import { attachmentUrl } from '@/lib/attachments'
+import { claimTotal } from '@/lib/claims'
+import { useCategoryStore, useCurrencyStore, useLedgerStore } from '@/lib/store'
+import { getClaim, type SerializedClaim } from '@/lib/actions/claims'
+import type { SerializedTransaction } from '@/lib/transactions'
+import { PersonalLedgerNotice } from '@/components/ledgers/personal-ledger-notice'
+
+// A claim laid out for printing, with its receipts. "Save as PDF" in the
+// browser's print dialog turns it into the PDF to send off.
+export default function ClaimReportPage() {
+  const { id } = useParams<{ id: string }>()
+  const { user } = useUser()
+  const { formatAmount } = useCurrencyStore()
+  const categories = useCategoryStore((state) => state.categories)
+  // The amounts and categories need the personal ledger
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const [claim, setClaim] = useState<SerializedClaim | null>(null)
+  const [transactions, setTransactions] = useState<SerializedTransaction[]>([])
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    getClaim(id).then((result) => {
+      if (result.success && result.claim) {
+        setClaim(result.claim)
+        setTransactions(result.transactions)
+      } else {
+        setError(result.error || 'Failed to load claim')
+      }
+    })
+  }, [id])
+
+  if (ledgerId) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <PersonalLedgerNotice>Claims are made from your personal expenses.</PersonalLedgerNotice>
+      </div>
+    )
+  }
+  if (error) {
+    return <p className="container mx-auto px-4 py-8 text-center text-muted-foreground">{error}</p>
+  }
+  if (!claim) {
+    return <p className="container mx-auto px-4 py-8 text-center animate-pulse text-muted-foreground">Loading...</p>
+  }
+
+  const attachments = transactions.flatMap(transaction =>
+    transaction.attachments.map(attachment => ({ ...attachment, transaction }))
+  )
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl space-y-8 print:max-w-none print:p-0">
+      <div className="flex items-center justify-between print:hidden">
+        <Button variant="ghost" asChild>
+          <Link href="/claims" className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Claims
+          </Link>
+        </Button>
+        <Button onClick={() => window.print()} className="flex items-center gap-2">
+          <Printer className="w-4 h-4" />
+          Print or Save as PDF
+        </Button>
+      </div>
+
+      {/* Header */}
+      <div className="space-y-1">
+        <p className="text-sm uppercase tracking-wide text-muted-foreground">Expense Claim</p>
+        <h1 className="text-2xl font-bold">{claim.name}</h1>
+        <div className="text-sm text-muted-foreground">
+          {user?.fullName && <div>Claimant: {user.fullName}</div>}
+          <div>
+            Status: {claim.status}
+            {claim.submittedAt && ` • Submitted ${format(new Date(claim.submittedAt), 'MMM d, yyyy')}`}
+            {claim.paidAt && ` • Paid ${format(new Date(claim.paidAt), 'MMM d, yyyy')}`}
+          </div>
+        </div>
+        {claim.notes && <p className="pt-2 text-sm whitespace-pre-line">{claim.notes}</p>}
+      </div>
+
+      {/* Expenses */}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left">
+            <th className="py-2 pr-2">Date</th>
+            <th className="py-2 pr-2">Description</th>
+            <th className="py-2 pr-2">Category</th>
+            <th className="py-2 text-right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {transactions.map((transaction) => (
+            <tr key={transaction.id} className="border-b align-top">
+              <td className="py-2 pr-2 whitespace-nowrap">{format(new Date(transaction.date), 'yyyy-MM-dd')}</td>
+              <td className="py-2 pr-2">
+                {transaction.name}
+                {transaction.notes && <div className="text-xs text-muted-foreground">{transaction.notes}</div>}
+              </td>
+              <td className="py-2 pr-2">
+                {transaction.splits.length > 0
+                  ? transaction.splits.map(split => categoryLabel(categories, split.categoryId)).join(', ')
+                  : categoryLabel(categories, transaction.categoryId)}
+              </td>
+              <td className="py-2 text-right whitespace-nowrap">
+                {formatAmount(transaction.amount)}
+                {transaction.originalAmount !== null && transaction.originalCurrency && (
+                  <div className="text-xs text-muted-foreground">
+                    {formatCurrency(transaction.originalAmount, transaction.originalCurrency)}
+                  </div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="font-semibold">
+            <td colSpan={3} className="py-2 pr-2 text-right">Total</td>
+            <td className="py-2 text-right">{formatAmount(claimTotal(transactions))}</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {/* Receipts */}
+      {attachments.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold">Receipts</h2>
+          {attachments.map((attachment) => (
+            <figure key={attachment.id} className="space-y-1 break-inside-avoid">
+              <figcaption className="text-sm text-muted-foreground">
+                {format(new Date(attachment.transaction.date), 'yyyy-MM-dd')} • {attachment.transaction.name} • {attachment.fileName}
+              </figcaption>
+              {attachment.mimeType.startsWith('image/') ? (
+                // Served from an authenticated route, which next/image can't optimize
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={attachmentUrl(attachment.id)}
+                  alt={`Receipt for ${attachment.transaction.name}`}
+                  className="max-h-[80vh] max-w-full border rounded"
+                />
+              ) : (
+                <a
+                  href={attachmentUrl(attachment.id)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-sm hover:underline"
+                >
+                  <FileText className="w-4 h-4" />
+                  Open {attachment.fileName} to print it with the claim
+                </a>
+              )}
+            </figure>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,369 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { motion } from 'framer-motion'
+import { HandCoins, Plus, Edit2, Trash2, Printer, ChevronDown, ChevronRight, X } from 'lucide-react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { useCurrencyStore, useLedgerStore } from '@/lib/store'
+import { claimTotal, nextClaimStatus, previousClaimStatus } from '@/lib/claims'
+import {
+  addToClaim,
+  createClaim,
+  deleteClaim,
+  getClaim,
+  getClaims,
+  getUnclaimedExpenses,
+  removeFromClaim,
+  setClaimStatus,
+  updateClaim,
+  type ClaimFormData,
+  type SerializedClaim,
+} from '@/lib/actions/claims'
+import type { SerializedTransaction } from '@/lib/transactions'
+import { ClaimModal } from '@/components/claims/claim-modal'
+import { PersonalLedgerNotice } from '@/components/ledgers/personal-ledger-notice'
+
+const statusClassNames: Record<string, string> = {
+  Draft: 'bg-muted text-muted-foreground',
+  Submitted: 'bg-primary/10 text-primary',
+  Paid: 'bg-muted text-emerald-600',
+}
+
+export default function ClaimsPage() {
+  const { formatAmount } = useCurrencyStore()
+  // Claims are personal; amounts and categories follow the ledger shown
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const [claims, setClaims] = useState<SerializedClaim[]>([])
+  const [unclaimed, setUnclaimed] = useState<SerializedTransaction[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState(true)
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingClaim, setEditingClaim] = useState<SerializedClaim | null>(null)
+  // The claim whose expenses are shown, and those expenses
+  const [expandedClaimId, setExpandedClaimId] = useState<string | null>(null)
+  const [claimExpenses, setClaimExpenses] = useState<SerializedTransaction[]>([])
+  const [targetClaimId, setTargetClaimId] = useState('')
+
+  const loadClaims = async () => {
+    try {
+      const [claimsResult, unclaimedResult] = await Promise.all([getClaims(), getUnclaimedExpenses()])
+      if (claimsResult.success) {
+        setClaims(claimsResult.claims)
+      }
+      if (unclaimedResult.success) {
+        setUnclaimed(unclaimedResult.transactions)
+        // Forget selected expenses that are gone
+        setSelected(prev => new Set(unclaimedResult.transactions.map(t => t.id).filter(id => prev.has(id))))
+      }
+    } catch (error) {
+      console.error('Failed to load claims:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const loadClaimExpenses = async (claimId: string) => {
+    const result = await getClaim(claimId)
+    setClaimExpenses(result.success ? result.transactions : [])
+  }
+
+  useEffect(() => {
+    loadClaims()
+  }, [])
+
+  const draftClaims = claims.filter(c => c.status === 'Draft')
+
+  const toggleExpense = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const toggleClaim = async (claimId: string) => {
+    if (expandedClaimId === claimId) {
+      setExpandedClaimId(null)
+      return
+    }
+    setExpandedClaimId(claimId)
+    setClaimExpenses([])
+    await loadClaimExpenses(claimId)
+  }
+
+  // Runs a claim action, then reloads whatever it may have changed
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    try {
+      const result = await action()
+      if (!result.success) {
+        alert(result.error || failure)
+        return false
+      }
+      await loadClaims()
+      if (expandedClaimId) {
+        await loadClaimExpenses(expandedClaimId)
+      }
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(failure)
+      return false
+    }
+  }
+
+  const handleNewClaim = () => {
+    setEditingClaim(null)
+    setIsModalOpen(true)
+  }
+
+  const handleEditClaim = (claim: SerializedClaim) => {
+    setEditingClaim(claim)
+    setIsModalOpen(true)
+  }
+
+  // Returns whether the modal can close
+  const handleSubmitClaim = (data: ClaimFormData) => editingClaim
+    ? run(() => updateClaim(editingClaim.id, data), 'Failed to save claim')
+    : run(() => createClaim(data, [...selected]), 'Failed to create claim')
+
+  const handleAddToClaim = async () => {
+    if (!targetClaimId) return
+    if (await run(() => addToClaim(targetClaimId, [...selected]), 'Failed to add to claim')) {
+      setTargetClaimId('')
+    }
+  }
+
+  const handleDeleteClaim = async (claim: SerializedClaim) => {
+    const warning = claim.status === 'Paid'
+      ? ' Its expenses will count as your spending again.'
+      : ''
+    if (confirm(`Delete the claim ${claim.name}? Its expenses stay reimbursable.${warning}`)) {
+      if (expandedClaimId === claim.id) {
+        setExpandedClaimId(null)
+      }
+      await run(() => deleteClaim(claim.id), 'Failed to delete claim')
+    }
+  }
+
+  const selectedTotal = claimTotal(unclaimed.filter(t => selected.has(t.id)))
+
+  if (ledgerId) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold font-serif">Claims</h1>
+          <p className="text-muted-foreground">Get back what you paid for work</p>
+        </div>
+        <PersonalLedgerNotice>
+          Claims are made from your personal expenses.
+        </PersonalLedgerNotice>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="space-y-6"
+      >
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold font-serif">Claims</h1>
+          <p className="text-muted-foreground">Get back what you paid for work</p>
+        </div>
+
+        {/* Unclaimed Expenses */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <HandCoins className="w-5 h-5" />
+              Reimbursable Expenses
+            </CardTitle>
+            <CardDescription>
+              Expenses marked reimbursable that aren&apos;t in a claim yet
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="animate-pulse text-muted-foreground">Loading...</div>
+            ) : unclaimed.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nothing to claim. Mark an expense as reimbursable when adding or editing it on the Records page.
+              </p>
+            ) : (
+              <>
+                <div className="divide-y rounded-md border">
+                  {unclaimed.map((transaction) => (
+                    <label key={transaction.id} className="flex items-center gap-3 p-2 text-sm hover:bg-muted/50">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(transaction.id)}
+                        onChange={() => toggleExpense(transaction.id)}
+                      />
+                      <span className="w-24 shrink-0 text-muted-foreground">{format(new Date(transaction.date), 'MMM d, yyyy')}</span>
+                      <span className="flex-1 truncate">{transaction.name}</span>
+                      <span className="font-medium">{formatAmount(transaction.amount)}</span>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button onClick={handleNewClaim} disabled={selected.size === 0} className="flex items-center gap-2">
+                    <Plus className="w-4 h-4" />
+                    New Claim{selected.size > 0 && ` (${formatAmount(selectedTotal)})`}
+                  </Button>
+                  {draftClaims.length > 0 && (
+                    <>
+                      <select
+                        aria-label="Draft claim"
+                        className="h-9 px-3 border border-input rounded-md bg-background text-sm"
+                        value={targetClaimId}
+                        onChange={(e) => setTargetClaimId(e.target.value)}
+                      >
+                        <option value="">Add to a draft claim...</option>
+                        {draftClaims.map((claim) => (
+                          <option key={claim.id} value={claim.id}>{claim.name}</option>
+                        ))}
+                      </select>
+                      <Button
+                        variant="outline"
+                        onClick={handleAddToClaim}
+                        disabled={selected.size === 0 || !targetClaimId}
+                      >
+                        Add
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Claims */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Claims</CardTitle>
+            <CardDescription>
+              Once a claim is paid, its expenses no longer count as your spending
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {!isLoading && claims.length === 0 && (
+              <p className="text-sm text-muted-foreground">No claims yet.</p>
+            )}
+            {claims.map((claim) => {
+              const isExpanded = expandedClaimId === claim.id
+              const next = nextClaimStatus[claim.status]
+              const previous = previousClaimStatus[claim.status]
+
+              return (
+                <div key={claim.id} className="rounded-lg border">
+                  <div className="flex items-center justify-between gap-2 p-3">
+                    <button
+                      type="button"
+                      className="flex items-center gap-2 min-w-0 text-left"
+                      onClick={() => toggleClaim(claim.id)}
+                    >
+                      {isExpanded ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{claim.name}</span>
+                          <span className={cn('rounded-full px-2 py-0.5 text-xs', statusClassNames[claim.status])}>
+                            {claim.status}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {claim.count} {claim.count === 1 ? 'expense' : 'expenses'}
+                          {claim.submittedAt && ` • Submitted ${format(new Date(claim.submittedAt), 'MMM d, yyyy')}`}
+                          {claim.paidAt && ` • Paid ${format(new Date(claim.paidAt), 'MMM d, yyyy')}`}
+                        </div>
+                      </div>
+                    </button>
+                    <div className="font-semibold shrink-0">{formatAmount(claim.total)}</div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="border-t p-3 space-y-3">
+                      {claim.notes && <p className="text-sm text-muted-foreground whitespace-pre-line">{claim.notes}</p>}
+
+                      <div className="space-y-1">
+                        {claimExpenses.map((transaction) => (
+                          <div key={transaction.id} className="flex items-center gap-3 text-sm">
+                            <span className="w-24 shrink-0 text-muted-foreground">{format(new Date(transaction.date), 'MMM d, yyyy')}</span>
+                            <span className="flex-1 truncate">{transaction.name}</span>
+                            <span>{formatAmount(transaction.amount)}</span>
+                            {claim.status === 'Draft' && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="px-2"
+                                aria-label={`Remove ${transaction.name} from the claim`}
+                                onClick={() => run(() => removeFromClaim(claim.id, transaction.id), 'Failed to remove from claim')}
+                              >
+                                <X className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="flex flex-wrap gap-2">
+                        {next && (
+                          <Button size="sm" onClick={() => run(() => setClaimStatus(claim.id, next.status), 'Failed to update claim')}>
+                            {next.label}
+                          </Button>
+                        )}
+                        {previous && (
+                          <Button size="sm" variant="outline" onClick={() => run(() => setClaimStatus(claim.id, previous.status), 'Failed to update claim')}>
+                            {previous.label}
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" asChild>
+                          <Link href={`/claims/${claim.id}/report`} className="flex items-center gap-1">
+                            <Printer className="w-4 h-4" />
+                            Report
+                          </Link>
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleEditClaim(claim)}>
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDeleteClaim(claim)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <ClaimModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSubmit={handleSubmitClaim}
+        claim={editingClaim}
+        expenseCount={selected.size}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,278 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { motion } from 'framer-motion'
+import { PiggyBank, Plus, Edit2, Trash2, ChevronDown, ChevronRight, X } from 'lucide-react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { useCurrencyStore, useLedgerStore } from '@/lib/store'
+import {
+  addContribution,
+  createGoal,
+  deleteContribution,
+  deleteGoal,
+  getGoals,
+  updateGoal,
+  type ContributionFormData,
+  type GoalFormData,
+  type SerializedGoal,
+} from '@/lib/actions/goals'
+import { GoalModal } from '@/components/goals/goal-modal'
+import { ContributionModal } from '@/components/goals/contribution-modal'
+import { PersonalLedgerNotice } from '@/components/ledgers/personal-ledger-notice'
+
+export default function GoalsPage() {
+  const { formatAmount } = useCurrencyStore()
+  // Goals are personal and in the user's currency
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const [goals, setGoals] = useState<SerializedGoal[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isGoalModalOpen, setIsGoalModalOpen] = useState(false)
+  const [editingGoal, setEditingGoal] = useState<SerializedGoal | null>(null)
+  // The goal money is being added to or taken out of
+  const [contributingGoal, setContributingGoal] = useState<SerializedGoal | null>(null)
+  // The goal whose contributions are shown
+  const [expandedGoalId, setExpandedGoalId] = useState<string | null>(null)
+
+  const loadGoals = async () => {
+    try {
+      const result = await getGoals()
+      if (result.success) {
+        setGoals(result.goals)
+      }
+    } catch (error) {
+      console.error('Failed to load goals:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadGoals()
+  }, [])
+
+  // Runs a goal action, then reloads the goals
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    try {
+      const result = await action()
+      if (!result.success) {
+        alert(result.error || failure)
+        return false
+      }
+      await loadGoals()
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(failure)
+      return false
+    }
+  }
+
+  const handleNewGoal = () => {
+    setEditingGoal(null)
+    setIsGoalModalOpen(true)
+  }
+
+  const handleEditGoal = (goal: SerializedGoal) => {
+    setEditingGoal(goal)
+    setIsGoalModalOpen(true)
+  }
+
+  // Returns whether the modal can close
+  const handleSubmitGoal = (data: GoalFormData) => editingGoal
+    ? run(() => updateGoal(editingGoal.id, data), 'Failed to save goal')
+    : run(() => createGoal(data), 'Failed to create goal')
+
+  const handleSubmitContribution = (data: ContributionFormData) => contributingGoal
+    ? run(() => addContribution(contributingGoal.id, data), 'Failed to save contribution')
+    : Promise.resolve(false)
+
+  const handleDeleteGoal = async (goal: SerializedGoal) => {
+    if (confirm(`Delete the goal ${goal.name}? Its contributions will be deleted too.`)) {
+      if (expandedGoalId === goal.id) {
+        setExpandedGoalId(null)
+      }
+      await run(() => deleteGoal(goal.id), 'Failed to delete goal')
+    }
+  }
+
+  if (ledgerId) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold font-serif">Goals</h1>
+          <p className="text-muted-foreground">What you are saving towards</p>
+        </div>
+        <PersonalLedgerNotice>
+          Goals are kept in your personal currency.
+        </PersonalLedgerNotice>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="space-y-6"
+      >
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold font-serif">Goals</h1>
+          <p className="text-muted-foreground">What you are saving towards</p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleNewGoal} className="flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            New Goal
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse text-muted-foreground">Loading...</div>
+        ) : goals.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <PiggyBank className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No goals yet</h3>
+              <p className="text-muted-foreground">
+                Set a target, like an emergency fund or a trip, and track what you put aside for it.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          goals.map((goal) => {
+            const { progress } = goal
+            const isExpanded = expandedGoalId === goal.id
+
+            return (
+              <Card key={goal.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <PiggyBank className="w-5 h-5 shrink-0" />
+                        <span className="truncate">{goal.name}</span>
+                      </CardTitle>
+                      <CardDescription>
+                        {formatAmount(progress.saved)} of {formatAmount(goal.targetAmount)}
+                        {goal.targetDate && ` by ${format(new Date(goal.targetDate), 'MMM d, yyyy')}`}
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button size="sm" variant="ghost" title="Edit" onClick={() => handleEditGoal(goal)}>
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Delete"
+                        onClick={() => handleDeleteGoal(goal)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {/* Progress */}
+                  <div className="space-y-1">
+                    <div className="h-2 rounded-full bg-muted overflow-hidden">
+                      <div
+                        className={cn('h-full rounded-full', progress.isComplete ? 'bg-emerald-600' : 'bg-primary')}
+                        style={{ width: `${progress.percent}%` }}
+                      />
+                    </div>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>{progress.percent}%</span>
+                      <span>{progress.isComplete ? 'Reached' : `${formatAmount(progress.remaining)} to go`}</span>
+                    </div>
+                  </div>
+
+                  {!progress.isComplete && (
+                    <div className="grid gap-2 sm:grid-cols-3 text-sm">
+                      <div>
+                        <div className="text-muted-foreground">Saving</div>
+                        <div className="font-medium">{formatAmount(progress.monthlyRate)} / month</div>
+                      </div>
+                      <div>
+                        <div className="text-muted-foreground">Reached around</div>
+                        <div className={cn('font-medium', progress.isBehind && 'text-destructive')}>
+                          {progress.projectedDate ? format(new Date(progress.projectedDate), 'MMM yyyy') : 'Not at this rate'}
+                        </div>
+                      </div>
+                      {progress.requiredMonthly !== null && (
+                        <div>
+                          <div className="text-muted-foreground">Needed to make it</div>
+                          <div className="font-medium">{formatAmount(progress.requiredMonthly)} / month</div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+                      onClick={() => setExpandedGoalId(isExpanded ? null : goal.id)}
+                    >
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      {goal.contributions.length} {goal.contributions.length === 1 ? 'contribution' : 'contributions'}
+                    </button>
+                    <Button size="sm" variant="outline" onClick={() => setContributingGoal(goal)} className="flex items-center gap-1">
+                      <Plus className="w-4 h-4" />
+                      Add Money
+                    </Button>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="space-y-1 border-t pt-3">
+                      {goal.contributions.map((contribution) => (
+                        <div key={contribution.id} className="flex items-center gap-3 text-sm">
+                          <span className="w-24 shrink-0 text-muted-foreground">{format(new Date(contribution.date), 'MMM d, yyyy')}</span>
+                          <span className="flex-1 truncate text-muted-foreground">{contribution.notes}</span>
+                          <span className={contribution.amount < 0 ? 'text-destructive' : ''}>
+                            {contribution.amount < 0 ? '-' : '+'}{formatAmount(Math.abs(contribution.amount))}
+                          </span>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="px-2"
+                            aria-label="Delete contribution"
+                            onClick={() => run(() => deleteContribution(contribution.id), 'Failed to delete contribution')}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })
+        )}
+      </motion.div>
+
+      <GoalModal
+        isOpen={isGoalModalOpen}
+        onClose={() => setIsGoalModalOpen(false)}
+        onSubmit={handleSubmitGoal}
+        goal={editingGoal}
+      />
+
+      <ContributionModal
+        isOpen={!!contributingGoal}
+        onClose={() => setContributingGoal(null)}
+        onSubmit={handleSubmitContribution}
+        goalName={contributingGoal?.name ?? ''}
+      />
+    </div>
+  )
+}
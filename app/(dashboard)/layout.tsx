@@ -1,6 +1,9 @@
 import { auth } from '@clerk/nextjs/server'
 import { redirect } from 'next/navigation'
 import { BottomDockWrapper } from '@/components/navigation/bottom-dock-wrapper'
+import { CurrencySync } from '@/components/settings/currency-sync'
+import { CategorySync } from '@/components/settings/category-sync'
+import { LedgerSync } from '@/components/settings/ledger-sync'
 
 export default async function DashboardLayout({
   children,
@@ -19,6 +22,9 @@ export default async function DashboardLayout({
         {children}
       </main>
       <BottomDockWrapper />
+      <CurrencySync />
+      <CategorySync />
+      <LedgerSync />
     </div>
   )
 }
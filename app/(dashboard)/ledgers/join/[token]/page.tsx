@@ -0,0 +1,92 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Users } from 'lucide-react'
+import { memberRoleOptions } from '@/lib/ledgers'
+import { useLedgerStore } from '@/lib/store'
+import { acceptInvite, getInvite, getLedgers } from '@/lib/actions/ledgers'
+
+type Invite = { ledgerId: string; ledgerName: string; role: string; isMember: boolean }
+
+// Where an invite link leads: shows the ledger and joins it on confirmation
+export default function JoinLedgerPage() {
+  const { token } = useParams<{ token: string }>()
+  const router = useRouter()
+  const { setLedgers, setLedgerId } = useLedgerStore()
+  const [invite, setInvite] = useState<Invite | null>(null)
+  const [error, setError] = useState('')
+  const [isJoining, setIsJoining] = useState(false)
+
+  useEffect(() => {
+    getInvite(token).then((result) => {
+      if (result.success && result.invite) {
+        setInvite(result.invite)
+      } else {
+        setError(result.error || 'Failed to load invite')
+      }
+    })
+  }, [token])
+
+  // Switches to the ledger right away, so the user lands in it
+  const handleJoin = async () => {
+    setIsJoining(true)
+    try {
+      const result = await acceptInvite(token)
+      if (!result.success || !result.ledgerId) {
+        alert(result.error || 'Failed to join ledger')
+        return
+      }
+      const ledgers = await getLedgers()
+      if (ledgers.success) {
+        setLedgers(ledgers.ledgers)
+      }
+      setLedgerId(result.ledgerId)
+      router.push('/records')
+    } catch (error) {
+      console.error('Failed to join ledger:', error)
+      alert('Failed to join ledger')
+    } finally {
+      setIsJoining(false)
+    }
+  }
+
+  if (error) {
+    return <p className="container mx-auto px-4 py-8 text-center text-muted-foreground">{error}</p>
+  }
+  if (!invite) {
+    return <p className="container mx-auto px-4 py-8 text-center animate-pulse text-muted-foreground">Loading...</p>
+  }
+
+  const role = memberRoleOptions.find(option => option.value === invite.role)
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-md">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Join {invite.ledgerName}
+          </CardTitle>
+          <CardDescription>
+            {invite.isMember
+              ? 'You are already a member of this ledger.'
+              : `You are invited as ${role ? `${role.label.toLowerCase()}: ${role.description.toLowerCase()}` : invite.role}.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => router.push('/records')}>
+            {invite.isMember ? 'Back to Records' : 'Not Now'}
+          </Button>
+          {!invite.isMember && (
+            <Button onClick={handleJoin} disabled={isJoining}>
+              {isJoining ? 'Joining...' : 'Join Ledger'}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
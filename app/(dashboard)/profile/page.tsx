@@ -6,7 +6,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
 import { Switch } from '@/components/ui/switch'
-import { useCurrencyStore, useThemeStore, currencies } from '@/lib/store'
+import { useActiveLedger, useCurrencyStore, useLedgerStore, useThemeStore } from '@/lib/store'
+import { currencies, formatCurrency } from '@/lib/currency'
+import { getCurrencyAmountsStatus, updateUserCurrency } from '@/lib/actions/settings'
+import { ExchangeRatesCard } from '@/components/settings/exchange-rates-card'
+import { CategoriesCard } from '@/components/settings/categories-card'
+import { RulesCard } from '@/components/settings/rules-card'
+import { LedgersCard } from '@/components/settings/ledgers-card'
+import { PersonalLedgerNotice } from '@/components/ledgers/personal-ledger-notice'
 import { motion } from 'framer-motion'
 import { User, Settings, Globe, Sun, Moon, Monitor } from 'lucide-react'
 
@@ -14,16 +21,46 @@ export default function ProfilePage() {
   const { user } = useUser()
   const { currency, setCurrency, formatAmount } = useCurrencyStore()
   const { theme, setTheme } = useThemeStore()
+  // A shared ledger keeps the currency it was created with
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const ledger = useActiveLedger()
   const [mounted, setMounted] = useState(false)
+  // Set once there are amounts stored in the currency, which a change
+  // relabels without converting
+  const [hasStoredAmounts, setHasStoredAmounts] = useState(false)
 
   useEffect(() => {
     setMounted(true)
   }, [])
 
-  const handleCurrencyChange = (currencyCode: string) => {
+  useEffect(() => {
+    getCurrencyAmountsStatus().then((result) => {
+      if (result.success) {
+        setHasStoredAmounts(result.hasAmounts)
+      }
+    })
+  }, [])
+
+  const handleCurrencyChange = async (currencyCode: string) => {
     const newCurrency = currencies.find(c => c.code === currencyCode)
     if (newCurrency) {
+      if (hasStoredAmounts && !confirm(
+        `Your amounts are stored in ${currency.code} and won't be converted: ` +
+        `${formatCurrency(100, currency.code)} will read as ${formatCurrency(100, newCurrency.code)}. ` +
+        `Only continue if they were really entered in ${newCurrency.code}. Change the currency?`
+      )) {
+        return
+      }
+
+      const previousCurrency = currency
+      // Update the UI right away and roll back if saving fails
       setCurrency(newCurrency)
+
+      const result = await updateUserCurrency(newCurrency.code, hasStoredAmounts)
+      if (!result.success) {
+        setCurrency(previousCurrency)
+        alert(result.error || 'Failed to save currency')
+      }
     }
   }
 
@@ -72,27 +109,39 @@ export default function ProfilePage() {
               Currency Preferences
             </CardTitle>
             <CardDescription>
-              Choose your preferred currency for displaying amounts
+              Choose your preferred currency. It is saved to your account and used on every device.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div>
-              <Label htmlFor="currency" className="text-sm font-medium">
-                Currency
-              </Label>
-              <select
-                id="currency"
-                value={currency.code}
-                onChange={(e) => handleCurrencyChange(e.target.value)}
-                className="w-full mt-1 px-3 py-2 border border-input rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-              >
-                {currencies.map((curr) => (
-                  <option key={curr.code} value={curr.code}>
-                    {curr.symbol} {curr.name} ({curr.code})
-                  </option>
-                ))}
-              </select>
-            </div>
+            {ledgerId ? (
+              <PersonalLedgerNotice>
+                Amounts in {ledger?.name ?? 'this ledger'} are kept in {ledger?.currency ?? currency.code}.
+              </PersonalLedgerNotice>
+            ) : (
+              <div>
+                <Label htmlFor="currency" className="text-sm font-medium">
+                  Currency
+                </Label>
+                <select
+                  id="currency"
+                  value={currency.code}
+                  onChange={(e) => handleCurrencyChange(e.target.value)}
+                  className="w-full mt-1 px-3 py-2 border border-input rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                >
+                  {currencies.map((curr) => (
+                    <option key={curr.code} value={curr.code}>
+                      {curr.symbol} {curr.name} ({curr.code})
+                    </option>
+                  ))}
+                </select>
+                {hasStoredAmounts && (
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Your transactions, budgets and goals are stored in {currency.code}. Changing the currency
+                    relabels them without converting, so only do it if they were entered in another currency.
+                  </p>
+                )}
+              </div>
+            )}
             <div className="p-3 bg-muted rounded-md">
               <p className="text-sm text-muted-foreground">
                 Preview: {mounted ? formatAmount(123.45) : '$123.45'}
@@ -101,6 +150,18 @@ export default function ProfilePage() {
           </CardContent>
         </Card>
 
+        {/* Categories */}
+        <CategoriesCard />
+
+        {/* Rules */}
+        <RulesCard />
+
+        {/* Shared Ledgers */}
+        <LedgersCard />
+
+        {/* Exchange Rates */}
+        <ExchangeRatesCard />
+
         {/* Appearance Settings */}
         <Card>
           <CardHeader>
@@ -1,41 +1,184 @@
 "use client"
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useEffectEvent, useRef } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Plus, Search, Receipt, Edit2, Trash2, Sparkles } from 'lucide-react'
-import { useCurrencyStore } from '@/lib/store'
-import { TransactionModal, TransactionFormData, categoryConfig } from '@/components/transactions/transaction-modal'
+import { Plus, Receipt, Edit2, Trash2, Sparkles, Target, Repeat, SkipForward, FileUp, Loader2, Split, Images, HandCoins } from 'lucide-react'
+import { useActiveLedger, useCategoryStore, useCurrencyStore, useLedgerStore } from '@/lib/store'
+import { canEditLedger } from '@/lib/ledgers'
+import { formatCurrency } from '@/lib/currency'
+import { categoryLabel, findCategory } from '@/lib/categories'
+import { TransactionModal, TransactionFormData } from '@/components/transactions/transaction-modal'
+import { CategoryIcon } from '@/components/categories/category-icon'
 import { AddWithAiModal } from '@/components/transactions/add-with-ai-modal'
-import { createTransaction, updateTransaction, deleteTransaction, getTransactions, getMonthlyTotal } from '@/lib/actions/transactions'
+import { AttachmentsPopover } from '@/components/transactions/attachments-popover'
+import { QuickEntry } from '@/components/transactions/quick-entry'
+import { ImportCsvModal } from '@/components/transactions/import-csv-modal'
+import { BatchScanModal } from '@/components/transactions/batch-scan-modal'
+import {
+  TransactionFilterBar,
+  emptyFilterValues,
+  toTransactionFilters,
+  type TransactionFilterValues,
+} from '@/components/transactions/transaction-filters'
+import { BudgetModal, Budget } from '@/components/budgets/budget-modal'
+import { LedgerSwitcher } from '@/components/ledgers/ledger-switcher'
+import { BalancesCard } from '@/components/balances/balances-card'
+import { AccountsCard } from '@/components/accounts/accounts-card'
+import { createTransaction, updateTransaction, deleteTransaction, queryTransactions, getMonthlyTotal } from '@/lib/actions/transactions'
+import { getBudgets, getBudgetSummary } from '@/lib/actions/budgets'
+import { deleteAttachment } from '@/lib/actions/attachments'
+import { getLedgerMembers } from '@/lib/actions/ledgers'
+import { getBalances, type BalancePerson, type SerializedSettlement } from '@/lib/actions/balances'
+import { getAccounts } from '@/lib/actions/accounts'
+import type { UserAccount } from '@/lib/accounts'
+import { personKey, type Debt } from '@/lib/bill-splits'
+import { uploadAttachment, type SavedAttachment } from '@/lib/attachments'
+import {
+  createRecurringTransaction,
+  deleteRecurringTransaction,
+  editOccurrence,
+  getRecurringTransactions,
+  getUpcomingOccurrences,
+  materializeRecurringTransactions,
+  skipOccurrence,
+  type Occurrence,
+  type SerializedRecurringTransaction,
+} from '@/lib/actions/recurring'
+import { RecurringCard } from '@/components/recurring/recurring-card'
+import type { BudgetStatus } from '@/lib/budgets'
 import { format, isSameDay, startOfMonth, endOfMonth } from 'date-fns'
 
 interface Transaction {
   id: string
   name: string
   amount: number
-  category: string
+  originalAmount: number | null
+  originalCurrency: string | null
+  type: string
+  categoryId: string | null
+  // Set when the amount is split between categories
+  splits: TransactionSplit[]
+  attachments: SavedAttachment[]
+  tags: string[]
+  notes: string | null
+  reimbursable: boolean
+  // The claim a reimbursable expense was sent off in
+  claim: { id: string; name: string; status: string } | null
+  // The member who paid, in a shared ledger
+  paidBy: { id: string; name: string } | null
+  // Set when the bill is split between people
+  billSplitMethod: string | null
+  shares: TransactionShare[]
+  // Where it was paid from, and where a transfer went
+  account: { id: string; name: string } | null
+  toAccount: { id: string; name: string } | null
   date: Date
   createdAt: Date
   updatedAt: Date
 }
 
+interface TransactionSplit {
+  id: string
+  name: string | null
+  amount: number
+  originalAmount: number | null
+  categoryId: string | null
+}
+
+interface TransactionShare {
+  id: string
+  userId: string | null
+  contactId: string | null
+  name: string
+  amount: number
+  originalAmount: number | null
+  weight: number | null
+}
+
+// Who owes whom for split bills
+interface Balances {
+  people: BalancePerson[]
+  debts: Debt[]
+  settlements: SerializedSettlement[]
+}
+
+// Totals over every transaction matching the filters, not just loaded ones
+interface QueryTotals {
+  count: number
+  expenses: number
+  income: number
+  net: number
+}
+
+// Transactions fetched per page while scrolling
+const PAGE_SIZE = 50
+
+// Convert Decimal amounts and dates for the frontend
+function toTransaction(t: Transaction): Transaction {
+  return {
+    ...t,
+    amount: Number(t.amount),
+    splits: t.splits.map(split => ({ ...split, amount: Number(split.amount) })),
+    date: new Date(t.date),
+    createdAt: new Date(t.createdAt),
+    updatedAt: new Date(t.updatedAt),
+  }
+}
+
 export default function RecordsPage() {
   const { formatAmount } = useCurrencyStore()
+  const categories = useCategoryStore((state) => state.categories)
+  // Budgets, recurring transactions, imports and scans are personal, so
+  // they are left out while a shared ledger is shown
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const ledger = useActiveLedger()
+  const canEdit = !ledgerId || (!!ledger && canEditLedger(ledger.role))
+  const [members, setMembers] = useState<{ id: string; name: string }[]>([])
+  const [balances, setBalances] = useState<Balances>({ people: [], debts: [], settlements: [] })
+  const [accounts, setAccounts] = useState<UserAccount[]>([])
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [monthlyTotal, setMonthlyTotal] = useState(0)
+  const [monthlyIncome, setMonthlyIncome] = useState(0)
+  const [budgets, setBudgets] = useState<Budget[]>([])
+  const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([])
+  const [remainingBudget, setRemainingBudget] = useState(0)
+  const [isBudgetModalOpen, setIsBudgetModalOpen] = useState(false)
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false)
+  const [isBatchScanModalOpen, setIsBatchScanModalOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
-  const [searchQuery, setSearchQuery] = useState('')
+  const [filters, setFilters] = useState<TransactionFilterValues>(emptyFilterValues)
+  const [totals, setTotals] = useState<QueryTotals | null>(null)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  // Bumped for every new first-page query, so responses to older ones
+  // (e.g. for earlier keystrokes in the search box) are ignored
+  const queryIdRef = useRef(0)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null)
+  // Prefills the modal for a new transaction, e.g. from quick entry
+  const [newTransactionDraft, setNewTransactionDraft] = useState<TransactionFormData | null>(null)
+  const [upcomingOccurrences, setUpcomingOccurrences] = useState<Occurrence[]>([])
+  const [editingOccurrence, setEditingOccurrence] = useState<Occurrence | null>(null)
+  const [recurringTransactions, setRecurringTransactions] = useState<SerializedRecurringTransaction[]>([])
 
-  useEffect(() => {
+  // Reload everything when another ledger is picked. An effect event, so
+  // it always runs the latest loadTransactions without depending on it.
+  const onLedgerChange = useEffectEvent(() => {
     loadTransactions()
-  }, [])
+  })
+  useEffect(() => {
+    onLedgerChange()
+  }, [ledgerId])
 
   const handleGenerateDemoData = async () => {
+    if (!categories.some(c => c.type === 'Expense')) {
+      alert('Add an expense category on the Profile page first.')
+      return
+    }
     if (confirm('This will add 15 demo transactions for November. Continue?')) {
       try {
         const demoTransactions = generateDemoTransactions()
@@ -61,8 +204,8 @@ export default function RecordsPage() {
     const currentYear = new Date().getFullYear()
     const transactions: TransactionFormData[] = []
 
-    // Sample transaction names for each category
-    const transactionNames = {
+    // Sample transaction names for each of the default categories
+    const transactionNames: Record<string, string[]> = {
       Food: ['Starbucks Coffee', 'Lunch at Cafe', 'Dinner at Restaurant', 'Fast Food', 'Grocery Store Meal'],
       Groceries: ['Weekly Groceries', 'Fresh Produce', 'Dairy Products', 'Bakery Items', 'Snacks'],
       Transportation: ['Uber Ride', 'Gas Station', 'Bus Ticket', 'Train Pass', 'Parking Fee'],
@@ -71,7 +214,7 @@ export default function RecordsPage() {
       Sport: ['Gym Membership', 'Running Shoes', 'Yoga Class', 'Sports Equipment', 'Personal Trainer'],
       Shopping: ['Clothing Store', 'Electronics', 'Home Goods', 'Books', 'Online Purchase'],
       Entertainment: ['Movie Tickets', 'Concert', 'Streaming Subscription', 'Games', 'Theater'],
-      BadHabits: ['Cigarettes', 'Alcohol', 'Energy Drinks', 'Fast Food Habit', 'Coffee Addiction'],
+      'Bad Habits': ['Cigarettes', 'Alcohol', 'Energy Drinks', 'Fast Food Habit', 'Coffee Addiction'],
       Other: ['Gift Purchase', 'Donation', 'Bank Fee', 'Miscellaneous', 'Unexpected Expense']
     }
 
@@ -81,19 +224,20 @@ export default function RecordsPage() {
       const day = Math.floor(Math.random() * 30) + 1
       const date = new Date(currentYear, 10, day) // November is month 10 (0-indexed)
 
-      // Random category
-      const categoryIndex = Math.floor(Math.random() * categoryConfig.length)
-      const category = categoryConfig[categoryIndex]
+      // Random expense category
+      const expenseCategories = categories.filter(c => c.type === 'Expense')
+      const category = expenseCategories[Math.floor(Math.random() * expenseCategories.length)]
 
-      // Random name from the category's names
-      const names = transactionNames[category.value as keyof typeof transactionNames]
+      // Random name from the category's names; categories the user added
+      // themselves get the generic ones
+      const names = transactionNames[category.name] || transactionNames.Other
       const name = names[Math.floor(Math.random() * names.length)]
 
       // Random amount (realistic ranges per category)
       let minAmount = 5
       let maxAmount = 50
 
-      switch (category.value) {
+      switch (category.name) {
         case 'Food':
           minAmount = 8
           maxAmount = 45
@@ -126,7 +270,7 @@ export default function RecordsPage() {
           minAmount = 15
           maxAmount = 120
           break
-        case 'BadHabits':
+        case 'Bad Habits':
           minAmount = 5
           maxAmount = 25
           break
@@ -141,7 +285,7 @@ export default function RecordsPage() {
       transactions.push({
         name,
         amount,
-        category: category.value,
+        categoryId: category.id,
         date
       })
     }
@@ -149,26 +293,114 @@ export default function RecordsPage() {
     return transactions
   }
 
+  // Replace the list with the first page for the given filters. The ledger
+  // is read from the store, so a switch is picked up by the next query.
+  const loadFirstPage = async (filterValues: TransactionFilterValues) => {
+    const queryId = ++queryIdRef.current
+    const result = await queryTransactions({
+      ...toTransactionFilters(filterValues),
+      ledgerId: useLedgerStore.getState().ledgerId,
+      limit: PAGE_SIZE,
+    })
+    if (queryId !== queryIdRef.current) return
+
+    if (result.success) {
+      setTransactions(result.transactions.map(toTransaction))
+      setNextCursor(result.nextCursor)
+      setTotals(result.totals)
+    }
+  }
+
+  // Append the next page when the end of the list scrolls into view
+  const loadNextPage = async () => {
+    if (!nextCursor || isLoadingMore) return
+
+    const queryId = queryIdRef.current
+    setIsLoadingMore(true)
+    try {
+      const result = await queryTransactions({ ...toTransactionFilters(filters), ledgerId, cursor: nextCursor, limit: PAGE_SIZE })
+      if (queryId !== queryIdRef.current) return
+
+      if (result.success) {
+        setTransactions(prev => [...prev, ...result.transactions.map(toTransaction)])
+        setNextCursor(result.nextCursor)
+      }
+    } catch (error) {
+      console.error('Failed to load more transactions:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  // Refetch from the first page when the filters change. Typing in the
+  // search box is debounced so every keystroke doesn't hit the server.
+  const isFirstFilterRun = useRef(true)
+  useEffect(() => {
+    if (isFirstFilterRun.current) {
+      isFirstFilterRun.current = false
+      return
+    }
+    const timeout = setTimeout(() => loadFirstPage(filters), 300)
+    return () => clearTimeout(timeout)
+  }, [filters])
+
+  // Runs after every render so the observer always calls the latest
+  // loadNextPage, which checks whether a page is already loading
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !nextCursor) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadNextPage()
+      }
+    }, { rootMargin: '400px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  })
+
   const loadTransactions = async () => {
+    if (ledgerId) {
+      return loadLedger(ledgerId)
+    }
+
     try {
-      const [transactionsResult, totalResult] = await Promise.all([
-        getTransactions(),
-        getMonthlyTotal()
+      // Turn due recurring transactions into real ones before loading the list
+      await materializeRecurringTransactions()
+
+      const [, totalResult, budgetsResult, budgetSummaryResult, upcomingResult, recurringResult, balancesResult, accountsResult] = await Promise.all([
+        loadFirstPage(filters),
+        getMonthlyTotal(),
+        getBudgets(),
+        getBudgetSummary(),
+        getUpcomingOccurrences(),
+        getRecurringTransactions(),
+        getBalances(),
+        getAccounts()
       ])
 
-      if (transactionsResult.success) {
-        // Convert Decimal amounts to numbers for the frontend
-        const convertedTransactions = transactionsResult.transactions.map(t => ({
-          ...t,
-          amount: Number(t.amount),
-          date: new Date(t.date),
-          createdAt: new Date(t.createdAt),
-          updatedAt: new Date(t.updatedAt),
-        }))
-        setTransactions(convertedTransactions)
-      }
       if (totalResult.success) {
         setMonthlyTotal(Number(totalResult.total))
+        setMonthlyIncome(Number(totalResult.income))
+      }
+      if (budgetsResult.success) {
+        setBudgets(budgetsResult.budgets)
+      }
+      if (budgetSummaryResult.success) {
+        setBudgetStatuses(budgetSummaryResult.statuses)
+        setRemainingBudget(budgetSummaryResult.remaining)
+      }
+      if (upcomingResult.success) {
+        setUpcomingOccurrences(upcomingResult.occurrences)
+      }
+      if (recurringResult.success) {
+        setRecurringTransactions(recurringResult.recurringTransactions)
+      }
+      if (balancesResult.success) {
+        setBalances(balancesResult)
+      }
+      if (accountsResult.success) {
+        setAccounts(accountsResult.accounts)
       }
     } catch (error) {
       console.error('Failed to load data:', error)
@@ -177,16 +409,102 @@ export default function RecordsPage() {
     }
   }
 
-  const handleAddTransaction = () => {
+  // A shared ledger only has its transactions, totals, members, balances
+  // and accounts
+  const loadLedger = async (id: string) => {
+    try {
+      const [, totalResult, membersResult, balancesResult, accountsResult] = await Promise.all([
+        loadFirstPage(filters),
+        getMonthlyTotal(undefined, id),
+        getLedgerMembers(id),
+        getBalances(id),
+        getAccounts(id)
+      ])
+
+      if (totalResult.success) {
+        setMonthlyTotal(Number(totalResult.total))
+        setMonthlyIncome(Number(totalResult.income))
+      }
+      if (membersResult.success) {
+        setMembers(membersResult.members.map(m => ({ id: m.userId, name: m.isYou ? `${m.name} (you)` : m.name })))
+      }
+      if (balancesResult.success) {
+        setBalances(balancesResult)
+      }
+      if (accountsResult.success) {
+        setAccounts(accountsResult.accounts)
+      }
+      setBudgets([])
+      setBudgetStatuses([])
+      setUpcomingOccurrences([])
+      setRecurringTransactions([])
+    } catch (error) {
+      console.error('Failed to load ledger:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleAddTransaction = (draft?: TransactionFormData) => {
     setEditingTransaction(null)
+    setEditingOccurrence(null)
+    setNewTransactionDraft(draft ?? null)
     setIsModalOpen(true)
   }
 
   const handleEditTransaction = (transaction: Transaction) => {
     setEditingTransaction(transaction)
+    setEditingOccurrence(null)
+    setNewTransactionDraft(null)
+    setIsModalOpen(true)
+  }
+
+  const handleEditOccurrence = (occurrence: Occurrence) => {
+    setEditingTransaction(null)
+    setEditingOccurrence(occurrence)
+    setNewTransactionDraft(null)
     setIsModalOpen(true)
   }
 
+  // Always a new transaction, whatever the modal was last used for
+  const handleQuickAdd = async (data: TransactionFormData) => {
+    try {
+      const result = await createTransaction({ ...data, ledgerId })
+      if (!result.success) {
+        alert(result.error || 'Failed to create transaction')
+        return false
+      }
+      await loadTransactions() // Reload data
+      return true
+    } catch (error) {
+      console.error('Failed to save transaction:', error)
+      alert('Failed to save transaction. Please check the console for details.')
+      return false
+    }
+  }
+
+  const handleSkipOccurrence = async (occurrence: Occurrence) => {
+    if (confirm(`Skip ${occurrence.name} on ${format(new Date(occurrence.occurrenceDate), 'MMM d')}?`)) {
+      const result = await skipOccurrence(occurrence.recurringTransactionId, occurrence.occurrenceDate)
+      if (result.success) {
+        await loadTransactions() // Reload data
+      } else {
+        alert(result.error || 'Failed to skip occurrence')
+      }
+    }
+  }
+
+  const handleStopRecurring = async (occurrence: Occurrence) => {
+    if (confirm(`Stop repeating ${occurrence.name}? Past transactions will be kept.`)) {
+      const result = await deleteRecurringTransaction(occurrence.recurringTransactionId)
+      if (result.success) {
+        await loadTransactions() // Reload data
+      } else {
+        alert(result.error || 'Failed to stop recurring transaction')
+      }
+    }
+  }
+
   const handleDeleteTransaction = async (id: string) => {
     if (confirm('Are you sure you want to delete this transaction?')) {
       try {
@@ -203,20 +521,55 @@ export default function RecordsPage() {
     }
   }
 
-  const handleSubmitTransaction = async (data: TransactionFormData) => {
+  // Upload new files and remove the ones taken off, after the transaction
+  // itself was saved. Failures are reported together at the end.
+  const saveAttachments = async (transactionId: string, data: TransactionFormData) => {
+    const errors: string[] = []
+
+    for (const file of data.attachments || []) {
+      const result = await uploadAttachment(transactionId, file)
+      if (!result.success) errors.push(`${file.name}: ${result.error}`)
+    }
+    for (const id of data.removeAttachmentIds || []) {
+      const result = await deleteAttachment(id)
+      if (!result.success) errors.push(result.error || 'Failed to remove an attachment')
+    }
+
+    if (errors.length > 0) {
+      alert(`The transaction was saved, but some attachments weren't:\n${errors.join('\n')}`)
+    }
+  }
+
+  const handleSubmitTransaction = async (formData: TransactionFormData) => {
+    // Files are uploaded separately once there is a transaction to attach them to
+    const { attachments, removeAttachmentIds, ...data } = formData
     try {
-      if (editingTransaction) {
+      if (editingOccurrence) {
+        const result = await editOccurrence(editingOccurrence.recurringTransactionId, editingOccurrence.occurrenceDate, data)
+        if (!result.success) {
+          alert(result.error || 'Failed to update occurrence')
+          return
+        }
+      } else if (editingTransaction) {
         const result = await updateTransaction(editingTransaction.id, data)
         if (!result.success) {
           alert(result.error || 'Failed to update transaction')
           return
         }
-      } else {
-        const result = await createTransaction(data)
+        await saveAttachments(editingTransaction.id, { ...data, attachments, removeAttachmentIds })
+      } else if (data.cadence) {
+        const result = await createRecurringTransaction({ ...data, cadence: data.cadence, startDate: data.date })
         if (!result.success) {
+          alert(result.error || 'Failed to create recurring transaction')
+          return
+        }
+      } else {
+        const result = await createTransaction({ ...data, ledgerId })
+        if (!result.success || !result.transaction) {
           alert(result.error || 'Failed to create transaction')
           return
         }
+        await saveAttachments(result.transaction.id, { ...data, attachments })
       }
       await loadTransactions() // Reload data
     } catch (error) {
@@ -235,17 +588,7 @@ export default function RecordsPage() {
     return groups
   }, {} as Record<string, Transaction[]>)
 
-  // Filter transactions based on search query
-  const filteredGroups = Object.entries(groupedTransactions).reduce((filtered, [dateKey, transactions]) => {
-    const filteredTransactions = transactions.filter(transaction =>
-      transaction.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      transaction.category.toLowerCase().includes(searchQuery.toLowerCase())
-    )
-    if (filteredTransactions.length > 0) {
-      filtered[dateKey] = filteredTransactions
-    }
-    return filtered
-  }, {} as Record<string, Transaction[]>)
+  const isFiltered = Object.values(toTransactionFilters(filters)).some(value => value != null)
 
   if (isLoading) {
     return (
@@ -272,21 +615,39 @@ export default function RecordsPage() {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-3xl font-bold font-serif">Records</h1>
-            <p className="text-muted-foreground">Track your expenses</p>
+            <p className="text-muted-foreground">
+              {ledger ? `Shared with ${ledger.memberCount} ${ledger.memberCount === 1 ? 'member' : 'members'}` : 'Track your expenses'}
+            </p>
           </div>
           <div className="flex items-center gap-2">
-            <Button onClick={handleGenerateDemoData} variant="outline" className="flex items-center gap-2">
-              <Sparkles className="w-4 h-4" />
-              Generate Demo
-            </Button>
-            <AddWithAiModal 
-              onTransactionSaved={loadTransactions} 
-              onSubmitTransaction={handleSubmitTransaction}
-            />
-            <Button onClick={handleAddTransaction} className="flex items-center gap-2">
-              <Plus className="w-4 h-4" />
-              Add Transaction
-            </Button>
+            <LedgerSwitcher />
+            {!ledgerId && (
+              <>
+                <Button onClick={handleGenerateDemoData} variant="outline" className="flex items-center gap-2">
+                  <Sparkles className="w-4 h-4" />
+                  Generate Demo
+                </Button>
+                <Button onClick={() => setIsImportModalOpen(true)} variant="outline" className="flex items-center gap-2">
+                  <FileUp className="w-4 h-4" />
+                  Import CSV
+                </Button>
+                <Button onClick={() => setIsBatchScanModalOpen(true)} variant="outline" className="flex items-center gap-2">
+                  <Images className="w-4 h-4" />
+                  Scan Receipts
+                </Button>
+                <QuickEntry onSubmitTransaction={handleQuickAdd} onEdit={handleAddTransaction} />
+                <AddWithAiModal 
+                  onTransactionSaved={loadTransactions} 
+                  onSubmitTransaction={handleSubmitTransaction}
+                />
+              </>
+            )}
+            {canEdit && (
+              <Button onClick={() => handleAddTransaction()} className="flex items-center gap-2">
+                <Plus className="w-4 h-4" />
+                Add Transaction
+              </Button>
+            )}
           </div>
         </div>
 
@@ -296,27 +657,148 @@ export default function RecordsPage() {
             <CardTitle>{format(new Date(), 'MMMM yyyy')}</CardTitle>
             <CardDescription>Monthly spending summary</CardDescription>
           </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold text-primary">
-              {formatAmount(monthlyTotal)}
+          <CardContent className="space-y-4">
+            <div className="flex items-end justify-between gap-4">
+              <div>
+                <div className="text-3xl font-bold text-primary">
+                  {formatAmount(monthlyTotal)}
+                </div>
+                <p className="text-sm text-muted-foreground">Total spent this month</p>
+                {monthlyIncome > 0 && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Income {formatAmount(monthlyIncome)} • Net{' '}
+                    <span className={monthlyIncome - monthlyTotal < 0 ? 'text-destructive' : 'text-emerald-600'}>
+                      {monthlyIncome - monthlyTotal < 0 ? '-' : '+'}{formatAmount(Math.abs(monthlyIncome - monthlyTotal))}
+                    </span>
+                  </p>
+                )}
+              </div>
+              {budgetStatuses.length > 0 && (
+                <div className="text-right">
+                  <div className={`text-2xl font-semibold ${remainingBudget < 0 ? 'text-destructive' : ''}`}>
+                    {formatAmount(Math.abs(remainingBudget))}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {remainingBudget < 0 ? 'Over budget' : 'Budget remaining'}
+                  </p>
+                </div>
+              )}
             </div>
-            <p className="text-sm text-muted-foreground">Total spent this month</p>
+            {budgetStatuses.some(s => s.overspent) && (
+              <p className="text-sm text-destructive">
+                Overspent: {budgetStatuses
+                  .filter(s => s.overspent)
+                  .map(s => `${categoryLabel(categories, s.categoryId)} (${formatAmount(-s.remaining)})`)
+                  .join(', ')}
+              </p>
+            )}
+            {!ledgerId && (
+              <Button variant="outline" size="sm" onClick={() => setIsBudgetModalOpen(true)} className="flex items-center gap-2">
+                <Target className="w-4 h-4" />
+                {budgets.length > 0 ? 'Edit Budgets' : 'Set Budgets'}
+              </Button>
+            )}
           </CardContent>
         </Card>
 
-        {/* Search Bar */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-          <Input
-            placeholder="Search transactions..."
-            className="pl-10"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+        {/* Upcoming Recurring Transactions */}
+        {upcomingOccurrences.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Repeat className="w-5 h-5" />
+                Upcoming
+              </CardTitle>
+              <CardDescription>Recurring transactions in the next 30 days</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {upcomingOccurrences.map((occurrence) => {
+                const category = findCategory(categories, occurrence.categoryId)
+
+                return (
+                  <div
+                    key={`${occurrence.recurringTransactionId}-${new Date(occurrence.occurrenceDate).getTime()}`}
+                    className="flex items-center justify-between p-3 border border-dashed rounded-lg hover:bg-muted/50 group"
+                  >
+                    <div className="flex items-center gap-3 flex-1">
+                      {category && <CategoryIcon icon={category.icon} className="w-5 h-5" style={{ color: category.color }} />}
+                      <div>
+                        <div className="font-medium">{occurrence.name}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {format(new Date(occurrence.occurrenceDate), 'EEE, MMM d')} • {occurrence.cadence}
+                          {occurrence.edited && ' • edited'}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <div className="font-semibold text-muted-foreground">
+                        {formatAmount(occurrence.amount)}
+                      </div>
+                      <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => handleEditOccurrence(occurrence)} title="Edit this occurrence">
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleSkipOccurrence(occurrence)} title="Skip this occurrence">
+                          <SkipForward className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleStopRecurring(occurrence)}
+                          className="text-destructive hover:text-destructive"
+                          title="Stop repeating"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Every Recurring Series */}
+        {!ledgerId && (
+          <RecurringCard
+            recurringTransactions={recurringTransactions}
+            accounts={accounts}
+            onChanged={loadTransactions}
           />
-        </div>
+        )}
+
+        {/* Split Bill Balances */}
+        <BalancesCard
+          people={balances.people}
+          debts={balances.debts}
+          settlements={balances.settlements}
+          canEdit={canEdit}
+          onChanged={loadTransactions}
+        />
+
+        {/* Account Balances */}
+        <AccountsCard accounts={accounts} canEdit={canEdit} onChanged={loadTransactions} />
+
+        {/* Search and Filters */}
+        <TransactionFilterBar values={filters} onChange={setFilters} accounts={accounts} />
+
+        {totals && isFiltered && (
+          <p className="text-sm text-muted-foreground">
+            {totals.count} matching transactions • Spent {formatAmount(totals.expenses)}
+            {totals.income > 0 && ` • Income ${formatAmount(totals.income)}`}
+          </p>
+        )}
 
         {/* Transaction List */}
-        {Object.keys(filteredGroups).length === 0 ? (
+        {transactions.length === 0 && isFiltered ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Receipt className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No transactions match your search and filters.</p>
+            </CardContent>
+          </Card>
+        ) : transactions.length === 0 ? (
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -331,19 +813,24 @@ export default function RecordsPage() {
                 <p className="text-muted-foreground mb-4">
                   Start tracking your expenses by adding your first transaction.
                 </p>
-                <Button onClick={handleAddTransaction}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Your First Transaction
-                </Button>
+                {canEdit && (
+                  <Button onClick={() => handleAddTransaction()}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Your First Transaction
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
         ) : (
           <div className="space-y-4">
-            {Object.entries(filteredGroups)
+            {Object.entries(groupedTransactions)
               .sort(([a], [b]) => new Date(b).getTime() - new Date(a).getTime())
               .map(([dateKey, dayTransactions]) => {
-                const dailyTotal = dayTransactions.reduce((sum, t) => sum + t.amount, 0)
+                // Only spending counts towards the daily total
+                const dailyTotal = dayTransactions
+                  .filter(t => t.type === 'Expense')
+                  .reduce((sum, t) => sum + t.amount, 0)
                 const date = new Date(dateKey)
 
                 return (
@@ -374,43 +861,98 @@ export default function RecordsPage() {
                           >
                             <div className="flex items-center gap-3 flex-1">
                               {(() => {
-                                const category = categoryConfig.find(c => c.value === transaction.category)
+                                if (transaction.splits.length > 0) {
+                                  return <Split className="w-5 h-5 text-muted-foreground" />
+                                }
+                                const category = findCategory(categories, transaction.categoryId)
                                 if (category) {
-                                  const Icon = category.icon
-                                  return <Icon className="w-5 h-5 text-muted-foreground" />
+                                  return <CategoryIcon icon={category.icon} className="w-5 h-5" style={{ color: category.color }} />
                                 }
                                 return null
                               })()}
                               <div>
-                                <div className="font-medium">{transaction.name}</div>
+                                <div className="flex items-center gap-1">
+                                  <span className="font-medium">{transaction.name}</span>
+                                  <AttachmentsPopover attachments={transaction.attachments} />
+                                  {transaction.reimbursable && (
+                                    <Link
+                                      href="/claims"
+                                      title={transaction.claim ? `In claim ${transaction.claim.name}` : 'Not in a claim yet'}
+                                      className={`flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs ${transaction.claim?.status === 'Paid' ? 'text-emerald-600' : 'text-muted-foreground'}`}
+                                    >
+                                      <HandCoins className="w-3 h-3" />
+                                      {transaction.claim?.status === 'Paid'
+                                        ? 'Reimbursed'
+                                        : transaction.claim?.status === 'Submitted'
+                                          ? 'Claimed'
+                                          : 'Reimbursable'}
+                                    </Link>
+                                  )}
+                                </div>
                                 <div className="text-sm text-muted-foreground">
-                                  {transaction.category}
+                                  {transaction.type === 'Transfer'
+                                    ? 'Transfer'
+                                    : transaction.splits.length > 0
+                                      ? `Split: ${transaction.splits.map(split => categoryLabel(categories, split.categoryId)).join(', ')}`
+                                      : categoryLabel(categories, transaction.categoryId)}
+                                  {transaction.type === 'Transfer'
+                                    ? transaction.account && ` • ${transaction.account.name} → ${transaction.toAccount?.name ?? 'Outside'}`
+                                    : transaction.account && accounts.length > 1 && ` • ${transaction.account.name}`}
+                                  {transaction.paidBy && ` • Paid by ${transaction.paidBy.name}`}
+                                  {transaction.shares.length > 0 && ` • Split ${transaction.shares.length} ways`}
                                 </div>
+                                {transaction.notes && (
+                                  <div className="text-xs text-muted-foreground line-clamp-1" title={transaction.notes}>
+                                    {transaction.notes}
+                                  </div>
+                                )}
+                                {transaction.tags.length > 0 && (
+                                  <div className="flex flex-wrap gap-1 mt-1">
+                                    {transaction.tags.map((tag) => (
+                                      <button
+                                        key={tag}
+                                        type="button"
+                                        title={`Show transactions tagged #${tag}`}
+                                        className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground"
+                                        onClick={() => setFilters(prev => ({ ...prev, search: `#${tag}` }))}
+                                      >
+                                        #{tag}
+                                      </button>
+                                    ))}
+                                  </div>
+                                )}
                               </div>
                             </div>
                             <div className="flex items-center gap-3">
                               <div className="text-right">
-                                <div className="font-semibold">
-                                  {formatAmount(transaction.amount)}
+                                <div className={`font-semibold ${transaction.type === 'Income' ? 'text-emerald-600' : transaction.type === 'Transfer' ? 'text-muted-foreground' : ''}`}>
+                                  {transaction.type === 'Income' && '+'}{formatAmount(transaction.amount)}
                                 </div>
+                                {transaction.originalAmount !== null && transaction.originalCurrency && (
+                                  <div className="text-xs text-muted-foreground">
+                                    {formatCurrency(transaction.originalAmount, transaction.originalCurrency)}
+                                  </div>
+                                )}
                               </div>
-                              <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  onClick={() => handleEditTransaction(transaction)}
-                                >
-                                  <Edit2 className="w-4 h-4" />
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  onClick={() => handleDeleteTransaction(transaction.id)}
-                                  className="text-destructive hover:text-destructive"
-                                >
-                                  <Trash2 className="w-4 h-4" />
-                                </Button>
-                              </div>
+                              {canEdit && (
+                                <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => handleEditTransaction(transaction)}
+                                  >
+                                    <Edit2 className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => handleDeleteTransaction(transaction.id)}
+                                    className="text-destructive hover:text-destructive"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              )}
                             </div>
                           </motion.div>
                         ))}
@@ -419,6 +961,13 @@ export default function RecordsPage() {
                   </Card>
                 )
               })}
+
+            {/* Loads the next page when scrolled into view */}
+            {nextCursor && (
+              <div ref={loadMoreRef} className="flex justify-center py-4 text-muted-foreground">
+                {isLoadingMore && <Loader2 className="w-5 h-5 animate-spin" />}
+              </div>
+            )}
           </div>
         )}
       </motion.div>
@@ -430,11 +979,75 @@ export default function RecordsPage() {
         onSubmit={handleSubmitTransaction}
         initialData={editingTransaction ? {
           name: editingTransaction.name,
-          amount: editingTransaction.amount.toString(),
-          category: editingTransaction.category,
+          // Edit what was actually paid; the server converts it again
+          amount: (editingTransaction.originalAmount ?? editingTransaction.amount).toString(),
+          categoryId: editingTransaction.categoryId,
           date: new Date(editingTransaction.date),
-        } : undefined}
-        isEditing={!!editingTransaction}
+          type: editingTransaction.type,
+          currency: editingTransaction.originalCurrency ?? undefined,
+          splits: editingTransaction.splits.length > 0
+            ? editingTransaction.splits.map(split => ({
+                name: split.name ?? '',
+                amount: (split.originalAmount ?? split.amount).toString(),
+                categoryId: split.categoryId,
+              }))
+            : undefined,
+          tags: editingTransaction.tags,
+          notes: editingTransaction.notes ?? '',
+          reimbursable: editingTransaction.reimbursable,
+          paidById: editingTransaction.paidBy?.id,
+          accountId: editingTransaction.account?.id,
+          toAccountId: editingTransaction.toAccount?.id ?? null,
+          billSplit: editingTransaction.billSplitMethod ? {
+            method: editingTransaction.billSplitMethod,
+            people: editingTransaction.shares.map(share => ({
+              userId: share.userId,
+              contactId: share.contactId,
+              shares: (share.weight ?? 1).toString(),
+              amount: (share.originalAmount ?? share.amount).toString(),
+            })),
+          } : null,
+        } : editingOccurrence ? {
+          name: editingOccurrence.name,
+          amount: editingOccurrence.amount.toString(),
+          categoryId: editingOccurrence.categoryId,
+          date: new Date(editingOccurrence.occurrenceDate),
+          type: editingOccurrence.type,
+        } : newTransactionDraft ?? undefined}
+        isEditing={!!editingTransaction || !!editingOccurrence}
+        allowRepeat={!ledgerId && !editingTransaction && !editingOccurrence}
+        allowSplit={!editingOccurrence}
+        allowAttachments={!editingOccurrence}
+        allowNotes={!editingOccurrence}
+        savedAttachments={editingTransaction?.attachments}
+        payers={ledgerId ? members : undefined}
+        splitPeople={ledgerId
+          ? members.map(member => ({ key: personKey({ userId: member.id }), name: member.name }))
+          : balances.people}
+        accounts={editingOccurrence ? undefined : accounts}
+      />
+
+      {/* CSV Import Modal */}
+      <ImportCsvModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        onImported={loadTransactions}
+        accounts={accounts}
+      />
+
+      {/* Batch Receipt Scanning Modal */}
+      <BatchScanModal
+        isOpen={isBatchScanModalOpen}
+        onClose={() => setIsBatchScanModalOpen(false)}
+        onSaved={loadTransactions}
+      />
+
+      {/* Budget Modal */}
+      <BudgetModal
+        isOpen={isBudgetModalOpen}
+        onClose={() => setIsBudgetModalOpen(false)}
+        budgets={budgets}
+        onSaved={loadTransactions}
       />
     </div>
   )
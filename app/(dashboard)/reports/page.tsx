@@ -4,10 +4,26 @@ import { useState, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { motion, AnimatePresence } from 'framer-motion'
-import { BarChart3, PieChart, TrendingUp, CalendarIcon } from 'lucide-react'
-import { useCurrencyStore } from '@/lib/store'
-import { getTransactionsByDateRange } from '@/lib/actions/transactions'
-import { categoryConfig } from '@/components/transactions/transaction-modal'
+import { BarChart3, PieChart, TrendingUp, CalendarIcon, Target, Wallet, Tag, Users } from 'lucide-react'
+import { useCategoryStore, useCurrencyStore, useLedgerStore } from '@/lib/store'
+import { formatCurrency } from '@/lib/currency'
+import { getTags, getTransactionsByDateRange } from '@/lib/actions/transactions'
+import { getBudgets } from '@/lib/actions/budgets'
+import { getAccounts } from '@/lib/actions/accounts'
+import type { UserAccount } from '@/lib/accounts'
+import {
+  formatStatementCycle,
+  recentStatementCycles,
+  statementCycle,
+  statementCyclesBetween,
+  type StatementCycle,
+} from '@/lib/statement-cycles'
+import { buildBudgetStatuses, countBudgetMonths, rollUpSpending } from '@/lib/budgets'
+import { categoryLabel, findCategory } from '@/lib/categories'
+import { isReimbursed, sumByCategory } from '@/lib/transactions'
+import { CategoryIcon } from '@/components/categories/category-icon'
+import { ExportMenu } from '@/components/reports/export-menu'
+import { LedgerSwitcher } from '@/components/ledgers/ledger-switcher'
 import { 
   format, 
   startOfMonth, 
@@ -15,6 +31,7 @@ import {
   startOfYear, 
   endOfYear,
   subMonths,
+  endOfDay,
   eachDayOfInterval,
   eachWeekOfInterval,
   eachMonthOfInterval,
@@ -25,6 +42,13 @@ import {
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { Calendar } from '@/components/ui/calendar'
 import { cn } from '@/lib/utils'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   ChartContainer,
   ChartTooltip,
@@ -39,7 +63,17 @@ interface Transaction {
   id: string
   name: string
   amount: number
-  category: string
+  originalAmount: number | null
+  originalCurrency: string | null
+  type: string
+  categoryId: string | null
+  // Set when the amount is split between categories
+  splits: { amount: number; categoryId: string | null }[]
+  tags: string[]
+  // Set for reimbursable expenses sent off in a claim
+  claim: { status: string } | null
+  // The member who paid, in a shared ledger
+  paidBy: { id: string; name: string } | null
   date: Date
   createdAt: Date
   updatedAt: Date
@@ -47,36 +81,93 @@ interface Transaction {
 
 type TimePeriod = 'thisMonth' | 'last3Months' | 'thisYear' | 'custom'
 
-const COLORS = [
-  'oklch(0.7357 0.1641 34.7091)',
-  'oklch(0.8278 0.1131 57.9984)',
-  'oklch(0.8773 0.0763 54.9314)',
-  'oklch(0.8200 0.1054 40.8859)',
-  'oklch(0.6368 0.1306 32.0721)',
-  'oklch(0.7357 0.1641 34.7091)',
-  'oklch(0.8278 0.1131 57.9984)',
-  'oklch(0.8773 0.0763 54.9314)',
-  'oklch(0.8200 0.1054 40.8859)',
-  'oklch(0.6368 0.1306 32.0721)',
-]
+// How many statement cycles each period covers when grouping by a card's
+// cycles; custom ranges keep their dates
+const periodCycles: Partial<Record<TimePeriod, number>> = {
+  thisMonth: 1,
+  last3Months: 3,
+  thisYear: 12,
+}
+
+// Group by value for calendar months
+const CALENDAR_MONTHS = 'calendar'
+
+// Chart key and color for transactions without a category
+const UNCATEGORIZED = 'uncategorized'
+const UNCATEGORIZED_COLOR = 'oklch(0.7 0 0)'
 
 export default function ReportsPage() {
   const { formatAmount } = useCurrencyStore()
+  const categories = useCategoryStore((state) => state.categories)
+  // A shared ledger's reports; budgets are personal, so they're left out
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
   const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [budgets, setBudgets] = useState<{ categoryId: string; amount: number }[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>('thisMonth')
   const [customStartDate, setCustomStartDate] = useState<Date | undefined>(undefined)
   const [customEndDate, setCustomEndDate] = useState<Date | undefined>(undefined)
   const [customRangeOpen, setCustomRangeOpen] = useState(false)
   const [mounted, setMounted] = useState(false)
+  // Tags the user has used, and the one the reports are narrowed to
+  const [tags, setTags] = useState<string[]>([])
+  const [selectedTag, setSelectedTag] = useState<string | null>(null)
+  // Credit cards with a closing day, and the one whose statement cycles
+  // the reports are grouped by instead of calendar months
+  const [accounts, setAccounts] = useState<UserAccount[]>([])
+  const [cycleCardId, setCycleCardId] = useState<string | null>(null)
 
   useEffect(() => {
     setMounted(true)
   }, [])
 
+  useEffect(() => {
+    setCycleCardId(null)
+    getAccounts(ledgerId).then((result) => {
+      if (result.success) {
+        setAccounts(result.accounts)
+      }
+    })
+  }, [ledgerId])
+
+  const cycleCards = useMemo(
+    () => accounts.filter(a => a.type === 'CreditCard' && !a.archived && a.statementClosingDay !== null),
+    [accounts]
+  )
+  const closingDay = cycleCards.find(a => a.id === cycleCardId)?.statementClosingDay ?? null
+
+  useEffect(() => {
+    setSelectedTag(null)
+    getTags(ledgerId).then((result) => {
+      if (result.success) {
+        setTags(result.tags.map(t => t.tag))
+      }
+    })
+  }, [ledgerId])
+
+  useEffect(() => {
+    getBudgets().then((result) => {
+      if (result.success) {
+        setBudgets(result.budgets)
+      }
+    })
+  }, [])
+
   // Calculate date range based on selected period
-  const { startDate, endDate } = useMemo(() => {
+  const { startDate, endDate, cycles } = useMemo((): { startDate: Date; endDate: Date; cycles?: StatementCycle[] } => {
     const now = new Date()
+
+    const cycleCount = periodCycles[selectedPeriod]
+    if (closingDay !== null && cycleCount) {
+      const cycles = cycleCount === 1
+        ? [statementCycle(closingDay, now)]
+        : recentStatementCycles(closingDay, cycleCount, now)
+      return {
+        startDate: cycles[0].start,
+        endDate: endOfDay(cycles[cycles.length - 1].end),
+        cycles,
+      }
+    }
     
     switch (selectedPeriod) {
       case 'thisMonth':
@@ -105,16 +196,16 @@ export default function ReportsPage() {
           endDate: endOfMonth(now)
         }
     }
-  }, [selectedPeriod, customStartDate, customEndDate])
+  }, [selectedPeriod, customStartDate, customEndDate, closingDay])
 
   useEffect(() => {
     loadTransactions()
-  }, [startDate, endDate])
+  }, [startDate, endDate, ledgerId])
 
   const loadTransactions = async () => {
     setIsLoading(true)
     try {
-      const result = await getTransactionsByDateRange(startDate, endDate)
+      const result = await getTransactionsByDateRange(startDate, endDate, ledgerId)
       if (result.success) {
         const convertedTransactions = result.transactions.map((t: any) => ({
           ...t,
@@ -138,38 +229,91 @@ export default function ReportsPage() {
     }
   }
 
-  // Group transactions by category
+  // A tag narrows every report to a trip or project across categories
+  const reportTransactions = useMemo(
+    () => selectedTag ? transactions.filter(t => t.tags.includes(selectedTag)) : transactions,
+    [transactions, selectedTag]
+  )
+
+  // Transfers are neither spending nor income, so they are left out of
+  // every report. Expenses paid back through a claim are offset by the
+  // reimbursement, so they are left out too.
+  const expenses = useMemo(
+    () => reportTransactions.filter(t => t.type === 'Expense' && !isReimbursed(t)),
+    [reportTransactions]
+  )
+  const reimbursedTotal = reportTransactions
+    .filter(t => t.type === 'Expense' && isReimbursed(t))
+    .reduce((sum, t) => sum + t.amount, 0)
+  const income = useMemo(() => reportTransactions.filter(t => t.type === 'Income'), [reportTransactions])
+
+  // Group transactions by category id; split transactions count towards
+  // each of their splits' categories
   const categoryData = useMemo(() => {
-    const grouped = transactions.reduce((acc, transaction) => {
-      const category = transaction.category
-      if (!acc[category]) {
-        acc[category] = 0
-      }
-      acc[category] += transaction.amount
-      return acc
-    }, {} as Record<string, number>)
+    const grouped = sumByCategory(expenses, UNCATEGORIZED)
 
     return Object.entries(grouped)
       .map(([category, total]) => {
-        const config = categoryConfig.find(c => c.value === category)
         return {
           category,
-          label: config?.label || category,
+          label: categoryLabel(categories, category),
           value: total,
-          fill: COLORS[categoryConfig.findIndex(c => c.value === category) % COLORS.length]
+          fill: findCategory(categories, category)?.color || UNCATEGORIZED_COLOR
         }
       })
       .sort((a, b) => b.value - a.value)
-  }, [transactions])
+  }, [expenses, categories])
+
+  // Spending per member who paid, for shared ledgers
+  const paidByData = useMemo(() => {
+    const totals = new Map<string, { id: string; name: string; value: number }>()
+    for (const transaction of expenses) {
+      const id = transaction.paidBy?.id ?? ''
+      const entry = totals.get(id) ?? { id, name: transaction.paidBy?.name ?? 'Former member', value: 0 }
+      entry.value += transaction.amount
+      totals.set(id, entry)
+    }
+    return [...totals.values()].sort((a, b) => b.value - a.value)
+  }, [expenses])
+
+  // Compare spending against the monthly budgets, scaled to the selected period
+  const budgetData = useMemo(() => {
+    const spentByCategory = categoryData.reduce((acc, item) => {
+      acc[item.category] = item.value
+      return acc
+    }, {} as Record<string, number>)
+
+    // A parent category's budget covers its subcategories too
+    // A statement cycle counts as one month, though it spans two
+    const months = cycles ? cycles.length : countBudgetMonths(startDate, endDate)
+    return buildBudgetStatuses(budgets, rollUpSpending(spentByCategory, categories), months)
+      .sort((a, b) => b.spent / b.limit - a.spent / a.limit)
+  }, [budgets, categoryData, categories, startDate, endDate, cycles])
 
   // Group transactions by time period for trend
   const trendData = useMemo(() => {
-    if (transactions.length === 0) return []
+    if (reportTransactions.length === 0) return []
 
     const period = selectedPeriod
     let intervals: Date[]
     let formatFn: (date: Date) => string
 
+    // Longer periods grouped by a card's statement cycles, which cross
+    // calendar months
+    if (closingDay !== null && period !== 'thisMonth') {
+      return statementCyclesBetween(closingDay, startDate, endDate).map(cycle => {
+        const inCycle = (t: Transaction) => {
+          const tDate = new Date(t.date)
+          return tDate >= cycle.start && tDate < addDays(cycle.end, 1)
+        }
+        return {
+          date: formatStatementCycle(cycle),
+          amount: expenses.filter(inCycle).reduce((sum, t) => sum + t.amount, 0),
+          income: income.filter(inCycle).reduce((sum, t) => sum + t.amount, 0),
+        }
+      })
+    }
+
     if (period === 'thisMonth') {
       intervals = eachDayOfInterval({ start: startDate, end: endDate })
       formatFn = (date) => format(date, 'MMM d')
@@ -189,41 +333,53 @@ export default function ReportsPage() {
         ? addWeeks(intervalStart, 1)
         : addMonths(intervalStart, 1)
 
-      const amount = transactions
-        .filter(t => {
-          const tDate = new Date(t.date)
-          return tDate >= intervalStart && tDate < intervalEnd
-        })
+      const inInterval = (t: Transaction) => {
+        const tDate = new Date(t.date)
+        return tDate >= intervalStart && tDate < intervalEnd
+      }
+
+      const amount = expenses
+        .filter(inInterval)
+        .reduce((sum, t) => sum + t.amount, 0)
+      const incomeAmount = income
+        .filter(inInterval)
         .reduce((sum, t) => sum + t.amount, 0)
 
       return {
         date: formatFn(interval),
-        amount: amount
+        amount: amount,
+        income: incomeAmount
       }
     })
 
     return grouped
-  }, [transactions, selectedPeriod, startDate, endDate])
+  }, [reportTransactions, expenses, income, selectedPeriod, startDate, endDate, closingDay])
 
   // Top expenses
   const topExpenses = useMemo(() => {
-    return [...transactions]
+    return [...expenses]
       .sort((a, b) => b.amount - a.amount)
       .slice(0, 10)
-  }, [transactions])
+  }, [expenses])
 
   const chartConfig: ChartConfig = useMemo(() => {
-    const config: ChartConfig = {}
-    categoryConfig.forEach((cat, index) => {
-      config[cat.value] = {
-        label: cat.label,
-        color: COLORS[index % COLORS.length]
+    const config: ChartConfig = {
+      [UNCATEGORIZED]: { label: 'Uncategorized', color: UNCATEGORIZED_COLOR },
+    }
+    categories.forEach((cat) => {
+      config[cat.id] = {
+        label: categoryLabel(categories, cat.id),
+        color: cat.color
       }
     })
     return config
-  }, [])
+  }, [categories])
 
-  const totalSpending = transactions.reduce((sum, t) => sum + t.amount, 0)
+  const totalSpending = expenses.reduce((sum, t) => sum + t.amount, 0)
+  const totalIncome = income.reduce((sum, t) => sum + t.amount, 0)
+  const netSavings = totalIncome - totalSpending
+  // Share of income that wasn't spent; undefined without income
+  const savingsRate = totalIncome > 0 ? (netSavings / totalIncome) * 100 : null
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-6xl">
@@ -237,6 +393,9 @@ export default function ReportsPage() {
         <div className="text-center space-y-2">
           <h1 className="text-3xl font-bold font-serif">Reports</h1>
           <p className="text-muted-foreground">Analyze your spending patterns</p>
+          <div className="flex justify-center">
+            <LedgerSwitcher />
+          </div>
         </div>
 
         {/* Date Range Filter */}
@@ -252,21 +411,21 @@ export default function ReportsPage() {
                 size="sm"
                 onClick={() => setSelectedPeriod('thisMonth')}
               >
-                This Month
+                {closingDay !== null ? 'This Cycle' : 'This Month'}
               </Button>
               <Button
                 variant={selectedPeriod === 'last3Months' ? 'default' : 'outline'}
                 size="sm"
                 onClick={() => setSelectedPeriod('last3Months')}
               >
-                Last 3 Months
+                {closingDay !== null ? 'Last 3 Cycles' : 'Last 3 Months'}
               </Button>
               <Button
                 variant={selectedPeriod === 'thisYear' ? 'default' : 'outline'}
                 size="sm"
                 onClick={() => setSelectedPeriod('thisYear')}
               >
-                This Year
+                {closingDay !== null ? 'Last 12 Cycles' : 'This Year'}
               </Button>
               <Popover open={customRangeOpen} onOpenChange={setCustomRangeOpen}>
                 <PopoverTrigger asChild>
@@ -315,8 +474,94 @@ export default function ReportsPage() {
                 </PopoverContent>
               </Popover>
             </div>
-            <div className="mt-4 text-sm text-muted-foreground">
-              {format(startDate, 'MMM d, yyyy')} - {format(endDate, 'MMM d, yyyy')} • Total: {mounted ? formatAmount(totalSpending) : '$0.00'}
+            {cycleCards.length > 0 && (
+              <div className="mt-4 flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground">Group by</span>
+                <Select
+                  value={cycleCardId ?? CALENDAR_MONTHS}
+                  onValueChange={(value) => setCycleCardId(value === CALENDAR_MONTHS ? null : value)}
+                >
+                  <SelectTrigger className="w-[240px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CALENDAR_MONTHS}>Calendar months</SelectItem>
+                    {cycleCards.map((card) => (
+                      <SelectItem key={card.id} value={card.id}>
+                        {card.name} statements (closing day {card.statementClosingDay})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {tags.length > 0 && (
+              <div className="mt-4 flex flex-wrap items-center gap-2">
+                <Tag className="w-4 h-4 text-muted-foreground" />
+                <Button
+                  variant={selectedTag === null ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setSelectedTag(null)}
+                >
+                  All
+                </Button>
+                {tags.map((tag) => (
+                  <Button
+                    key={tag}
+                    variant={selectedTag === tag ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setSelectedTag(tag)}
+                  >
+                    #{tag}
+                  </Button>
+                ))}
+              </div>
+            )}
+            <div className="mt-4 flex items-center justify-between gap-2">
+              <div className="text-sm text-muted-foreground">
+                {format(startDate, 'MMM d, yyyy')} - {format(endDate, 'MMM d, yyyy')}{selectedTag && ` • #${selectedTag}`} • Total: {mounted ? formatAmount(totalSpending) : '$0.00'}
+                {reimbursedTotal > 0 && mounted && ` (${formatAmount(reimbursedTotal)} reimbursed)`}
+              </div>
+              <ExportMenu startDate={startDate} endDate={endDate} tag={selectedTag} ledgerId={ledgerId} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Cash Flow */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="w-5 h-5" />
+              Cash Flow
+            </CardTitle>
+            <CardDescription>Income, expenses and net savings for the selected period</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <div className="text-sm text-muted-foreground">Income</div>
+                <div className="text-xl font-semibold text-emerald-600">
+                  {mounted ? formatAmount(totalIncome) : `$${totalIncome.toFixed(2)}`}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Expenses</div>
+                <div className="text-xl font-semibold">
+                  {mounted ? formatAmount(totalSpending) : `$${totalSpending.toFixed(2)}`}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Net Savings</div>
+                <div className={cn('text-xl font-semibold', netSavings < 0 ? 'text-destructive' : 'text-emerald-600')}>
+                  {netSavings < 0 ? '-' : ''}{mounted ? formatAmount(Math.abs(netSavings)) : `$${Math.abs(netSavings).toFixed(2)}`}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Savings Rate</div>
+                <div className="text-xl font-semibold">
+                  {savingsRate === null ? '—' : `${savingsRate.toFixed(0)}%`}
+                </div>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -394,7 +639,7 @@ export default function ReportsPage() {
                   Spending Trend
                 </CardTitle>
                 <CardDescription>
-                  Your spending over time
+                  Your spending and income over time
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -402,7 +647,7 @@ export default function ReportsPage() {
                   <div className="h-[300px] flex items-center justify-center">
                     <div className="animate-pulse text-muted-foreground">Loading...</div>
                   </div>
-                ) : trendData.length === 0 || trendData.every(d => d.amount === 0) ? (
+                ) : trendData.length === 0 || trendData.every(d => d.amount === 0 && d.income === 0) ? (
                   <div className="text-center py-12">
                     <TrendingUp className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                     <p className="text-muted-foreground">
@@ -417,6 +662,10 @@ export default function ReportsPage() {
                           <stop offset="5%" stopColor="oklch(0.7357 0.1641 34.7091)" stopOpacity={0.8}/>
                           <stop offset="95%" stopColor="oklch(0.7357 0.1641 34.7091)" stopOpacity={0}/>
                         </linearGradient>
+                        <linearGradient id="colorIncome" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor="oklch(0.6959 0.1491 162.4796)" stopOpacity={0.6}/>
+                          <stop offset="95%" stopColor="oklch(0.6959 0.1491 162.4796)" stopOpacity={0}/>
+                        </linearGradient>
                       </defs>
                       <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                       <XAxis 
@@ -439,6 +688,15 @@ export default function ReportsPage() {
                         fillOpacity={1}
                         fill="url(#colorAmount)"
                       />
+                      {totalIncome > 0 && (
+                        <Area
+                          type="monotone"
+                          dataKey="income"
+                          stroke="oklch(0.6959 0.1491 162.4796)"
+                          fillOpacity={1}
+                          fill="url(#colorIncome)"
+                        />
+                      )}
                     </AreaChart>
                   </ChartContainer>
                 )}
@@ -447,6 +705,118 @@ export default function ReportsPage() {
           </motion.div>
         </div>
 
+        {/* Who paid how much in a shared ledger */}
+        {ledgerId && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="w-5 h-5" />
+                  Paid By
+                </CardTitle>
+                <CardDescription>
+                  Spending per member in the selected period
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="py-12 flex items-center justify-center">
+                    <div className="animate-pulse text-muted-foreground">Loading...</div>
+                  </div>
+                ) : paidByData.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">
+                      No expenses found for the selected period.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {paidByData.map((member) => (
+                      <div key={member.id} className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="font-medium">{member.name}</span>
+                          <span className="text-muted-foreground">
+                            {mounted ? formatAmount(member.value) : `$${member.value.toFixed(2)}`}
+                          </span>
+                        </div>
+                        <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+                          <div
+                            className="h-full rounded-full bg-primary"
+                            style={{ width: `${totalSpending > 0 ? (member.value / totalSpending) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Budget vs Actual; budgets cover all spending, so not for a tag */}
+        {!ledgerId && !selectedTag && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Target className="w-5 h-5" />
+                  Budget vs Actual
+                </CardTitle>
+                <CardDescription>
+                  Spending per category against your monthly budgets
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="py-12 flex items-center justify-center">
+                    <div className="animate-pulse text-muted-foreground">Loading...</div>
+                  </div>
+                ) : budgetData.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Target className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">
+                      No budgets set. Add monthly budgets from the Records page to compare them here.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {budgetData.map((status) => {
+                      const percent = status.limit > 0 ? Math.min(100, (status.spent / status.limit) * 100) : 100
+
+                      return (
+                        <div key={status.categoryId} className="space-y-1">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="font-medium">{categoryLabel(categories, status.categoryId)}</span>
+                            <span className={cn(status.overspent ? 'text-destructive' : 'text-muted-foreground')}>
+                              {mounted ? formatAmount(status.spent) : `$${status.spent.toFixed(2)}`} / {mounted ? formatAmount(status.limit) : `$${status.limit.toFixed(2)}`}
+                            </span>
+                          </div>
+                          <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+                            <div
+                              className={cn('h-full rounded-full', status.overspent ? 'bg-destructive' : 'bg-primary')}
+                              style={{ width: `${percent}%` }}
+                            />
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
         {/* Top Expenses */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -479,9 +849,8 @@ export default function ReportsPage() {
                 <div className="space-y-3">
                   <AnimatePresence>
                     {topExpenses.map((transaction, index) => {
-                      const category = categoryConfig.find(c => c.value === transaction.category)
-                      const Icon = category?.icon || categoryConfig[categoryConfig.length - 1].icon
-                      
+                      const category = findCategory(categories, transaction.categoryId)
+
                       return (
                         <motion.div
                           key={transaction.id}
@@ -492,16 +861,23 @@ export default function ReportsPage() {
                           className="flex items-center gap-3 p-3 border rounded-lg hover:bg-muted/50"
                         >
                           <div className="flex items-center gap-3 flex-1">
-                            <Icon className="w-5 h-5 text-muted-foreground" />
+                            <CategoryIcon icon={category?.icon} className="w-5 h-5" style={{ color: category?.color }} />
                             <div>
                               <div className="font-medium">{transaction.name}</div>
                               <div className="text-sm text-muted-foreground">
-                                {category?.label || transaction.category} • {format(new Date(transaction.date), 'MMM d, yyyy')}
+                                {transaction.splits.length > 0
+                                  ? `Split: ${transaction.splits.map(split => categoryLabel(categories, split.categoryId)).join(', ')}`
+                                  : categoryLabel(categories, transaction.categoryId)} • {format(new Date(transaction.date), 'MMM d, yyyy')}
                               </div>
                             </div>
                           </div>
                           <div className="text-right">
                             <div className="font-semibold">{mounted ? formatAmount(transaction.amount) : `$${transaction.amount.toFixed(2)}`}</div>
+                            {transaction.originalAmount !== null && transaction.originalCurrency && (
+                              <div className="text-xs text-muted-foreground">
+                                {formatCurrency(transaction.originalAmount, transaction.originalCurrency)}
+                              </div>
+                            )}
                           </div>
                         </motion.div>
                       )
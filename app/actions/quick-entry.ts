@@ -0,0 +1,56 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { ensureUser } from '@/lib/user'
+import { getCategoryChoices } from '@/lib/user-categories'
+import { getReceiptScanner } from '@/lib/receipt-scanner'
+import { getErrorMessage } from '@/lib/utils'
+import {
+  buildQuickEntryPrompt,
+  buildQuickEntrySchema,
+  parseQuickEntryResponse,
+  type QuickEntryCompletion,
+} from '@/lib/quick-entry'
+
+// Longest note sent to the model; quick entry is meant for one line
+const MAX_NOTE_LENGTH = 200
+
+// Ask the configured AI model about a quick entry note the parser couldn't
+// fully resolve. 'today' is the user's local date ("YYYY-MM-DD"), since
+// "yesterday" depends on where they are rather than on the server's clock.
+export async function completeQuickEntryWithAi(
+  text: string,
+  today: string
+): Promise<{ success: boolean; data?: QuickEntryCompletion; error?: string }> {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    if (!text.trim() || text.length > MAX_NOTE_LENGTH || !/^\d{4}-\d{2}-\d{2}$/.test(today)) {
+      return { success: false, error: 'Invalid quick entry' }
+    }
+
+    // Ensure user exists (and has the default categories)
+    await ensureUser(userId)
+
+    const scanner = getReceiptScanner()
+    if (!scanner.success) {
+      console.error('Receipt scanner not configured:', scanner.error)
+      return { success: false, error: scanner.error }
+    }
+
+    const categories = await getCategoryChoices(userId)
+    const names = categories.map(c => c.name)
+    const response = await scanner.scanner.complete(
+      buildQuickEntryPrompt(text, today, names),
+      buildQuickEntrySchema(names)
+    )
+
+    return { success: true, data: parseQuickEntryResponse(response, categories) }
+  } catch (error) {
+    console.error('Error completing quick entry:', error)
+    return { success: false, error: `Failed to read the note: ${getErrorMessage(error)}` }
+  }
+}
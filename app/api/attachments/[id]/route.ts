@@ -0,0 +1,50 @@
+import { auth } from '@clerk/nextjs/server'
+import { prisma } from '@/lib/prisma'
+import { getAttachmentStorage } from '@/lib/attachment-storage'
+import { visibleTransactionWhere } from '@/lib/user-ledgers'
+
+// GET /api/attachments/<id>
+// Serves one of the signed-in user's attachments, or one of a ledger
+// they belong to. Shown inline so receipts
+// open in the browser; add ?download to save the file instead.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth()
+
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized: Please sign in' }, { status: 401 })
+  }
+
+  const { id } = await params
+  const attachment = await prisma.attachment.findFirst({
+    where: { id: id, transaction: visibleTransactionWhere(userId) },
+  })
+  if (!attachment) {
+    return Response.json({ error: 'Attachment not found' }, { status: 404 })
+  }
+
+  const storage = getAttachmentStorage()
+  if (!storage.success) {
+    console.error('Attachment storage not configured:', storage.error)
+    return Response.json({ error: storage.error }, { status: 500 })
+  }
+
+  const data = await storage.storage.get(attachment.storageKey)
+  if (!data) {
+    console.error(`Attachment ${attachment.id} is missing from ${storage.storage.name}`)
+    return Response.json({ error: 'The file is missing from storage' }, { status: 404 })
+  }
+
+  const disposition = new URL(request.url).searchParams.has('download') ? 'attachment' : 'inline'
+
+  return new Response(new Uint8Array(data), {
+    headers: {
+      'Content-Type': attachment.mimeType,
+      'Content-Length': String(data.length),
+      'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+      // Uploaded content is served from our origin, so don't let it be
+      // sniffed into something executable
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, max-age=3600',
+    },
+  })
+}
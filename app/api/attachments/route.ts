@@ -0,0 +1,73 @@
+import { auth } from '@clerk/nextjs/server'
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/prisma'
+import { getAttachmentStorage, newStorageKey } from '@/lib/attachment-storage'
+import { cleanFileName, validateAttachment } from '@/lib/attachments'
+import { serializeAttachment } from '@/lib/transactions'
+import { editableTransactionWhere } from '@/lib/user-ledgers'
+
+// POST /api/attachments, multipart form data with 'transactionId' and 'file'.
+// Stores the file and attaches it to one of the signed-in user's transactions,
+// or to one in a ledger they can edit.
+export async function POST(request: Request) {
+  const { userId } = await auth()
+
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized: Please sign in' }, { status: 401 })
+  }
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return Response.json({ error: 'Expected multipart form data' }, { status: 400 })
+  }
+
+  const transactionId = form.get('transactionId')
+  const file = form.get('file')
+  if (typeof transactionId !== 'string' || !(file instanceof File)) {
+    return Response.json({ error: 'A transactionId and a file are required' }, { status: 400 })
+  }
+
+  const invalid = validateAttachment(file)
+  if (invalid) {
+    return Response.json({ error: invalid }, { status: 400 })
+  }
+
+  const transaction = await prisma.transaction.findFirst({
+    where: { id: transactionId, ...editableTransactionWhere(userId) },
+    select: { id: true },
+  })
+  if (!transaction) {
+    return Response.json({ error: 'Transaction not found' }, { status: 404 })
+  }
+
+  const storage = getAttachmentStorage()
+  if (!storage.success) {
+    console.error('Attachment storage not configured:', storage.error)
+    return Response.json({ error: storage.error }, { status: 500 })
+  }
+
+  const storageKey = newStorageKey(userId)
+  try {
+    await storage.storage.put(storageKey, Buffer.from(await file.arrayBuffer()))
+
+    const attachment = await prisma.attachment.create({
+      data: {
+        fileName: cleanFileName(file.name),
+        mimeType: file.type,
+        size: file.size,
+        storageKey: storageKey,
+        transactionId: transaction.id,
+      },
+    })
+
+    revalidatePath('/records')
+    return Response.json({ attachment: serializeAttachment(attachment) }, { status: 201 })
+  } catch (error) {
+    console.error('Error storing attachment:', error)
+    // Don't leave a file behind that no row points to
+    await storage.storage.delete(storageKey).catch(() => {})
+    return Response.json({ error: 'Failed to store the attachment' }, { status: 500 })
+  }
+}
@@ -0,0 +1,145 @@
+import { auth } from '@clerk/nextjs/server'
+import { format, parseISO, isValid, startOfMonth, endOfMonth } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { formatCategoryName } from '@/lib/categories'
+import { normalizeTags } from '@/lib/tags'
+import { serializeTransaction, transactionFiltersWhere } from '@/lib/transactions'
+import { resolveScope } from '@/lib/user-ledgers'
+import { getExportWriter, isExportFormat, signedAmount, type ExportMeta } from '@/lib/export'
+
+// Rows fetched per query while streaming, so large exports stay flat in memory
+const BATCH_SIZE = 500
+
+// GET /api/export?format=csv|json|ofx&from=YYYY-MM-DD&to=YYYY-MM-DD&category=<id>,<id>&tag=<tag>,<tag>&ledger=<id>
+// Streams the signed-in user's transactions, or with ledger those of a
+// shared ledger they belong to. Without from/to the current
+// month is exported; without category every category is included.
+// Categories are given by id; a parent category includes its subcategories.
+// With tag only transactions with one of the tags are exported.
+export async function GET(request: Request) {
+  const { userId } = await auth()
+
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized: Please sign in' }, { status: 401 })
+  }
+
+  const params = new URL(request.url).searchParams
+
+  const exportFormat = params.get('format') || 'csv'
+  if (!isExportFormat(exportFormat)) {
+    return Response.json({ error: `Invalid format: ${exportFormat}` }, { status: 400 })
+  }
+
+  const now = new Date()
+  const startDate = params.get('from') ? parseISO(params.get('from')!) : startOfMonth(now)
+  const endDate = params.get('to') ? parseISO(params.get('to')!) : endOfMonth(now)
+  if (!isValid(startDate) || !isValid(endDate) || startDate > endDate) {
+    return Response.json({ error: 'Invalid date range' }, { status: 400 })
+  }
+
+  const categoryIds = params.getAll('category').flatMap(value => value.split(',')).filter(Boolean)
+  const tags = normalizeTags(params.getAll('tag').flatMap(value => value.split(',')))
+
+  const user = await ensureUser(userId)
+
+  const access = await resolveScope(userId, params.get('ledger'), 'view')
+  if (!access.success) {
+    return Response.json({ error: access.error }, { status: 404 })
+  }
+  const { scope } = access
+
+  if (categoryIds.length > 0) {
+    const found = await prisma.category.findMany({
+      where: { userId: scope.categoryOwnerId, id: { in: categoryIds } },
+      select: { id: true },
+    })
+    const invalidCategory = categoryIds.find(id => !found.some(c => c.id === id))
+    if (invalidCategory) {
+      return Response.json({ error: `Invalid category: ${invalidCategory}` }, { status: 400 })
+    }
+  }
+
+  const where = transactionFiltersWhere(scope.where, { startDate, endDate, categoryIds, tags })
+
+  const meta: ExportMeta = {
+    userId,
+    currency: scope.ledger?.currency ?? user.currency,
+    startDate,
+    endDate,
+    generatedAt: now,
+  }
+  const writer = getExportWriter(exportFormat)
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        controller.enqueue(encoder.encode(writer.header(meta)))
+
+        let cursor: string | undefined
+        let index = 0
+        let net = 0
+
+        // Page through with a cursor instead of loading everything at once
+        while (true) {
+          const batch = await prisma.transaction.findMany({
+            where,
+            orderBy: [{ date: 'asc' }, { id: 'asc' }],
+            include: {
+              category: { include: { parent: true } },
+              account: { select: { id: true, name: true } },
+              toAccount: { select: { id: true, name: true } },
+              splits: {
+                orderBy: { createdAt: 'asc' },
+                include: { category: { include: { parent: true } } },
+              },
+            },
+            take: BATCH_SIZE,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+          })
+
+          for (const { category, splits, ...transaction } of batch) {
+            const serialized = serializeTransaction(transaction)
+            const nameOf = (c: typeof category) => c ? formatCategoryName(c, c.parent) : null
+            const splitRows = splits.map(split => ({
+              name: split.name,
+              categoryName: nameOf(split.category),
+              amount: Number(split.amount),
+            }))
+            const row = {
+              ...serialized,
+              categoryName: splitRows.length > 0
+                ? `Split: ${splitRows.map(split => split.categoryName || 'Uncategorized').join(', ')}`
+                : nameOf(category),
+              splits: splitRows,
+            }
+            controller.enqueue(encoder.encode(writer.row(row, index++, meta)))
+            if (serialized.type !== 'Transfer') {
+              net += signedAmount(serialized)
+            }
+          }
+
+          if (batch.length < BATCH_SIZE) break
+          cursor = batch[batch.length - 1].id
+        }
+
+        controller.enqueue(encoder.encode(writer.footer(meta, { net })))
+        controller.close()
+      } catch (error) {
+        console.error('Error exporting transactions:', error)
+        controller.error(error)
+      }
+    },
+  })
+
+  const fileName = `transactions-${format(startDate, 'yyyy-MM-dd')}-to-${format(endDate, 'yyyy-MM-dd')}.${writer.extension}`
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': writer.contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -0,0 +1,76 @@
+import { auth } from '@clerk/nextjs/server'
+import { after } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { getAttachmentStorage, newStorageKey } from '@/lib/attachment-storage'
+import { cleanFileName, validateReceiptImage } from '@/lib/attachments'
+import { processScanQueue, removeExpiredScans, serializeReceiptScan } from '@/lib/scan-queue'
+
+// POST /api/receipt-scans, multipart form data with 'batchId' and 'file'.
+// Stores one receipt image and queues it for scanning; the client uploads a
+// batch one file at a time and follows progress with getScanBatch.
+export async function POST(request: Request) {
+  const { userId } = await auth()
+
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized: Please sign in' }, { status: 401 })
+  }
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return Response.json({ error: 'Expected multipart form data' }, { status: 400 })
+  }
+
+  const batchId = form.get('batchId')
+  const file = form.get('file')
+  if (typeof batchId !== 'string' || !batchId || !(file instanceof File)) {
+    return Response.json({ error: 'A batchId and a file are required' }, { status: 400 })
+  }
+
+  const invalid = validateReceiptImage(file)
+  if (invalid) {
+    return Response.json({ error: invalid }, { status: 400 })
+  }
+
+  const storage = getAttachmentStorage()
+  if (!storage.success) {
+    console.error('Attachment storage not configured:', storage.error)
+    return Response.json({ error: storage.error }, { status: 500 })
+  }
+
+  // Ensure user exists (and has the categories the scanner picks from)
+  await ensureUser(userId)
+
+  const storageKey = newStorageKey(userId)
+  try {
+    await storage.storage.put(storageKey, Buffer.from(await file.arrayBuffer()))
+
+    const scan = await prisma.receiptScan.create({
+      data: {
+        batchId: batchId,
+        fileName: cleanFileName(file.name),
+        mimeType: file.type,
+        size: file.size,
+        storageKey: storageKey,
+        userId: userId,
+      },
+    })
+
+    // Scan once the response is sent, so uploading the rest isn't held up
+    after(async () => {
+      await removeExpiredScans(userId).catch(error => {
+        console.error('Error removing expired receipt scans:', error)
+      })
+      await processScanQueue()
+    })
+
+    return Response.json({ scan: serializeReceiptScan(scan) }, { status: 201 })
+  } catch (error) {
+    console.error('Error queueing receipt scan:', error)
+    // Don't leave a file behind that no row points to
+    await storage.storage.delete(storageKey).catch(() => {})
+    return Response.json({ error: 'Failed to queue the receipt' }, { status: 500 })
+  }
+}
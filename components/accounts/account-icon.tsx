@@ -0,0 +1,19 @@
+import { type LucideIcon, Banknote, CreditCard, Landmark, PiggyBank, Wallet } from 'lucide-react'
+
+const accountIcons: Record<string, LucideIcon> = {
+  Cash: Banknote,
+  Checking: Landmark,
+  Savings: PiggyBank,
+  CreditCard: CreditCard,
+}
+
+interface AccountIconProps {
+  // The account type; unknown types show a wallet
+  type: string
+  className?: string
+}
+
+export function AccountIcon({ type, className }: AccountIconProps) {
+  const Icon = accountIcons[type] ?? Wallet
+  return <Icon className={className} />
+}
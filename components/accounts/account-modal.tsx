@@ -0,0 +1,178 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { MAX_ACCOUNT_NAME_LENGTH, accountTypeOptions, type UserAccount } from '@/lib/accounts'
+import type { AccountFormData } from '@/lib/actions/accounts'
+
+interface AccountModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (data: AccountFormData) => Promise<boolean>
+  // The account being edited; a new one is created when unset
+  account?: UserAccount | null
+}
+
+export function AccountModal({ isOpen, onClose, onSubmit, account }: AccountModalProps) {
+  const [formData, setFormData] = useState<AccountFormData>({ name: '', type: 'Checking', openingBalance: '' })
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the edited account (or a blank form) every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setFormData({
+        name: account?.name ?? '',
+        type: account?.type ?? 'Checking',
+        openingBalance: account ? account.openingBalance.toString() : '',
+        statementClosingDay: account?.statementClosingDay?.toString() ?? '',
+        paymentDueDay: account?.paymentDueDay?.toString() ?? '',
+        archived: account?.archived,
+      })
+    }
+  }, [isOpen, account])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim()) return
+
+    setIsSaving(true)
+    try {
+      if (await onSubmit(formData)) {
+        onClose()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{account ? 'Edit Account' : 'New Account'}</DialogTitle>
+          {!account && (
+            <DialogDescription>
+              Cash, a bank account or a card you pay from.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="account-name">Name</Label>
+            <Input
+              id="account-name"
+              placeholder="e.g., Visa ending 4242"
+              maxLength={MAX_ACCOUNT_NAME_LENGTH}
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="account-type">Type</Label>
+            <Select
+              value={formData.type}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, type: value }))}
+            >
+              <SelectTrigger id="account-type" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {accountTypeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="account-opening">Opening Balance</Label>
+            <Input
+              id="account-opening"
+              type="number"
+              step="0.01"
+              placeholder="0.00"
+              value={formData.openingBalance}
+              onChange={(e) => setFormData(prev => ({ ...prev, openingBalance: e.target.value }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              {formData.type === 'CreditCard'
+                ? 'What was owed before the first transaction, as a negative amount.'
+                : 'What was in the account before the first transaction.'}
+            </p>
+          </div>
+
+          {formData.type === 'CreditCard' && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="account-closing-day">Statement closes on day</Label>
+                  <Input
+                    id="account-closing-day"
+                    type="number"
+                    min="1"
+                    max="31"
+                    step="1"
+                    placeholder="e.g., 24"
+                    value={formData.statementClosingDay ?? ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, statementClosingDay: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="account-due-day">Payment due on day</Label>
+                  <Input
+                    id="account-due-day"
+                    type="number"
+                    min="1"
+                    max="31"
+                    step="1"
+                    placeholder="e.g., 18"
+                    value={formData.paymentDueDay ?? ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, paymentDueDay: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Days of the month, to follow each statement and when it&apos;s due. Leave blank to skip.
+              </p>
+            </div>
+          )}
+
+          {account && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!formData.archived}
+                onChange={(e) => setFormData(prev => ({ ...prev, archived: e.target.checked }))}
+              />
+              Closed: keep its transactions but don&apos;t offer it for new ones
+            </label>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : account ? 'Save Account' : 'Create Account'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
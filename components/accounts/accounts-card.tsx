@@ -0,0 +1,191 @@
+"use client"
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Edit2, Plus, Trash2, Wallet } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useCurrencyStore, useLedgerStore } from '@/lib/store'
+import { accountTypeLabel, type UserAccount } from '@/lib/accounts'
+import type { CardStatement } from '@/lib/statement-cycles'
+import { createAccount, deleteAccount, updateAccount, type AccountFormData } from '@/lib/actions/accounts'
+import { AccountIcon } from './account-icon'
+import { AccountModal } from './account-modal'
+
+interface AccountsCardProps {
+  accounts: UserAccount[]
+  // Whether the user may add and change accounts
+  canEdit: boolean
+  onChanged: () => void
+}
+
+// The accounts transactions are paid from, with their balances. Each one
+// links to its register, where it's reconciled.
+export function AccountsCard({ accounts, canEdit, onChanged }: AccountsCardProps) {
+  const { formatAmount } = useCurrencyStore()
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const [showClosed, setShowClosed] = useState(false)
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingAccount, setEditingAccount] = useState<UserAccount | null>(null)
+
+  const openAccounts = accounts.filter(account => !account.archived)
+  const closedCount = accounts.length - openAccounts.length
+  const shown = showClosed ? accounts : openAccounts
+
+  // Run an action and reload the accounts, or report why it failed
+  const runAndReload = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    try {
+      const result = await action()
+      if (!result.success) {
+        alert(result.error || failure)
+        return false
+      }
+      onChanged()
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(failure)
+      return false
+    }
+  }
+
+  const handleSaveAccount = (data: AccountFormData) =>
+    runAndReload(
+      () => editingAccount ? updateAccount(editingAccount.id, data) : createAccount({ ...data, ledgerId }),
+      'Failed to save account'
+    )
+
+  const handleDeleteAccount = (account: UserAccount) => {
+    if (confirm(`Delete the account ${account.name}?`)) {
+      runAndReload(() => deleteAccount(account.id), 'Failed to delete account')
+    }
+  }
+
+  // This cycle's charges, then the last statement and whether it's paid
+  const renderStatement = (statement: CardStatement) => {
+    const status = statement.statementBalance === 0
+      ? 'Nothing owed'
+      : statement.isPaid
+        ? 'Paid'
+        : !statement.dueDate
+          ? 'Not paid yet'
+          : statement.isOverdue
+            ? `Overdue since ${format(statement.dueDate, 'MMM d')}`
+            : `Due ${format(statement.dueDate, 'MMM d')}`
+    return (
+      <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground pl-8 pr-2 pb-2">
+        <span>
+          {formatAmount(statement.cycleSpend)} this cycle, closes {format(statement.cycleEnd, 'MMM d')}
+        </span>
+        <span>
+          Last statement {formatAmount(statement.statementBalance)}
+          {' · '}
+          <span className={cn(
+            statement.isOverdue && 'text-destructive',
+            statement.isPaid && statement.statementBalance > 0 && 'text-emerald-600'
+          )}>
+            {status}
+          </span>
+        </span>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Wallet className="w-5 h-5" />
+              Accounts
+            </CardTitle>
+            <CardDescription>
+              {ledgerId ? 'Where this ledger\'s money is paid from' : 'Cash, bank accounts and cards you pay from'}
+            </CardDescription>
+          </div>
+          {closedCount > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setShowClosed(prev => !prev)}>
+              {showClosed ? 'Hide Closed' : `Show Closed (${closedCount})`}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          {shown.map((account) => (
+            <div key={account.id} className="rounded-lg hover:bg-muted/50 group">
+              <div className="flex items-center justify-between gap-2 p-2">
+                <Link
+                  href={`/accounts/${account.id}`}
+                  title="Show the register and reconcile"
+                  className={cn('flex items-center gap-2 min-w-0', account.archived && 'text-muted-foreground')}
+                >
+                  <AccountIcon type={account.type} className="w-4 h-4 shrink-0" />
+                  <span className="text-sm font-medium truncate">{account.name}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {account.archived ? 'Closed' : accountTypeLabel(account.type)}
+                  </span>
+                </Link>
+                <div className="flex items-center gap-2 shrink-0">
+                  {canEdit && (
+                    <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Edit"
+                        onClick={() => {
+                          setEditingAccount(account)
+                          setIsModalOpen(true)
+                        }}
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Delete"
+                        onClick={() => handleDeleteAccount(account)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                  <span className={cn('text-sm', account.balance < 0 ? 'text-destructive' : '')}>
+                    {account.balance < 0 ? '-' : ''}{formatAmount(Math.abs(account.balance))}
+                  </span>
+                </div>
+              </div>
+              {account.statement && renderStatement(account.statement)}
+            </div>
+          ))}
+        </div>
+
+        {canEdit && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setEditingAccount(null)
+              setIsModalOpen(true)
+            }}
+            className="flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Account
+          </Button>
+        )}
+      </CardContent>
+
+      <AccountModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSubmit={handleSaveAccount}
+        account={editingAccount}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,260 @@
+"use client"
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowRight, Edit2, HandCoins, Plus, Scale, Trash2, UserPlus } from 'lucide-react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { useCurrencyStore, useLedgerStore } from '@/lib/store'
+import { createContact, renameContact, deleteContact } from '@/lib/actions/contacts'
+import { deleteSettlement, recordSettlement, type BalancePerson, type SerializedSettlement } from '@/lib/actions/balances'
+import { personFromKey, type Debt } from '@/lib/bill-splits'
+import { ContactModal } from './contact-modal'
+import { SettlementModal, type SettlementDraft } from './settlement-modal'
+
+interface BalancesCardProps {
+  people: BalancePerson[]
+  debts: Debt[]
+  settlements: SerializedSettlement[]
+  // Whether the user may record payments and manage contacts
+  canEdit: boolean
+  onChanged: () => void
+}
+
+// Who owes whom for the bills split between people, and the payments made
+// to settle up. Personal bills are shared with contacts, which are managed
+// here too.
+export function BalancesCard({ people, debts, settlements, canEdit, onChanged }: BalancesCardProps) {
+  const { formatAmount } = useCurrencyStore()
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const [isSimplified, setIsSimplified] = useState(false)
+  const [settlementDraft, setSettlementDraft] = useState<Partial<SettlementDraft> | null>(null)
+  const [isSettlementModalOpen, setIsSettlementModalOpen] = useState(false)
+  const [isContactModalOpen, setIsContactModalOpen] = useState(false)
+  const [editingContact, setEditingContact] = useState<{ id: string; name: string } | null>(null)
+
+  const nameOf = (key: string) => people.find(person => person.key === key)?.name ?? 'Unknown'
+
+  const openSettlement = (draft?: Partial<SettlementDraft>) => {
+    setSettlementDraft(draft ?? null)
+    setIsSettlementModalOpen(true)
+  }
+
+  // Run an action and reload the balances, or report why it failed
+  const runAndReload = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    try {
+      const result = await action()
+      if (!result.success) {
+        alert(result.error || failure)
+        return false
+      }
+      onChanged()
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(failure)
+      return false
+    }
+  }
+
+  const handleRecordSettlement = (data: SettlementDraft) =>
+    runAndReload(() => recordSettlement({ ...data, ledgerId }), 'Failed to record payment')
+
+  const handleSaveContact = (name: string) =>
+    runAndReload(
+      () => editingContact ? renameContact(editingContact.id, name) : createContact(name),
+      'Failed to save person'
+    )
+
+  const handleDeleteContact = (contactId: string, person: BalancePerson) => {
+    if (confirm(`Remove ${person.name}?`)) {
+      runAndReload(() => deleteContact(contactId), 'Failed to remove person')
+    }
+  }
+
+  const handleDeleteSettlement = (settlement: SerializedSettlement) => {
+    if (confirm(`Delete the payment of ${formatAmount(settlement.amount)} from ${nameOf(settlement.from)} to ${nameOf(settlement.to)}?`)) {
+      runAndReload(() => deleteSettlement(settlement.id), 'Failed to delete payment')
+    }
+  }
+
+  const describeBalance = (person: BalancePerson) => {
+    if (person.balance === 0) return 'Settled up'
+    const amount = formatAmount(Math.abs(person.balance))
+    if (person.isYou) return person.balance > 0 ? `You are owed ${amount}` : `You owe ${amount}`
+    return person.balance > 0 ? `Is owed ${amount}` : `Owes ${amount}`
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Scale className="w-5 h-5" />
+              Balances
+            </CardTitle>
+            <CardDescription>
+              {ledgerId ? 'Who owes whom for the split bills in this ledger' : 'Who owes whom for the bills you split'}
+            </CardDescription>
+          </div>
+          {debts.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setIsSimplified(prev => !prev)}>
+              {isSimplified ? 'Show Balances' : 'Simplify Debts'}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isSimplified && debts.length > 0 ? (
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">
+              {debts.length === 1 ? 'One payment settles' : `${debts.length} payments settle`} everything:
+            </p>
+            {debts.map((debt) => (
+              <div key={`${debt.from}-${debt.to}`} className="flex items-center justify-between gap-2 p-2 rounded-lg hover:bg-muted/50">
+                <div className="flex items-center gap-2 min-w-0 text-sm">
+                  <span className="truncate">{nameOf(debt.from)}</span>
+                  <ArrowRight className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  <span className="truncate">{nameOf(debt.to)}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="font-semibold">{formatAmount(debt.amount)}</span>
+                  {canEdit && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Record this payment"
+                      onClick={() => openSettlement({ from: debt.from, to: debt.to, amount: debt.amount.toFixed(2) })}
+                    >
+                      <HandCoins className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : people.length <= 1 ? (
+          <p className="text-sm text-muted-foreground">
+            {ledgerId
+              ? 'Invite the people you share this ledger with to split bills between you.'
+              : 'Add the people you share rent, groceries or trips with, then split a bill with them when you add it.'}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {people.map((person) => {
+              const contactId = personFromKey(person.key).contactId
+
+              return (
+                <div key={person.key} className="flex items-center justify-between gap-2 p-2 rounded-lg hover:bg-muted/50 group">
+                  <span className="text-sm font-medium truncate">{person.name}</span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {canEdit && contactId && (
+                      <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Rename"
+                          onClick={() => {
+                            setEditingContact({ id: contactId, name: person.name })
+                            setIsContactModalOpen(true)
+                          }}
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Remove"
+                          onClick={() => handleDeleteContact(contactId, person)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                    <span className={cn(
+                      'text-sm',
+                      person.balance > 0 ? 'text-emerald-600' : person.balance < 0 ? 'text-destructive' : 'text-muted-foreground'
+                    )}>
+                      {describeBalance(person)}
+                    </span>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {/* Recent payments */}
+        {settlements.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Recent payments</p>
+            {settlements.map((settlement) => (
+              <div key={settlement.id} className="flex items-center justify-between gap-2 text-sm group">
+                <span className="min-w-0 truncate text-muted-foreground" title={settlement.notes ?? undefined}>
+                  {format(new Date(settlement.date), 'MMM d')} • {nameOf(settlement.from)} paid {nameOf(settlement.to)}
+                </span>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span>{formatAmount(settlement.amount)}</span>
+                  {canEdit && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Delete payment"
+                      onClick={() => handleDeleteSettlement(settlement)}
+                      className="opacity-0 group-hover:opacity-100 transition-opacity text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-wrap gap-2">
+            {!ledgerId && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setEditingContact(null)
+                  setIsContactModalOpen(true)
+                }}
+                className="flex items-center gap-2"
+              >
+                <UserPlus className="w-4 h-4" />
+                Add Person
+              </Button>
+            )}
+            {people.length > 1 && (
+              <Button variant="outline" size="sm" onClick={() => openSettlement()} className="flex items-center gap-2">
+                <Plus className="w-4 h-4" />
+                Record Payment
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <SettlementModal
+        isOpen={isSettlementModalOpen}
+        onClose={() => setIsSettlementModalOpen(false)}
+        onSubmit={handleRecordSettlement}
+        people={people}
+        initialData={settlementDraft}
+      />
+
+      <ContactModal
+        isOpen={isContactModalOpen}
+        onClose={() => setIsContactModalOpen(false)}
+        onSubmit={handleSaveContact}
+        contact={editingContact}
+      />
+    </Card>
+  )
+}
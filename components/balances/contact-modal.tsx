@@ -0,0 +1,80 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { MAX_CONTACT_NAME_LENGTH } from '@/lib/bill-splits'
+
+interface ContactModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (name: string) => Promise<boolean>
+  // The contact being renamed; a new one is added when unset
+  contact?: { name: string } | null
+}
+
+export function ContactModal({ isOpen, onClose, onSubmit, contact }: ContactModalProps) {
+  const [name, setName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the edited contact (or a blank form) every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setName(contact?.name ?? '')
+    }
+  }, [isOpen, contact])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setIsSaving(true)
+    try {
+      if (await onSubmit(name)) {
+        onClose()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{contact ? 'Rename Person' : 'Add Person'}</DialogTitle>
+          {!contact && (
+            <DialogDescription>
+              Someone you split bills with. They don&apos;t need an account.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="contact-name">Name</Label>
+            <Input
+              id="contact-name"
+              placeholder="e.g., Alex"
+              maxLength={MAX_CONTACT_NAME_LENGTH}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : contact ? 'Rename' : 'Add Person'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Calendar } from '@/components/ui/calendar'
+import { CalendarIcon } from 'lucide-react'
+import { format } from 'date-fns'
+import { MAX_NOTES_LENGTH } from '@/lib/transactions'
+import type { SettlementFormData } from '@/lib/actions/balances'
+
+export type SettlementDraft = Omit<SettlementFormData, 'ledgerId'>
+
+interface SettlementModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (data: SettlementDraft) => Promise<boolean>
+  // Who can pay whom, by person key
+  people: { key: string; name: string }[]
+  // Prefills the form, e.g. with a payment from the simplified debts
+  initialData?: Partial<SettlementDraft> | null
+}
+
+export function SettlementModal({ isOpen, onClose, onSubmit, people, initialData }: SettlementModalProps) {
+  const [formData, setFormData] = useState<SettlementDraft>({ from: '', to: '', amount: '', date: new Date() })
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the draft (or a blank form) every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setFormData({
+        from: initialData?.from ?? '',
+        to: initialData?.to ?? '',
+        amount: initialData?.amount ?? '',
+        date: initialData?.date ?? new Date(),
+        notes: initialData?.notes ?? '',
+      })
+    }
+  }, [isOpen, initialData])
+
+  const isSamePerson = !!formData.from && formData.from === formData.to
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.from || !formData.to || !formData.amount || isSamePerson) return
+
+    setIsSaving(true)
+    try {
+      if (await onSubmit(formData)) {
+        onClose()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const personSelect = (id: string, value: string, onChange: (key: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="w-full">
+        <SelectValue placeholder="Pick someone" />
+      </SelectTrigger>
+      <SelectContent>
+        {people.map((person) => (
+          <SelectItem key={person.key} value={person.key}>
+            {person.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>Money paid back for shared bills</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="settlement-from">From</Label>
+              {personSelect('settlement-from', formData.from, (from) => setFormData(prev => ({ ...prev, from })))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlement-to">To</Label>
+              {personSelect('settlement-to', formData.to, (to) => setFormData(prev => ({ ...prev, to })))}
+            </div>
+          </div>
+          {isSamePerson && <p className="text-xs text-destructive">Pick two different people</p>}
+
+          <div className="space-y-2">
+            <Label htmlFor="settlement-amount">Amount</Label>
+            <Input
+              id="settlement-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={formData.amount}
+              onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start text-left font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {format(formData.date, "PPP")}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={formData.date}
+                  onSelect={(date) => {
+                    if (date) {
+                      setFormData(prev => ({ ...prev, date }))
+                    }
+                  }}
+                  defaultMonth={formData.date}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="settlement-notes">Notes</Label>
+            <textarea
+              id="settlement-notes"
+              rows={2}
+              maxLength={MAX_NOTES_LENGTH}
+              placeholder="e.g., Bank transfer"
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              value={formData.notes || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || isSamePerson}>
+              {isSaving ? 'Saving...' : 'Record Payment'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
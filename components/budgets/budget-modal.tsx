@@ -0,0 +1,137 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CategoryIcon } from '@/components/categories/category-icon'
+import { createBudget, updateBudget, deleteBudget } from '@/lib/actions/budgets'
+import { sortCategoryTree } from '@/lib/categories'
+import { useCategoryStore } from '@/lib/store'
+import { cn } from '@/lib/utils'
+
+export interface Budget {
+  id: string
+  categoryId: string
+  amount: number
+}
+
+interface BudgetModalProps {
+  isOpen: boolean
+  onClose: () => void
+  budgets: Budget[]
+  onSaved?: () => void
+}
+
+// One monthly limit input per category id; empty means "no budget"
+function toLimits(budgets: Budget[]) {
+  return budgets.reduce((acc, budget) => {
+    acc[budget.categoryId] = budget.amount.toString()
+    return acc
+  }, {} as Record<string, string>)
+}
+
+export function BudgetModal({ isOpen, onClose, budgets, onSaved }: BudgetModalProps) {
+  const categories = useCategoryStore((state) => state.categories)
+  const expenseCategories = sortCategoryTree(categories, 'Expense')
+  const [limits, setLimits] = useState<Record<string, string>>(() => toLimits(budgets))
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset inputs from the saved budgets every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setLimits(toLimits(budgets))
+    }
+  }, [isOpen, budgets])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    try {
+      const errors: string[] = []
+
+      for (const category of expenseCategories) {
+        const existing = budgets.find(b => b.categoryId === category.id)
+        const value = (limits[category.id] || '').trim()
+
+        let result: { success: boolean; error?: string } | null = null
+        if (!value && existing) {
+          result = await deleteBudget(existing.id)
+        } else if (value && !existing) {
+          result = await createBudget({ categoryId: category.id, amount: value })
+        } else if (value && existing && parseFloat(value) !== existing.amount) {
+          result = await updateBudget(existing.id, value)
+        }
+
+        if (result && !result.success) {
+          errors.push(`${category.name}: ${result.error}`)
+        }
+      }
+
+      if (errors.length > 0) {
+        alert(errors.join('\n'))
+        return
+      }
+
+      onClose()
+      if (onSaved) {
+        onSaved()
+      }
+    } catch (error) {
+      console.error('Failed to save budgets:', error)
+      alert('Failed to save budgets. Please check the console for details.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Monthly Budgets</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Set a monthly limit per category. Leave a field empty to remove its budget.
+            A category&apos;s budget also covers its subcategories.
+          </p>
+
+          {expenseCategories.map((category) => {
+            return (
+              <div key={category.id} className={cn('flex items-center gap-3', category.parentId && 'pl-6')}>
+                <Label htmlFor={`budget-${category.id}`} className="flex items-center gap-2 flex-1">
+                  <CategoryIcon icon={category.icon} className="w-4 h-4" style={{ color: category.color }} />
+                  {category.name}
+                </Label>
+                <Input
+                  id={`budget-${category.id}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="No budget"
+                  className="w-32"
+                  value={limits[category.id] || ''}
+                  onChange={(e) => setLimits(prev => ({ ...prev, [category.id]: e.target.value }))}
+                />
+              </div>
+            )
+          })}
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Budgets'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,91 @@
+import {
+  type LucideIcon,
+  UtensilsCrossed,
+  Coffee,
+  ShoppingCart,
+  ShoppingBag,
+  Shirt,
+  Car,
+  Bus,
+  Fuel,
+  Plane,
+  Wifi,
+  Smartphone,
+  Tv,
+  Zap,
+  House,
+  Wrench,
+  Heart,
+  Pill,
+  Stethoscope,
+  Dumbbell,
+  Film,
+  Music,
+  Gamepad2,
+  Book,
+  GraduationCap,
+  Baby,
+  PawPrint,
+  Cigarette,
+  Gift,
+  Receipt,
+  Briefcase,
+  Laptop,
+  TrendingUp,
+  PiggyBank,
+  Landmark,
+  Coins,
+  CircleDot,
+} from 'lucide-react'
+import { type CategoryIconName, isCategoryIconName } from '@/lib/categories'
+
+export const categoryIcons: Record<CategoryIconName, LucideIcon> = {
+  UtensilsCrossed,
+  Coffee,
+  ShoppingCart,
+  ShoppingBag,
+  Shirt,
+  Car,
+  Bus,
+  Fuel,
+  Plane,
+  Wifi,
+  Smartphone,
+  Tv,
+  Zap,
+  House,
+  Wrench,
+  Heart,
+  Pill,
+  Stethoscope,
+  Dumbbell,
+  Film,
+  Music,
+  Gamepad2,
+  Book,
+  GraduationCap,
+  Baby,
+  PawPrint,
+  Cigarette,
+  Gift,
+  Receipt,
+  Briefcase,
+  Laptop,
+  TrendingUp,
+  PiggyBank,
+  Landmark,
+  Coins,
+  CircleDot,
+}
+
+interface CategoryIconProps {
+  // Icon name stored on the category; unknown names show a dot
+  icon?: string | null
+  className?: string
+  style?: React.CSSProperties
+}
+
+export function CategoryIcon({ icon, className, style }: CategoryIconProps) {
+  const Icon = icon && isCategoryIconName(icon) ? categoryIcons[icon] : CircleDot
+  return <Icon className={className} style={style} />
+}
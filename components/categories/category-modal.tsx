@@ -0,0 +1,183 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { cn } from '@/lib/utils'
+import { type UserCategory, categoryIconNames } from '@/lib/categories'
+import type { CategoryFormData } from '@/lib/actions/categories'
+import { CategoryIcon } from './category-icon'
+
+interface CategoryModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (data: CategoryFormData) => Promise<boolean>
+  // All of the user's categories, to pick a parent from
+  categories: UserCategory[]
+  // The category being edited; a new one is created when unset
+  category?: UserCategory | null
+}
+
+const emptyForm: CategoryFormData = {
+  name: '',
+  icon: 'CircleDot',
+  color: '#94a3b8',
+  type: 'Expense',
+  parentId: null,
+}
+
+const selectClassName = "w-full px-3 py-2 border border-input rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+
+export function CategoryModal({ isOpen, onClose, onSubmit, categories, category }: CategoryModalProps) {
+  const [formData, setFormData] = useState<CategoryFormData>(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the edited category (or a blank form) every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setFormData(category ? {
+        name: category.name,
+        icon: category.icon,
+        color: category.color,
+        type: category.type,
+        parentId: category.parentId,
+      } : emptyForm)
+    }
+  }, [isOpen, category])
+
+  // Only top-level categories of the same type can be parents
+  const parentOptions = categories.filter(c =>
+    !c.parentId && c.type === formData.type && c.id !== category?.id
+  )
+  const hasSubcategories = !!category && categories.some(c => c.parentId === category.id)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim()) return
+
+    setIsSaving(true)
+    try {
+      if (await onSubmit(formData)) {
+        onClose()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>
+            {category ? 'Edit Category' : 'Add Category'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Type Toggle (fixed once created) */}
+          <div className="grid grid-cols-2 gap-2">
+            {['Expense', 'Income'].map((type) => (
+              <Button
+                key={type}
+                type="button"
+                size="sm"
+                variant={formData.type === type ? 'default' : 'outline'}
+                disabled={!!category}
+                onClick={() => setFormData(prev => ({ ...prev, type, parentId: null }))}
+              >
+                {type}
+              </Button>
+            ))}
+          </div>
+
+          {/* Name Input */}
+          <div className="space-y-2">
+            <Label htmlFor="category-name">Name</Label>
+            <Input
+              id="category-name"
+              placeholder="e.g., Childcare, Pets"
+              maxLength={50}
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              required
+            />
+          </div>
+
+          {/* Parent Select */}
+          <div className="space-y-2">
+            <Label htmlFor="category-parent">Subcategory of</Label>
+            <select
+              id="category-parent"
+              value={formData.parentId || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, parentId: e.target.value || null }))}
+              disabled={hasSubcategories}
+              className={selectClassName}
+            >
+              <option value="">None (top-level category)</option>
+              {parentOptions.map((parent) => (
+                <option key={parent.id} value={parent.id}>
+                  {parent.name}
+                </option>
+              ))}
+            </select>
+            {hasSubcategories && (
+              <p className="text-xs text-muted-foreground">
+                This category has subcategories, so it has to stay top-level
+              </p>
+            )}
+          </div>
+
+          {/* Color Input */}
+          <div className="space-y-2">
+            <Label htmlFor="category-color">Color</Label>
+            <Input
+              id="category-color"
+              type="color"
+              className="h-10 w-20 p-1"
+              value={formData.color}
+              onChange={(e) => setFormData(prev => ({ ...prev, color: e.target.value }))}
+            />
+          </div>
+
+          {/* Icon Picker */}
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="grid grid-cols-9 gap-1">
+              {categoryIconNames.map((icon) => (
+                <button
+                  key={icon}
+                  type="button"
+                  title={icon}
+                  onClick={() => setFormData(prev => ({ ...prev, icon }))}
+                  className={cn(
+                    'flex items-center justify-center h-8 rounded-md border hover:bg-muted',
+                    formData.icon === icon ? 'border-primary bg-muted' : 'border-transparent'
+                  )}
+                >
+                  <CategoryIcon
+                    icon={icon}
+                    className="w-4 h-4"
+                    style={formData.icon === icon ? { color: formData.color } : undefined}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : category ? 'Update Category' : 'Add Category'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
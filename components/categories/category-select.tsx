@@ -0,0 +1,63 @@
+"use client"
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import { categoryLabel, findCategory, sortCategoryTree } from '@/lib/categories'
+import { useCategoryStore } from '@/lib/store'
+import { CategoryIcon } from './category-icon'
+
+// Select value for "no category", since Radix items can't use ''
+const UNCATEGORIZED = 'none'
+
+interface CategorySelectProps {
+  id?: string
+  // Category id; null means uncategorized
+  value: string | null
+  onChange: (categoryId: string | null) => void
+  // Only categories of this type are offered
+  type: string
+  className?: string
+}
+
+// Picks one of the user's categories, with subcategories under their parent
+export function CategorySelect({ id, value, onChange, type, className }: CategorySelectProps) {
+  const categories = useCategoryStore((state) => state.categories)
+  const selected = findCategory(categories, value)
+
+  return (
+    <Select
+      value={value || UNCATEGORIZED}
+      onValueChange={(next) => onChange(next === UNCATEGORIZED ? null : next)}
+    >
+      <SelectTrigger id={id} className={cn('w-full', className)}>
+        <div className="flex items-center gap-2 min-w-0">
+          {selected && (
+            <CategoryIcon icon={selected.icon} className="w-4 h-4 shrink-0" style={{ color: selected.color }} />
+          )}
+          <SelectValue>
+            <span className="truncate">{categoryLabel(categories, value)}</span>
+          </SelectValue>
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNCATEGORIZED}>
+          <span className="text-muted-foreground">Uncategorized</span>
+        </SelectItem>
+        {sortCategoryTree(categories, type).map((category) => (
+          <SelectItem key={category.id} value={category.id}>
+            <div className={cn('flex items-center gap-2', category.parentId && 'pl-4')}>
+              <CategoryIcon icon={category.icon} className="w-4 h-4" style={{ color: category.color }} />
+              <span>{category.name}</span>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
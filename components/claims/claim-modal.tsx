@@ -0,0 +1,95 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { MAX_CLAIM_NAME_LENGTH } from '@/lib/claims'
+import type { ClaimFormData } from '@/lib/actions/claims'
+
+interface ClaimModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (data: ClaimFormData) => Promise<boolean>
+  // The claim being edited; a new one is created when unset
+  claim?: { name: string; notes: string | null } | null
+  // Expenses that go into a new claim
+  expenseCount?: number
+}
+
+export function ClaimModal({ isOpen, onClose, onSubmit, claim, expenseCount = 0 }: ClaimModalProps) {
+  const [formData, setFormData] = useState<ClaimFormData>({ name: '', notes: '' })
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the edited claim (or a blank form) every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setFormData({ name: claim?.name ?? '', notes: claim?.notes ?? '' })
+    }
+  }, [isOpen, claim])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim()) return
+
+    setIsSaving(true)
+    try {
+      if (await onSubmit(formData)) {
+        onClose()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{claim ? 'Edit Claim' : 'New Claim'}</DialogTitle>
+          {!claim && (
+            <DialogDescription>
+              {expenseCount} {expenseCount === 1 ? 'expense' : 'expenses'} will go into the claim
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="claim-name">Name</Label>
+            <Input
+              id="claim-name"
+              placeholder="e.g., Berlin conference, March"
+              maxLength={MAX_CLAIM_NAME_LENGTH}
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="claim-notes">Notes</Label>
+            <textarea
+              id="claim-notes"
+              rows={3}
+              placeholder="Shown on the claim report, e.g. a project code"
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              value={formData.notes}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : claim ? 'Update Claim' : 'Create Claim'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Calendar } from '@/components/ui/calendar'
+import { CalendarIcon } from 'lucide-react'
+import { format } from 'date-fns'
+import { MAX_NOTES_LENGTH } from '@/lib/transactions'
+import type { ContributionFormData } from '@/lib/actions/goals'
+
+interface ContributionModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (data: ContributionFormData) => Promise<boolean>
+  // The goal the money goes into
+  goalName: string
+}
+
+const contributionKinds = [
+  { value: 'deposit', label: 'Add Money' },
+  { value: 'withdrawal', label: 'Take Out' },
+] as const
+
+export function ContributionModal({ isOpen, onClose, onSubmit, goalName }: ContributionModalProps) {
+  const [kind, setKind] = useState<'deposit' | 'withdrawal'>('deposit')
+  const [formData, setFormData] = useState<ContributionFormData>({ amount: '', date: new Date() })
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from a blank deposit every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setKind('deposit')
+      setFormData({ amount: '', date: new Date(), notes: '' })
+    }
+  }, [isOpen])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = parseFloat(formData.amount)
+    if (!(amount > 0)) return
+
+    setIsSaving(true)
+    try {
+      // Withdrawals are stored as negative contributions
+      const signed = kind === 'withdrawal' ? (-amount).toString() : formData.amount
+      if (await onSubmit({ ...formData, amount: signed })) {
+        onClose()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Update Savings</DialogTitle>
+          <DialogDescription>{goalName}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {contributionKinds.map((option) => (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant={kind === option.value ? 'default' : 'outline'}
+                onClick={() => setKind(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contribution-amount">Amount</Label>
+            <Input
+              id="contribution-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={formData.amount}
+              onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start text-left font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {format(formData.date, "PPP")}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={formData.date}
+                  onSelect={(date) => {
+                    if (date) {
+                      setFormData(prev => ({ ...prev, date }))
+                    }
+                  }}
+                  defaultMonth={formData.date}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contribution-notes">Notes</Label>
+            <textarea
+              id="contribution-notes"
+              rows={2}
+              maxLength={MAX_NOTES_LENGTH}
+              placeholder="e.g., Monthly transfer"
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              value={formData.notes || ''}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : kind === 'withdrawal' ? 'Take Out' : 'Add Money'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
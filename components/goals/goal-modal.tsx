@@ -0,0 +1,139 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Calendar } from '@/components/ui/calendar'
+import { CalendarIcon } from 'lucide-react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { MAX_GOAL_NAME_LENGTH } from '@/lib/goals'
+import type { GoalFormData } from '@/lib/actions/goals'
+
+interface GoalModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (data: GoalFormData) => Promise<boolean>
+  // The goal being edited; a new one is created when unset
+  goal?: { name: string; targetAmount: number; targetDate: Date | null } | null
+}
+
+export function GoalModal({ isOpen, onClose, onSubmit, goal }: GoalModalProps) {
+  const [formData, setFormData] = useState<GoalFormData>({ name: '', targetAmount: '', targetDate: null })
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the edited goal (or a blank form) every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setFormData({
+        name: goal?.name ?? '',
+        targetAmount: goal ? goal.targetAmount.toString() : '',
+        targetDate: goal?.targetDate ? new Date(goal.targetDate) : null,
+      })
+    }
+  }, [isOpen, goal])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim() || !formData.targetAmount) return
+
+    setIsSaving(true)
+    try {
+      if (await onSubmit(formData)) {
+        onClose()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{goal ? 'Edit Goal' : 'New Goal'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="goal-name">Name</Label>
+            <Input
+              id="goal-name"
+              placeholder="e.g., Emergency fund, Summer trip"
+              maxLength={MAX_GOAL_NAME_LENGTH}
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="goal-target">Target Amount</Label>
+            <Input
+              id="goal-target"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={formData.targetAmount}
+              onChange={(e) => setFormData(prev => ({ ...prev, targetAmount: e.target.value }))}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Target Date</Label>
+              {formData.targetDate && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-auto px-2 py-0.5 text-xs"
+                  onClick={() => setFormData(prev => ({ ...prev, targetDate: null }))}
+                >
+                  No date
+                </Button>
+              )}
+            </div>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn(
+                    "w-full justify-start text-left font-normal",
+                    !formData.targetDate && "text-muted-foreground"
+                  )}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {formData.targetDate ? format(formData.targetDate, "PPP") : <span>Whenever it&apos;s saved</span>}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={formData.targetDate ?? undefined}
+                  onSelect={(date) => setFormData(prev => ({ ...prev, targetDate: date ?? null }))}
+                  defaultMonth={formData.targetDate ?? undefined}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : goal ? 'Save Goal' : 'Create Goal'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { MAX_LEDGER_NAME_LENGTH } from '@/lib/ledgers'
+
+interface LedgerModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (name: string) => Promise<boolean>
+  // The ledger being renamed; a new one is created when unset
+  ledger?: { name: string } | null
+}
+
+export function LedgerModal({ isOpen, onClose, onSubmit, ledger }: LedgerModalProps) {
+  const [name, setName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the edited ledger (or a blank form) every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setName(ledger?.name ?? '')
+    }
+  }, [isOpen, ledger])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setIsSaving(true)
+    try {
+      if (await onSubmit(name)) {
+        onClose()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{ledger ? 'Rename Ledger' : 'New Shared Ledger'}</DialogTitle>
+          {!ledger && (
+            <DialogDescription>
+              Its amounts are kept in your currency, even if you change it later
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ledger-name">Name</Label>
+            <Input
+              id="ledger-name"
+              placeholder="e.g., Household"
+              maxLength={MAX_LEDGER_NAME_LENGTH}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : ledger ? 'Rename Ledger' : 'Create Ledger'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
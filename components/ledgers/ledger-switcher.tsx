@@ -0,0 +1,45 @@
+"use client"
+
+import { Users } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useLedgerStore } from '@/lib/store'
+
+const PERSONAL = 'personal'
+
+// Switches the dashboard between the personal transactions and the shared
+// ledgers the user belongs to. Hidden until the user is in one.
+export function LedgerSwitcher() {
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const ledgers = useLedgerStore((state) => state.ledgers)
+  const setLedgerId = useLedgerStore((state) => state.setLedgerId)
+
+  if (ledgers.length === 0) return null
+
+  return (
+    <Select
+      value={ledgerId ?? PERSONAL}
+      onValueChange={(value) => setLedgerId(value === PERSONAL ? null : value)}
+    >
+      <SelectTrigger className="w-44" aria-label="Ledger">
+        <div className="flex items-center gap-2 truncate">
+          <Users className="w-4 h-4 shrink-0" />
+          <SelectValue />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PERSONAL}>Personal</SelectItem>
+        {ledgers.map((ledger) => (
+          <SelectItem key={ledger.id} value={ledger.id}>
+            {ledger.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
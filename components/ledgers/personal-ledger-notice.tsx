@@ -0,0 +1,19 @@
+"use client"
+
+import { Button } from '@/components/ui/button'
+import { useLedgerStore } from '@/lib/store'
+
+// Stands in for something that only exists for the personal transactions
+// while a shared ledger is shown, with a way back to them
+export function PersonalLedgerNotice({ children }: { children: React.ReactNode }) {
+  const setLedgerId = useLedgerStore((state) => state.setLedgerId)
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-muted rounded-md">
+      <p className="text-sm text-muted-foreground">{children}</p>
+      <Button variant="outline" size="sm" onClick={() => setLedgerId(null)}>
+        Switch to Personal
+      </Button>
+    </div>
+  )
+}
@@ -3,7 +3,7 @@
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { motion } from "framer-motion"
-import { Receipt, BarChart3, User } from "lucide-react"
+import { Receipt, BarChart3, HandCoins, PiggyBank, User } from "lucide-react"
 import { cn } from "@/lib/utils"
 
 const navigation = [
@@ -17,6 +17,16 @@ const navigation = [
     href: "/reports",
     icon: BarChart3,
   },
+  {
+    name: "Goals",
+    href: "/goals",
+    icon: PiggyBank,
+  },
+  {
+    name: "Claims",
+    href: "/claims",
+    icon: HandCoins,
+  },
   {
     name: "Profile",
     href: "/profile", 
@@ -28,7 +38,7 @@ export function BottomDock() {
   const pathname = usePathname()
 
   return (
-    <div className="fixed bottom-0 left-0 right-0 z-50 bg-background/80 backdrop-blur-lg border-t border-border">
+    <div className="fixed bottom-0 left-0 right-0 z-50 bg-background/80 backdrop-blur-lg border-t border-border print:hidden">
       <div className="flex items-center justify-around px-4 py-2 max-w-md mx-auto">
         {navigation.map((item) => {
           const isActive = pathname === item.href
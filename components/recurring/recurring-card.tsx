@@ -0,0 +1,130 @@
+"use client"
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Edit2, Repeat, Trash2 } from 'lucide-react'
+import { format } from 'date-fns'
+import { useCategoryStore, useCurrencyStore } from '@/lib/store'
+import { findCategory } from '@/lib/categories'
+import { cadenceOptions } from '@/lib/recurring'
+import {
+  deleteRecurringTransaction,
+  updateRecurringTransaction,
+  type RecurringTransactionFormData,
+  type SerializedRecurringTransaction,
+} from '@/lib/actions/recurring'
+import { CategoryIcon } from '@/components/categories/category-icon'
+import { RecurringModal } from './recurring-modal'
+
+interface RecurringCardProps {
+  recurringTransactions: SerializedRecurringTransaction[]
+  // The user's accounts to pay from, oldest first
+  accounts: { id: string; name: string; archived: boolean }[]
+  onChanged: () => void
+}
+
+// Every recurring series, including ones with nothing due in the next
+// month, to change or stop the whole series
+export function RecurringCard({ recurringTransactions, accounts, onChanged }: RecurringCardProps) {
+  const { formatAmount } = useCurrencyStore()
+  const categories = useCategoryStore((state) => state.categories)
+  const [editingRecurring, setEditingRecurring] = useState<SerializedRecurringTransaction | null>(null)
+
+  // Run an action and reload, or report why it failed
+  const runAndReload = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    try {
+      const result = await action()
+      if (!result.success) {
+        alert(result.error || failure)
+        return false
+      }
+      onChanged()
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(failure)
+      return false
+    }
+  }
+
+  const handleSaveRecurring = (data: RecurringTransactionFormData) =>
+    editingRecurring
+      ? runAndReload(() => updateRecurringTransaction(editingRecurring.id, data), 'Failed to update recurring transaction')
+      : Promise.resolve(false)
+
+  const handleStopRecurring = (recurring: SerializedRecurringTransaction) => {
+    if (confirm(`Stop repeating ${recurring.name}? Past transactions will be kept.`)) {
+      runAndReload(() => deleteRecurringTransaction(recurring.id), 'Failed to stop recurring transaction')
+    }
+  }
+
+  // When the series comes up next, or why it doesn't
+  const describeNext = (recurring: SerializedRecurringTransaction) => {
+    if (recurring.nextOccurrence) {
+      return `Next ${format(new Date(recurring.nextOccurrence), 'MMM d, yyyy')}`
+    }
+    return recurring.endDate && new Date(recurring.endDate) < new Date() ? 'Ended' : 'Nothing coming up'
+  }
+
+  if (recurringTransactions.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Repeat className="w-5 h-5" />
+          Recurring
+        </CardTitle>
+        <CardDescription>Every repeating transaction; change or stop a whole series</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {recurringTransactions.map((recurring) => {
+          const category = findCategory(categories, recurring.categoryId)
+          const cadence = cadenceOptions.find(option => option.value === recurring.cadence)?.label ?? recurring.cadence
+
+          return (
+            <div key={recurring.id} className="flex items-center justify-between gap-2 p-2 rounded-lg hover:bg-muted/50 group">
+              <div className="flex items-center gap-3 min-w-0">
+                {category && <CategoryIcon icon={category.icon} className="w-4 h-4 shrink-0" style={{ color: category.color }} />}
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">{recurring.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {cadence} • {describeNext(recurring)}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+                  <Button size="sm" variant="ghost" title="Edit the series" onClick={() => setEditingRecurring(recurring)}>
+                    <Edit2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Stop repeating"
+                    onClick={() => handleStopRecurring(recurring)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <span className="text-sm">{formatAmount(recurring.amount)}</span>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+
+      <RecurringModal
+        isOpen={!!editingRecurring}
+        onClose={() => setEditingRecurring(null)}
+        onSubmit={handleSaveRecurring}
+        recurring={editingRecurring}
+        accounts={accounts}
+      />
+    </Card>
+  )
+}
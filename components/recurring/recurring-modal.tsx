@@ -0,0 +1,251 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Calendar } from '@/components/ui/calendar'
+import { CalendarIcon } from 'lucide-react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { cadenceOptions } from '@/lib/recurring'
+import { CategorySelect } from '@/components/categories/category-select'
+import type { RecurringTransactionFormData, SerializedRecurringTransaction } from '@/lib/actions/recurring'
+
+interface RecurringModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (data: RecurringTransactionFormData) => Promise<boolean>
+  // The series being edited
+  recurring: SerializedRecurringTransaction | null
+  // The user's accounts to pay from, oldest first
+  accounts: { id: string; name: string; archived: boolean }[]
+}
+
+// Edits a whole series. Occurrences already created keep their values.
+export function RecurringModal({ isOpen, onClose, onSubmit, recurring, accounts }: RecurringModalProps) {
+  const [formData, setFormData] = useState<RecurringTransactionFormData>({
+    name: '',
+    amount: '',
+    cadence: 'Monthly',
+    startDate: new Date(),
+  })
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the edited series every time the modal opens
+  React.useEffect(() => {
+    if (isOpen && recurring) {
+      setFormData({
+        name: recurring.name,
+        amount: recurring.amount.toString(),
+        type: recurring.type,
+        categoryId: recurring.categoryId,
+        cadence: recurring.cadence,
+        startDate: new Date(recurring.startDate),
+        endDate: recurring.endDate ? new Date(recurring.endDate) : null,
+        accountId: recurring.accountId,
+      })
+    }
+  }, [isOpen, recurring])
+
+  // Moving the schedule would backfill occurrences or strand the ones
+  // already created, so it's fixed once there are any
+  const isScheduleFixed = !!recurring && recurring.occurrenceCount > 0
+  const accountChoices = accounts.filter(account => !account.archived || account.id === formData.accountId)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim() || !formData.amount) return
+
+    setIsSaving(true)
+    try {
+      if (await onSubmit(formData)) {
+        onClose()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Edit Recurring Transaction</DialogTitle>
+          <DialogDescription>
+            Changes apply to occurrences from now on; ones already added keep their values.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="recurring-name">Name</Label>
+            <Input
+              id="recurring-name"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-amount">Amount</Label>
+            <Input
+              id="recurring-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={formData.amount}
+              onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+              required
+            />
+          </div>
+
+          {formData.type !== 'Transfer' && (
+            <div className="space-y-2">
+              <Label htmlFor="recurring-category">Category</Label>
+              <CategorySelect
+                id="recurring-category"
+                value={formData.categoryId ?? null}
+                onChange={(categoryId) => setFormData(prev => ({ ...prev, categoryId }))}
+                type={formData.type || 'Expense'}
+              />
+            </div>
+          )}
+
+          {accountChoices.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="recurring-account">Account</Label>
+              <Select
+                value={formData.accountId || ''}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, accountId: value }))}
+              >
+                <SelectTrigger id="recurring-account" className="w-full">
+                  <SelectValue placeholder="Default account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accountChoices.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-cadence">Repeats</Label>
+              <Select
+                value={formData.cadence}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, cadence: value }))}
+                disabled={isScheduleFixed}
+              >
+                <SelectTrigger id="recurring-cadence" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {cadenceOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Starts</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-left font-normal"
+                    disabled={isScheduleFixed}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(formData.startDate, 'MMM d, yyyy')}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={formData.startDate}
+                    onSelect={(date) => date && setFormData(prev => ({ ...prev, startDate: date }))}
+                    defaultMonth={formData.startDate}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+          {isScheduleFixed && (
+            <p className="text-xs text-muted-foreground">
+              The series already has occurrences, so its schedule is fixed. To change it, stop this one and start a new one.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Ends</Label>
+              {formData.endDate && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-auto px-2 py-0.5 text-xs"
+                  onClick={() => setFormData(prev => ({ ...prev, endDate: null }))}
+                >
+                  Never
+                </Button>
+              )}
+            </div>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn(
+                    "w-full justify-start text-left font-normal",
+                    !formData.endDate && "text-muted-foreground"
+                  )}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {formData.endDate ? format(formData.endDate, 'PPP') : <span>Repeats until stopped</span>}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={formData.endDate ?? undefined}
+                  onSelect={(date) => setFormData(prev => ({ ...prev, endDate: date ?? null }))}
+                  defaultMonth={formData.endDate ?? undefined}
+                  disabled={(date) => date < formData.startDate}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
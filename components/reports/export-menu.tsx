@@ -0,0 +1,109 @@
+"use client"
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Download } from 'lucide-react'
+import { format } from 'date-fns'
+import { sortCategoryTree } from '@/lib/categories'
+import { useCategoryStore } from '@/lib/store'
+import { cn } from '@/lib/utils'
+
+interface ExportMenuProps {
+  startDate: Date
+  endDate: Date
+  // Only export transactions with this tag
+  tag?: string | null
+  // Export a shared ledger instead of the personal transactions
+  ledgerId?: string | null
+}
+
+const formats = [
+  { value: 'csv', label: 'CSV', description: 'Spreadsheets' },
+  { value: 'json', label: 'JSON', description: 'Scripts and other apps' },
+  { value: 'ofx', label: 'OFX', description: 'Accounting software' },
+]
+
+// Downloads the transactions of the selected report period from /api/export
+export function ExportMenu({ startDate, endDate, tag, ledgerId }: ExportMenuProps) {
+  const categories = useCategoryStore((state) => state.categories)
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([])
+
+  // Selected by id; a parent category includes its subcategories
+  const toggleCategory = (value: string) => {
+    setSelectedCategories(prev =>
+      prev.includes(value) ? prev.filter(c => c !== value) : [...prev, value]
+    )
+  }
+
+  const exportUrl = (exportFormat: string) => {
+    const params = new URLSearchParams({
+      format: exportFormat,
+      from: format(startDate, 'yyyy-MM-dd'),
+      to: format(endDate, 'yyyy-MM-dd'),
+    })
+    if (selectedCategories.length > 0) {
+      params.set('category', selectedCategories.join(','))
+    }
+    if (tag) {
+      params.set('tag', tag)
+    }
+    if (ledgerId) {
+      params.set('ledger', ledgerId)
+    }
+    return `/api/export?${params}`
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Download className="w-4 h-4" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="end">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Categories</p>
+            <p className="text-xs text-muted-foreground">
+              {selectedCategories.length === 0 ? 'All categories' : `${selectedCategories.length} selected`}
+            </p>
+            <div className="space-y-1 max-h-40 overflow-y-auto">
+              {[...sortCategoryTree(categories, 'Expense'), ...sortCategoryTree(categories, 'Income')].map((category) => (
+                <label
+                  key={category.id}
+                  className={cn('flex items-center gap-2 text-sm cursor-pointer', category.parentId && 'pl-5')}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedCategories.includes(category.id)}
+                    onChange={() => toggleCategory(category.id)}
+                  />
+                  {category.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {tag && (
+            <p className="text-xs text-muted-foreground">
+              Only transactions tagged #{tag}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            {formats.map((exportFormat) => (
+              <Button key={exportFormat.value} asChild variant="outline" className="w-full justify-between">
+                <a href={exportUrl(exportFormat.value)} download>
+                  <span>{exportFormat.label}</span>
+                  <span className="text-xs text-muted-foreground">{exportFormat.description}</span>
+                </a>
+              </Button>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,269 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { findCategory } from '@/lib/categories'
+import { useCategoryStore } from '@/lib/store'
+import { MAX_PATTERN_LENGTH, validateRule, weekdayLabels, type RuleData, type RuleFormData } from '@/lib/rules'
+import { CategorySelect } from '@/components/categories/category-select'
+
+interface RuleModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSubmit: (data: RuleFormData) => Promise<boolean>
+  // The rule being edited; a new one is created when unset
+  rule?: RuleData | null
+}
+
+const emptyForm: RuleFormData = {
+  name: '',
+  enabled: true,
+  nameContains: '',
+  namePattern: '',
+  minAmount: '',
+  maxAmount: '',
+  weekdays: [],
+  categoryId: null,
+  rename: '',
+  addTag: '',
+}
+
+export function RuleModal({ isOpen, onClose, onSubmit, rule }: RuleModalProps) {
+  const categories = useCategoryStore((state) => state.categories)
+  const [formData, setFormData] = useState<RuleFormData>(emptyForm)
+  // Which categories the category picker offers
+  const [categoryType, setCategoryType] = useState('Expense')
+  const [error, setError] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the edited rule (or a blank form) every time the modal opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setFormData(rule ? {
+        name: rule.name,
+        enabled: rule.enabled,
+        nameContains: rule.nameContains ?? '',
+        namePattern: rule.namePattern ?? '',
+        minAmount: rule.minAmount?.toString() ?? '',
+        maxAmount: rule.maxAmount?.toString() ?? '',
+        weekdays: rule.weekdays,
+        categoryId: rule.categoryId,
+        rename: rule.rename ?? '',
+        addTag: rule.addTag ?? '',
+      } : emptyForm)
+      setCategoryType(findCategory(categories, rule?.categoryId)?.type ?? 'Expense')
+      setError('')
+    }
+  }, [isOpen, rule, categories])
+
+  const toggleWeekday = (day: number) => {
+    setFormData(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day)
+        ? prev.weekdays.filter(d => d !== day)
+        : [...prev.weekdays, day],
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const invalid = validateRule(formData)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      if (await onSubmit(formData)) {
+        onClose()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {rule ? 'Edit Rule' : 'Add Rule'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Name Input */}
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Rule name</Label>
+            <Input
+              id="rule-name"
+              placeholder="e.g., Rides"
+              maxLength={50}
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              required
+            />
+          </div>
+
+          {/* Conditions */}
+          <div className="space-y-3 rounded-lg border p-3">
+            <p className="text-sm font-medium">When a transaction matches all of these</p>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-contains">Name contains</Label>
+              <Input
+                id="rule-contains"
+                placeholder="e.g., uber"
+                value={formData.nameContains}
+                onChange={(e) => setFormData(prev => ({ ...prev, nameContains: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-pattern">Name matches pattern</Label>
+              <Input
+                id="rule-pattern"
+                placeholder="e.g., uber*trip*"
+                maxLength={MAX_PATTERN_LENGTH}
+                className="font-mono"
+                value={formData.namePattern}
+                onChange={(e) => setFormData(prev => ({ ...prev, namePattern: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                The whole name: * stands for any text and ? for one character; case doesn&apos;t matter
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="rule-min">Amount from</Label>
+                <Input
+                  id="rule-min"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Any"
+                  value={formData.minAmount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, minAmount: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-max">Amount to</Label>
+                <Input
+                  id="rule-max"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Any"
+                  value={formData.maxAmount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, maxAmount: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>On these days</Label>
+              <div className="grid grid-cols-7 gap-1">
+                {weekdayLabels.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={formData.weekdays.includes(day) ? 'default' : 'outline'}
+                    onClick={() => toggleWeekday(day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                None selected means any day
+              </p>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="space-y-3 rounded-lg border p-3">
+            <p className="text-sm font-medium">Then</p>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-category">Set category</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {['Expense', 'Income'].map((type) => (
+                  <Button
+                    key={type}
+                    type="button"
+                    size="sm"
+                    variant={categoryType === type ? 'default' : 'outline'}
+                    onClick={() => {
+                      setCategoryType(type)
+                      setFormData(prev => ({ ...prev, categoryId: null }))
+                    }}
+                  >
+                    {type}
+                  </Button>
+                ))}
+              </div>
+              <CategorySelect
+                id="rule-category"
+                type={categoryType}
+                value={formData.categoryId}
+                onChange={(categoryId) => setFormData(prev => ({ ...prev, categoryId }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave uncategorized to keep the category. A rule with a category only applies to {categoryType.toLowerCase()} transactions.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-rename">Rename to</Label>
+              <Input
+                id="rule-rename"
+                placeholder="e.g., Uber"
+                value={formData.rename}
+                onChange={(e) => setFormData(prev => ({ ...prev, rename: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-tag">Add tag</Label>
+              <Input
+                id="rule-tag"
+                placeholder="e.g., work"
+                maxLength={30}
+                value={formData.addTag}
+                onChange={(e) => setFormData(prev => ({ ...prev, addTag: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="rule-enabled">Enabled</Label>
+            <Switch
+              id="rule-enabled"
+              checked={formData.enabled}
+              onCheckedChange={(enabled) => setFormData(prev => ({ ...prev, enabled }))}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {/* Action Buttons */}
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : rule ? 'Update Rule' : 'Add Rule'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,161 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Loader2 } from 'lucide-react'
+import { format } from 'date-fns'
+import { categoryLabel } from '@/lib/categories'
+import { useCategoryStore, useCurrencyStore } from '@/lib/store'
+import type { RuleData } from '@/lib/rules'
+import { applyRuleToTransactions, previewRule, type RuleChange } from '@/lib/actions/rules'
+
+interface RulePreviewModalProps {
+  // The rule to re-apply; the modal is open while it's set
+  rule: RuleData | null
+  onClose: () => void
+}
+
+// Shows what a rule would change in past transactions, and applies it to
+// the ones the user keeps checked
+export function RulePreviewModal({ rule, onClose }: RulePreviewModalProps) {
+  const categories = useCategoryStore((state) => state.categories)
+  const { formatAmount } = useCurrencyStore()
+  const [changes, setChanges] = useState<RuleChange[] | null>(null)
+  const [total, setTotal] = useState(0)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [error, setError] = useState('')
+  const [isApplying, setIsApplying] = useState(false)
+
+  useEffect(() => {
+    if (!rule) return
+
+    let cancelled = false
+    previewRule(rule.id).then((result) => {
+      if (cancelled) return
+      if (result.success) {
+        setChanges(result.changes)
+        setTotal(result.total)
+        setSelected(new Set(result.changes.map(change => change.transactionId)))
+        setError('')
+      } else {
+        setChanges([])
+        setError(result.error || 'Failed to preview rule')
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [rule])
+
+  const handleClose = () => {
+    setChanges(null)
+    setSelected(new Set())
+    onClose()
+  }
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const handleApply = async () => {
+    if (!rule) return
+    setIsApplying(true)
+    try {
+      const result = await applyRuleToTransactions(rule.id, [...selected])
+      if (result.success) {
+        handleClose()
+      } else {
+        setError(result.error || 'Failed to apply rule')
+      }
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const describe = (side: RuleChange['before']) =>
+    [side.name, categoryLabel(categories, side.categoryId), ...side.tags.map(tag => `#${tag}`)].join(' • ')
+
+  return (
+    <Dialog open={!!rule} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Re-apply {rule?.name}</DialogTitle>
+          <DialogDescription>
+            Past transactions this rule would change. Categories you set yourself are replaced too, so uncheck any you want to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {changes === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {error || 'No past transactions would change.'}
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={selected.size === changes.length}
+                  onChange={(e) => setSelected(e.target.checked
+                    ? new Set(changes.map(change => change.transactionId))
+                    : new Set())}
+                />
+                Select all
+              </label>
+              {total > changes.length && (
+                <span className="text-muted-foreground">
+                  Showing the latest {changes.length} of {total}
+                </span>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto divide-y rounded-md border">
+              {changes.map((change) => (
+                <label key={change.transactionId} className="flex items-start gap-3 p-2 text-sm hover:bg-muted/50">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={selected.has(change.transactionId)}
+                    onChange={() => toggle(change.transactionId)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between gap-2 text-muted-foreground">
+                      <span>{format(new Date(change.date), 'MMM d, yyyy')}</span>
+                      <span>{formatAmount(change.amount)}</span>
+                    </div>
+                    <p className="truncate line-through text-muted-foreground">{describe(change.before)}</p>
+                    <p className="truncate">{describe(change.after)}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isApplying || selected.size === 0}>
+            {isApplying ? 'Applying...' : `Apply to ${selected.size} Transaction${selected.size === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Tags, Plus, Edit2, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { type UserCategory, sortCategoryTree } from '@/lib/categories'
+import { useActiveLedger, useCategoryStore, useLedgerStore } from '@/lib/store'
+import {
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  getCategories,
+  type CategoryFormData,
+} from '@/lib/actions/categories'
+import { CategoryIcon } from '@/components/categories/category-icon'
+import { CategoryModal } from '@/components/categories/category-modal'
+import { PersonalLedgerNotice } from '@/components/ledgers/personal-ledger-notice'
+
+const sections = [
+  { type: 'Expense', label: 'Expenses' },
+  { type: 'Income', label: 'Income' },
+]
+
+// Lets the user add, rename, recolor, nest and delete their categories
+export function CategoriesCard() {
+  const { categories, setCategories } = useCategoryStore()
+  // A shared ledger shows its owner's categories, which only they can change
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const ledger = useActiveLedger()
+  const showsOwnCategories = !ledgerId || ledger?.role === 'Owner'
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingCategory, setEditingCategory] = useState<UserCategory | null>(null)
+
+  const loadCategories = async () => {
+    const result = await getCategories()
+    if (result.success) {
+      setCategories(result.categories)
+    }
+  }
+
+  const handleAdd = () => {
+    setEditingCategory(null)
+    setIsModalOpen(true)
+  }
+
+  const handleEdit = (category: UserCategory) => {
+    setEditingCategory(category)
+    setIsModalOpen(true)
+  }
+
+  // Returns whether the modal can close
+  const handleSubmit = async (data: CategoryFormData) => {
+    try {
+      const result = editingCategory
+        ? await updateCategory(editingCategory.id, data)
+        : await createCategory(data)
+
+      if (!result.success) {
+        alert(result.error || 'Failed to save category')
+        return false
+      }
+
+      await loadCategories()
+      return true
+    } catch (error) {
+      console.error('Failed to save category:', error)
+      alert('Failed to save category. Please check the console for details.')
+      return false
+    }
+  }
+
+  const handleDelete = async (category: UserCategory) => {
+    if (confirm(`Delete ${category.name}? Its transactions will become uncategorized and its budget will be removed.`)) {
+      try {
+        const result = await deleteCategory(category.id)
+        if (result.success) {
+          await loadCategories()
+        } else {
+          alert(result.error || 'Failed to delete category')
+        }
+      } catch (error) {
+        console.error('Failed to delete category:', error)
+        alert('Failed to delete category')
+      }
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="w-5 h-5" />
+          Categories
+        </CardTitle>
+        <CardDescription>
+          Organize your transactions with your own categories and subcategories
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!showsOwnCategories ? (
+          <PersonalLedgerNotice>
+            {ledger?.name ?? 'This ledger'} uses its owner&apos;s categories.
+          </PersonalLedgerNotice>
+        ) : (
+          <>
+            {sections.map((section) => (
+              <div key={section.type} className="space-y-1">
+                <p className="text-sm font-medium">{section.label}</p>
+                {sortCategoryTree(categories, section.type).map((category) => (
+                  <div
+                    key={category.id}
+                    className={cn(
+                      'flex items-center justify-between p-2 rounded-lg hover:bg-muted/50 group',
+                      category.parentId && 'ml-6'
+                    )}
+                  >
+                    <div className="flex items-center gap-3">
+                      <CategoryIcon icon={category.icon} className="w-4 h-4" style={{ color: category.color }} />
+                      <span className="text-sm">{category.name}</span>
+                    </div>
+                    <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => handleEdit(category)}>
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(category)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            <Button variant="outline" onClick={handleAdd} className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Add Category
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <CategoryModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSubmit={handleSubmit}
+        categories={categories}
+        category={editingCategory}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { useEffect } from 'react'
+import { useCategoryStore, useLedgerStore } from '@/lib/store'
+import { getCategories } from '@/lib/actions/categories'
+
+// Loads the user's categories into the client store for the pickers,
+// labels and charts across the dashboard, or the ledger owner's while a
+// shared ledger is shown. Renders nothing.
+export function CategorySync() {
+  const setCategories = useCategoryStore((state) => state.setCategories)
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+
+  useEffect(() => {
+    getCategories(ledgerId).then((result) => {
+      if (result.success) {
+        setCategories(result.categories)
+      }
+    })
+  }, [setCategories, ledgerId])
+
+  return null
+}
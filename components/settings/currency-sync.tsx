@@ -0,0 +1,35 @@
+"use client"
+
+import { useEffect } from 'react'
+import { useActiveLedger, useCurrencyStore } from '@/lib/store'
+import { adoptStoredCurrency, getUserCurrency } from '@/lib/actions/settings'
+
+// Loads the currency saved on the server into the client store, so the
+// setting follows the user between devices. Until the user has chosen one
+// on the server, the browser's currency is saved there instead. While a
+// shared ledger is shown its currency is used instead. Renders nothing.
+export function CurrencySync() {
+  const hydrateCurrency = useCurrencyStore((state) => state.hydrateCurrency)
+  const ledger = useActiveLedger()
+  const ledgerCurrency = ledger?.currency ?? null
+
+  useEffect(() => {
+    if (ledgerCurrency) {
+      hydrateCurrency(ledgerCurrency)
+      return
+    }
+    getUserCurrency().then(async (result) => {
+      if (!result.success || !result.currency) return
+      if (!result.currencyChosen) {
+        const adopted = await adoptStoredCurrency(useCurrencyStore.getState().currency.code)
+        if (adopted.success && adopted.currency) {
+          hydrateCurrency(adopted.currency)
+        }
+        return
+      }
+      hydrateCurrency(result.currency)
+    })
+  }, [hydrateCurrency, ledgerCurrency])
+
+  return null
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowLeftRight, Upload, Loader2 } from 'lucide-react'
+import { format } from 'date-fns'
+import { importExchangeRates, getLatestExchangeRates } from '@/lib/actions/exchange-rates'
+
+interface ExchangeRate {
+  id: string
+  base: string
+  quote: string
+  rate: number
+  date: Date
+}
+
+export function ExchangeRatesCard() {
+  const [rates, setRates] = useState<ExchangeRate[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+
+  const loadRates = async () => {
+    const result = await getLatestExchangeRates()
+    if (result.success) {
+      setRates(result.rates)
+    }
+  }
+
+  useEffect(() => {
+    getLatestExchangeRates().then((result) => {
+      if (result.success) {
+        setRates(result.rates)
+      }
+    })
+  }, [])
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // Allow selecting the same file again
+    if (!file) return
+
+    setIsImporting(true)
+    try {
+      const result = await importExchangeRates(await file.text())
+      if (!result.success) {
+        alert(result.error || 'Failed to import exchange rates')
+        return
+      }
+
+      const skipped = result.errors.length > 0
+        ? `\n\nSkipped ${result.errors.length} invalid line(s):\n${result.errors.slice(0, 5).join('\n')}`
+        : ''
+      alert(`Imported ${result.imported} exchange rates.${skipped}`)
+      await loadRates()
+    } catch (error) {
+      console.error('Failed to import exchange rates:', error)
+      alert('Failed to import exchange rates. Please check the console for details.')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="w-5 h-5" />
+          Exchange Rates
+        </CardTitle>
+        <CardDescription>
+          Your own rates, used to convert transactions in other currencies into your currency
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Import a CSV file with the columns <code>date,base,quote,rate</code>, where one
+          unit of <code>base</code> equals <code>rate</code> units of <code>quote</code> on
+          that date (e.g. <code>2026-10-01,EUR,USD,1.09</code>).
+        </p>
+
+        <Button asChild variant="outline" disabled={isImporting} className="cursor-pointer">
+          <label className="flex items-center gap-2">
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleFileSelect}
+              disabled={isImporting}
+            />
+          </label>
+        </Button>
+
+        {rates.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Latest rates</p>
+            {rates.map((rate) => (
+              <div key={rate.id} className="flex justify-between text-sm text-muted-foreground">
+                <span>1 {rate.base} = {rate.rate.toFixed(4)} {rate.quote}</span>
+                <span>{format(new Date(rate.date), 'MMM d, yyyy')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,27 @@
+"use client"
+
+import { useEffect } from 'react'
+import { useLedgerStore } from '@/lib/store'
+import { getLedgers } from '@/lib/actions/ledgers'
+
+// Loads the ledgers the user belongs to into the client store, and goes
+// back to the personal ledger when the one shown was left or deleted.
+// Renders nothing.
+export function LedgerSync() {
+  const setLedgers = useLedgerStore((state) => state.setLedgers)
+  const setLedgerId = useLedgerStore((state) => state.setLedgerId)
+
+  useEffect(() => {
+    getLedgers().then((result) => {
+      if (result.success) {
+        setLedgers(result.ledgers)
+        const { ledgerId } = useLedgerStore.getState()
+        if (ledgerId && !result.ledgers.some(l => l.id === ledgerId)) {
+          setLedgerId(null)
+        }
+      }
+    })
+  }, [setLedgers, setLedgerId])
+
+  return null
+}
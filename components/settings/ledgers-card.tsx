@@ -0,0 +1,321 @@
+"use client"
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Users, Plus, Edit2, Trash2, LogOut, Link2, X } from 'lucide-react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { inviteLink, memberRoleOptions, type UserLedger } from '@/lib/ledgers'
+import { useLedgerStore } from '@/lib/store'
+import {
+  createLedger,
+  renameLedger,
+  deleteLedger,
+  leaveLedger,
+  getLedgers,
+  getLedgerMembers,
+  createInvite,
+  revokeInvite,
+  setMemberRole,
+  removeMember,
+} from '@/lib/actions/ledgers'
+import { LedgerModal } from '@/components/ledgers/ledger-modal'
+
+type Member = { userId: string; name: string; role: string; isYou: boolean }
+type Invite = { id: string; token: string; role: string; expiresAt: Date }
+
+const selectClassName = 'px-2 py-1 text-sm border border-input rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring'
+
+// Lets the user create shared ledgers, invite others into them and manage
+// their roles, or leave the ledgers they were invited to
+export function LedgersCard() {
+  const { ledgers, setLedgers, ledgerId, setLedgerId } = useLedgerStore()
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingLedger, setEditingLedger] = useState<UserLedger | null>(null)
+  // The ledger whose members are shown
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [members, setMembers] = useState<Member[]>([])
+  const [invites, setInvites] = useState<Invite[]>([])
+  const [inviteRole, setInviteRole] = useState('Editor')
+
+  const loadLedgers = async () => {
+    const result = await getLedgers()
+    if (result.success) {
+      setLedgers(result.ledgers)
+    }
+  }
+
+  const loadMembers = async (id: string) => {
+    const result = await getLedgerMembers(id)
+    if (result.success) {
+      setMembers(result.members)
+      setInvites(result.invites)
+    }
+  }
+
+  const toggleMembers = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null)
+      return
+    }
+    setMembers([])
+    setInvites([])
+    setExpandedId(id)
+    await loadMembers(id)
+  }
+
+  // Run an action and reload the ledger's members, or report why it failed
+  const runAndReload = async (ledgerIdToReload: string, action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    try {
+      const result = await action()
+      if (!result.success) {
+        alert(result.error || failure)
+        return
+      }
+      await Promise.all([loadMembers(ledgerIdToReload), loadLedgers()])
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(failure)
+    }
+  }
+
+  const handleAdd = () => {
+    setEditingLedger(null)
+    setIsModalOpen(true)
+  }
+
+  const handleRename = (ledger: UserLedger) => {
+    setEditingLedger(ledger)
+    setIsModalOpen(true)
+  }
+
+  // Returns whether the modal can close
+  const handleSubmit = async (name: string) => {
+    try {
+      const result = editingLedger
+        ? await renameLedger(editingLedger.id, name)
+        : await createLedger(name)
+
+      if (!result.success) {
+        alert(result.error || 'Failed to save ledger')
+        return false
+      }
+
+      await loadLedgers()
+      return true
+    } catch (error) {
+      console.error('Failed to save ledger:', error)
+      alert('Failed to save ledger. Please check the console for details.')
+      return false
+    }
+  }
+
+  // Deleting or leaving the ledger that is shown goes back to the personal one
+  const handleRemoveLedger = async (ledger: UserLedger) => {
+    const isOwner = ledger.role === 'Owner'
+    const question = isOwner
+      ? `Delete ${ledger.name}? Its transactions will be deleted for every member.`
+      : `Leave ${ledger.name}? The transactions you added stay in it.`
+    if (!confirm(question)) return
+
+    try {
+      const result = isOwner ? await deleteLedger(ledger.id) : await leaveLedger(ledger.id)
+      if (!result.success) {
+        alert(result.error || 'Failed to remove ledger')
+        return
+      }
+      if (ledgerId === ledger.id) {
+        setLedgerId(null)
+      }
+      if (expandedId === ledger.id) {
+        setExpandedId(null)
+      }
+      await loadLedgers()
+    } catch (error) {
+      console.error('Failed to remove ledger:', error)
+      alert('Failed to remove ledger')
+    }
+  }
+
+  const handleCreateInvite = async (id: string) => {
+    try {
+      const result = await createInvite(id, inviteRole)
+      if (!result.success || !result.token) {
+        alert(result.error || 'Failed to create invite')
+        return
+      }
+      await copyInviteLink(result.token)
+      await loadMembers(id)
+    } catch (error) {
+      console.error('Failed to create invite:', error)
+      alert('Failed to create invite')
+    }
+  }
+
+  const copyInviteLink = async (token: string) => {
+    const link = inviteLink(window.location.origin, token)
+    try {
+      await navigator.clipboard.writeText(link)
+      alert('Invite link copied. Anyone who opens it can join, so only share it with the person you are inviting.')
+    } catch {
+      // Clipboard access can be denied; show the link to copy by hand
+      prompt('Copy the invite link:', link)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Shared Ledgers
+        </CardTitle>
+        <CardDescription>
+          Keep a household&apos;s or team&apos;s transactions together. Switch between them and your own on the Records and Reports pages.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {ledgers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No shared ledgers yet. Create one and invite the people you share expenses with.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {ledgers.map((ledger) => {
+              const isOwner = ledger.role === 'Owner'
+              const isExpanded = expandedId === ledger.id
+
+              return (
+                <div key={ledger.id} className={cn('rounded-lg', isExpanded && 'border')}>
+                  <div className="flex items-center justify-between gap-2 p-2 rounded-lg hover:bg-muted/50 group">
+                    <button type="button" className="min-w-0 text-left" onClick={() => toggleMembers(ledger.id)}>
+                      <p className="text-sm font-medium truncate">{ledger.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {ledger.role} • {ledger.memberCount} {ledger.memberCount === 1 ? 'member' : 'members'} • {ledger.currency}
+                      </p>
+                    </button>
+                    <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1 shrink-0">
+                      {isOwner && (
+                        <Button size="sm" variant="ghost" title="Rename" onClick={() => handleRename(ledger)}>
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title={isOwner ? 'Delete' : 'Leave'}
+                        onClick={() => handleRemoveLedger(ledger)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        {isOwner ? <Trash2 className="w-4 h-4" /> : <LogOut className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {/* Members and invites */}
+                  {isExpanded && (
+                    <div className="space-y-3 p-2 pt-0">
+                      <div className="space-y-1">
+                        {members.map((member) => (
+                          <div key={member.userId} className="flex items-center justify-between gap-2 text-sm">
+                            <span className="truncate">{member.name}{member.isYou && ' (you)'}</span>
+                            {isOwner && member.role !== 'Owner' ? (
+                              <div className="flex items-center gap-1">
+                                <select
+                                  aria-label={`Role of ${member.name}`}
+                                  value={member.role}
+                                  onChange={(e) => runAndReload(ledger.id, () => setMemberRole(ledger.id, member.userId, e.target.value), 'Failed to change role')}
+                                  className={selectClassName}
+                                >
+                                  {memberRoleOptions.map((option) => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                  ))}
+                                </select>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  title="Remove from ledger"
+                                  onClick={() => {
+                                    if (confirm(`Remove ${member.name} from ${ledger.name}? The transactions they added stay in it.`)) {
+                                      runAndReload(ledger.id, () => removeMember(ledger.id, member.userId), 'Failed to remove member')
+                                    }
+                                  }}
+                                  className="text-destructive hover:text-destructive"
+                                >
+                                  <X className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">{member.role}</span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+
+                      {isOwner && (
+                        <div className="space-y-2">
+                          {invites.map((invite) => (
+                            <div key={invite.id} className="flex items-center justify-between gap-2 text-sm">
+                              <span className="text-muted-foreground">
+                                Invite as {invite.role} • expires {format(new Date(invite.expiresAt), 'MMM d')}
+                              </span>
+                              <div className="flex items-center gap-1">
+                                <Button size="sm" variant="ghost" title="Copy link" onClick={() => copyInviteLink(invite.token)}>
+                                  <Link2 className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  title="Revoke"
+                                  onClick={() => runAndReload(ledger.id, () => revokeInvite(invite.id), 'Failed to revoke invite')}
+                                  className="text-destructive hover:text-destructive"
+                                >
+                                  <X className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </div>
+                          ))}
+                          <div className="flex items-center gap-2">
+                            <select
+                              aria-label="Role of the invited member"
+                              value={inviteRole}
+                              onChange={(e) => setInviteRole(e.target.value)}
+                              className={selectClassName}
+                            >
+                              {memberRoleOptions.map((option) => (
+                                <option key={option.value} value={option.value} title={option.description}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                            <Button variant="outline" size="sm" onClick={() => handleCreateInvite(ledger.id)} className="flex items-center gap-2">
+                              <Link2 className="w-4 h-4" />
+                              Create Invite Link
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <Button variant="outline" onClick={handleAdd} className="flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          New Shared Ledger
+        </Button>
+      </CardContent>
+
+      <LedgerModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSubmit={handleSubmit}
+        ledger={editingLedger}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,213 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { Wand2, Plus, Edit2, Trash2, ArrowUp, ArrowDown, History } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { categoryLabel } from '@/lib/categories'
+import { useActiveLedger, useCategoryStore, useLedgerStore } from '@/lib/store'
+import { describeRuleConditions, type RuleData, type RuleFormData } from '@/lib/rules'
+import {
+  createRule,
+  updateRule,
+  deleteRule,
+  getRules,
+  moveRule,
+  setRuleEnabled,
+} from '@/lib/actions/rules'
+import { RuleModal } from '@/components/rules/rule-modal'
+import { RulePreviewModal } from '@/components/rules/rule-preview-modal'
+import { PersonalLedgerNotice } from '@/components/ledgers/personal-ledger-notice'
+
+// Lets the user manage the rules that categorize, rename and tag their
+// transactions, and re-apply a rule to past ones
+export function RulesCard() {
+  const categories = useCategoryStore((state) => state.categories)
+  // Rules file transactions under the user's own categories, which aren't
+  // loaded while someone else's ledger is shown
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
+  const ledger = useActiveLedger()
+  const showsOwnCategories = !ledgerId || ledger?.role === 'Owner'
+  const [rules, setRules] = useState<RuleData[]>([])
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<RuleData | null>(null)
+  const [previewingRule, setPreviewingRule] = useState<RuleData | null>(null)
+
+  const loadRules = async () => {
+    const result = await getRules()
+    if (result.success) {
+      setRules(result.rules)
+    }
+  }
+
+  useEffect(() => {
+    getRules().then((result) => {
+      if (result.success) {
+        setRules(result.rules)
+      }
+    })
+  }, [])
+
+  const handleAdd = () => {
+    setEditingRule(null)
+    setIsModalOpen(true)
+  }
+
+  const handleEdit = (rule: RuleData) => {
+    setEditingRule(rule)
+    setIsModalOpen(true)
+  }
+
+  // Returns whether the modal can close
+  const handleSubmit = async (data: RuleFormData) => {
+    try {
+      const result = editingRule
+        ? await updateRule(editingRule.id, data)
+        : await createRule(data)
+
+      if (!result.success) {
+        alert(result.error || 'Failed to save rule')
+        return false
+      }
+
+      await loadRules()
+      return true
+    } catch (error) {
+      console.error('Failed to save rule:', error)
+      alert('Failed to save rule. Please check the console for details.')
+      return false
+    }
+  }
+
+  const runAndReload = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    try {
+      const result = await action()
+      if (!result.success) {
+        alert(result.error || failure)
+      }
+      await loadRules()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(failure)
+    }
+  }
+
+  const handleDelete = async (rule: RuleData) => {
+    if (confirm(`Delete the rule ${rule.name}? Transactions it already changed stay as they are.`)) {
+      await runAndReload(() => deleteRule(rule.id), 'Failed to delete rule')
+    }
+  }
+
+  const describeActions = (rule: RuleData) => {
+    const actions: string[] = []
+    if (rule.categoryId) actions.push(categoryLabel(categories, rule.categoryId))
+    if (rule.rename) actions.push(`rename to "${rule.rename}"`)
+    if (rule.addTag) actions.push(`#${rule.addTag}`)
+    return actions.join(', ')
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wand2 className="w-5 h-5" />
+          Rules
+        </CardTitle>
+        <CardDescription>
+          Categorize, rename and tag new, imported and scanned transactions automatically. Rules run from top to bottom; when several match, the lower one wins.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!showsOwnCategories ? (
+          <PersonalLedgerNotice>
+            Rules only apply to your personal transactions.
+          </PersonalLedgerNotice>
+        ) : (
+          <>
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No rules yet. For example, file everything named &quot;uber&quot; under Transportation.
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {rules.map((rule, index) => (
+                  <div
+                    key={rule.id}
+                    className="flex items-center justify-between gap-2 p-2 rounded-lg hover:bg-muted/50 group"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Switch
+                        aria-label={`Enable ${rule.name}`}
+                        checked={rule.enabled}
+                        onCheckedChange={(enabled) => runAndReload(() => setRuleEnabled(rule.id, enabled), 'Failed to update rule')}
+                      />
+                      <div className={cn('min-w-0', !rule.enabled && 'opacity-50')}>
+                        <p className="text-sm font-medium truncate">{rule.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {describeRuleConditions(rule)} → {describeActions(rule)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="opacity-0 group-hover:opacity-100 transition-opacity flex gap-1 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Move up"
+                        disabled={index === 0}
+                        onClick={() => runAndReload(() => moveRule(rule.id, 'up'), 'Failed to move rule')}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Move down"
+                        disabled={index === rules.length - 1}
+                        onClick={() => runAndReload(() => moveRule(rule.id, 'down'), 'Failed to move rule')}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" title="Re-apply to past transactions" onClick={() => setPreviewingRule(rule)}>
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleEdit(rule)}>
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(rule)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button variant="outline" onClick={handleAdd} className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Add Rule
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <RuleModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSubmit={handleSubmit}
+        rule={editingRule}
+      />
+
+      <RulePreviewModal
+        rule={previewingRule}
+        onClose={() => setPreviewingRule(null)}
+      />
+    </Card>
+  )
+}
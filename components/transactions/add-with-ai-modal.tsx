@@ -12,8 +12,16 @@ import {
 } from "@/components/ui/dialog";
 import { Camera, Image as ImageIcon, Loader2, Sparkles, AlertCircle } from "lucide-react";
 import Webcam from "react-webcam";
-import { scanReceipt, AiScanResponse } from "@/app/actions/scan-receipt";
+import { scanReceipt } from "@/app/actions/scan-receipt";
 import { TransactionFormData } from "./transaction-modal";
+import {
+  ReceiptReview,
+  isReceiptDraftComplete,
+  receiptToTransaction,
+  toReceiptDraft,
+  type ReceiptDraft,
+} from "./receipt-review";
+import { dataUrlToFile, validateAttachment } from "@/lib/attachments";
 
 type ModalStep = "choose" | "capture" | "loading" | "confirm" | "error";
 
@@ -25,16 +33,19 @@ interface AddWithAiModalProps {
 export function AddWithAiModal({ onTransactionSaved, onSubmitTransaction }: AddWithAiModalProps) {
   const [modalOpen, setModalOpen] = useState(false);
   const [step, setStep] = useState<ModalStep>("choose");
-  const [aiData, setAiData] = useState<Partial<AiScanResponse> | null>(null);
+  const [aiData, setAiData] = useState<ReceiptDraft | null>(null);
+  // The scanned photo, kept so it can be attached to the saved transaction
+  const [receiptImage, setReceiptImage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState("");
   const webcamRef = useRef<Webcam>(null);
 
   const processImage = async (base64String: string) => {
     setStep("loading");
+    setReceiptImage(base64String);
     const result = await scanReceipt(base64String);
 
     if (result.success && result.data) {
-      setAiData(result.data);
+      setAiData(toReceiptDraft(result.data));
       setStep("confirm");
     } else {
       setErrorMessage(result.error || "An unknown error occurred.");
@@ -81,6 +92,7 @@ export function AddWithAiModal({ onTransactionSaved, onSubmitTransaction }: AddW
   const resetModal = () => {
     setStep("choose");
     setAiData(null);
+    setReceiptImage(null);
     setErrorMessage("");
   };
 
@@ -93,13 +105,17 @@ export function AddWithAiModal({ onTransactionSaved, onSubmitTransaction }: AddW
   const handleConfirmData = async () => {
     if (aiData && onSubmitTransaction) {
       try {
-        // Convert AI data to transaction form format
-        const transactionData: TransactionFormData = {
-          name: aiData.name || '',
-          amount: aiData.amount?.toString() || '0',
-          category: aiData.category || 'Other',
-          date: aiData.date ? new Date(aiData.date) : new Date(),
-        };
+        // Convert the reviewed receipt to transaction form format
+        const transactionData: TransactionFormData = receiptToTransaction(aiData);
+
+        // Keep the original receipt with the transaction
+        if (receiptImage) {
+          const extension = receiptImage.match(/^data:image\/(\w+)/)?.[1]?.replace("jpeg", "jpg") || "jpg";
+          const file = await dataUrlToFile(receiptImage, `receipt-${aiData.date}.${extension}`);
+          if (!validateAttachment(file)) {
+            transactionData.attachments = [file];
+          }
+        }
         
         // Directly save the transaction
         await onSubmitTransaction(transactionData);
@@ -128,7 +144,11 @@ export function AddWithAiModal({ onTransactionSaved, onSubmitTransaction }: AddW
             Add with AI
           </Button>
         </DialogTrigger>
-        <DialogContent onInteractOutside={closeAndReset} onEscapeKeyDown={closeAndReset}>
+        <DialogContent
+          className={step === "confirm" ? "sm:max-w-[600px]" : undefined}
+          onInteractOutside={closeAndReset}
+          onEscapeKeyDown={closeAndReset}
+        >
           <DialogHeader>
             <DialogTitle>Add with AI</DialogTitle>
           </DialogHeader>
@@ -194,33 +214,16 @@ export function AddWithAiModal({ onTransactionSaved, onSubmitTransaction }: AddW
             <div className="space-y-4">
               <h3 className="text-lg font-medium mb-2 text-center">Confirm Data</h3>
               <p className="text-sm text-muted-foreground mb-4 text-center">
-                AI has scanned your receipt. Please review the details below.
+                AI has scanned your receipt. Please review and correct the details below.
               </p>
               
-              <div className="space-y-3 p-4 bg-muted rounded-lg">
-                <div className="flex justify-between">
-                  <span className="font-medium">Name:</span>
-                  <span>{aiData.name}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="font-medium">Amount:</span>
-                  <span>${aiData.amount}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="font-medium">Category:</span>
-                  <span>{aiData.category}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="font-medium">Date:</span>
-                  <span>{aiData.date}</span>
-                </div>
-              </div>
+              <ReceiptReview draft={aiData} onChange={setAiData} />
               
               <div className="flex gap-2 pt-4">
                 <Button variant="outline" onClick={resetModal} className="flex-1">
                   Try Again
                 </Button>
-                <Button onClick={handleConfirmData} className="flex-1">
+                <Button onClick={handleConfirmData} className="flex-1" disabled={!isReceiptDraftComplete(aiData)}>
                   Save Transaction
                 </Button>
               </div>
@@ -0,0 +1,57 @@
+"use client"
+
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Download, FileText, Paperclip } from 'lucide-react'
+import { attachmentUrl, formatFileSize, type SavedAttachment } from '@/lib/attachments'
+
+interface AttachmentsPopoverProps {
+  attachments: SavedAttachment[]
+}
+
+// Paperclip with the number of files on a transaction; opens a list to
+// view or download them. Adding and removing is done in TransactionModal.
+export function AttachmentsPopover({ attachments }: AttachmentsPopoverProps) {
+  if (attachments.length === 0) return null
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-auto px-1.5 py-0.5 text-xs text-muted-foreground gap-1"
+          aria-label={`${attachments.length} attachment${attachments.length === 1 ? '' : 's'}`}
+        >
+          <Paperclip className="w-3 h-3" />
+          {attachments.length}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-2" align="start">
+        {attachments.map((attachment) => (
+          <div key={attachment.id} className="flex items-center justify-between gap-2 p-2 rounded-md hover:bg-muted/50">
+            <a
+              href={attachmentUrl(attachment.id)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 min-w-0 text-sm hover:underline"
+            >
+              <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+              <span className="truncate">{attachment.fileName}</span>
+            </a>
+            <div className="flex items-center gap-1 shrink-0">
+              <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+              <a
+                href={`${attachmentUrl(attachment.id)}?download`}
+                className="p-1 text-muted-foreground hover:text-foreground"
+                aria-label={`Download ${attachment.fileName}`}
+              >
+                <Download className="w-4 h-4" />
+              </a>
+            </div>
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,404 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Images, Loader2, AlertCircle, CheckCircle2, ChevronDown, ChevronRight, RotateCcw, Trash2 } from 'lucide-react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { useCurrencyStore } from '@/lib/store'
+import { formatCurrency } from '@/lib/currency'
+import { uploadReceiptScan, validateReceiptImage } from '@/lib/attachments'
+import { discardScan, discardScanBatch, getScanBatch, retryScan, saveScannedReceipt } from '@/lib/actions/receipt-scans'
+import type { SerializedReceiptScan } from '@/lib/scan-queue'
+import {
+  ReceiptReview,
+  isReceiptDraftComplete,
+  receiptToTransaction,
+  toReceiptDraft,
+  type ReceiptDraft,
+} from './receipt-review'
+
+type BatchStep = 'upload' | 'review'
+
+// Files sent to the server at once; the queue decides how many are scanned at once
+const UPLOAD_CONCURRENCY = 3
+
+const POLL_INTERVAL_MS = 2000
+
+interface BatchScanModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: () => void
+}
+
+// Scan a stack of receipts in one go: upload them all, watch the queue work
+// through them, then review the drafts in one list and save the ones wanted
+export function BatchScanModal({ isOpen, onClose, onSaved }: BatchScanModalProps) {
+  const { formatAmount } = useCurrencyStore()
+  const [step, setStep] = useState<BatchStep>('upload')
+  const [batchId, setBatchId] = useState<string | null>(null)
+  const [scans, setScans] = useState<SerializedReceiptScan[]>([])
+  // Reviewed drafts by scan id, made when a scan finishes
+  const [drafts, setDrafts] = useState<Record<string, ReceiptDraft>>({})
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [uploadsLeft, setUploadsLeft] = useState(0)
+  // Files that never made it into the queue, with the reason
+  const [rejected, setRejected] = useState<{ fileName: string; error: string }[]>([])
+  const [isDragging, setIsDragging] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [errorMessage, setErrorMessage] = useState('')
+  const batchIdRef = useRef<string | null>(null)
+
+  const reset = () => {
+    setStep('upload')
+    setBatchId(null)
+    batchIdRef.current = null
+    setScans([])
+    setDrafts({})
+    setExcluded(new Set())
+    setExpandedId(null)
+    setUploadsLeft(0)
+    setRejected([])
+    setErrorMessage('')
+  }
+
+  const closeModal = () => {
+    onClose()
+    // Delay reset to allow dialog to close gracefully
+    setTimeout(reset, 300)
+  }
+
+  // Nothing leads back to a batch once it's closed, so unsaved receipts go
+  const handleClose = async () => {
+    if (isSaving) return
+    if (batchId && scans.length + uploadsLeft > 0) {
+      if (!confirm(`Discard the ${scans.length + uploadsLeft} receipts that haven't been saved?`)) return
+      batchIdRef.current = null
+      await discardScanBatch(batchId)
+    }
+    closeModal()
+  }
+
+  const refresh = async (id: string) => {
+    const result = await getScanBatch(id)
+    // Ignore answers for a batch the modal has moved on from
+    if (!result.success || batchIdRef.current !== id) return
+
+    setScans(result.scans)
+    setDrafts(prev => {
+      const next = { ...prev }
+      for (const scan of result.scans) {
+        if (scan.status === 'Done' && scan.result && !next[scan.id]) {
+          next[scan.id] = toReceiptDraft(scan.result)
+        }
+      }
+      return next
+    })
+  }
+
+  const isWorking = uploadsLeft > 0 || scans.some(scan => scan.status === 'Pending' || scan.status === 'Processing')
+
+  // Follow the queue until every receipt is scanned or has failed
+  useEffect(() => {
+    if (!batchId || !isWorking) return
+    const timer = setInterval(() => refresh(batchId), POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [batchId, isWorking])
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return
+
+    const id = batchId ?? crypto.randomUUID()
+    batchIdRef.current = id
+    setBatchId(id)
+    setStep('review')
+
+    const valid: File[] = []
+    const invalid: { fileName: string; error: string }[] = []
+    for (const file of files) {
+      const error = validateReceiptImage(file)
+      if (error) {
+        invalid.push({ fileName: file.name, error })
+      } else {
+        valid.push(file)
+      }
+    }
+    setRejected(prev => [...prev, ...invalid])
+    setUploadsLeft(prev => prev + valid.length)
+
+    // A few uploads at a time, each picking the next file when it's done
+    const queue = [...valid]
+    const uploadNext = async (): Promise<void> => {
+      const file = queue.shift()
+      if (!file) return
+
+      const result = await uploadReceiptScan(id, file)
+      if (!result.success) {
+        setRejected(prev => [...prev, { fileName: file.name, error: result.error }])
+      }
+      setUploadsLeft(prev => prev - 1)
+      await refresh(id)
+      await uploadNext()
+    }
+    await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, valid.length) }, uploadNext))
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    handleFiles(Array.from(e.dataTransfer.files))
+  }
+
+  const handleRetry = async (scan: SerializedReceiptScan) => {
+    const result = await retryScan(scan.id)
+    if (!result.success) {
+      setErrorMessage(result.error || 'Failed to retry scan')
+    } else if (batchId) {
+      await refresh(batchId)
+    }
+  }
+
+  const handleDiscard = async (scan: SerializedReceiptScan) => {
+    const result = await discardScan(scan.id)
+    if (result.success) {
+      setScans(prev => prev.filter(s => s.id !== scan.id))
+    } else {
+      setErrorMessage(result.error || 'Failed to discard scan')
+    }
+  }
+
+  const toggleIncluded = (id: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const toSave = scans.filter(scan =>
+    drafts[scan.id] && !excluded.has(scan.id) && isReceiptDraftComplete(drafts[scan.id])
+  )
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setErrorMessage('')
+
+    const errors: string[] = []
+    const saved = new Set<string>()
+    // One at a time, so a failure leaves the rest of the list as it was
+    for (const scan of toSave) {
+      const result = await saveScannedReceipt(scan.id, receiptToTransaction(drafts[scan.id]))
+      if (result.success) {
+        saved.add(scan.id)
+      }
+      if (result.error) {
+        errors.push(`${scan.fileName}: ${result.error}`)
+      }
+    }
+
+    setIsSaving(false)
+    if (saved.size > 0) {
+      onSaved?.()
+    }
+
+    const remaining = scans.filter(scan => !saved.has(scan.id))
+    setScans(remaining)
+    if (errors.length > 0) {
+      setErrorMessage(errors.join('\n'))
+    } else if (remaining.length === 0 && uploadsLeft === 0) {
+      closeModal()
+    }
+  }
+
+  const finishedCount = scans.filter(scan => scan.status === 'Done' || scan.status === 'Failed').length
+  const totalCount = scans.length + uploadsLeft
+  const failedCount = scans.filter(scan => scan.status === 'Failed').length
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scan Receipts</DialogTitle>
+        </DialogHeader>
+
+        {/* Step 1: Choose Files */}
+        {step === 'upload' && (
+          <label
+            className={cn(
+              'flex flex-col items-center justify-center h-40 gap-2 border-2 border-dashed rounded-lg cursor-pointer text-sm text-muted-foreground hover:bg-muted/50',
+              isDragging && 'border-primary bg-muted/50'
+            )}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+          >
+            <Images className="h-8 w-8" />
+            Drop receipt photos here, or click to choose several
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(Array.from(e.target.files ?? []))}
+            />
+          </label>
+        )}
+
+        {/* Step 2: Progress and Review */}
+        {step === 'review' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>
+                  {isWorking
+                    ? `Scanning ${finishedCount} of ${totalCount} receipts...`
+                    : `${finishedCount} receipts scanned`}
+                  {failedCount > 0 && ` • ${failedCount} failed`}
+                </span>
+                {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+              </div>
+              <div className="w-full bg-muted rounded-full h-2">
+                <div
+                  className="h-2 rounded-full bg-primary transition-all"
+                  style={{ width: `${totalCount > 0 ? (finishedCount / totalCount) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+
+            {rejected.length > 0 && (
+              <div className="text-sm text-destructive space-y-1">
+                {rejected.map((file, index) => (
+                  <p key={index}>{file.fileName}: {file.error}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="border rounded-lg divide-y max-h-[55vh] overflow-y-auto">
+              {scans.map((scan) => {
+                const draft = drafts[scan.id]
+                const isExpanded = expandedId === scan.id
+
+                return (
+                  <div key={scan.id} className="p-3 text-sm space-y-3">
+                    <div className="flex items-center gap-3">
+                      {draft ? (
+                        <input
+                          type="checkbox"
+                          aria-label={`Save ${scan.fileName}`}
+                          checked={!excluded.has(scan.id) && isReceiptDraftComplete(draft)}
+                          disabled={!isReceiptDraftComplete(draft)}
+                          onChange={() => toggleIncluded(scan.id)}
+                        />
+                      ) : scan.status === 'Failed' ? (
+                        <AlertCircle className="w-4 h-4 text-destructive shrink-0" />
+                      ) : (
+                        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground shrink-0" />
+                      )}
+
+                      <div className="flex-1 min-w-0">
+                        {draft ? (
+                          <>
+                            <div className="flex justify-between gap-2">
+                              <span className="font-medium truncate">{draft.name || draft.merchant || '—'}</span>
+                              <span className="font-semibold">
+                                {draft.currency
+                                  ? formatCurrency(parseFloat(draft.amount) || 0, draft.currency)
+                                  : formatAmount(parseFloat(draft.amount) || 0)}
+                              </span>
+                            </div>
+                            <div className="text-muted-foreground truncate">
+                              {scan.fileName} • {draft.date ? format(new Date(`${draft.date}T00:00:00`), 'MMM d, yyyy') : 'No date'}
+                              {draft.lineItems.length > 0 && ` • ${draft.lineItems.length} items`}
+                            </div>
+                            {!isReceiptDraftComplete(draft) && (
+                              <div className="text-amber-600">Needs a total and a date before it can be saved</div>
+                            )}
+                          </>
+                        ) : (
+                          <>
+                            <div className="font-medium truncate">{scan.fileName}</div>
+                            <div className={scan.status === 'Failed' ? 'text-destructive' : 'text-muted-foreground'}>
+                              {scan.status === 'Failed' ? scan.error : scan.status === 'Processing' ? 'Scanning...' : 'Waiting...'}
+                            </div>
+                          </>
+                        )}
+                      </div>
+
+                      <div className="flex gap-1 shrink-0">
+                        {draft && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            aria-label={isExpanded ? 'Hide details' : 'Show details'}
+                            onClick={() => setExpandedId(isExpanded ? null : scan.id)}
+                          >
+                            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          </Button>
+                        )}
+                        {scan.status === 'Failed' && (
+                          <Button size="sm" variant="ghost" aria-label="Retry" onClick={() => handleRetry(scan)}>
+                            <RotateCcw className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {scan.status !== 'Processing' && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            aria-label="Discard"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => handleDiscard(scan)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    {draft && isExpanded && (
+                      <ReceiptReview
+                        draft={draft}
+                        onChange={(next) => setDrafts(prev => ({ ...prev, [scan.id]: next }))}
+                      />
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            {errorMessage && (
+              <p className="text-sm text-destructive whitespace-pre-line">{errorMessage}</p>
+            )}
+
+            <div className="flex items-center justify-between gap-2 pt-2">
+              <Button asChild variant="outline" className="cursor-pointer">
+                <label>
+                  Add more
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => handleFiles(Array.from(e.target.files ?? []))}
+                  />
+                </label>
+              </Button>
+              <Button onClick={handleSave} disabled={toSave.length === 0 || isSaving}>
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+                Save {toSave.length} Transactions
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
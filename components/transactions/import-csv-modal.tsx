@@ -0,0 +1,379 @@
+"use client"
+
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { FileUp, Loader2, AlertCircle, Copy } from 'lucide-react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { parseCsv } from '@/lib/csv'
+import {
+  type ColumnMapping,
+  type ImportField,
+  type ImportOptions,
+  type ImportRow,
+  dateFormats,
+  fallbackCategoryId,
+  guessColumnMapping,
+  isLikelyDuplicate,
+  parseImportRows,
+} from '@/lib/transaction-import'
+import { findImportDuplicates, importTransactions } from '@/lib/actions/import'
+import { categoryLabel } from '@/lib/categories'
+import { useCategoryStore, useCurrencyStore } from '@/lib/store'
+
+type ImportStep = 'upload' | 'map' | 'preview'
+
+interface ImportCsvModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported?: () => void
+  // The user's accounts, oldest first; the file's rows all go into the
+  // one picked, e.g. the card the statement is from
+  accounts?: { id: string; name: string; archived: boolean }[]
+}
+
+const fieldLabels: Record<ImportField, string> = {
+  name: 'Name',
+  amount: 'Amount',
+  date: 'Date',
+  category: 'Category (optional)',
+}
+
+const selectClassName = "w-full mt-1 px-3 py-2 border border-input rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+
+export function ImportCsvModal({ isOpen, onClose, onImported, accounts = [] }: ImportCsvModalProps) {
+  const { formatAmount } = useCurrencyStore()
+  const categories = useCategoryStore((state) => state.categories)
+  const [step, setStep] = useState<ImportStep>('upload')
+  const [fileName, setFileName] = useState('')
+  const [header, setHeader] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<ColumnMapping>({ name: null, amount: null, date: null, category: null })
+  const [options, setOptions] = useState<ImportOptions>({ dateFormat: 'yyyy-MM-dd', signedAmounts: true })
+  // Unset for the default account
+  const [accountId, setAccountId] = useState('')
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [duplicateOf, setDuplicateOf] = useState<(string | null)[]>([])
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [isWorking, setIsWorking] = useState(false)
+  const [errorMessage, setErrorMessage] = useState('')
+
+  const reset = () => {
+    setStep('upload')
+    setFileName('')
+    setHeader([])
+    setDataRows([])
+    setRows([])
+    setDuplicateOf([])
+    setSelected(new Set())
+    setErrorMessage('')
+  }
+
+  const handleClose = () => {
+    onClose()
+    // Delay reset to allow dialog to close gracefully
+    setTimeout(reset, 300)
+  }
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const [fileHeader, ...fileRows] = parseCsv(await file.text())
+    if (!fileHeader || fileRows.length === 0) {
+      setErrorMessage('The file has no data rows.')
+      return
+    }
+
+    setErrorMessage('')
+    setFileName(file.name)
+    setHeader(fileHeader)
+    setDataRows(fileRows)
+    setMapping(guessColumnMapping(fileHeader))
+    setStep('map')
+  }
+
+  const handlePreview = async () => {
+    setIsWorking(true)
+    try {
+      const parsed = parseImportRows(dataRows, mapping, options, categories)
+
+      // Check valid rows against what is already stored
+      const validIndexes = parsed.flatMap((row, i) => (row.errors.length === 0 ? [i] : []))
+      const result = await findImportDuplicates(
+        validIndexes.map(i => ({ name: parsed[i].name, amount: parsed[i].amount, date: parsed[i].date! }))
+      )
+      if (!result.success) {
+        setErrorMessage(result.error || 'Failed to check for duplicates')
+        return
+      }
+
+      const duplicates: (string | null)[] = parsed.map(() => null)
+      validIndexes.forEach((rowIndex, i) => {
+        const match = result.duplicates[i]
+        if (match) {
+          duplicates[rowIndex] = `${match.name} on ${format(new Date(match.date), 'MMM d, yyyy')}`
+        }
+      })
+
+      // Rows repeated within the file itself are duplicates too
+      validIndexes.forEach((rowIndex, i) => {
+        if (duplicates[rowIndex]) return
+        const row = parsed[rowIndex]
+        const earlier = validIndexes.slice(0, i).find(j =>
+          isLikelyDuplicate({ ...row, date: row.date! }, { ...parsed[j], date: parsed[j].date! })
+        )
+        if (earlier !== undefined) {
+          duplicates[rowIndex] = `line ${parsed[earlier].line} of this file`
+        }
+      })
+
+      setRows(parsed)
+      setDuplicateOf(duplicates)
+      // Only import valid, non-duplicate rows unless the user opts in
+      setSelected(new Set(validIndexes.filter(i => !duplicates[i])))
+      setErrorMessage('')
+      setStep('preview')
+    } catch (error) {
+      console.error('Failed to preview import:', error)
+      setErrorMessage('Failed to read the file. Please check the column mapping.')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const toggleRow = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) {
+        next.delete(index)
+      } else {
+        next.add(index)
+      }
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    setIsWorking(true)
+    try {
+      const result = await importTransactions(
+        [...selected].sort((a, b) => a - b).map(i => ({
+          name: rows[i].name,
+          amount: rows[i].amount,
+          date: rows[i].date!,
+          type: rows[i].type,
+          categoryId: rows[i].categoryId,
+        })),
+        accountId || null
+      )
+
+      if (!result.success) {
+        setErrorMessage(result.error || 'Failed to import transactions')
+        return
+      }
+
+      alert(`Imported ${result.imported} transactions.`)
+      handleClose()
+      if (onImported) {
+        onImported()
+      }
+    } catch (error) {
+      console.error('Failed to import transactions:', error)
+      setErrorMessage('Failed to import transactions. Please check the console for details.')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const openAccounts = accounts.filter(account => !account.archived)
+  const isMappingComplete = mapping.name !== null && mapping.amount !== null && mapping.date !== null
+  const invalidCount = rows.filter(r => r.errors.length > 0).length
+  const duplicateCount = duplicateOf.filter(Boolean).length
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import from CSV</DialogTitle>
+        </DialogHeader>
+
+        {errorMessage && (
+          <div className="flex items-center gap-2 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {errorMessage}
+          </div>
+        )}
+
+        {/* Step 1: Choose File */}
+        {step === 'upload' && (
+          <Button asChild variant="outline" className="h-32 flex-col cursor-pointer">
+            <label className="flex flex-col items-center justify-center w-full h-full">
+              <FileUp className="h-8 w-8 mb-2" />
+              Choose a CSV file exported from your bank
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileSelect} />
+            </label>
+          </Button>
+        )}
+
+        {/* Step 2: Map Columns */}
+        {step === 'map' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {dataRows.length} rows. Choose which column holds each field.
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {(Object.keys(fieldLabels) as ImportField[]).map((field) => (
+                <div key={field}>
+                  <Label htmlFor={`map-${field}`}>{fieldLabels[field]}</Label>
+                  <select
+                    id={`map-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setMapping(prev => ({
+                      ...prev,
+                      [field]: e.target.value === '' ? null : Number(e.target.value),
+                    }))}
+                    className={selectClassName}
+                  >
+                    <option value="">Not in file</option>
+                    {header.map((column, index) => (
+                      <option key={index} value={index}>
+                        {column || `Column ${index + 1}`}
+                        {dataRows[0]?.[index] ? ` (e.g. ${dataRows[0][index]})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+
+              <div>
+                <Label htmlFor="date-format">Date format</Label>
+                <select
+                  id="date-format"
+                  value={options.dateFormat}
+                  onChange={(e) => setOptions(prev => ({ ...prev, dateFormat: e.target.value }))}
+                  className={selectClassName}
+                >
+                  {dateFormats.map((dateFormat) => (
+                    <option key={dateFormat.value} value={dateFormat.value}>
+                      {dateFormat.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {openAccounts.length > 1 && (
+                <div>
+                  <Label htmlFor="import-account">Account</Label>
+                  <select
+                    id="import-account"
+                    value={accountId || openAccounts[0].id}
+                    onChange={(e) => setAccountId(e.target.value)}
+                    className={selectClassName}
+                  >
+                    {openAccounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-4 pt-5">
+                <Label htmlFor="signed-amounts" className="leading-snug">
+                  Negative amounts are expenses, positive are income
+                </Label>
+                <Switch
+                  id="signed-amounts"
+                  checked={options.signedAmounts}
+                  onCheckedChange={(checked) => setOptions(prev => ({ ...prev, signedAmounts: checked }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={handlePreview} disabled={!isMappingComplete || isWorking}>
+                {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: Preview */}
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {rows.length} rows • {invalidCount} with errors • {duplicateCount} possible duplicates.
+              Rows with errors can&apos;t be imported; duplicates are unchecked by default.
+            </p>
+
+            <div className="border rounded-lg divide-y max-h-[50vh] overflow-y-auto">
+              {rows.map((row, index) => {
+                const hasErrors = row.errors.length > 0
+
+                return (
+                  <label
+                    key={index}
+                    className={cn(
+                      'flex items-start gap-3 p-3 text-sm',
+                      hasErrors ? 'bg-destructive/5' : 'cursor-pointer hover:bg-muted/50'
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selected.has(index)}
+                      disabled={hasErrors}
+                      onChange={() => toggleRow(index)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium truncate">{row.name || '—'}</span>
+                        <span className={cn('font-semibold', row.type === 'Income' && 'text-emerald-600')}>
+                          {row.type === 'Income' && '+'}{isNaN(row.amount) ? '—' : formatAmount(row.amount)}
+                        </span>
+                      </div>
+                      <div className="text-muted-foreground">
+                        Line {row.line} • {row.date ? format(row.date, 'MMM d, yyyy') : '—'} • {row.categoryId
+                          ? categoryLabel(categories, row.categoryId)
+                          : `${categoryLabel(categories, fallbackCategoryId(categories, row.type))} unless a rule matches`}
+                      </div>
+                      {hasErrors && (
+                        <div className="text-destructive">{row.errors.join(', ')}</div>
+                      )}
+                      {duplicateOf[index] && (
+                        <div className="flex items-center gap-1 text-amber-600">
+                          <Copy className="w-3 h-3" />
+                          Possible duplicate of {duplicateOf[index]}
+                        </div>
+                      )}
+                    </div>
+                  </label>
+                )
+              })}
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button variant="outline" onClick={() => setStep('map')}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={selected.size === 0 || isWorking}>
+                {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+                Import {selected.size} Transactions
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
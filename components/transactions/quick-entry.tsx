@@ -0,0 +1,166 @@
+"use client"
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2, Pencil, Zap } from 'lucide-react'
+import { format, isToday, isYesterday } from 'date-fns'
+import { cn } from '@/lib/utils'
+import { categoryLabel } from '@/lib/categories'
+import { formatCurrency } from '@/lib/currency'
+import { useCategoryStore, useCurrencyStore } from '@/lib/store'
+import { completeQuickEntry, parseQuickEntry, type QuickEntryResult } from '@/lib/quick-entry'
+import { completeQuickEntryWithAi } from '@/app/actions/quick-entry'
+import type { TransactionFormData } from './transaction-modal'
+
+interface QuickEntryProps {
+  // Saves the draft; resolves to whether it was saved
+  onSubmitTransaction: (data: TransactionFormData) => Promise<boolean>
+  // Opens the full form with the draft, for notes that need more than a line
+  onEdit: (data: TransactionFormData) => void
+}
+
+function describeDate(date: Date) {
+  if (isToday(date)) return 'Today'
+  if (isYesterday(date)) return 'Yesterday'
+  return format(date, 'EEE, MMM d')
+}
+
+// One line such as "lunch 14.50 yesterday" instead of the whole form. The
+// preview updates as the user types; Enter saves it, asking the AI model
+// first for whatever the parser couldn't work out.
+export function QuickEntry({ onSubmitTransaction, onEdit }: QuickEntryProps) {
+  const categories = useCategoryStore((state) => state.categories)
+  const { formatAmount } = useCurrencyStore()
+  const [text, setText] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [isFocused, setIsFocused] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const parsed = text.trim() ? parseQuickEntry(text, categories) : null
+
+  // The parser's draft, completed by the AI model when something is missing
+  const resolve = async (): Promise<QuickEntryResult | null> => {
+    if (!parsed) return null
+    if (parsed.unresolved.length === 0) return parsed
+
+    const result = await completeQuickEntryWithAi(text, format(new Date(), 'yyyy-MM-dd'))
+    if (!result.success || !result.data) {
+      // Still usable: the form asks for whatever is missing
+      console.error('Quick entry AI fallback failed:', result.error)
+      return parsed
+    }
+    return completeQuickEntry(parsed, result.data)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!parsed || isWorking) return
+
+    setIsWorking(true)
+    setMessage('')
+    try {
+      const resolved = await resolve()
+      if (!resolved) return
+
+      // Without a name or amount there's nothing to save yet
+      if (resolved.unresolved.includes('name') || resolved.unresolved.includes('amount')) {
+        onEdit(resolved.draft)
+        setText('')
+      } else if (await onSubmitTransaction(resolved.draft)) {
+        setText('')
+        setMessage(`Added ${resolved.draft.name}`)
+        setTimeout(() => setMessage(''), 3000)
+      }
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleEdit = async () => {
+    setIsWorking(true)
+    try {
+      const resolved = await resolve()
+      if (resolved) {
+        onEdit(resolved.draft)
+        setText('')
+      }
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const draft = parsed?.draft
+  const amount = draft && parseFloat(draft.amount)
+
+  return (
+    <form onSubmit={handleSubmit} className="relative">
+      <div className="relative">
+        <Zap className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          aria-label="Quick add"
+          placeholder='e.g. "lunch 14.50 yesterday"'
+          className="pl-9 w-64"
+          value={text}
+          disabled={isWorking}
+          onChange={(e) => {
+            setText(e.target.value)
+            setMessage('')
+          }}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+        />
+        {isWorking && (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {(draft && (isFocused || isWorking)) || message ? (
+        <div className="absolute right-0 top-full mt-1 z-20 w-80 rounded-md border bg-popover p-3 text-sm shadow-md">
+          {draft ? (
+            <div className="space-y-2">
+              <div className="flex justify-between gap-2">
+                <span className={cn('font-medium truncate', !draft.name && 'text-muted-foreground')}>
+                  {draft.name || 'No name yet'}
+                </span>
+                <span className={cn('font-semibold', draft.type === 'Income' && 'text-emerald-600', !amount && 'text-muted-foreground')}>
+                  {amount
+                    ? `${draft.type === 'Income' ? '+' : ''}${draft.currency ? formatCurrency(amount, draft.currency) : formatAmount(amount)}`
+                    : 'No amount yet'}
+                </span>
+              </div>
+              <div className="text-muted-foreground">
+                {categoryLabel(categories, draft.categoryId)} • {describeDate(draft.date)}
+              </div>
+              {parsed && parsed.unresolved.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Press Enter to let AI fill in the {parsed.unresolved.join(', ').replace(/, ([^,]*)$/, ' and $1')}.
+                </p>
+              )}
+              <div className="flex justify-end gap-2">
+                {/* Keep the input focused so the preview stays open */}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="flex items-center gap-1"
+                  disabled={isWorking}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={handleEdit}
+                >
+                  <Pencil className="w-3 h-3" />
+                  Edit
+                </Button>
+                <Button type="submit" size="sm" disabled={isWorking} onMouseDown={(e) => e.preventDefault()}>
+                  Add
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-muted-foreground">{message}</p>
+          )}
+        </div>
+      ) : null}
+    </form>
+  )
+}
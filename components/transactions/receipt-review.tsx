@@ -0,0 +1,255 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, X } from "lucide-react";
+import type { AiScanResponse, ReceiptConfidence } from "@/app/actions/scan-receipt";
+import type { TransactionFormData } from "./transaction-modal";
+import { CategorySelect } from "@/components/categories/category-select";
+import { useCurrencyStore } from "@/lib/store";
+import { formatCurrency } from "@/lib/currency";
+import { cn } from "@/lib/utils";
+import { LOW_CONFIDENCE } from "@/lib/receipt-scan";
+import { splitsFromLineItems, toCents } from "@/lib/splits";
+
+// The scanned receipt while the user reviews it. Amounts stay strings
+// while being typed.
+export type ReceiptDraft = {
+  name: string;
+  merchant: string | null;
+  amount: string;
+  subtotal: number | null;
+  tax: number | null;
+  tip: number | null;
+  date: string; // "YYYY-MM-DD"; empty until the user picks one
+  categoryId: string | null;
+  currency?: string;
+  lineItems: { name: string; amount: string; categoryId: string | null }[];
+  // From the scanner; a field counts as checked (1) once the user edits it
+  confidence: ReceiptConfidence;
+};
+
+export function toReceiptDraft(data: AiScanResponse): ReceiptDraft {
+  return {
+    name: data.name,
+    merchant: data.merchant,
+    amount: data.amount.toString(),
+    subtotal: data.subtotal,
+    tax: data.tax,
+    tip: data.tip,
+    date: data.date ?? "",
+    categoryId: data.categoryId ?? null,
+    currency: data.currency,
+    lineItems: data.lineItems.map(item => ({
+      name: item.quantity && item.quantity !== 1 ? `${item.name} ×${item.quantity}` : item.name,
+      amount: item.amount.toString(),
+      categoryId: item.categoryId ?? null,
+    })),
+    confidence: data.confidence,
+  };
+}
+
+// Saving needs a total and a date; the scanner may have left the date out
+export function isReceiptDraftComplete(draft: ReceiptDraft) {
+  return parseFloat(draft.amount) > 0 && !!draft.date;
+}
+
+// What gets saved: items in several categories become splits, so a $120
+// supermarket receipt is saved as $90 groceries and $30 household goods
+export function receiptToTransaction(draft: ReceiptDraft): TransactionFormData {
+  const amount = parseFloat(draft.amount) || 0;
+  const items = draft.lineItems.map(item => ({ ...item, amount: parseFloat(item.amount) || 0 }));
+  const splits = splitsFromLineItems(amount, items);
+  const itemCategories = new Set(items.map(item => item.categoryId));
+
+  return {
+    name: draft.name.trim() || draft.merchant || "",
+    amount: draft.amount,
+    // Items all in one category decide the category on their own
+    categoryId: itemCategories.size === 1 ? items[0].categoryId : draft.categoryId,
+    date: new Date(`${draft.date}T00:00:00`),
+    currency: draft.currency,
+    splits: splits.length > 0 ? splits : undefined,
+  };
+}
+
+interface ReceiptReviewProps {
+  draft: ReceiptDraft;
+  onChange: (draft: ReceiptDraft) => void;
+}
+
+// The confirm step of "Add with AI": everything the scanner read, editable
+export function ReceiptReview({ draft, onChange }: ReceiptReviewProps) {
+  const { formatAmount } = useCurrencyStore();
+  const money = (amount: number) => draft.currency ? formatCurrency(amount, draft.currency) : formatAmount(amount);
+
+  const update = (changes: Partial<ReceiptDraft>) => onChange({ ...draft, ...changes });
+  // Editing a field means the user has checked it
+  const edit = (field: keyof ReceiptConfidence, changes: Partial<ReceiptDraft>) => {
+    update({ ...changes, confidence: { ...draft.confidence, [field]: 1 } });
+  };
+  const isUnsure = (field: keyof ReceiptConfidence) => draft.confidence[field] < LOW_CONFIDENCE;
+  const unsureClassName = "border-amber-500 focus-visible:ring-amber-500";
+  const updateItem = (index: number, changes: Partial<ReceiptDraft["lineItems"][number]>) => {
+    update({ lineItems: draft.lineItems.map((item, i) => i === index ? { ...item, ...changes } : item) });
+  };
+
+  const itemsTotal = draft.lineItems.reduce((sum, item) => sum + (parseFloat(item.amount) || 0), 0);
+  const extras = (draft.tax ?? 0) + (draft.tip ?? 0);
+  const difference = (toCents(parseFloat(draft.amount) || 0) - toCents(itemsTotal + extras)) / 100;
+  const splitCount = receiptToTransaction(draft).splits?.length ?? 0;
+  const categoryCount = new Set(draft.lineItems.map(item => item.categoryId)).size;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1 col-span-2">
+          <Label htmlFor="receipt-name">Name</Label>
+          <Input
+            id="receipt-name"
+            className={cn(isUnsure("name") && unsureClassName)}
+            value={draft.name}
+            onChange={(e) => edit("name", { name: e.target.value })}
+          />
+          {draft.merchant && draft.merchant !== draft.name && (
+            <p className="text-xs text-muted-foreground">Merchant: {draft.merchant}</p>
+          )}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="receipt-amount">Total{draft.currency && ` (${draft.currency})`}</Label>
+          <Input
+            id="receipt-amount"
+            type="number"
+            step="0.01"
+            className={cn(isUnsure("amount") && unsureClassName)}
+            value={draft.amount}
+            onChange={(e) => edit("amount", { amount: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="receipt-date">Date</Label>
+          <Input
+            id="receipt-date"
+            type="date"
+            className={cn(isUnsure("date") && unsureClassName)}
+            value={draft.date}
+            onChange={(e) => edit("date", { date: e.target.value })}
+          />
+          {!draft.date && (
+            <p className="text-xs text-amber-600">No date found on the receipt. Please pick one.</p>
+          )}
+        </div>
+        {draft.lineItems.length === 0 && (
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="receipt-category">Category</Label>
+            <CategorySelect
+              id="receipt-category"
+              value={draft.categoryId}
+              onChange={(categoryId) => edit("category", { categoryId })}
+              type="Expense"
+              className={cn(isUnsure("category") && unsureClassName)}
+            />
+          </div>
+        )}
+      </div>
+
+      {(["name", "amount", "date"] as const).some(isUnsure) || (draft.lineItems.length === 0 && isUnsure("category")) ? (
+        <p className="text-xs text-amber-600">
+          Fields outlined in amber were hard to read. Please check them before saving.
+        </p>
+      ) : null}
+
+      {/* Line Items */}
+      <div className="space-y-2">
+        <Label>Items</Label>
+        <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {draft.lineItems.map((item, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                aria-label="Item name"
+                className="flex-[3] min-w-0"
+                value={item.name}
+                onChange={(e) => updateItem(index, { name: e.target.value })}
+              />
+              <Input
+                type="number"
+                step="0.01"
+                aria-label="Item amount"
+                className="flex-[2] min-w-0"
+                value={item.amount}
+                onChange={(e) => updateItem(index, { amount: e.target.value })}
+              />
+              <CategorySelect
+                value={item.categoryId}
+                onChange={(categoryId) => updateItem(index, { categoryId })}
+                type="Expense"
+                className="flex-[3] min-w-0"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="px-2"
+                aria-label="Remove item"
+                onClick={() => update({ lineItems: draft.lineItems.filter((_, i) => i !== index) })}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1"
+          onClick={() => update({ lineItems: [...draft.lineItems, { name: "", amount: "", categoryId: draft.categoryId }] })}
+        >
+          <Plus className="w-3 h-3" />
+          Add item
+        </Button>
+      </div>
+
+      {/* Totals */}
+      {draft.lineItems.length > 0 && (
+        <div className="space-y-1 p-3 bg-muted rounded-lg text-sm">
+          <div className="flex justify-between">
+            <span>Items</span>
+            <span>{money(itemsTotal)}</span>
+          </div>
+          {draft.subtotal !== null && toCents(draft.subtotal) !== toCents(itemsTotal) && (
+            <div className="flex justify-between text-muted-foreground">
+              <span>Subtotal on receipt</span>
+              <span>{money(draft.subtotal)}</span>
+            </div>
+          )}
+          {draft.tax !== null && (
+            <div className="flex justify-between">
+              <span>Tax</span>
+              <span>{money(draft.tax)}</span>
+            </div>
+          )}
+          {draft.tip !== null && (
+            <div className="flex justify-between">
+              <span>Tip</span>
+              <span>{money(draft.tip)}</span>
+            </div>
+          )}
+          {difference !== 0 && (
+            <p className="text-xs text-muted-foreground pt-1">
+              The items, tax and tip are {money(Math.abs(difference))} {difference > 0 ? "less" : "more"} than the total.
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground pt-1">
+            {splitCount > 0
+              ? `Will be saved split across ${splitCount} categories, with tax and tip shared in proportion.`
+              : categoryCount > 1
+                ? "These amounts can't be split between the categories, so the transaction won't be split."
+                : "All items are in one category, so the transaction won't be split."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { MAX_TAGS, MAX_TAG_LENGTH, normalizeTag } from '@/lib/tags'
+
+// Suggestions shown under the input at once
+const MAX_SUGGESTIONS = 6
+
+interface TagInputProps {
+  id?: string
+  value: string[]
+  onChange: (tags: string[]) => void
+  // Tags the user has used before, most used first
+  suggestions?: string[]
+  className?: string
+}
+
+// Tags as removable chips. Enter, a comma or leaving the field adds what
+// was typed; Backspace in the empty field removes the last tag.
+export function TagInput({ id, value, onChange, suggestions = [], className }: TagInputProps) {
+  const [text, setText] = useState('')
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag).slice(0, MAX_TAG_LENGTH)
+    if (normalized && !value.includes(normalized) && value.length < MAX_TAGS) {
+      onChange([...value, normalized])
+    }
+    setText('')
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      // Don't submit the form around it
+      e.preventDefault()
+      addTag(text)
+    } else if (e.key === 'Backspace' && !text && value.length > 0) {
+      onChange(value.slice(0, -1))
+    }
+  }
+
+  const typed = normalizeTag(text)
+  const matching = suggestions
+    .filter(tag => !value.includes(tag) && tag.startsWith(typed))
+    .slice(0, MAX_SUGGESTIONS)
+
+  return (
+    <div className="space-y-1">
+      <div
+        className={cn(
+          'flex flex-wrap items-center gap-1 min-h-9 w-full rounded-md border border-input bg-transparent px-2 py-1 text-sm focus-within:ring-2 focus-within:ring-ring',
+          className
+        )}
+      >
+        {value.map((tag) => (
+          <span key={tag} className="flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs">
+            #{tag}
+            <button
+              type="button"
+              aria-label={`Remove tag ${tag}`}
+              className="text-muted-foreground hover:text-foreground"
+              onClick={() => onChange(value.filter(t => t !== tag))}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          className="flex-1 min-w-24 bg-transparent outline-none placeholder:text-muted-foreground"
+          placeholder={value.length === 0 ? 'e.g., trip-lisbon, gift' : ''}
+          disabled={value.length >= MAX_TAGS}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => text && addTag(text)}
+        />
+      </div>
+      {matching.length > 0 && value.length < MAX_TAGS && (
+        <div className="flex flex-wrap gap-1">
+          {matching.map((tag) => (
+            <Button
+              key={tag}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              // Keep the typed text from being added on blur first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag)}
+            >
+              #{tag}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
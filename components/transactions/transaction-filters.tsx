@@ -0,0 +1,191 @@
+"use client"
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Calendar } from '@/components/ui/calendar'
+import { Search, SlidersHorizontal, X } from 'lucide-react'
+import { format } from 'date-fns'
+import type { DateRange } from 'react-day-picker'
+import { sortCategoryTree } from '@/lib/categories'
+import type { TransactionFilters } from '@/lib/transactions'
+import { useCategoryStore } from '@/lib/store'
+
+// What the filter inputs hold; amounts stay strings while being typed
+export type TransactionFilterValues = {
+  search: string
+  categoryId: string | null
+  accountId: string | null
+  minAmount: string
+  maxAmount: string
+  dateRange: DateRange | undefined
+}
+
+export const emptyFilterValues: TransactionFilterValues = {
+  search: '',
+  categoryId: null,
+  accountId: null,
+  minAmount: '',
+  maxAmount: '',
+  dateRange: undefined,
+}
+
+// Turn the inputs into the query for queryTransactions; incomplete or
+// unparseable values are left out
+export function toTransactionFilters(values: TransactionFilterValues): TransactionFilters {
+  const parseAmount = (value: string) => {
+    const amount = parseFloat(value)
+    return isNaN(amount) ? null : amount
+  }
+
+  return {
+    search: values.search.trim() || undefined,
+    categoryIds: values.categoryId ? [values.categoryId] : undefined,
+    accountId: values.accountId,
+    minAmount: parseAmount(values.minAmount),
+    maxAmount: parseAmount(values.maxAmount),
+    startDate: values.dateRange?.from ?? null,
+    endDate: values.dateRange?.to ?? values.dateRange?.from ?? null,
+  }
+}
+
+interface TransactionFilterBarProps {
+  values: TransactionFilterValues
+  onChange: (values: TransactionFilterValues) => void
+  // Offered as a filter when there is more than one
+  accounts?: { id: string; name: string }[]
+}
+
+const selectClassName = "w-full px-3 py-2 border border-input rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+
+export function TransactionFilterBar({ values, onChange, accounts = [] }: TransactionFilterBarProps) {
+  const categories = useCategoryStore((state) => state.categories)
+
+  const update = (changes: Partial<TransactionFilterValues>) => onChange({ ...values, ...changes })
+
+  const activeCount = [
+    values.categoryId,
+    values.accountId,
+    values.minAmount || values.maxAmount,
+    values.dateRange?.from,
+  ].filter(Boolean).length
+
+  return (
+    <div className="flex gap-2">
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+        <Input
+          placeholder="Search names, notes, categories or #tags..."
+          className="pl-10"
+          value={values.search}
+          onChange={(e) => update({ search: e.target.value })}
+        />
+      </div>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant={activeCount > 0 ? 'default' : 'outline'} className="flex items-center gap-2">
+            <SlidersHorizontal className="w-4 h-4" />
+            Filters{activeCount > 0 && ` (${activeCount})`}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto" align="end">
+          <div className="space-y-4">
+            {/* Category */}
+            <div className="space-y-2">
+              <Label htmlFor="filter-category">Category</Label>
+              <select
+                id="filter-category"
+                value={values.categoryId || ''}
+                onChange={(e) => update({ categoryId: e.target.value || null })}
+                className={selectClassName}
+              >
+                <option value="">All categories</option>
+                {[...sortCategoryTree(categories, 'Expense'), ...sortCategoryTree(categories, 'Income')].map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.parentId ? `${'\u00a0'.repeat(3)}${category.name}` : category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Account */}
+            {(accounts.length > 1 || values.accountId) && (
+              <div className="space-y-2">
+                <Label htmlFor="filter-account">Account</Label>
+                <select
+                  id="filter-account"
+                  value={values.accountId || ''}
+                  onChange={(e) => update({ accountId: e.target.value || null })}
+                  className={selectClassName}
+                >
+                  <option value="">All accounts</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Amount Range */}
+            <div className="space-y-2">
+              <Label>Amount</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Min"
+                  value={values.minAmount}
+                  onChange={(e) => update({ minAmount: e.target.value })}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Max"
+                  value={values.maxAmount}
+                  onChange={(e) => update({ maxAmount: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {/* Date Range */}
+            <div className="space-y-2">
+              <Label>
+                Dates
+                {values.dateRange?.from && (
+                  <span className="ml-2 font-normal text-muted-foreground">
+                    {format(values.dateRange.from, 'MMM d, yyyy')}
+                    {values.dateRange.to && ` – ${format(values.dateRange.to, 'MMM d, yyyy')}`}
+                  </span>
+                )}
+              </Label>
+              <Calendar
+                mode="range"
+                selected={values.dateRange}
+                onSelect={(dateRange) => update({ dateRange })}
+                className="p-0"
+              />
+            </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full flex items-center gap-2"
+              disabled={activeCount === 0}
+              onClick={() => onChange({ ...emptyFilterValues, search: values.search })}
+            >
+              <X className="w-4 h-4" />
+              Clear filters
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
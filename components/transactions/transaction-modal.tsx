@@ -14,44 +14,70 @@ import {
 } from '@/components/ui/select'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { Calendar } from '@/components/ui/calendar'
-import {
-  CalendarIcon,
-  UtensilsCrossed,
-  ShoppingCart,
-  Car,
-  Wifi,
-  Heart,
-  Dumbbell,
-  ShoppingBag,
-  Film,
-  Cigarette,
-  CircleDot,
-} from 'lucide-react'
+import { CalendarIcon, FileText, Paperclip, Plus, Repeat, Split, Users, X } from 'lucide-react'
 import { format } from 'date-fns'
 import { cn } from '@/lib/utils'
+import { cadenceOptions } from '@/lib/recurring'
+import { currencies, formatCurrency } from '@/lib/currency'
+import { findCategory } from '@/lib/categories'
+import { MIN_SPLITS, unassignedAmount, validateSplitAmounts, type SplitFormData } from '@/lib/splits'
+import {
+  billSplitMethodOptions,
+  computeShareAmounts,
+  personFromKey,
+  personKey,
+  validateBillSplit,
+  type BillShareFormData,
+  type BillSplitFormData,
+} from '@/lib/bill-splits'
+import { attachmentAccept, attachmentUrl, formatFileSize, validateAttachment, type SavedAttachment } from '@/lib/attachments'
+import { suggestCategory, type CategoryHistoryEntry } from '@/lib/category-suggestions'
+import { getCategorySuggestionHistory } from '@/lib/actions/categories'
+import { getTags } from '@/lib/actions/transactions'
+import { MAX_NOTES_LENGTH } from '@/lib/transactions'
+import { useCategoryStore, useCurrencyStore, useLedgerStore } from '@/lib/store'
+import { CategorySelect } from '@/components/categories/category-select'
+import { CategoryIcon } from '@/components/categories/category-icon'
+import { TagInput } from './tag-input'
 
 export type TransactionFormData = {
   name: string
   amount: string
-  category: string
+  // One of the user's categories; null means uncategorized
+  categoryId?: string | null
   date: Date
+  // Set when the transaction should repeat; 'date' is then the first occurrence
+  cadence?: string
+  // 'Expense' (default), 'Income' or 'Transfer'
+  type?: string
+  // Currency the amount is in; the user's base currency when unset
+  currency?: string
+  // Splits the amount between categories; replaces categoryId when set
+  splits?: SplitFormData[]
+  // Files to attach once the transaction is saved
+  attachments?: File[]
+  // Saved attachments the user removed
+  removeAttachmentIds?: string[]
+  tags?: string[]
+  notes?: string
+  // Paid for someone who will pay it back, e.g. a work expense
+  reimbursable?: boolean
+  // The ledger member who paid; the user when unset
+  paidById?: string | null
+  // Splits an expense between people, who each owe the payer their share
+  billSplit?: BillSplitFormData | null
+  // The account it was paid from or into; the default account when unset
+  accountId?: string | null
+  // The account a transfer went to; null when it left the tracked accounts
+  toAccountId?: string | null
 }
 
-export const categoryConfig = [
-  { value: 'Food', label: 'Food', icon: UtensilsCrossed },
-  { value: 'Groceries', label: 'Groceries', icon: ShoppingCart },
-  { value: 'Transportation', label: 'Transportation', icon: Car },
-  { value: 'Internet', label: 'Internet', icon: Wifi },
-  { value: 'Health', label: 'Health', icon: Heart },
-  { value: 'Sport', label: 'Sport', icon: Dumbbell },
-  { value: 'Shopping', label: 'Shopping', icon: ShoppingBag },
-  { value: 'Entertainment', label: 'Entertainment', icon: Film },
-  { value: 'BadHabits', label: 'Bad Habits', icon: Cigarette },
-  { value: 'Other', label: 'Other', icon: CircleDot },
+export const transactionTypes = [
+  { value: 'Expense', label: 'Expense' },
+  { value: 'Income', label: 'Income' },
+  { value: 'Transfer', label: 'Transfer' },
 ] as const
 
-type Category = typeof categoryConfig[number]['value']
-
 interface TransactionModalProps {
   isOpen: boolean
   onClose: () => void
@@ -59,21 +85,66 @@ interface TransactionModalProps {
   initialData?: Partial<TransactionFormData>
   isEditing?: boolean
   onSaveSuccess?: () => void
+  // Show the "Repeat" option for creating a recurring transaction
+  allowRepeat?: boolean
+  // Let the amount be split between categories. Recurring transactions
+  // can't be split, so it is also hidden while a cadence is picked.
+  allowSplit?: boolean
+  // Let files be attached. Hidden while a cadence is picked too.
+  allowAttachments?: boolean
+  // Files already attached to the transaction being edited
+  savedAttachments?: SavedAttachment[]
+  // Let tags and notes be added. Hidden while a cadence is picked too.
+  allowNotes?: boolean
+  // Members of the shared ledger the transaction is in, to pick who paid.
+  // Shared transactions can't be reimbursable, so that option is hidden.
+  payers?: { id: string; name: string }[]
+  // Who an expense can be split between, by person key: the ledger's
+  // members, or the user and their contacts. Not offered when unset.
+  splitPeople?: { key: string; name: string }[]
+  // The accounts of the user (or the ledger) to pay from, oldest first.
+  // Closed ones are only offered when the transaction is already in them.
+  accounts?: { id: string; name: string; archived: boolean }[]
 }
 
+const emptySplit: SplitFormData = { name: '', amount: '', categoryId: null }
+
 export function TransactionModal({
   isOpen,
   onClose,
   onSubmit,
   initialData,
   isEditing = false,
-  onSaveSuccess
+  onSaveSuccess,
+  allowRepeat = false,
+  allowSplit = true,
+  allowAttachments = true,
+  savedAttachments = [],
+  allowNotes = true,
+  payers,
+  splitPeople,
+  accounts
 }: TransactionModalProps) {
+  const baseCurrency = useCurrencyStore((state) => state.currency)
+  const formatAmount = useCurrencyStore((state) => state.formatAmount)
+  const categories = useCategoryStore((state) => state.categories)
+  const ledgerId = useLedgerStore((state) => state.ledgerId)
   const [formData, setFormData] = useState<TransactionFormData>({
     name: initialData?.name || '',
     amount: initialData?.amount || '',
-    category: initialData?.category || 'Food',
+    categoryId: initialData?.categoryId ?? null,
     date: initialData?.date || new Date(),
+    type: initialData?.type || 'Expense',
+    currency: initialData?.currency,
+    splits: initialData?.splits,
+    attachments: initialData?.attachments,
+    tags: initialData?.tags,
+    notes: initialData?.notes,
+    reimbursable: initialData?.reimbursable,
+    paidById: initialData?.paidById,
+    billSplit: initialData?.billSplit,
+    accountId: initialData?.accountId,
+    toAccountId: initialData?.toAccountId,
   })
 
   // Update form data when initialData changes (for AI pre-fill)
@@ -82,17 +153,150 @@ export function TransactionModal({
       setFormData({
         name: initialData.name || '',
         amount: initialData.amount || '',
-        category: initialData.category || 'Food',
+        categoryId: initialData.categoryId ?? null,
         date: initialData.date || new Date(),
+        type: initialData.type || 'Expense',
+        currency: initialData.currency,
+        splits: initialData.splits,
+        attachments: initialData.attachments,
+        tags: initialData.tags,
+        notes: initialData.notes,
+        reimbursable: initialData.reimbursable,
+        paidById: initialData.paidById,
+        billSplit: initialData.billSplit,
+        accountId: initialData.accountId,
+        toAccountId: initialData.toAccountId,
       })
     }
   }, [isOpen, initialData])
 
+  // How earlier transactions with this name were categorized
+  const [history, setHistory] = useState<CategoryHistoryEntry[]>([])
+  React.useEffect(() => {
+    if (!isOpen) return
+    getCategorySuggestionHistory()
+      .then(result => setHistory(result.history))
+      .catch(error => console.error('Failed to load category suggestions:', error))
+  }, [isOpen])
+
+  // Tags used before, offered while typing a tag
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([])
+  React.useEffect(() => {
+    if (!isOpen || !allowNotes) return
+    getTags(ledgerId)
+      .then(result => setTagSuggestions(result.tags.map(t => t.tag)))
+      .catch(error => console.error('Failed to load tags:', error))
+  }, [isOpen, allowNotes, ledgerId])
+
+  const canAttach = allowAttachments && !formData.cadence
+  const canAddNotes = allowNotes && !formData.cadence
+  const keptAttachments = savedAttachments.filter(a => !formData.removeAttachmentIds?.includes(a.id))
+
+  const handleAttachFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    const invalid = files.map(file => ({ file, error: validateAttachment(file) })).filter(f => f.error)
+    if (invalid.length > 0) {
+      alert(invalid.map(f => `${f.file.name}: ${f.error}`).join('\n'))
+    }
+    const valid = files.filter(file => !validateAttachment(file))
+    setFormData(prev => ({ ...prev, attachments: [...(prev.attachments || []), ...valid] }))
+  }
+
+  const splits = formData.splits || []
+  const isSplit = splits.length > 0
+  const canSplit = allowSplit && formData.type !== 'Transfer' && !formData.cadence
+  const amount = parseFloat(formData.amount) || 0
+  const splitError = isSplit ? validateSplitAmounts(amount, splits) : null
+
+  // A closed account stays selectable for the transactions already in it
+  const openAccounts = (accounts || []).filter(account => !account.archived)
+  const accountChoices = (accounts || []).filter(account => !account.archived || account.id === formData.accountId)
+  const fromAccountId = formData.accountId || openAccounts[0]?.id
+  const toAccountChoices = (accounts || []).filter(account =>
+    account.id !== fromAccountId && (!account.archived || account.id === formData.toAccountId)
+  )
+
+  const billSplit = formData.billSplit
+  const canSplitBill = allowSplit && !!splitPeople && formData.type === 'Expense' && !formData.cadence
+  const billSplitError = canSplitBill && billSplit ? validateBillSplit(amount, billSplit) : null
+  // What everyone pays, shown next to their name unless entered by hand
+  const shareAmounts = billSplit && !billSplitError && billSplit.method !== 'Exact'
+    ? computeShareAmounts(amount, billSplit)
+    : []
+
+  // Learned from earlier transactions with the same or a similar name
+  const suggestion = formData.type !== 'Transfer' && formData.name.trim()
+    ? suggestCategory(formData.name, history, formData.type || 'Expense')
+    : null
+  const suggestedCategory = suggestion ? findCategory(categories, suggestion.categoryId) : undefined
+  const showSuggestedCategory = !!suggestedCategory && !isSplit && suggestion?.categoryId !== formData.categoryId
+  // Typical amounts are in the base currency
+  const showSuggestedAmount = !!suggestion && !formData.amount && (!formData.currency || formData.currency === baseCurrency.code)
+
+  // Start with the whole amount in the current category and an empty
+  // second split to move part of it to
+  const startSplit = () => {
+    setFormData(prev => ({
+      ...prev,
+      splits: [
+        { ...emptySplit, amount: prev.amount, categoryId: prev.categoryId ?? null },
+        emptySplit,
+      ],
+    }))
+  }
+
+  const updateSplit = (index: number, changes: Partial<SplitFormData>) => {
+    setFormData(prev => ({
+      ...prev,
+      splits: (prev.splits || []).map((split, i) => i === index ? { ...split, ...changes } : split),
+    }))
+  }
+
+  // Going below MIN_SPLITS turns the split back into a single category
+  const removeSplit = (index: number) => {
+    setFormData(prev => {
+      const remaining = (prev.splits || []).filter((_, i) => i !== index)
+      return remaining.length >= MIN_SPLITS
+        ? { ...prev, splits: remaining }
+        : { ...prev, splits: undefined, categoryId: remaining[0]?.categoryId ?? prev.categoryId }
+    })
+  }
+
+  // Start with an equal split between everyone
+  const startBillSplit = () => {
+    setFormData(prev => ({
+      ...prev,
+      billSplit: { method: 'Equal', people: (splitPeople || []).map(person => ({ ...personFromKey(person.key), shares: '1' })) },
+    }))
+  }
+
+  const toggleBillPerson = (key: string) => {
+    setFormData(prev => {
+      if (!prev.billSplit) return prev
+      const people = prev.billSplit.people.some(person => personKey(person) === key)
+        ? prev.billSplit.people.filter(person => personKey(person) !== key)
+        : [...prev.billSplit.people, { ...personFromKey(key), shares: '1' }]
+      return { ...prev, billSplit: { ...prev.billSplit, people } }
+    })
+  }
+
+  const updateBillPerson = (key: string, changes: Partial<BillShareFormData>) => {
+    setFormData(prev => prev.billSplit ? {
+      ...prev,
+      billSplit: {
+        ...prev.billSplit,
+        people: prev.billSplit.people.map(person => personKey(person) === key ? { ...person, ...changes } : person),
+      },
+    } : prev)
+  }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    if (!formData.name.trim() || !formData.amount) return
+    if (!formData.name.trim() || !formData.amount || splitError || billSplitError) return
 
-    onSubmit(formData)
+    // A split the form no longer offers, e.g. after switching to income
+    onSubmit(canSplitBill ? formData : { ...formData, billSplit: null })
     onClose()
     
     // Call success callback if provided (for AI modal chaining)
@@ -104,8 +308,9 @@ export function TransactionModal({
     setFormData({
       name: '',
       amount: '',
-      category: 'Food',
+      categoryId: null,
       date: new Date(),
+      type: 'Expense',
     })
   }
 
@@ -115,14 +320,15 @@ export function TransactionModal({
     setFormData({
       name: '',
       amount: '',
-      category: 'Food',
+      categoryId: null,
       date: new Date(),
+      type: 'Expense',
     })
   }
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className={cn(isSplit ? 'sm:max-w-[560px]' : 'sm:max-w-[425px]')}>
         <DialogHeader>
           <DialogTitle>
             {isEditing ? 'Edit Transaction' : 'Add Transaction'}
@@ -130,6 +336,34 @@ export function TransactionModal({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Type Toggle */}
+          <div className="grid grid-cols-3 gap-2">
+            {transactionTypes.map((type) => (
+              <Button
+                key={type.value}
+                type="button"
+                size="sm"
+                variant={formData.type === type.value ? 'default' : 'outline'}
+                onClick={() => setFormData(prev => {
+                  // Keep categories only if they fit the new type
+                  const fits = (categoryId: string | null | undefined) =>
+                    findCategory(categories, categoryId)?.type === type.value ? categoryId ?? null : null
+                  return {
+                    ...prev,
+                    type: type.value,
+                    categoryId: fits(prev.categoryId),
+                    // Transfers can't be split
+                    splits: type.value === 'Transfer'
+                      ? undefined
+                      : prev.splits?.map(split => ({ ...split, categoryId: fits(split.categoryId) })),
+                  }
+                })}
+              >
+                {type.label}
+              </Button>
+            ))}
+          </div>
+
           {/* Name Input */}
           <div className="space-y-2">
             <Label htmlFor="name">Name</Label>
@@ -140,61 +374,168 @@ export function TransactionModal({
               onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
               required
             />
+            {suggestion && (showSuggestedCategory || showSuggestedAmount) && (
+              <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                <span>Usually</span>
+                {showSuggestedCategory && suggestedCategory && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setFormData(prev => ({ ...prev, categoryId: suggestion.categoryId }))}
+                  >
+                    <CategoryIcon icon={suggestedCategory.icon} className="w-3 h-3" style={{ color: suggestedCategory.color }} />
+                    {suggestedCategory.name}
+                  </Button>
+                )}
+                {showSuggestedAmount && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setFormData(prev => ({ ...prev, amount: suggestion.amount.toString() }))}
+                  >
+                    {formatAmount(suggestion.amount)}
+                  </Button>
+                )}
+                <span>(from {suggestion.count} earlier {suggestion.count === 1 ? 'transaction' : 'transactions'})</span>
+              </div>
+            )}
           </div>
 
           {/* Amount Input */}
           <div className="space-y-2">
             <Label htmlFor="amount">Amount</Label>
-            <Input
-              id="amount"
-              type="number"
-              step="0.01"
-              placeholder="0.00"
-              value={formData.amount}
-              onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
-              required
-            />
+            <div className="flex gap-2">
+              <Input
+                id="amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={formData.amount}
+                onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                required
+              />
+              <Select
+                value={formData.currency || baseCurrency.code}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, currency: value }))}
+              >
+                <SelectTrigger className="w-28" aria-label="Currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.map((currency) => (
+                    <SelectItem key={currency.code} value={currency.code}>
+                      {currency.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.currency && formData.currency !== baseCurrency.code && (
+              <p className="text-xs text-muted-foreground">
+                Will be converted to {baseCurrency.code} using the stored exchange rate for this date
+              </p>
+            )}
           </div>
 
           {/* Category Select */}
-          <div className="space-y-2">
-            <Label htmlFor="category">Category</Label>
-            <Select
-              value={formData.category}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, category: value as Category }))}
-            >
-              <SelectTrigger id="category" className="w-full">
-                <div className="flex items-center gap-2">
-                  {(() => {
-                    const category = categoryConfig.find(c => c.value === formData.category)
-                    if (category) {
-                      const Icon = category.icon
-                      return (
-                        <>
-                          <Icon className="w-4 h-4" />
-                          <SelectValue>{category.label}</SelectValue>
-                        </>
-                      )
-                    }
-                    return <SelectValue>{formData.category}</SelectValue>
-                  })()}
+          {formData.type !== 'Transfer' && !isSplit && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="category">Category</Label>
+                {canSplit && (
+                  <Button type="button" variant="ghost" size="sm" className="h-auto px-2 py-0.5 text-xs" onClick={startSplit}>
+                    <Split className="w-3 h-3 mr-1" />
+                    Split
+                  </Button>
+                )}
+              </div>
+              <CategorySelect
+                id="category"
+                value={formData.categoryId ?? null}
+                onChange={(categoryId) => setFormData(prev => ({ ...prev, categoryId }))}
+                type={formData.type || 'Expense'}
+              />
+            </div>
+          )}
+
+          {/* Split Editor */}
+          {canSplit && isSplit && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Split between categories</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-auto px-2 py-0.5 text-xs"
+                  onClick={() => setFormData(prev => ({ ...prev, splits: undefined }))}
+                >
+                  Don&apos;t split
+                </Button>
+              </div>
+              {splits.map((split, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <CategorySelect
+                    value={split.categoryId}
+                    onChange={(categoryId) => updateSplit(index, { categoryId })}
+                    type={formData.type || 'Expense'}
+                    className="flex-[3] min-w-0"
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    aria-label="Split amount"
+                    className="flex-[2] min-w-0"
+                    value={split.amount}
+                    onChange={(e) => updateSplit(index, { amount: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Note"
+                    aria-label="Split note"
+                    className="flex-[2] min-w-0"
+                    value={split.name || ''}
+                    onChange={(e) => updateSplit(index, { name: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="px-2"
+                    aria-label="Remove split"
+                    onClick={() => removeSplit(index)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
                 </div>
-              </SelectTrigger>
-              <SelectContent>
-                {categoryConfig.map((category) => {
-                  const Icon = category.icon
-                  return (
-                    <SelectItem key={category.value} value={category.value}>
-                      <div className="flex items-center gap-2">
-                        <Icon className="w-4 h-4" />
-                        <span>{category.label}</span>
-                      </div>
-                    </SelectItem>
-                  )
-                })}
-              </SelectContent>
-            </Select>
-          </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center gap-1"
+                  onClick={() => setFormData(prev => ({ ...prev, splits: [...(prev.splits || []), emptySplit] }))}
+                >
+                  <Plus className="w-3 h-3" />
+                  Add split
+                </Button>
+                <p className={cn('text-xs', splitError ? 'text-destructive' : 'text-muted-foreground')}>
+                  {unassignedAmount(amount, splits) === 0
+                    ? 'Fully assigned'
+                    : `Remaining: ${unassignedAmount(amount, splits).toFixed(2)}`}
+                </p>
+              </div>
+              {splitError && unassignedAmount(amount, splits) === 0 && (
+                <p className="text-xs text-destructive">{splitError}</p>
+              )}
+            </div>
+          )}
 
           {/* Date Picker */}
           <div className="space-y-2">
@@ -228,12 +569,312 @@ export function TransactionModal({
             </Popover>
           </div>
 
+          {/* Account Selects */}
+          {accounts && accounts.length > 0 && (
+            <div className={cn('grid gap-4', formData.type === 'Transfer' && 'sm:grid-cols-2')}>
+              <div className="space-y-2">
+                <Label htmlFor="account">{formData.type === 'Transfer' ? 'From account' : 'Account'}</Label>
+                <Select
+                  value={formData.accountId || ''}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, accountId: value }))}
+                >
+                  <SelectTrigger id="account" className="w-full">
+                    <SelectValue placeholder={openAccounts[0]?.name ?? 'Default account'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accountChoices.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.type === 'Transfer' && (
+                <div className="space-y-2">
+                  <Label htmlFor="to-account">To account</Label>
+                  <Select
+                    value={formData.toAccountId || 'none'}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, toAccountId: value === 'none' ? null : value }))}
+                  >
+                    <SelectTrigger id="to-account" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Outside my accounts</SelectItem>
+                      {toAccountChoices.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Paid By Select */}
+          {payers && payers.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="paid-by">Paid by</Label>
+              <Select
+                value={formData.paidById || ''}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, paidById: value }))}
+              >
+                <SelectTrigger id="paid-by" className="w-full">
+                  <SelectValue placeholder="You" />
+                </SelectTrigger>
+                <SelectContent>
+                  {payers.map((payer) => (
+                    <SelectItem key={payer.id} value={payer.id}>
+                      {payer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Bill Split Editor */}
+          {canSplitBill && splitPeople && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Split with others</Label>
+                {billSplit ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-auto px-2 py-0.5 text-xs"
+                    onClick={() => setFormData(prev => ({ ...prev, billSplit: null }))}
+                  >
+                    Don&apos;t split
+                  </Button>
+                ) : splitPeople.length > 1 && (
+                  <Button type="button" variant="ghost" size="sm" className="h-auto px-2 py-0.5 text-xs" onClick={startBillSplit}>
+                    <Users className="w-3 h-3 mr-1" />
+                    Split bill
+                  </Button>
+                )}
+              </div>
+              {!billSplit && splitPeople.length <= 1 && (
+                <p className="text-xs text-muted-foreground">
+                  Add the people you share bills with under Balances on the Records page.
+                </p>
+              )}
+              {billSplit && (
+                <>
+                  <Select
+                    value={billSplit.method}
+                    onValueChange={(method) => setFormData(prev => prev.billSplit ? { ...prev, billSplit: { ...prev.billSplit, method } } : prev)}
+                  >
+                    <SelectTrigger className="w-full" aria-label="How to split">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {billSplitMethodOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {splitPeople.map((person) => {
+                    const index = billSplit.people.findIndex(p => personKey(p) === person.key)
+                    const share = index >= 0 ? billSplit.people[index] : null
+
+                    return (
+                      <div key={person.key} className="flex items-center gap-2">
+                        <label className="flex flex-1 items-center gap-2 min-w-0 text-sm">
+                          <input type="checkbox" checked={!!share} onChange={() => toggleBillPerson(person.key)} />
+                          <span className="truncate">{person.name}</span>
+                        </label>
+                        {share && billSplit.method === 'Shares' && (
+                          <Input
+                            type="number"
+                            min="1"
+                            step="1"
+                            placeholder="1"
+                            aria-label={`Shares of ${person.name}`}
+                            className="w-20"
+                            value={share.shares ?? ''}
+                            onChange={(e) => updateBillPerson(person.key, { shares: e.target.value })}
+                          />
+                        )}
+                        {share && billSplit.method === 'Exact' && (
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            placeholder="0.00"
+                            aria-label={`Amount for ${person.name}`}
+                            className="w-28"
+                            value={share.amount ?? ''}
+                            onChange={(e) => updateBillPerson(person.key, { amount: e.target.value })}
+                          />
+                        )}
+                        {share && shareAmounts.length > 0 && (
+                          <span className="text-xs text-muted-foreground">
+                            {formatCurrency(shareAmounts[index], formData.currency || baseCurrency.code)}
+                          </span>
+                        )}
+                      </div>
+                    )
+                  })}
+                  {billSplitError && <p className="text-xs text-destructive">{billSplitError}</p>}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Repeat Select */}
+          {allowRepeat && (
+            <div className="space-y-2">
+              <Label htmlFor="repeat">Repeat</Label>
+              <Select
+                value={formData.cadence || 'none'}
+                onValueChange={(value) => setFormData(prev => ({
+                  ...prev,
+                  cadence: value === 'none' ? undefined : value,
+                  // Recurring transactions can't be split or have attachments
+                  splits: value === 'none' ? prev.splits : undefined,
+                  attachments: value === 'none' ? prev.attachments : undefined,
+                }))}
+              >
+                <SelectTrigger id="repeat" className="w-full">
+                  <div className="flex items-center gap-2">
+                    <Repeat className="w-4 h-4" />
+                    <SelectValue />
+                  </div>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Never</SelectItem>
+                  {cadenceOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Tags and Notes */}
+          {canAddNotes && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="tags">Tags</Label>
+                <TagInput
+                  id="tags"
+                  value={formData.tags || []}
+                  onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                  suggestions={tagSuggestions}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes</Label>
+                <textarea
+                  id="notes"
+                  rows={2}
+                  maxLength={MAX_NOTES_LENGTH}
+                  placeholder="Anything worth remembering"
+                  className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  value={formData.notes || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                />
+              </div>
+
+              {formData.type === 'Expense' && !payers && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!formData.reimbursable}
+                    onChange={(e) => setFormData(prev => ({ ...prev, reimbursable: e.target.checked }))}
+                  />
+                  Reimbursable
+                  <span className="text-xs text-muted-foreground">(paid back later, e.g. a work expense)</span>
+                </label>
+              )}
+            </>
+          )}
+
+          {/* Attachments */}
+          {canAttach && (
+            <div className="space-y-2">
+              <Label>Attachments</Label>
+              {keptAttachments.map((attachment) => (
+                <div key={attachment.id} className="flex items-center justify-between gap-2 text-sm">
+                  <a
+                    href={attachmentUrl(attachment.id)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 min-w-0 hover:underline"
+                  >
+                    <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{attachment.fileName}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+                  </a>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="px-2"
+                    aria-label={`Remove ${attachment.fileName}`}
+                    onClick={() => setFormData(prev => ({
+                      ...prev,
+                      removeAttachmentIds: [...(prev.removeAttachmentIds || []), attachment.id],
+                    }))}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              {(formData.attachments || []).map((file, index) => (
+                <div key={`new-${index}`} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Paperclip className="w-4 h-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{file.name}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">{formatFileSize(file.size)} · new</span>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="px-2"
+                    aria-label={`Remove ${file.name}`}
+                    onClick={() => setFormData(prev => ({
+                      ...prev,
+                      attachments: (prev.attachments || []).filter((_, i) => i !== index),
+                    }))}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button asChild type="button" variant="outline" size="sm" className="cursor-pointer">
+                <label className="flex items-center gap-1">
+                  <Paperclip className="w-3 h-3" />
+                  Attach file
+                  <input
+                    type="file"
+                    accept={attachmentAccept}
+                    multiple
+                    className="hidden"
+                    onChange={handleAttachFiles}
+                  />
+                </label>
+              </Button>
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-2 pt-4">
             <Button type="button" variant="outline" onClick={handleClose}>
               Cancel
             </Button>
-            <Button type="submit">
+            <Button type="submit" disabled={!!splitError || !!billSplitError}>
               {isEditing ? 'Update' : 'Add'} Transaction
             </Button>
           </div>
@@ -0,0 +1,86 @@
+import { AccountType } from '@prisma/client'
+import { toCents } from '@/lib/splits'
+import type { CardStatement } from '@/lib/statement-cycles'
+
+// Accounts: where money is kept or paid from, such as cash, a bank account
+// or a credit card. Every transaction is paid from (or into) one; a
+// transfer moves money from its account to another, so it changes both
+// balances without counting as spending. A shared ledger has accounts of
+// its own, in its currency. Reconciling checks an account against a bank
+// statement by ticking off the transactions on it.
+
+export const MAX_ACCOUNT_NAME_LENGTH = 60
+
+// The account new users and ledgers start with, and that transactions from
+// before there were accounts were moved into
+export const DEFAULT_ACCOUNT_NAME = 'Main Account'
+
+export const accountTypeOptions = [
+  { value: 'Cash', label: 'Cash' },
+  { value: 'Checking', label: 'Bank Account' },
+  { value: 'Savings', label: 'Savings' },
+  { value: 'CreditCard', label: 'Credit Card' },
+] as const
+
+export function isAccountType(value: string): value is AccountType {
+  return (Object.values(AccountType) as string[]).includes(value)
+}
+
+export function accountTypeLabel(type: string) {
+  return accountTypeOptions.find(option => option.value === type)?.label ?? type
+}
+
+// An account as the client sees it, from getAccounts
+export type UserAccount = {
+  id: string
+  name: string
+  type: string
+  openingBalance: number
+  archived: boolean
+  // Opening balance plus every transaction; negative for a card that's owed
+  balance: number
+  // Credit cards only; see lib/statement-cycles.ts
+  statementClosingDay: number | null
+  paymentDueDay: number | null
+  // Set for a card with a closing day
+  statement: CardStatement | null
+}
+
+// What a transaction does to an account's balance: expenses take money out
+// and income puts it in; a transfer takes it out of its account and puts
+// it into the one it went to
+export function accountEffect(
+  transaction: { type: string; amount: number; accountId: string; toAccountId: string | null },
+  accountId: string
+) {
+  if (transaction.type === 'Transfer') {
+    if (transaction.accountId === accountId) return -transaction.amount
+    if (transaction.toAccountId === accountId) return transaction.amount
+    return 0
+  }
+  if (transaction.accountId !== accountId) return 0
+  return transaction.type === 'Income' ? transaction.amount : -transaction.amount
+}
+
+// The balance after each transaction, oldest first, in cents so long
+// registers don't drift
+export function runningBalances(openingBalance: number, effects: number[]) {
+  let cents = toCents(openingBalance)
+  return effects.map(effect => {
+    cents += toCents(effect)
+    return cents / 100
+  })
+}
+
+// The balance after all of them
+export function balanceAfter(openingBalance: number, effects: number[]) {
+  const cents = effects.reduce((sum, effect) => sum + toCents(effect), toCents(openingBalance))
+  return cents / 100
+}
+
+// What's left to tick off before a reconciliation adds up to the
+// statement; zero when it can be finished
+export function reconciliationDifference(statementBalance: number, clearedBalance: number, ticked: number[]) {
+  const tickedCents = ticked.reduce((sum, effect) => sum + toCents(effect), 0)
+  return (toCents(statementBalance) - toCents(clearedBalance) - tickedCents) / 100
+}
@@ -0,0 +1,461 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { resolveScope } from '@/lib/user-ledgers'
+import { getScopeAccounts } from '@/lib/user-accounts'
+import {
+  MAX_ACCOUNT_NAME_LENGTH,
+  accountEffect,
+  balanceAfter,
+  isAccountType,
+  reconciliationDifference,
+  runningBalances,
+} from '@/lib/accounts'
+import { canEditLedger } from '@/lib/ledgers'
+import { isStatementDay } from '@/lib/statement-cycles'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+export type AccountFormData = {
+  name: string
+  // 'Cash', 'Checking', 'Savings' or 'CreditCard'
+  type: string
+  // The balance before its first transaction; negative for a card that
+  // was already owed
+  openingBalance: string
+  // Credit cards only: the days of the month a statement closes and its
+  // payment is due, 1 to 31. Blank for none.
+  statementClosingDay?: string
+  paymentDueDay?: string
+  // Only used on update
+  archived?: boolean
+  // The shared ledger a new account belongs to; unset for a personal one
+  ledgerId?: string | null
+}
+
+export type ReconcileFormData = {
+  statementDate: Date
+  statementBalance: string
+  // The unreconciled transactions ticked off against the statement
+  transactionIds: string[]
+}
+
+// A transaction in an account's register, oldest first
+export type RegisterEntry = {
+  id: string
+  name: string
+  date: Date
+  type: string
+  // What it did to this account's balance
+  amount: number
+  // The balance after it
+  balance: number
+  // For a transfer, the account on the other side; null when the money
+  // left the tracked accounts
+  otherAccount: string | null
+  reconciled: boolean
+}
+
+export type SerializedReconciliation = {
+  id: string
+  statementDate: Date
+  statementBalance: number
+  createdAt: Date
+  transactionCount: number
+}
+
+function revalidateAccountPages() {
+  revalidatePath('/records')
+  revalidatePath('/accounts/[id]', 'page')
+}
+
+function validateAccountForm(data: AccountFormData) {
+  const name = data.name.trim()
+  if (!name) {
+    return { success: false as const, error: 'Please give the account a name' }
+  }
+  if (name.length > MAX_ACCOUNT_NAME_LENGTH) {
+    return { success: false as const, error: `Names can be at most ${MAX_ACCOUNT_NAME_LENGTH} characters` }
+  }
+  if (!isAccountType(data.type)) {
+    return { success: false as const, error: `Invalid account type: ${data.type}` }
+  }
+  const openingBalance = data.openingBalance.trim() ? parseFloat(data.openingBalance) : 0
+  if (isNaN(openingBalance)) {
+    return { success: false as const, error: 'Invalid opening balance: Please enter a number' }
+  }
+
+  // Other accounts have no statements, so their days are dropped
+  const isCard = data.type === 'CreditCard'
+  const statementClosingDay = isCard && data.statementClosingDay?.trim() ? Number(data.statementClosingDay) : null
+  const paymentDueDay = isCard && data.paymentDueDay?.trim() ? Number(data.paymentDueDay) : null
+  for (const day of [statementClosingDay, paymentDueDay]) {
+    if (day !== null && !isStatementDay(day)) {
+      return { success: false as const, error: 'Statement days must be a day of the month, from 1 to 31' }
+    }
+  }
+  if (paymentDueDay !== null && statementClosingDay === null) {
+    return { success: false as const, error: 'Enter the day the statement closes to track when it\'s due' }
+  }
+
+  return {
+    success: true as const,
+    fields: { name, type: data.type, openingBalance, statementClosingDay, paymentDueDay },
+  }
+}
+
+// An account the user can see: a personal one, or one of a ledger the user
+// belongs to. 'edit' also needs the right to change the ledger's
+// transactions.
+async function findAccount(userId: string, id: string, access: 'view' | 'edit') {
+  const account = await prisma.account.findFirst({
+    where: {
+      id: id,
+      OR: [{ userId: userId, ledgerId: null }, { ledger: { members: { some: { userId: userId } } } }],
+    },
+  })
+  if (!account) {
+    return { success: false as const, error: 'Account not found' }
+  }
+  const scope = await resolveScope(userId, account.ledgerId, access)
+  if (!scope.success) {
+    return scope
+  }
+  return { success: true as const, account, scope: scope.scope }
+}
+
+// Whether the transaction was ticked off on this account's side
+function isReconciledIn(
+  transaction: { accountId: string; reconciliationId: string | null; toReconciliationId: string | null },
+  accountId: string
+) {
+  return transaction.accountId === accountId ? !!transaction.reconciliationId : !!transaction.toReconciliationId
+}
+
+// The user's accounts (or the ledger's, with a ledger id) with their
+// balances, open ones first
+export async function getAccounts(ledgerId?: string | null) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', accounts: [] }
+    }
+
+    await ensureUser(userId)
+
+    const access = await resolveScope(userId, ledgerId, 'view')
+    if (!access.success) {
+      return { success: false, error: access.error, accounts: [] }
+    }
+
+    return { success: true, accounts: await getScopeAccounts(userId, access.scope) }
+  } catch (error) {
+    console.error('Error fetching accounts:', error)
+    return { success: false, error: `Failed to fetch accounts: ${getErrorMessage(error)}`, accounts: [] }
+  }
+}
+
+export async function createAccount(data: AccountFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    await ensureUser(userId)
+
+    const access = await resolveScope(userId, data.ledgerId, 'edit')
+    if (!access.success) {
+      return { success: false, error: access.error }
+    }
+    const { ledger } = access.scope
+
+    const form = validateAccountForm(data)
+    if (!form.success) {
+      return { success: false, error: form.error }
+    }
+
+    const account = await prisma.account.create({
+      data: ledger
+        ? { ...form.fields, ledgerId: ledger.id }
+        : { ...form.fields, userId: userId },
+    })
+
+    revalidateAccountPages()
+    return { success: true, accountId: account.id }
+  } catch (error) {
+    console.error('Error creating account:', error)
+    return { success: false, error: `Failed to create account: ${getErrorMessage(error)}` }
+  }
+}
+
+// Renames, retypes, archives or reopens an account. Its opening balance
+// can't change once part of it has been reconciled.
+export async function updateAccount(id: string, data: AccountFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const found = await findAccount(userId, id, 'edit')
+    if (!found.success) {
+      return { success: false, error: found.error }
+    }
+
+    const form = validateAccountForm(data)
+    if (!form.success) {
+      return { success: false, error: form.error }
+    }
+
+    if (form.fields.openingBalance !== Number(found.account.openingBalance)) {
+      const reconciliations = await prisma.reconciliation.count({ where: { accountId: id } })
+      if (reconciliations > 0) {
+        return { success: false, error: 'This account has been reconciled, so its opening balance can\'t change. Undo its reconciliations first.' }
+      }
+    }
+
+    await prisma.account.update({
+      where: { id: id },
+      data: {
+        ...form.fields,
+        ...(data.archived !== undefined && { archived: data.archived }),
+      },
+    })
+
+    revalidateAccountPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error updating account:', error)
+    return { success: false, error: `Failed to update account: ${getErrorMessage(error)}` }
+  }
+}
+
+// Only an account nothing was ever paid from can be deleted; archive the
+// others so their history stays
+export async function deleteAccount(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const found = await findAccount(userId, id, 'edit')
+    if (!found.success) {
+      return { success: false, error: found.error }
+    }
+
+    const used = await prisma.transaction.count({
+      where: { OR: [{ accountId: id }, { toAccountId: id }] },
+    })
+    if (used > 0) {
+      return { success: false, error: 'This account has transactions. Archive it instead to keep them.' }
+    }
+
+    await prisma.account.delete({ where: { id: id } })
+
+    revalidateAccountPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting account:', error)
+    return { success: false, error: `Failed to delete account: ${getErrorMessage(error)}` }
+  }
+}
+
+// Everything paid from or into an account with the balance after each
+// transaction, the balance of what has been reconciled, and past
+// reconciliations, newest first
+export async function getAccountRegister(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const found = await findAccount(userId, id, 'view')
+    if (!found.success) {
+      return { success: false, error: found.error }
+    }
+    const { account, scope } = found
+
+    const [transactions, reconciliations] = await Promise.all([
+      prisma.transaction.findMany({
+        where: { OR: [{ accountId: id }, { toAccountId: id }] },
+        orderBy: [{ date: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+        select: {
+          id: true,
+          name: true,
+          date: true,
+          type: true,
+          amount: true,
+          accountId: true,
+          toAccountId: true,
+          reconciliationId: true,
+          toReconciliationId: true,
+          account: { select: { name: true } },
+          toAccount: { select: { name: true } },
+        },
+      }),
+      prisma.reconciliation.findMany({
+        where: { accountId: id },
+        orderBy: { statementDate: 'desc' },
+        include: { _count: { select: { transactions: true, transfers: true } } },
+      }),
+    ])
+
+    const openingBalance = Number(account.openingBalance)
+    const effects = transactions.map(t => accountEffect({ ...t, amount: Number(t.amount) }, id))
+    const balances = runningBalances(openingBalance, effects)
+    const entries: RegisterEntry[] = transactions.map((t, i) => ({
+      id: t.id,
+      name: t.name,
+      date: new Date(t.date),
+      type: t.type,
+      amount: effects[i],
+      balance: balances[i],
+      otherAccount: t.type === 'Transfer'
+        ? (t.accountId === id ? t.toAccount?.name : t.account.name) ?? null
+        : null,
+      reconciled: isReconciledIn(t, id),
+    }))
+    const clearedBalance = balanceAfter(openingBalance, entries.filter(entry => entry.reconciled).map(entry => entry.amount))
+
+    return {
+      success: true,
+      account: {
+        id: account.id,
+        name: account.name,
+        type: account.type,
+        openingBalance: openingBalance,
+        archived: account.archived,
+        balance: balanceAfter(openingBalance, effects),
+        ledgerId: account.ledgerId,
+      },
+      canEdit: !scope.ledger || canEditLedger(scope.ledger.role),
+      entries: entries,
+      clearedBalance: clearedBalance,
+      reconciliations: reconciliations.map((r): SerializedReconciliation => ({
+        id: r.id,
+        statementDate: new Date(r.statementDate),
+        statementBalance: Number(r.statementBalance),
+        createdAt: new Date(r.createdAt),
+        transactionCount: r._count.transactions + r._count.transfers,
+      })),
+    }
+  } catch (error) {
+    console.error('Error fetching account register:', error)
+    return { success: false, error: `Failed to fetch account: ${getErrorMessage(error)}` }
+  }
+}
+
+// Tick off transactions against a statement. Together with what was
+// reconciled before, they have to add up to the statement balance.
+export async function reconcileAccount(id: string, data: ReconcileFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const found = await findAccount(userId, id, 'edit')
+    if (!found.success) {
+      return { success: false, error: found.error }
+    }
+
+    const statementBalance = parseFloat(data.statementBalance)
+    if (isNaN(statementBalance)) {
+      return { success: false, error: 'Invalid statement balance: Please enter a number' }
+    }
+    const transactionIds = [...new Set(data.transactionIds)]
+    if (transactionIds.length === 0) {
+      return { success: false, error: 'Tick off the transactions on the statement' }
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where: { OR: [{ accountId: id }, { toAccountId: id }] },
+      select: { id: true, type: true, amount: true, accountId: true, toAccountId: true, reconciliationId: true, toReconciliationId: true },
+    })
+
+    const ticked = new Set(transactionIds)
+    const toReconcile = transactions.filter(t => ticked.has(t.id) && !isReconciledIn(t, id))
+    if (toReconcile.length !== ticked.size) {
+      return { success: false, error: 'Some of the transactions aren\'t in this account or were already reconciled' }
+    }
+
+    const effect = (t: typeof transactions[number]) => accountEffect({ ...t, amount: Number(t.amount) }, id)
+    const clearedBalance = balanceAfter(Number(found.account.openingBalance), transactions.filter(t => isReconciledIn(t, id)).map(effect))
+    const difference = reconciliationDifference(statementBalance, clearedBalance, toReconcile.map(effect))
+    if (difference !== 0) {
+      return { success: false, error: `The ticked transactions are ${Math.abs(difference).toFixed(2)} off the statement balance` }
+    }
+
+    // A transfer between two of the accounts is reconciled separately on
+    // each side
+    const outgoing = toReconcile.filter(t => t.accountId === id).map(t => t.id)
+    const incoming = toReconcile.filter(t => t.accountId !== id).map(t => t.id)
+    await prisma.reconciliation.create({
+      data: {
+        statementDate: data.statementDate,
+        statementBalance: statementBalance,
+        accountId: id,
+        transactions: { connect: outgoing.map(transactionId => ({ id: transactionId })) },
+        transfers: { connect: incoming.map(transactionId => ({ id: transactionId })) },
+      },
+    })
+
+    revalidateAccountPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error reconciling account:', error)
+    return { success: false, error: `Failed to reconcile account: ${getErrorMessage(error)}` }
+  }
+}
+
+// Un-ticks the transactions of a reconciliation so they can be changed
+// again. Only the latest one can be undone, since later statements were
+// checked against it.
+export async function undoReconciliation(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const reconciliation = await prisma.reconciliation.findUnique({
+      where: { id: id },
+      select: { accountId: true, createdAt: true },
+    })
+    if (!reconciliation) {
+      return { success: false, error: 'Reconciliation not found' }
+    }
+    const found = await findAccount(userId, reconciliation.accountId, 'edit')
+    if (!found.success) {
+      return { success: false, error: 'Reconciliation not found' }
+    }
+
+    const later = await prisma.reconciliation.count({
+      where: { accountId: reconciliation.accountId, createdAt: { gt: reconciliation.createdAt } },
+    })
+    if (later > 0) {
+      return { success: false, error: 'Undo the later reconciliations of this account first' }
+    }
+
+    // The transactions are let go of with it
+    await prisma.reconciliation.delete({ where: { id: id } })
+
+    revalidateAccountPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error undoing reconciliation:', error)
+    return { success: false, error: `Failed to undo reconciliation: ${getErrorMessage(error)}` }
+  }
+}
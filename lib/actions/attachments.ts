@@ -0,0 +1,42 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { prisma } from '@/lib/prisma'
+import { deleteStoredFiles } from '@/lib/attachment-storage'
+import { editableTransactionWhere } from '@/lib/user-ledgers'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+// Uploads go through POST /api/attachments (see lib/attachments.ts), since
+// server action request bodies are too small for photos and PDFs
+
+export async function deleteAttachment(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const attachment = await prisma.attachment.findFirst({
+      where: {
+        id: id,
+        transaction: editableTransactionWhere(userId),
+      },
+    })
+    if (!attachment) {
+      return { success: false, error: 'Attachment not found' }
+    }
+
+    await prisma.attachment.delete({
+      where: { id: attachment.id },
+    })
+    await deleteStoredFiles([attachment.storageKey])
+
+    revalidatePath('/records')
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting attachment:', error)
+    return { success: false, error: `Failed to delete attachment: ${getErrorMessage(error)}` }
+  }
+}
@@ -0,0 +1,254 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { resolveScope } from '@/lib/user-ledgers'
+import { checkPeople } from '@/lib/user-bill-splits'
+import { computeBalances, parsePersonKey, personFromKey, personKey, simplifyDebts, type Debt } from '@/lib/bill-splits'
+import { MAX_NOTES_LENGTH } from '@/lib/transactions'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+// Someone in the balances, by person key (see lib/bill-splits.ts)
+export type BalancePerson = {
+  key: string
+  name: string
+  isYou: boolean
+  // Positive when they are owed money, negative when they owe
+  balance: number
+}
+
+export type SerializedSettlement = {
+  id: string
+  amount: number
+  date: Date
+  notes: string | null
+  // Person keys
+  from: string
+  to: string
+}
+
+export type SettlementFormData = {
+  // Person keys of who paid whom
+  from: string
+  to: string
+  amount: string
+  date: Date
+  notes?: string
+  // The shared ledger the settlement is between members of; unset for
+  // one between the user and a contact
+  ledgerId?: string | null
+}
+
+// How many of the latest settlements getBalances returns
+const RECENT_SETTLEMENTS = 20
+
+// Settlements are the user's own, or those of the ledger
+function settlementScopeWhere(userId: string, ledgerId: string | null): Prisma.SettlementWhereInput {
+  return ledgerId ? { ledgerId: ledgerId } : { userId: userId, ledgerId: null }
+}
+
+// Who owes whom for the bills split between people, personal or in a
+// shared ledger, with the payments that would settle it all
+export async function getBalances(ledgerId?: string | null) {
+  const empty = { people: [] as BalancePerson[], debts: [] as Debt[], settlements: [] as SerializedSettlement[] }
+
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', ...empty }
+    }
+
+    const access = await resolveScope(userId, ledgerId, 'view')
+    if (!access.success) {
+      return { success: false, error: access.error, ...empty }
+    }
+    const { ledger } = access.scope
+
+    const [bills, settlements, members, contacts] = await Promise.all([
+      prisma.transaction.findMany({
+        where: { ...access.scope.where, billSplitMethod: { not: null } },
+        select: {
+          amount: true,
+          userId: true,
+          paidById: true,
+          shares: { select: { amount: true, userId: true, contactId: true } },
+        },
+      }),
+      prisma.settlement.findMany({
+        where: settlementScopeWhere(userId, ledger?.id ?? null),
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+      }),
+      ledger
+        ? prisma.ledgerMember.findMany({ where: { ledgerId: ledger.id }, select: { userId: true } })
+        : Promise.resolve([]),
+      ledger
+        ? Promise.resolve([])
+        : prisma.contact.findMany({ where: { userId: userId }, select: { id: true, name: true } }),
+    ])
+
+    // Personal bills are paid by the user; shared ones by whoever the
+    // transaction says
+    const balances = computeBalances(
+      bills.map(bill => ({
+        amount: Number(bill.amount),
+        paidBy: { userId: ledger ? bill.paidById ?? bill.userId : userId },
+        shares: bill.shares.map(share => ({ ...share, amount: Number(share.amount) })),
+      })),
+      settlements.map(settlement => ({
+        amount: Number(settlement.amount),
+        from: { userId: settlement.fromUserId, contactId: settlement.fromContactId },
+        to: { userId: settlement.toUserId, contactId: settlement.toContactId },
+      }))
+    )
+
+    // Everyone who can share a bill shows up, even when they're even;
+    // former members only while they owe or are owed
+    const names = new Map<string, string>(contacts.map(contact => [personKey({ contactId: contact.id }), contact.name]))
+    const userIds = [...new Set([
+      userId,
+      ...members.map(member => member.userId),
+      ...Object.keys(balances).map(personFromKey).flatMap(person => person.userId ? [person.userId] : []),
+    ])]
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, name: true, email: true },
+    })
+    for (const user of users) {
+      if (user.id === userId || ledger) {
+        names.set(personKey({ userId: user.id }), user.name || user.email)
+      }
+    }
+
+    const keys = new Set([...names.keys(), ...Object.keys(balances)])
+    const yourKey = personKey({ userId })
+    const people: BalancePerson[] = [...keys]
+      .map(key => ({
+        key,
+        name: key === yourKey ? 'You' : names.get(key) ?? 'Unknown',
+        isYou: key === yourKey,
+        balance: balances[key] ?? 0,
+      }))
+      .sort((a, b) => Number(b.isYou) - Number(a.isYou) || a.name.localeCompare(b.name))
+
+    return {
+      success: true,
+      people,
+      debts: simplifyDebts(balances),
+      settlements: settlements.slice(0, RECENT_SETTLEMENTS).map((settlement): SerializedSettlement => ({
+        id: settlement.id,
+        amount: Number(settlement.amount),
+        date: new Date(settlement.date),
+        notes: settlement.notes,
+        from: personKey({ userId: settlement.fromUserId, contactId: settlement.fromContactId }),
+        to: personKey({ userId: settlement.toUserId, contactId: settlement.toContactId }),
+      })),
+    }
+  } catch (error) {
+    console.error('Error fetching balances:', error)
+    return { success: false, error: `Failed to fetch balances: ${getErrorMessage(error)}`, ...empty }
+  }
+}
+
+// Record money paid back. Personal settlements are between the user and a
+// contact; in a shared ledger, between two members.
+export async function recordSettlement(data: SettlementFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    await ensureUser(userId)
+
+    const access = await resolveScope(userId, data.ledgerId, 'edit')
+    if (!access.success) {
+      return { success: false, error: access.error }
+    }
+    const { ledger } = access.scope
+
+    const amount = parseFloat(data.amount)
+    if (isNaN(amount) || amount <= 0) {
+      return { success: false, error: 'Invalid amount: Please enter a valid positive number' }
+    }
+    const date = new Date(data.date)
+    if (isNaN(date.getTime())) {
+      return { success: false, error: 'Invalid date' }
+    }
+    if (data.from === data.to) {
+      return { success: false, error: 'Pick two different people' }
+    }
+
+    const from = parsePersonKey(data.from)
+    const to = parsePersonKey(data.to)
+    if (!from || !to) {
+      return { success: false, error: 'Person not found' }
+    }
+    if (!ledger && from.userId !== userId && to.userId !== userId) {
+      return { success: false, error: 'You must be one side of the settlement' }
+    }
+    const people = await checkPeople(userId, ledger?.id ?? null, [from, to])
+    if (!people.success) {
+      return { success: false, error: people.error }
+    }
+
+    const notes = data.notes?.trim() || null
+    if (notes && notes.length > MAX_NOTES_LENGTH) {
+      return { success: false, error: `Notes can be at most ${MAX_NOTES_LENGTH} characters` }
+    }
+
+    await prisma.settlement.create({
+      data: {
+        amount: amount,
+        date: date,
+        notes: notes,
+        fromUserId: from.userId ?? null,
+        fromContactId: from.contactId ?? null,
+        toUserId: to.userId ?? null,
+        toContactId: to.contactId ?? null,
+        ledgerId: ledger?.id ?? null,
+        userId: userId,
+      },
+    })
+
+    revalidatePath('/records')
+    return { success: true }
+  } catch (error) {
+    console.error('Error recording settlement:', error)
+    return { success: false, error: `Failed to record settlement: ${getErrorMessage(error)}` }
+  }
+}
+
+// The user's own settlements, or those of ledgers the user can edit
+export async function deleteSettlement(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const result = await prisma.settlement.deleteMany({
+      where: {
+        id: id,
+        OR: [
+          settlementScopeWhere(userId, null),
+          { ledger: { members: { some: { userId: userId, role: { in: ['Owner', 'Editor'] } } } } },
+        ],
+      },
+    })
+    if (result.count === 0) {
+      return { success: false, error: 'Settlement not found' }
+    }
+
+    revalidatePath('/records')
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting settlement:', error)
+    return { success: false, error: `Failed to delete settlement: ${getErrorMessage(error)}` }
+  }
+}
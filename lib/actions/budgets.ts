@@ -0,0 +1,254 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import type { Budget } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { buildBudgetStatuses, rollUpSpending } from '@/lib/budgets'
+import { notReimbursedWhere, personalWhere } from '@/lib/transactions'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+export type BudgetFormData = {
+  categoryId: string
+  amount: string
+}
+
+// Helper function to convert Decimal to number for serialization
+function serializeBudget(budget: Budget) {
+  return {
+    ...budget,
+    amount: Number(budget.amount),
+    createdAt: new Date(budget.createdAt),
+    updatedAt: new Date(budget.updatedAt),
+  }
+}
+
+export async function createBudget(data: BudgetFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    // Ensure user exists in database
+    await ensureUser(userId)
+
+    const amount = parseFloat(data.amount)
+    if (isNaN(amount) || amount <= 0) {
+      return { success: false, error: 'Invalid amount: Please enter a valid positive number' }
+    }
+
+    // Only spending can be budgeted
+    const category = await prisma.category.findFirst({
+      where: {
+        id: data.categoryId,
+        userId: userId,
+        type: 'Expense',
+      },
+    })
+
+    if (!category) {
+      return { success: false, error: `Invalid category: ${data.categoryId}` }
+    }
+
+    const existing = await prisma.budget.findUnique({
+      where: {
+        userId_categoryId: {
+          userId: userId,
+          categoryId: category.id,
+        },
+      },
+    })
+
+    if (existing) {
+      return { success: false, error: `A budget for ${category.name} already exists` }
+    }
+
+    const budget = await prisma.budget.create({
+      data: {
+        categoryId: category.id,
+        amount: amount,
+        userId: userId,
+      },
+    })
+
+    revalidatePath('/records')
+    revalidatePath('/reports')
+    return { success: true, budget: serializeBudget(budget) }
+  } catch (error) {
+    console.error('Error creating budget:', error)
+    return { success: false, error: `Failed to create budget: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function updateBudget(id: string, amount: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const parsedAmount = parseFloat(amount)
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      return { success: false, error: 'Invalid amount' }
+    }
+
+    const budget = await prisma.budget.update({
+      where: {
+        id: id,
+        userId: userId,
+      },
+      data: {
+        amount: parsedAmount,
+      },
+    })
+
+    revalidatePath('/records')
+    revalidatePath('/reports')
+    return { success: true, budget: serializeBudget(budget) }
+  } catch (error) {
+    console.error('Error updating budget:', error)
+    return { success: false, error: `Failed to update budget: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function deleteBudget(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await prisma.budget.delete({
+      where: {
+        id: id,
+        userId: userId,
+      },
+    })
+
+    revalidatePath('/records')
+    revalidatePath('/reports')
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting budget:', error)
+    return { success: false, error: `Failed to delete budget: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function getBudgets() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', budgets: [] }
+    }
+
+    // Ensure user exists
+    await ensureUser(userId)
+
+    const budgets = await prisma.budget.findMany({
+      where: {
+        userId: userId,
+      },
+      orderBy: {
+        category: { name: 'asc' },
+      },
+    })
+
+    return { success: true, budgets: budgets.map(serializeBudget) }
+  } catch (error) {
+    console.error('Error fetching budgets:', error)
+    return { success: false, error: `Failed to fetch budgets: ${getErrorMessage(error)}`, budgets: [] }
+  }
+}
+
+// Budget vs. actual spending for every budgeted category in a month
+export async function getBudgetSummary(month?: Date) {
+  const empty = { statuses: [], totalBudget: 0, totalSpent: 0, remaining: 0 }
+
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', ...empty }
+    }
+
+    // Ensure user exists
+    await ensureUser(userId)
+
+    const targetMonth = month || new Date()
+    const startOfMonth = new Date(targetMonth.getFullYear(), targetMonth.getMonth(), 1)
+    // Exclusive, so spending at any time on the last day counts
+    const startOfNextMonth = new Date(targetMonth.getFullYear(), targetMonth.getMonth() + 1, 1)
+
+    // Expenses paid back through a claim don't use up the budget
+    const inMonth = {
+      ...personalWhere(userId),
+      type: 'Expense' as const,
+      date: {
+        gte: startOfMonth,
+        lt: startOfNextMonth,
+      },
+      AND: [notReimbursedWhere],
+    }
+
+    // Split transactions have no category of their own, so their spending
+    // comes from the splits
+    const [budgets, subcategories, spending, splitSpending] = await Promise.all([
+      prisma.budget.findMany({
+        where: { userId: userId },
+        orderBy: { category: { name: 'asc' } },
+      }),
+      prisma.category.findMany({
+        where: { userId: userId, parentId: { not: null } },
+        select: { id: true, parentId: true },
+      }),
+      prisma.transaction.groupBy({
+        by: ['categoryId'],
+        where: inMonth,
+        _sum: {
+          amount: true,
+        },
+      }),
+      prisma.transactionSplit.groupBy({
+        by: ['categoryId'],
+        where: { transaction: inMonth },
+        _sum: {
+          amount: true,
+        },
+      }),
+    ])
+
+    const spentByCategory = [...spending, ...splitSpending].reduce((acc, row) => {
+      if (row.categoryId) {
+        acc[row.categoryId] = (acc[row.categoryId] || 0) + (row._sum.amount ? Number(row._sum.amount) : 0)
+      }
+      return acc
+    }, {} as Record<string, number>)
+
+    const statuses = buildBudgetStatuses(budgets.map(serializeBudget), rollUpSpending(spentByCategory, subcategories))
+    const totalBudget = statuses.reduce((sum, s) => sum + s.limit, 0)
+    // Count each category's spending once, even when both it and its
+    // parent have a budget
+    const budgeted = new Set(budgets.map(b => b.categoryId))
+    const parentOf = new Map(subcategories.map(c => [c.id, c.parentId]))
+    const totalSpent = Object.entries(spentByCategory)
+      .filter(([id]) => budgeted.has(id) || budgeted.has(parentOf.get(id) ?? ''))
+      .reduce((sum, [, spent]) => sum + spent, 0)
+
+    return {
+      success: true,
+      statuses,
+      totalBudget,
+      totalSpent,
+      remaining: totalBudget - totalSpent,
+    }
+  } catch (error) {
+    console.error('Error fetching budget summary:', error)
+    return { success: false, error: `Failed to fetch budget summary: ${getErrorMessage(error)}`, ...empty }
+  }
+}
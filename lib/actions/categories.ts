@@ -0,0 +1,237 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import type { TransactionType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { isCategoryIconName } from '@/lib/categories'
+import { getCategoryHistory, serializeCategory } from '@/lib/user-categories'
+import { resolveScope } from '@/lib/user-ledgers'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+export type CategoryFormData = {
+  name: string
+  icon: string
+  color: string
+  // 'Expense' or 'Income'. Can't be changed once the category exists.
+  type: string
+  // Makes this a subcategory of another top-level category of the same type
+  parentId?: string | null
+}
+
+const MAX_NAME_LENGTH = 50
+
+// Returns an error message, or null when the form data is valid
+async function validateCategory(userId: string, data: CategoryFormData, id?: string) {
+  const name = data.name.trim()
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return `Name must be between 1 and ${MAX_NAME_LENGTH} characters`
+  }
+  if (!isCategoryIconName(data.icon)) {
+    return `Invalid icon: ${data.icon}`
+  }
+  if (!/^#[0-9a-f]{6}$/i.test(data.color)) {
+    return `Invalid color: ${data.color}`
+  }
+  if (data.type !== 'Expense' && data.type !== 'Income') {
+    return `Invalid type: ${data.type}`
+  }
+
+  if (data.parentId) {
+    if (data.parentId === id) {
+      return 'A category can\'t be its own parent'
+    }
+    const parent = await prisma.category.findFirst({
+      where: { id: data.parentId, userId: userId },
+    })
+    if (!parent || parent.type !== data.type) {
+      return 'Invalid parent category'
+    }
+    if (parent.parentId) {
+      return 'Subcategories can\'t have subcategories of their own'
+    }
+    if (id && await prisma.category.count({ where: { parentId: id } }) > 0) {
+      return 'A category with subcategories can\'t become a subcategory'
+    }
+  }
+
+  // Names only need to be unique next to each other, so "Other" can
+  // exist as a subcategory of several categories
+  const duplicate = await prisma.category.findFirst({
+    where: {
+      userId: userId,
+      parentId: data.parentId || null,
+      name: { equals: name, mode: 'insensitive' },
+      ...(id && { NOT: { id: id } }),
+    },
+  })
+  if (duplicate) {
+    return `A category named ${name} already exists`
+  }
+
+  return null
+}
+
+// The user's categories, or with a ledger id the ones its transactions are
+// filed under, which are the ledger owner's
+export async function getCategories(ledgerId?: string | null) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', categories: [] }
+    }
+
+    // Ensure user exists (and has the default categories)
+    await ensureUser(userId)
+
+    const access = await resolveScope(userId, ledgerId, 'view')
+    if (!access.success) {
+      return { success: false, error: access.error, categories: [] }
+    }
+
+    const categories = await prisma.category.findMany({
+      where: {
+        userId: access.scope.categoryOwnerId,
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    })
+
+    return { success: true, categories: categories.map(serializeCategory) }
+  } catch (error) {
+    console.error('Error fetching categories:', error)
+    return { success: false, error: `Failed to fetch categories: ${getErrorMessage(error)}`, categories: [] }
+  }
+}
+
+// What the transaction form learns category suggestions from
+export async function getCategorySuggestionHistory() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', history: [] }
+    }
+
+    return { success: true, history: await getCategoryHistory(userId) }
+  } catch (error) {
+    console.error('Error fetching category history:', error)
+    return { success: false, error: `Failed to fetch category history: ${getErrorMessage(error)}`, history: [] }
+  }
+}
+
+export async function createCategory(data: CategoryFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    // Ensure user exists in database
+    await ensureUser(userId)
+
+    const validationError = await validateCategory(userId, data)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const category = await prisma.category.create({
+      data: {
+        name: data.name.trim(),
+        icon: data.icon,
+        color: data.color,
+        type: data.type as TransactionType,
+        parentId: data.parentId || null,
+        userId: userId,
+      },
+    })
+
+    revalidatePath('/', 'layout')
+    return { success: true, category: serializeCategory(category) }
+  } catch (error) {
+    console.error('Error creating category:', error)
+    return { success: false, error: `Failed to create category: ${getErrorMessage(error)}` }
+  }
+}
+
+// The type is left as it was: existing transactions, budgets and
+// subcategories all rely on it
+export async function updateCategory(id: string, data: CategoryFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const existing = await prisma.category.findUniqueOrThrow({
+      where: {
+        id: id,
+        userId: userId,
+      },
+    })
+
+    const validationError = await validateCategory(userId, { ...data, type: existing.type }, id)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const category = await prisma.category.update({
+      where: {
+        id: id,
+        userId: userId,
+      },
+      data: {
+        name: data.name.trim(),
+        icon: data.icon,
+        color: data.color,
+        parentId: data.parentId || null,
+      },
+    })
+
+    revalidatePath('/', 'layout')
+    return { success: true, category: serializeCategory(category) }
+  } catch (error) {
+    console.error('Error updating category:', error)
+    return { success: false, error: `Failed to update category: ${getErrorMessage(error)}` }
+  }
+}
+
+// Transactions in the category become uncategorized and its budget is
+// removed. Subcategories have to be moved or deleted first.
+export async function deleteCategory(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const subcategories = await prisma.category.count({
+      where: {
+        parentId: id,
+        userId: userId,
+      },
+    })
+    if (subcategories > 0) {
+      return { success: false, error: 'Delete or move its subcategories first' }
+    }
+
+    await prisma.category.delete({
+      where: {
+        id: id,
+        userId: userId,
+      },
+    })
+
+    revalidatePath('/', 'layout')
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting category:', error)
+    return { success: false, error: `Failed to delete category: ${getErrorMessage(error)}` }
+  }
+}
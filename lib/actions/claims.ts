@@ -0,0 +1,339 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import type { Claim } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { MAX_CLAIM_NAME_LENGTH, isClaimStatus } from '@/lib/claims'
+import { personalWhere, serializeTransaction, transactionInclude } from '@/lib/transactions'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+export type ClaimFormData = {
+  name: string
+  notes?: string
+}
+
+function serializeClaim(claim: Claim, transactions: { amount: unknown }[]) {
+  return {
+    id: claim.id,
+    name: claim.name,
+    status: claim.status,
+    notes: claim.notes,
+    submittedAt: claim.submittedAt,
+    paidAt: claim.paidAt,
+    createdAt: claim.createdAt,
+    total: transactions.reduce<number>((sum, t) => sum + Number(t.amount), 0),
+    count: transactions.length,
+  }
+}
+
+export type SerializedClaim = ReturnType<typeof serializeClaim>
+
+// Paying a claim changes the spending totals, so the other pages refresh too
+function revalidateClaimPages() {
+  revalidatePath('/claims')
+  revalidatePath('/records')
+  revalidatePath('/reports')
+}
+
+function validateClaimForm(data: ClaimFormData) {
+  const name = data.name.trim()
+  if (!name) {
+    return { success: false as const, error: 'Please give the claim a name' }
+  }
+  if (name.length > MAX_CLAIM_NAME_LENGTH) {
+    return { success: false as const, error: `Names can be at most ${MAX_CLAIM_NAME_LENGTH} characters` }
+  }
+  return { success: true as const, fields: { name: name, notes: data.notes?.trim() || null } }
+}
+
+// Claims whose expenses can be changed, i.e. drafts
+async function findDraftClaim(userId: string, claimId: string) {
+  const claim = await prisma.claim.findFirst({
+    where: { id: claimId, userId: userId },
+    select: { status: true },
+  })
+  if (!claim) {
+    return { success: false as const, error: 'Claim not found' }
+  }
+  if (claim.status !== 'Draft') {
+    return { success: false as const, error: 'Only draft claims can be changed. Move it back to draft first.' }
+  }
+  return { success: true as const }
+}
+
+// Check that the expenses belong to the user, are reimbursable and aren't
+// in another claim yet
+async function checkClaimableExpenses(userId: string, transactionIds: string[]) {
+  const ids = [...new Set(transactionIds)]
+  const claimable = await prisma.transaction.count({
+    where: { id: { in: ids }, ...personalWhere(userId), type: 'Expense', reimbursable: true, claimId: null },
+  })
+  if (claimable !== ids.length) {
+    return { success: false as const, error: 'Some of the expenses are not reimbursable or are already in a claim' }
+  }
+  return { success: true as const, ids }
+}
+
+export async function getClaims() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', claims: [] }
+    }
+
+    const claims = await prisma.claim.findMany({
+      where: { userId: userId },
+      include: { transactions: { select: { amount: true } } },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return { success: true, claims: claims.map(({ transactions, ...claim }) => serializeClaim(claim, transactions)) }
+  } catch (error) {
+    console.error('Error fetching claims:', error)
+    return { success: false, error: `Failed to fetch claims: ${getErrorMessage(error)}`, claims: [] }
+  }
+}
+
+// A claim with its expenses, for the claims page and the claim report
+export async function getClaim(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', claim: null, transactions: [] }
+    }
+
+    const claim = await prisma.claim.findFirst({
+      where: { id: id, userId: userId },
+      include: {
+        transactions: {
+          include: transactionInclude,
+          orderBy: [{ date: 'asc' }, { id: 'asc' }],
+        },
+      },
+    })
+    if (!claim) {
+      return { success: false, error: 'Claim not found', claim: null, transactions: [] }
+    }
+
+    const { transactions, ...rest } = claim
+    return {
+      success: true,
+      claim: serializeClaim(rest, transactions),
+      transactions: transactions.map(serializeTransaction),
+    }
+  } catch (error) {
+    console.error('Error fetching claim:', error)
+    return { success: false, error: `Failed to fetch claim: ${getErrorMessage(error)}`, claim: null, transactions: [] }
+  }
+}
+
+// Reimbursable expenses that haven't been put in a claim yet
+export async function getUnclaimedExpenses() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', transactions: [] }
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where: { ...personalWhere(userId), type: 'Expense', reimbursable: true, claimId: null },
+      include: transactionInclude,
+      orderBy: [{ date: 'desc' }, { id: 'desc' }],
+    })
+
+    return { success: true, transactions: transactions.map(serializeTransaction) }
+  } catch (error) {
+    console.error('Error fetching unclaimed expenses:', error)
+    return { success: false, error: `Failed to fetch expenses: ${getErrorMessage(error)}`, transactions: [] }
+  }
+}
+
+export async function createClaim(data: ClaimFormData, transactionIds: string[]) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    await ensureUser(userId)
+
+    const form = validateClaimForm(data)
+    if (!form.success) {
+      return { success: false, error: form.error }
+    }
+
+    const expenses = await checkClaimableExpenses(userId, transactionIds)
+    if (!expenses.success) {
+      return { success: false, error: expenses.error }
+    }
+
+    const claim = await prisma.claim.create({
+      data: {
+        ...form.fields,
+        userId: userId,
+        transactions: { connect: expenses.ids.map(id => ({ id })) },
+      },
+    })
+
+    revalidateClaimPages()
+    return { success: true, claimId: claim.id }
+  } catch (error) {
+    console.error('Error creating claim:', error)
+    return { success: false, error: `Failed to create claim: ${getErrorMessage(error)}` }
+  }
+}
+
+// The name and notes can change at any time, unlike the expenses
+export async function updateClaim(id: string, data: ClaimFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const form = validateClaimForm(data)
+    if (!form.success) {
+      return { success: false, error: form.error }
+    }
+
+    await prisma.claim.update({
+      where: { id: id, userId: userId },
+      data: form.fields,
+    })
+
+    revalidatePath('/claims')
+    return { success: true }
+  } catch (error) {
+    console.error('Error updating claim:', error)
+    return { success: false, error: `Failed to update claim: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function addToClaim(claimId: string, transactionIds: string[]) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const claim = await findDraftClaim(userId, claimId)
+    if (!claim.success) {
+      return { success: false, error: claim.error }
+    }
+
+    const expenses = await checkClaimableExpenses(userId, transactionIds)
+    if (!expenses.success) {
+      return { success: false, error: expenses.error }
+    }
+
+    await prisma.transaction.updateMany({
+      where: { id: { in: expenses.ids }, userId: userId },
+      data: { claimId: claimId },
+    })
+
+    revalidateClaimPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error adding to claim:', error)
+    return { success: false, error: `Failed to add to claim: ${getErrorMessage(error)}` }
+  }
+}
+
+// The expense stays reimbursable, ready for another claim
+export async function removeFromClaim(claimId: string, transactionId: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const claim = await findDraftClaim(userId, claimId)
+    if (!claim.success) {
+      return { success: false, error: claim.error }
+    }
+
+    await prisma.transaction.update({
+      where: { id: transactionId, userId: userId, claimId: claimId },
+      data: { claimId: null },
+    })
+
+    revalidateClaimPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error removing from claim:', error)
+    return { success: false, error: `Failed to remove from claim: ${getErrorMessage(error)}` }
+  }
+}
+
+// Move a claim along (or back). The dates record when it was submitted
+// and paid; going back clears them.
+export async function setClaimStatus(id: string, status: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    if (!isClaimStatus(status)) {
+      return { success: false, error: `Invalid status: ${status}` }
+    }
+
+    const claim = await prisma.claim.findFirst({
+      where: { id: id, userId: userId },
+      include: { _count: { select: { transactions: true } } },
+    })
+    if (!claim) {
+      return { success: false, error: 'Claim not found' }
+    }
+    if (status !== 'Draft' && claim._count.transactions === 0) {
+      return { success: false, error: 'Add expenses to the claim before submitting it' }
+    }
+
+    const now = new Date()
+    await prisma.claim.update({
+      where: { id: id },
+      data: {
+        status: status,
+        submittedAt: status === 'Draft' ? null : claim.submittedAt ?? now,
+        paidAt: status === 'Paid' ? claim.paidAt ?? now : null,
+      },
+    })
+
+    revalidateClaimPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error updating claim status:', error)
+    return { success: false, error: `Failed to update claim: ${getErrorMessage(error)}` }
+  }
+}
+
+// Its expenses stay reimbursable and can go into another claim
+export async function deleteClaim(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await prisma.claim.delete({
+      where: { id: id, userId: userId },
+    })
+
+    revalidateClaimPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting claim:', error)
+    return { success: false, error: `Failed to delete claim: ${getErrorMessage(error)}` }
+  }
+}
@@ -0,0 +1,132 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { MAX_CONTACT_NAME_LENGTH } from '@/lib/bill-splits'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+function validateContactName(value: string) {
+  const name = value.trim()
+  if (!name) {
+    return { success: false as const, error: 'Please give the contact a name' }
+  }
+  if (name.length > MAX_CONTACT_NAME_LENGTH) {
+    return { success: false as const, error: `Names can be at most ${MAX_CONTACT_NAME_LENGTH} characters` }
+  }
+  return { success: true as const, name }
+}
+
+// The people the user splits personal bills with
+export async function getContacts() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', contacts: [] }
+    }
+
+    const contacts = await prisma.contact.findMany({
+      where: { userId: userId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    })
+    return { success: true, contacts }
+  } catch (error) {
+    console.error('Error fetching contacts:', error)
+    return { success: false, error: `Failed to fetch contacts: ${getErrorMessage(error)}`, contacts: [] }
+  }
+}
+
+export async function createContact(name: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    await ensureUser(userId)
+
+    const form = validateContactName(name)
+    if (!form.success) {
+      return { success: false, error: form.error }
+    }
+
+    const contact = await prisma.contact.create({
+      data: { name: form.name, userId: userId },
+      select: { id: true, name: true },
+    })
+
+    revalidatePath('/records')
+    return { success: true, contact }
+  } catch (error) {
+    console.error('Error creating contact:', error)
+    return { success: false, error: `Failed to create contact: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function renameContact(id: string, name: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const form = validateContactName(name)
+    if (!form.success) {
+      return { success: false, error: form.error }
+    }
+
+    const result = await prisma.contact.updateMany({
+      where: { id: id, userId: userId },
+      data: { name: form.name },
+    })
+    if (result.count === 0) {
+      return { success: false, error: 'Contact not found' }
+    }
+
+    revalidatePath('/records')
+    return { success: true }
+  } catch (error) {
+    console.error('Error renaming contact:', error)
+    return { success: false, error: `Failed to rename contact: ${getErrorMessage(error)}` }
+  }
+}
+
+// Contacts who share a bill or a settlement are kept, so the balances
+// still add up
+export async function deleteContact(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const contact = await prisma.contact.findFirst({
+      where: { id: id, userId: userId },
+      select: {
+        name: true,
+        _count: { select: { shares: true, settlementsPaid: true, settlementsReceived: true } },
+      },
+    })
+    if (!contact) {
+      return { success: false, error: 'Contact not found' }
+    }
+    const { shares, settlementsPaid, settlementsReceived } = contact._count
+    if (shares + settlementsPaid + settlementsReceived > 0) {
+      return { success: false, error: `${contact.name} shares bills or settlements with you. Remove them from those first.` }
+    }
+
+    await prisma.contact.delete({ where: { id: id } })
+
+    revalidatePath('/records')
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting contact:', error)
+    return { success: false, error: `Failed to delete contact: ${getErrorMessage(error)}` }
+  }
+}
@@ -0,0 +1,82 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { parseExchangeRatesCsv } from '@/lib/exchange-rates'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+// Import rates from a "date,base,quote,rate" CSV into the user's own
+// rates. Existing rates for the same pair and date are overwritten, so
+// re-importing a file is harmless.
+export async function importExchangeRates(csvText: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', imported: 0, errors: [] }
+    }
+
+    await ensureUser(userId)
+
+    const { rows, errors } = parseExchangeRatesCsv(csvText)
+    if (rows.length === 0) {
+      return { success: false, error: errors[0] || 'No exchange rates found in file', imported: 0, errors }
+    }
+
+    await prisma.$transaction(
+      rows.map(row =>
+        prisma.exchangeRate.upsert({
+          where: {
+            userId_base_quote_date: {
+              userId: userId,
+              base: row.base,
+              quote: row.quote,
+              date: row.date,
+            },
+          },
+          update: { rate: row.rate },
+          create: { ...row, userId: userId },
+        })
+      )
+    )
+
+    revalidatePath('/profile')
+    return { success: true, imported: rows.length, errors }
+  } catch (error) {
+    console.error('Error importing exchange rates:', error)
+    return { success: false, error: `Failed to import exchange rates: ${getErrorMessage(error)}`, imported: 0, errors: [] }
+  }
+}
+
+// The most recent rate of every currency pair the user imported
+export async function getLatestExchangeRates() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', rates: [] }
+    }
+
+    const rates = await prisma.exchangeRate.findMany({
+      where: { userId: userId },
+      distinct: ['base', 'quote'],
+      orderBy: [{ base: 'asc' }, { quote: 'asc' }, { date: 'desc' }],
+    })
+
+    return {
+      success: true,
+      rates: rates.map(rate => ({
+        id: rate.id,
+        base: rate.base,
+        quote: rate.quote,
+        rate: Number(rate.rate),
+        date: new Date(rate.date),
+      })),
+    }
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error)
+    return { success: false, error: `Failed to fetch exchange rates: ${getErrorMessage(error)}`, rates: [] }
+  }
+}
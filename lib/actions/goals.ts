@@ -0,0 +1,226 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import type { Goal, GoalContribution } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { MAX_GOAL_NAME_LENGTH, goalProgress } from '@/lib/goals'
+import { MAX_NOTES_LENGTH } from '@/lib/transactions'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+export type GoalFormData = {
+  name: string
+  targetAmount: string
+  targetDate?: Date | null
+}
+
+export type ContributionFormData = {
+  // Negative to take money back out of the goal
+  amount: string
+  date: Date
+  notes?: string
+}
+
+function serializeContribution(contribution: GoalContribution) {
+  return {
+    id: contribution.id,
+    amount: Number(contribution.amount),
+    date: new Date(contribution.date),
+    notes: contribution.notes,
+  }
+}
+
+function serializeGoal(goal: Goal, contributions: GoalContribution[]) {
+  const serialized = contributions.map(serializeContribution)
+  const targetAmount = Number(goal.targetAmount)
+  return {
+    id: goal.id,
+    name: goal.name,
+    targetAmount: targetAmount,
+    targetDate: goal.targetDate,
+    createdAt: goal.createdAt,
+    contributions: serialized,
+    progress: goalProgress({ targetAmount, targetDate: goal.targetDate }, serialized),
+  }
+}
+
+export type SerializedGoal = ReturnType<typeof serializeGoal>
+export type SerializedContribution = ReturnType<typeof serializeContribution>
+
+function validateGoalForm(data: GoalFormData) {
+  const name = data.name.trim()
+  if (!name) {
+    return { success: false as const, error: 'Please give the goal a name' }
+  }
+  if (name.length > MAX_GOAL_NAME_LENGTH) {
+    return { success: false as const, error: `Names can be at most ${MAX_GOAL_NAME_LENGTH} characters` }
+  }
+  const targetAmount = parseFloat(data.targetAmount)
+  if (isNaN(targetAmount) || targetAmount <= 0) {
+    return { success: false as const, error: 'Invalid target: Please enter a valid positive number' }
+  }
+  return { success: true as const, fields: { name, targetAmount, targetDate: data.targetDate ?? null } }
+}
+
+// The user's goals with their contributions, newest contribution first
+export async function getGoals() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', goals: [] }
+    }
+
+    const goals = await prisma.goal.findMany({
+      where: { userId: userId },
+      include: { contributions: { orderBy: [{ date: 'desc' }, { createdAt: 'desc' }] } },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return { success: true, goals: goals.map(({ contributions, ...goal }) => serializeGoal(goal, contributions)) }
+  } catch (error) {
+    console.error('Error fetching goals:', error)
+    return { success: false, error: `Failed to fetch goals: ${getErrorMessage(error)}`, goals: [] }
+  }
+}
+
+export async function createGoal(data: GoalFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    await ensureUser(userId)
+
+    const form = validateGoalForm(data)
+    if (!form.success) {
+      return { success: false, error: form.error }
+    }
+
+    const goal = await prisma.goal.create({
+      data: { ...form.fields, userId: userId },
+    })
+
+    revalidatePath('/goals')
+    return { success: true, goalId: goal.id }
+  } catch (error) {
+    console.error('Error creating goal:', error)
+    return { success: false, error: `Failed to create goal: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function updateGoal(id: string, data: GoalFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const form = validateGoalForm(data)
+    if (!form.success) {
+      return { success: false, error: form.error }
+    }
+
+    const result = await prisma.goal.updateMany({
+      where: { id: id, userId: userId },
+      data: form.fields,
+    })
+    if (result.count === 0) {
+      return { success: false, error: 'Goal not found' }
+    }
+
+    revalidatePath('/goals')
+    return { success: true }
+  } catch (error) {
+    console.error('Error updating goal:', error)
+    return { success: false, error: `Failed to update goal: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function deleteGoal(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    // Its contributions go with it
+    const result = await prisma.goal.deleteMany({
+      where: { id: id, userId: userId },
+    })
+    if (result.count === 0) {
+      return { success: false, error: 'Goal not found' }
+    }
+
+    revalidatePath('/goals')
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting goal:', error)
+    return { success: false, error: `Failed to delete goal: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function addContribution(goalId: string, data: ContributionFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const goal = await prisma.goal.findFirst({
+      where: { id: goalId, userId: userId },
+      select: { id: true },
+    })
+    if (!goal) {
+      return { success: false, error: 'Goal not found' }
+    }
+
+    const amount = parseFloat(data.amount)
+    if (isNaN(amount) || amount === 0) {
+      return { success: false, error: 'Invalid amount: Please enter a number other than zero' }
+    }
+    const notes = data.notes?.trim() || null
+    if (notes && notes.length > MAX_NOTES_LENGTH) {
+      return { success: false, error: `Notes can be at most ${MAX_NOTES_LENGTH} characters` }
+    }
+
+    await prisma.goalContribution.create({
+      data: { amount: amount, date: data.date, notes: notes, goalId: goal.id },
+    })
+
+    revalidatePath('/goals')
+    return { success: true }
+  } catch (error) {
+    console.error('Error adding contribution:', error)
+    return { success: false, error: `Failed to add contribution: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function deleteContribution(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const result = await prisma.goalContribution.deleteMany({
+      where: { id: id, goal: { userId: userId } },
+    })
+    if (result.count === 0) {
+      return { success: false, error: 'Contribution not found' }
+    }
+
+    revalidatePath('/goals')
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting contribution:', error)
+    return { success: false, error: `Failed to delete contribution: ${getErrorMessage(error)}` }
+  }
+}
@@ -0,0 +1,153 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import type { TransactionType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { personalWhere } from '@/lib/transactions'
+import { ensureUser } from '@/lib/user'
+import { isCategoryForType, isTransactionType } from '@/lib/categories'
+import { fallbackCategoryId, isLikelyDuplicate } from '@/lib/transaction-import'
+import { getActiveRules } from '@/lib/user-rules'
+import { applyRules } from '@/lib/rules'
+import { resolveScope } from '@/lib/user-ledgers'
+import { resolveAccountId } from '@/lib/user-accounts'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+import { startOfDay, endOfDay } from 'date-fns'
+
+export type ImportTransactionData = {
+  name: string
+  amount: number
+  date: Date
+  type: string
+  // Null when the file had no category or it matched none of the user's
+  categoryId: string | null
+}
+
+// Upper bound for one import, to keep a single request reasonable
+const MAX_IMPORT_ROWS = 5000
+
+// For each row, the existing transaction it most likely duplicates (or null)
+export async function findImportDuplicates(rows: { name: string; amount: number; date: Date }[]) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', duplicates: [] }
+    }
+
+    if (rows.length === 0) {
+      return { success: true, duplicates: [] }
+    }
+
+    const times = rows.map(r => new Date(r.date).getTime())
+    const existing = await prisma.transaction.findMany({
+      where: {
+        ...personalWhere(userId),
+        date: {
+          gte: startOfDay(new Date(Math.min(...times))),
+          lte: endOfDay(new Date(Math.max(...times))),
+        },
+      },
+      select: { id: true, name: true, amount: true, date: true },
+    })
+
+    const candidates = existing.map(t => ({ ...t, amount: Number(t.amount) }))
+    const duplicates = rows.map((row) => {
+      const match = candidates.find(t => isLikelyDuplicate(row, t))
+      return match ? { id: match.id, name: match.name, amount: match.amount, date: match.date } : null
+    })
+
+    return { success: true, duplicates }
+  } catch (error) {
+    console.error('Error checking import duplicates:', error)
+    return { success: false, error: `Failed to check for duplicates: ${getErrorMessage(error)}`, duplicates: [] }
+  }
+}
+
+// Every row goes into one account, e.g. the card the statement is from;
+// the default account when unset
+export async function importTransactions(rows: ImportTransactionData[], accountId?: string | null) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in', imported: 0 }
+    }
+
+    // Ensure user exists in database
+    await ensureUser(userId)
+
+    if (rows.length === 0) {
+      return { success: false, error: 'Nothing to import', imported: 0 }
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return { success: false, error: `Too many rows: import at most ${MAX_IMPORT_ROWS} at a time`, imported: 0 }
+    }
+
+    // Look categories up once instead of once per row
+    const categories = await prisma.category.findMany({
+      where: { userId: userId },
+      select: { id: true, name: true, type: true },
+    })
+    const categoryById = new Map(categories.map(c => [c.id, c]))
+
+    // The preview already validated, but never trust the client
+    for (const [i, row] of rows.entries()) {
+      const category = row.categoryId ? categoryById.get(row.categoryId) : null
+      const invalid =
+        !row.name?.trim() ||
+        typeof row.amount !== 'number' || isNaN(row.amount) || row.amount <= 0 ||
+        isNaN(new Date(row.date).getTime()) ||
+        !isTransactionType(row.type) ||
+        category === undefined ||
+        !isCategoryForType(category, row.type)
+
+      if (invalid) {
+        return { success: false, error: `Invalid row ${i + 1}: ${row.name || '(no name)'}`, imported: 0 }
+      }
+    }
+
+    const access = await resolveScope(userId, null, 'edit')
+    if (!access.success) {
+      return { success: false, error: access.error, imported: 0 }
+    }
+    const account = await resolveAccountId(userId, access.scope, accountId)
+    if (!account.success) {
+      return { success: false, error: account.error, imported: 0 }
+    }
+
+    // Categories from the file win, rules fill in the rest, and rows left
+    // over go to "Other"
+    const rules = await getActiveRules(userId)
+    const result = await prisma.transaction.createMany({
+      data: rows.map(row => {
+        const ruled = applyRules(rules, {
+          name: row.name.trim(),
+          amount: row.amount,
+          date: new Date(row.date),
+          type: row.type,
+          categoryId: row.categoryId,
+          tags: [],
+        }, false)
+
+        return {
+          name: ruled.name,
+          amount: row.amount,
+          date: new Date(row.date),
+          type: row.type as TransactionType,
+          categoryId: ruled.categoryId ?? fallbackCategoryId(categories, row.type),
+          tags: ruled.tags,
+          userId: userId,
+          accountId: account.accountId,
+        }
+      }),
+    })
+
+    revalidatePath('/records')
+    return { success: true, imported: result.count }
+  } catch (error) {
+    console.error('Error importing transactions:', error)
+    return { success: false, error: `Failed to import transactions: ${getErrorMessage(error)}`, imported: 0 }
+  }
+}
@@ -0,0 +1,442 @@
+'use server'
+
+import { randomBytes } from 'crypto'
+import { auth } from '@clerk/nextjs/server'
+import { addDays } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { deleteStoredFiles } from '@/lib/attachment-storage'
+import { DEFAULT_ACCOUNT_NAME } from '@/lib/accounts'
+import { INVITE_DAYS, MAX_LEDGER_NAME_LENGTH, isLedgerRole, type UserLedger } from '@/lib/ledgers'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+function validateLedgerName(value: string) {
+  const name = value.trim()
+  if (!name) {
+    return { success: false as const, error: 'Please give the ledger a name' }
+  }
+  if (name.length > MAX_LEDGER_NAME_LENGTH) {
+    return { success: false as const, error: `Names can be at most ${MAX_LEDGER_NAME_LENGTH} characters` }
+  }
+  return { success: true as const, name }
+}
+
+// Members can only be managed by the ledger's owner
+async function findOwnedLedger(userId: string, ledgerId: string) {
+  const member = await prisma.ledgerMember.findUnique({
+    where: { ledgerId_userId: { ledgerId: ledgerId, userId: userId } },
+    select: { role: true },
+  })
+  if (!member) {
+    return { success: false as const, error: 'Ledger not found' }
+  }
+  if (member.role !== 'Owner') {
+    return { success: false as const, error: 'Only the owner can manage this ledger' }
+  }
+  return { success: true as const }
+}
+
+// A role an owner can hand out; the owner role itself can't be
+function validateMemberRole(role: string) {
+  if (!isLedgerRole(role) || role === 'Owner') {
+    return { success: false as const, error: `Invalid role: ${role}` }
+  }
+  return { success: true as const, role }
+}
+
+function revalidateLedgerPages() {
+  revalidatePath('/records')
+  revalidatePath('/reports')
+  revalidatePath('/profile')
+}
+
+// The ledgers the user belongs to, for the ledger switcher
+export async function getLedgers() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', ledgers: [] }
+    }
+
+    const memberships = await prisma.ledgerMember.findMany({
+      where: { userId: userId },
+      include: { ledger: { include: { _count: { select: { members: true } } } } },
+      orderBy: { ledger: { name: 'asc' } },
+    })
+
+    const ledgers: UserLedger[] = memberships.map(({ role, ledger }) => ({
+      id: ledger.id,
+      name: ledger.name,
+      currency: ledger.currency,
+      role: role,
+      memberCount: ledger._count.members,
+    }))
+    return { success: true, ledgers }
+  } catch (error) {
+    console.error('Error fetching ledgers:', error)
+    return { success: false, error: `Failed to fetch ledgers: ${getErrorMessage(error)}`, ledgers: [] }
+  }
+}
+
+// The ledger starts out in the user's currency, with the user as its owner
+export async function createLedger(name: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    const user = await ensureUser(userId)
+
+    const form = validateLedgerName(name)
+    if (!form.success) {
+      return { success: false, error: form.error }
+    }
+
+    const ledger = await prisma.ledger.create({
+      data: {
+        name: form.name,
+        currency: user.currency,
+        members: { create: { userId: userId, role: 'Owner' } },
+        accounts: { create: { name: DEFAULT_ACCOUNT_NAME } },
+      },
+    })
+
+    revalidateLedgerPages()
+    return { success: true, ledgerId: ledger.id }
+  } catch (error) {
+    console.error('Error creating ledger:', error)
+    return { success: false, error: `Failed to create ledger: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function renameLedger(id: string, name: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const owned = await findOwnedLedger(userId, id)
+    if (!owned.success) {
+      return { success: false, error: owned.error }
+    }
+
+    const form = validateLedgerName(name)
+    if (!form.success) {
+      return { success: false, error: form.error }
+    }
+
+    await prisma.ledger.update({
+      where: { id: id },
+      data: { name: form.name },
+    })
+
+    revalidateLedgerPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error renaming ledger:', error)
+    return { success: false, error: `Failed to rename ledger: ${getErrorMessage(error)}` }
+  }
+}
+
+// Deletes the ledger with all of its transactions, for every member
+export async function deleteLedger(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const owned = await findOwnedLedger(userId, id)
+    if (!owned.success) {
+      return { success: false, error: owned.error }
+    }
+
+    // The rows go with the ledger, but the files have to be removed here
+    const attachments = await prisma.attachment.findMany({
+      where: { transaction: { ledgerId: id } },
+      select: { storageKey: true },
+    })
+    await prisma.ledger.delete({
+      where: { id: id },
+    })
+    await deleteStoredFiles(attachments.map(a => a.storageKey))
+
+    revalidateLedgerPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting ledger:', error)
+    return { success: false, error: `Failed to delete ledger: ${getErrorMessage(error)}` }
+  }
+}
+
+// The members of a ledger, for every member to see. Open invites are only
+// returned to the owner, since their tokens let anyone join.
+export async function getLedgerMembers(ledgerId: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', members: [], invites: [] }
+    }
+
+    const ledger = await prisma.ledger.findFirst({
+      where: { id: ledgerId, members: { some: { userId: userId } } },
+      include: {
+        members: {
+          include: { user: { select: { name: true, email: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        invites: {
+          where: { expiresAt: { gt: new Date() } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+    if (!ledger) {
+      return { success: false, error: 'Ledger not found', members: [], invites: [] }
+    }
+
+    const isOwner = ledger.members.some(m => m.userId === userId && m.role === 'Owner')
+    return {
+      success: true,
+      members: ledger.members.map(member => ({
+        userId: member.userId,
+        name: member.user.name || member.user.email,
+        role: member.role as string,
+        isYou: member.userId === userId,
+      })),
+      invites: isOwner
+        ? ledger.invites.map(invite => ({
+            id: invite.id,
+            token: invite.token,
+            role: invite.role as string,
+            expiresAt: invite.expiresAt,
+          }))
+        : [],
+    }
+  } catch (error) {
+    console.error('Error fetching ledger members:', error)
+    return { success: false, error: `Failed to fetch members: ${getErrorMessage(error)}`, members: [], invites: [] }
+  }
+}
+
+// A single-use link to join the ledger, valid for INVITE_DAYS days
+export async function createInvite(ledgerId: string, role: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const owned = await findOwnedLedger(userId, ledgerId)
+    if (!owned.success) {
+      return { success: false, error: owned.error }
+    }
+
+    const memberRole = validateMemberRole(role)
+    if (!memberRole.success) {
+      return { success: false, error: memberRole.error }
+    }
+
+    const invite = await prisma.ledgerInvite.create({
+      data: {
+        ledgerId: ledgerId,
+        role: memberRole.role,
+        token: randomBytes(24).toString('base64url'),
+        expiresAt: addDays(new Date(), INVITE_DAYS),
+      },
+    })
+
+    revalidatePath('/profile')
+    return { success: true, token: invite.token }
+  } catch (error) {
+    console.error('Error creating invite:', error)
+    return { success: false, error: `Failed to create invite: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function revokeInvite(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await prisma.ledgerInvite.delete({
+      where: { id: id, ledger: { members: { some: { userId: userId, role: 'Owner' } } } },
+    })
+
+    revalidatePath('/profile')
+    return { success: true }
+  } catch (error) {
+    console.error('Error revoking invite:', error)
+    return { success: false, error: `Failed to revoke invite: ${getErrorMessage(error)}` }
+  }
+}
+
+// What an invite link leads to, for the page that accepts it
+export async function getInvite(token: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', invite: null }
+    }
+
+    const invite = await prisma.ledgerInvite.findUnique({
+      where: { token: token },
+      include: { ledger: { include: { members: { where: { userId: userId }, select: { id: true } } } } },
+    })
+    if (!invite || invite.expiresAt <= new Date()) {
+      return { success: false, error: 'This invite has expired or was already used', invite: null }
+    }
+
+    return {
+      success: true,
+      invite: {
+        ledgerId: invite.ledgerId,
+        ledgerName: invite.ledger.name,
+        role: invite.role as string,
+        isMember: invite.ledger.members.length > 0,
+      },
+    }
+  } catch (error) {
+    console.error('Error fetching invite:', error)
+    return { success: false, error: `Failed to fetch invite: ${getErrorMessage(error)}`, invite: null }
+  }
+}
+
+// Join the ledger with the invite's role. The invite is used up either way;
+// members who open one again keep the role they have.
+export async function acceptInvite(token: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    await ensureUser(userId)
+
+    const invite = await prisma.ledgerInvite.findUnique({
+      where: { token: token },
+    })
+    if (!invite || invite.expiresAt <= new Date()) {
+      return { success: false, error: 'This invite has expired or was already used' }
+    }
+
+    await prisma.$transaction([
+      prisma.ledgerInvite.delete({ where: { id: invite.id } }),
+      prisma.ledgerMember.upsert({
+        where: { ledgerId_userId: { ledgerId: invite.ledgerId, userId: userId } },
+        update: {},
+        create: { ledgerId: invite.ledgerId, userId: userId, role: invite.role },
+      }),
+    ])
+
+    revalidateLedgerPages()
+    return { success: true, ledgerId: invite.ledgerId }
+  } catch (error) {
+    console.error('Error accepting invite:', error)
+    return { success: false, error: `Failed to join ledger: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function setMemberRole(ledgerId: string, memberId: string, role: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const owned = await findOwnedLedger(userId, ledgerId)
+    if (!owned.success) {
+      return { success: false, error: owned.error }
+    }
+
+    const memberRole = validateMemberRole(role)
+    if (!memberRole.success) {
+      return { success: false, error: memberRole.error }
+    }
+
+    // The owner's own role never changes
+    await prisma.ledgerMember.update({
+      where: { ledgerId_userId: { ledgerId: ledgerId, userId: memberId }, role: { not: 'Owner' } },
+      data: { role: memberRole.role },
+    })
+
+    revalidatePath('/profile')
+    return { success: true }
+  } catch (error) {
+    console.error('Error changing member role:', error)
+    return { success: false, error: `Failed to change role: ${getErrorMessage(error)}` }
+  }
+}
+
+// The transactions a member added stay in the ledger
+export async function removeMember(ledgerId: string, memberId: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const owned = await findOwnedLedger(userId, ledgerId)
+    if (!owned.success) {
+      return { success: false, error: owned.error }
+    }
+
+    await prisma.ledgerMember.delete({
+      where: { ledgerId_userId: { ledgerId: ledgerId, userId: memberId }, role: { not: 'Owner' } },
+    })
+
+    revalidateLedgerPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error removing member:', error)
+    return { success: false, error: `Failed to remove member: ${getErrorMessage(error)}` }
+  }
+}
+
+// Owners can't leave; they delete the ledger instead
+export async function leaveLedger(ledgerId: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const member = await prisma.ledgerMember.findUnique({
+      where: { ledgerId_userId: { ledgerId: ledgerId, userId: userId } },
+      select: { role: true },
+    })
+    if (!member) {
+      return { success: false, error: 'Ledger not found' }
+    }
+    if (member.role === 'Owner') {
+      return { success: false, error: 'The owner can\'t leave the ledger. Delete it instead.' }
+    }
+
+    await prisma.ledgerMember.delete({
+      where: { ledgerId_userId: { ledgerId: ledgerId, userId: userId } },
+    })
+
+    revalidateLedgerPages()
+    return { success: true }
+  } catch (error) {
+    console.error('Error leaving ledger:', error)
+    return { success: false, error: `Failed to leave ledger: ${getErrorMessage(error)}` }
+  }
+}
@@ -0,0 +1,156 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { after } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { deleteStoredFiles } from '@/lib/attachment-storage'
+import { processScanQueue, serializeReceiptScan } from '@/lib/scan-queue'
+import { createTransaction, type TransactionFormData } from '@/lib/actions/transactions'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+// Receipts are queued through POST /api/receipt-scans (see lib/scan-queue.ts);
+// these actions follow a batch, and save or discard its drafts
+
+export async function getScanBatch(batchId: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', scans: [] }
+    }
+
+    const scans = await prisma.receiptScan.findMany({
+      where: { userId: userId, batchId: batchId },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return { success: true, scans: scans.map(serializeReceiptScan) }
+  } catch (error) {
+    console.error('Error fetching receipt scans:', error)
+    return { success: false, error: `Failed to fetch receipt scans: ${getErrorMessage(error)}`, scans: [] }
+  }
+}
+
+// Put a failed scan back in the queue
+export async function retryScan(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const updated = await prisma.receiptScan.updateMany({
+      where: { id: id, userId: userId, status: 'Failed' },
+      data: { status: 'Pending', error: null },
+    })
+    if (updated.count === 0) {
+      return { success: false, error: 'Scan not found' }
+    }
+
+    after(() => processScanQueue())
+    return { success: true }
+  } catch (error) {
+    console.error('Error retrying receipt scan:', error)
+    return { success: false, error: `Failed to retry scan: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function discardScan(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const scan = await prisma.receiptScan.findFirst({
+      where: { id: id, userId: userId },
+    })
+    if (!scan) {
+      return { success: false, error: 'Scan not found' }
+    }
+
+    await prisma.receiptScan.delete({
+      where: { id: scan.id },
+    })
+    await deleteStoredFiles([scan.storageKey])
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error discarding receipt scan:', error)
+    return { success: false, error: `Failed to discard scan: ${getErrorMessage(error)}` }
+  }
+}
+
+// Drop what's left of a batch when the user closes it unsaved. Scans still
+// being processed are left to expire with removeExpiredScans.
+export async function discardScanBatch(batchId: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const where = { userId: userId, batchId: batchId, status: { not: 'Processing' as const } }
+    const scans = await prisma.receiptScan.findMany({ where, select: { storageKey: true } })
+    await prisma.receiptScan.deleteMany({ where })
+    await deleteStoredFiles(scans.map(scan => scan.storageKey))
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error discarding receipt scans:', error)
+    return { success: false, error: `Failed to discard scans: ${getErrorMessage(error)}` }
+  }
+}
+
+// Save a reviewed draft as a transaction. The receipt image becomes its
+// attachment, so the stored file is handed over rather than copied.
+export async function saveScannedReceipt(scanId: string, data: TransactionFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    const scan = await prisma.receiptScan.findFirst({
+      where: { id: scanId, userId: userId, status: 'Done' },
+    })
+    if (!scan) {
+      return { success: false, error: 'Scan not found' }
+    }
+
+    const result = await createTransaction(data)
+    if (!result.success || !result.transaction) {
+      return { success: false, error: result.error }
+    }
+
+    try {
+      await prisma.$transaction([
+        prisma.receiptScan.delete({ where: { id: scan.id } }),
+        prisma.attachment.create({
+          data: {
+            fileName: scan.fileName,
+            mimeType: scan.mimeType,
+            size: scan.size,
+            storageKey: scan.storageKey,
+            transactionId: result.transaction.id,
+          },
+        }),
+      ])
+    } catch (error) {
+      // The transaction is saved; only the receipt is missing from it
+      console.error('Error attaching scanned receipt:', error)
+      return { success: true, transaction: result.transaction, error: 'Saved, but the receipt image could not be attached' }
+    }
+
+    revalidatePath('/records')
+    return { success: true, transaction: result.transaction }
+  } catch (error) {
+    console.error('Error saving scanned receipt:', error)
+    return { success: false, error: `Failed to save receipt: ${getErrorMessage(error)}` }
+  }
+}
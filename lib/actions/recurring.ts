@@ -0,0 +1,518 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import type { Cadence, RecurringOverride, RecurringTransaction, TransactionType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { isTransactionType } from '@/lib/categories'
+import { resolveCategoryId } from '@/lib/user-categories'
+import { getOccurrences, isCadence, isOccurrenceDate } from '@/lib/recurring'
+import { resolveScope } from '@/lib/user-ledgers'
+import { defaultAccountId, resolveAccountId } from '@/lib/user-accounts'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+import { addDays, addYears } from 'date-fns'
+import type { TransactionFormData } from '@/lib/actions/transactions'
+
+export type RecurringTransactionFormData = {
+  name: string
+  amount: string
+  categoryId?: string | null
+  cadence: string
+  startDate: Date
+  endDate?: Date | null
+  // Defaults to 'Expense'
+  type?: string
+  // The account occurrences are paid from; the default account when unset
+  accountId?: string | null
+}
+
+export type Occurrence = {
+  recurringTransactionId: string
+  // The scheduled date, used to identify this occurrence
+  occurrenceDate: Date
+  name: string
+  amount: number
+  type: string
+  categoryId: string | null
+  cadence: string
+  edited: boolean
+}
+
+// A series as the recurring list shows it
+export type SerializedRecurringTransaction = ReturnType<typeof serializeRecurringTransaction> & {
+  // Created or skipped occurrences; the schedule is fixed once there are any
+  occurrenceCount: number
+  // Null once the series has ended, or when the coming ones are skipped
+  nextOccurrence: Date | null
+}
+
+// Helper function to convert Decimal to number for serialization
+function serializeRecurringTransaction(recurring: RecurringTransaction) {
+  return {
+    ...recurring,
+    amount: Number(recurring.amount),
+    startDate: new Date(recurring.startDate),
+    endDate: recurring.endDate ? new Date(recurring.endDate) : null,
+    createdAt: new Date(recurring.createdAt),
+    updatedAt: new Date(recurring.updatedAt),
+  }
+}
+
+// Returns an error message, or null when the form data is valid.
+// The category is checked separately with resolveCategoryId.
+function validateRecurringTransaction(data: RecurringTransactionFormData) {
+  const amount = parseFloat(data.amount)
+  if (isNaN(amount) || amount <= 0) {
+    return 'Invalid amount: Please enter a valid positive number'
+  }
+  const type = data.type || 'Expense'
+  if (!isTransactionType(type)) {
+    return `Invalid type: ${type}`
+  }
+  if (!isCadence(data.cadence)) {
+    return `Invalid cadence: ${data.cadence}`
+  }
+  if (data.endDate && data.endDate < data.startDate) {
+    return 'End date must be after the start date'
+  }
+  return null
+}
+
+// Recurring transactions are personal, so they're paid from one of the
+// user's own accounts. Unset stays unset: occurrences then go into
+// whichever account is the default when they're created.
+async function resolveRecurringAccountId(userId: string, accountId: string | null | undefined) {
+  if (!accountId) {
+    return { success: true as const, accountId: null }
+  }
+  const access = await resolveScope(userId, null, 'edit')
+  if (!access.success) {
+    return access
+  }
+  return resolveAccountId(userId, access.scope, accountId)
+}
+
+// Expand a recurring transaction into its occurrences within [from, to],
+// dropping skipped ones and applying single-instance edits
+function buildOccurrences(
+  recurring: RecurringTransaction & { overrides: RecurringOverride[] },
+  from: Date,
+  to: Date
+): Occurrence[] {
+  const overrides = new Map(recurring.overrides.map(o => [o.date.getTime(), o]))
+
+  return getOccurrences(recurring, from, to).flatMap((date) => {
+    const override = overrides.get(date.getTime())
+    if (override?.skipped) {
+      return []
+    }
+
+    return [{
+      recurringTransactionId: recurring.id,
+      occurrenceDate: date,
+      name: override?.name ?? recurring.name,
+      amount: Number(override?.amount ?? recurring.amount),
+      type: recurring.type,
+      categoryId: override?.categoryId ?? recurring.categoryId,
+      cadence: recurring.cadence,
+      edited: !!override,
+    }]
+  })
+}
+
+export async function createRecurringTransaction(data: RecurringTransactionFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    // Ensure user exists in database
+    await ensureUser(userId)
+
+    const validationError = validateRecurringTransaction(data)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const type = (data.type || 'Expense') as TransactionType
+    const category = await resolveCategoryId(userId, data.categoryId, type)
+    if (!category.success) {
+      return { success: false, error: category.error }
+    }
+    const account = await resolveRecurringAccountId(userId, data.accountId)
+    if (!account.success) {
+      return { success: false, error: account.error }
+    }
+
+    const recurring = await prisma.recurringTransaction.create({
+      data: {
+        name: data.name.trim(),
+        amount: parseFloat(data.amount),
+        type: type,
+        categoryId: category.categoryId,
+        cadence: data.cadence as Cadence,
+        startDate: data.startDate,
+        endDate: data.endDate || null,
+        accountId: account.accountId,
+        userId: userId,
+      },
+    })
+
+    revalidatePath('/records')
+    return { success: true, recurringTransaction: serializeRecurringTransaction(recurring) }
+  } catch (error) {
+    console.error('Error creating recurring transaction:', error)
+    return { success: false, error: `Failed to create recurring transaction: ${getErrorMessage(error)}` }
+  }
+}
+
+// Changes the whole series. Occurrences that were already materialized keep
+// their values; only future ones pick up the change. The schedule (start
+// date and cadence) is fixed once there are occurrences, since moving it
+// would backfill new ones or strand the old ones off the schedule.
+export async function updateRecurringTransaction(id: string, data: RecurringTransactionFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validationError = validateRecurringTransaction(data)
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const type = (data.type || 'Expense') as TransactionType
+    const category = await resolveCategoryId(userId, data.categoryId, type)
+    if (!category.success) {
+      return { success: false, error: category.error }
+    }
+    const account = await resolveRecurringAccountId(userId, data.accountId)
+    if (!account.success) {
+      return { success: false, error: account.error }
+    }
+
+    const existing = await prisma.recurringTransaction.findFirst({
+      where: { id: id, userId: userId },
+      select: {
+        startDate: true,
+        cadence: true,
+        _count: { select: { transactions: true, overrides: true } },
+      },
+    })
+    if (!existing) {
+      return { success: false, error: 'Recurring transaction not found' }
+    }
+    const scheduleChanged =
+      new Date(data.startDate).getTime() !== existing.startDate.getTime() || data.cadence !== existing.cadence
+    if (scheduleChanged && existing._count.transactions + existing._count.overrides > 0) {
+      return {
+        success: false,
+        error: 'This series already has occurrences. To change its start date or how often it repeats, end it and start a new one.',
+      }
+    }
+
+    const recurring = await prisma.recurringTransaction.update({
+      where: {
+        id: id,
+        userId: userId,
+      },
+      data: {
+        name: data.name.trim(),
+        amount: parseFloat(data.amount),
+        type: type,
+        categoryId: category.categoryId,
+        cadence: data.cadence as Cadence,
+        startDate: data.startDate,
+        endDate: data.endDate || null,
+        accountId: account.accountId,
+      },
+    })
+
+    revalidatePath('/records')
+    return { success: true, recurringTransaction: serializeRecurringTransaction(recurring) }
+  } catch (error) {
+    console.error('Error updating recurring transaction:', error)
+    return { success: false, error: `Failed to update recurring transaction: ${getErrorMessage(error)}` }
+  }
+}
+
+// Stops the series. Transactions it already created are kept.
+export async function deleteRecurringTransaction(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await prisma.recurringTransaction.delete({
+      where: {
+        id: id,
+        userId: userId,
+      },
+    })
+
+    revalidatePath('/records')
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting recurring transaction:', error)
+    return { success: false, error: `Failed to delete recurring transaction: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function getRecurringTransactions() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', recurringTransactions: [] }
+    }
+
+    // Ensure user exists
+    await ensureUser(userId)
+
+    const recurring = await prisma.recurringTransaction.findMany({
+      where: {
+        userId: userId,
+      },
+      include: {
+        overrides: true,
+        _count: { select: { transactions: true, overrides: true } },
+      },
+      orderBy: {
+        startDate: 'asc',
+      },
+    })
+
+    // Two years ahead finds the next occurrence of every cadence, even
+    // when the next yearly one is skipped
+    const now = new Date()
+    const until = addYears(now, 2)
+    const recurringTransactions: SerializedRecurringTransaction[] = recurring.map(({ overrides, _count, ...r }) => ({
+      ...serializeRecurringTransaction(r),
+      occurrenceCount: _count.transactions + _count.overrides,
+      nextOccurrence: buildOccurrences({ ...r, overrides }, now, until)
+        .find(o => o.occurrenceDate > now)?.occurrenceDate ?? null,
+    }))
+
+    return { success: true, recurringTransactions }
+  } catch (error) {
+    console.error('Error fetching recurring transactions:', error)
+    return { success: false, error: `Failed to fetch recurring transactions: ${getErrorMessage(error)}`, recurringTransactions: [] }
+  }
+}
+
+// Creates a Transaction for every occurrence that is due (scheduled on or
+// before now) and doesn't exist yet. Safe to call repeatedly: the unique
+// (recurringTransactionId, occurrenceDate) pair makes duplicates a no-op.
+export async function materializeRecurringTransactions() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', created: 0 }
+    }
+
+    // Ensure user exists
+    await ensureUser(userId)
+
+    const now = new Date()
+    const recurring = await prisma.recurringTransaction.findMany({
+      where: {
+        userId: userId,
+        startDate: { lte: now },
+      },
+      include: {
+        overrides: true,
+      },
+    })
+
+    const due = recurring.flatMap(r => buildOccurrences(r, r.startDate, now))
+    if (due.length === 0) {
+      return { success: true, created: 0 }
+    }
+
+    // Occurrences of a series without an account go into the default one
+    const access = await resolveScope(userId, null, 'edit')
+    if (!access.success) {
+      return { success: false, error: access.error, created: 0 }
+    }
+    const fallbackAccountId = await defaultAccountId(userId, access.scope)
+    const accountIds = new Map(recurring.map(r => [r.id, r.accountId ?? fallbackAccountId]))
+
+    const result = await prisma.transaction.createMany({
+      data: due.map(occurrence => ({
+        name: occurrence.name,
+        amount: occurrence.amount,
+        type: occurrence.type as TransactionType,
+        categoryId: occurrence.categoryId,
+        date: occurrence.occurrenceDate,
+        occurrenceDate: occurrence.occurrenceDate,
+        recurringTransactionId: occurrence.recurringTransactionId,
+        userId: userId,
+        accountId: accountIds.get(occurrence.recurringTransactionId) ?? fallbackAccountId,
+      })),
+      skipDuplicates: true,
+    })
+
+    if (result.count > 0) {
+      revalidatePath('/records')
+    }
+    return { success: true, created: result.count }
+  } catch (error) {
+    console.error('Error materializing recurring transactions:', error)
+    return { success: false, error: `Failed to materialize recurring transactions: ${getErrorMessage(error)}`, created: 0 }
+  }
+}
+
+// Occurrences scheduled after now and within the next `days` days
+export async function getUpcomingOccurrences(days = 30) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', occurrences: [] }
+    }
+
+    // Ensure user exists
+    await ensureUser(userId)
+
+    const now = new Date()
+    const until = addDays(now, days)
+
+    const recurring = await prisma.recurringTransaction.findMany({
+      where: {
+        userId: userId,
+        startDate: { lte: until },
+        OR: [{ endDate: null }, { endDate: { gt: now } }],
+      },
+      include: {
+        overrides: true,
+      },
+    })
+
+    const occurrences = recurring
+      .flatMap(r => buildOccurrences(r, now, until))
+      .filter(o => o.occurrenceDate > now)
+      .sort((a, b) => a.occurrenceDate.getTime() - b.occurrenceDate.getTime())
+
+    return { success: true, occurrences }
+  } catch (error) {
+    console.error('Error fetching upcoming occurrences:', error)
+    return { success: false, error: `Failed to fetch upcoming occurrences: ${getErrorMessage(error)}`, occurrences: [] }
+  }
+}
+
+// Skips one occurrence so it is never materialized
+export async function skipOccurrence(recurringTransactionId: string, occurrenceDate: Date) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    // Make sure the series belongs to the current user
+    const recurring = await prisma.recurringTransaction.findUniqueOrThrow({
+      where: {
+        id: recurringTransactionId,
+        userId: userId,
+      },
+    })
+    if (!isOccurrenceDate(recurring, occurrenceDate)) {
+      return { success: false, error: 'The series has no occurrence on that date' }
+    }
+
+    await prisma.recurringOverride.upsert({
+      where: {
+        recurringTransactionId_date: {
+          recurringTransactionId,
+          date: occurrenceDate,
+        },
+      },
+      update: {
+        skipped: true,
+      },
+      create: {
+        recurringTransactionId,
+        date: occurrenceDate,
+        skipped: true,
+      },
+    })
+
+    revalidatePath('/records')
+    return { success: true }
+  } catch (error) {
+    console.error('Error skipping occurrence:', error)
+    return { success: false, error: `Failed to skip occurrence: ${getErrorMessage(error)}` }
+  }
+}
+
+// Changes name, amount or category of one occurrence without touching the series
+export async function editOccurrence(
+  recurringTransactionId: string,
+  occurrenceDate: Date,
+  data: Omit<TransactionFormData, 'date'>
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const amount = parseFloat(data.amount)
+    if (isNaN(amount) || amount <= 0) {
+      return { success: false, error: 'Invalid amount' }
+    }
+
+    // Make sure the series belongs to the current user
+    const recurring = await prisma.recurringTransaction.findUniqueOrThrow({
+      where: {
+        id: recurringTransactionId,
+        userId: userId,
+      },
+    })
+    if (!isOccurrenceDate(recurring, occurrenceDate)) {
+      return { success: false, error: 'The series has no occurrence on that date' }
+    }
+
+    const category = await resolveCategoryId(userId, data.categoryId, recurring.type)
+    if (!category.success) {
+      return { success: false, error: category.error }
+    }
+
+    const fields = {
+      name: data.name.trim(),
+      amount: amount,
+      categoryId: category.categoryId,
+      skipped: false,
+    }
+
+    await prisma.recurringOverride.upsert({
+      where: {
+        recurringTransactionId_date: {
+          recurringTransactionId,
+          date: occurrenceDate,
+        },
+      },
+      update: fields,
+      create: {
+        recurringTransactionId,
+        date: occurrenceDate,
+        ...fields,
+      },
+    })
+
+    revalidatePath('/records')
+    return { success: true }
+  } catch (error) {
+    console.error('Error editing occurrence:', error)
+    return { success: false, error: `Failed to edit occurrence: ${getErrorMessage(error)}` }
+  }
+}
@@ -0,0 +1,333 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { prisma } from '@/lib/prisma'
+import { personalWhere } from '@/lib/transactions'
+import { ensureUser } from '@/lib/user'
+import { applyRules, ruleMatches, ruleResultChanges, validateRule, type RuleFormData } from '@/lib/rules'
+import { ruleOrderBy, serializeRule } from '@/lib/user-rules'
+import { normalizeTag } from '@/lib/tags'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+// Most changes shown when previewing a rule on past transactions
+const MAX_PREVIEW_CHANGES = 500
+
+// One past transaction a rule would change
+export type RuleChange = {
+  transactionId: string
+  date: Date
+  amount: number
+  before: { name: string; categoryId: string | null; tags: string[] }
+  after: { name: string; categoryId: string | null; tags: string[] }
+}
+
+export async function getRules() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', rules: [] }
+    }
+
+    const rules = await prisma.rule.findMany({
+      where: { userId: userId },
+      orderBy: ruleOrderBy,
+    })
+
+    return { success: true, rules: rules.map(serializeRule) }
+  } catch (error) {
+    console.error('Error fetching rules:', error)
+    return { success: false, error: `Failed to fetch rules: ${getErrorMessage(error)}`, rules: [] }
+  }
+}
+
+// Check the form and work out the columns to store. A rule that sets a
+// category only matches transactions of that category's type.
+async function buildRuleFields(userId: string, data: RuleFormData) {
+  const invalid = validateRule(data)
+  if (invalid) {
+    return { success: false as const, error: invalid }
+  }
+
+  let transactionType = null
+  if (data.categoryId) {
+    const category = await prisma.category.findFirst({
+      where: { id: data.categoryId, userId: userId },
+      select: { type: true },
+    })
+    if (!category) {
+      return { success: false as const, error: `Invalid category: ${data.categoryId}` }
+    }
+    transactionType = category.type
+  }
+
+  const text = (value: string) => value.trim() || null
+  const amount = (value: string) => value.trim() ? parseFloat(value) : null
+
+  return {
+    success: true as const,
+    fields: {
+      name: data.name.trim(),
+      enabled: data.enabled,
+      nameContains: text(data.nameContains),
+      namePattern: text(data.namePattern),
+      minAmount: amount(data.minAmount),
+      maxAmount: amount(data.maxAmount),
+      weekdays: [...new Set(data.weekdays)].sort(),
+      transactionType: transactionType,
+      categoryId: data.categoryId,
+      rename: text(data.rename),
+      addTag: normalizeTag(data.addTag) || null,
+    },
+  }
+}
+
+export async function createRule(data: RuleFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized: Please sign in' }
+    }
+
+    await ensureUser(userId)
+
+    const fields = await buildRuleFields(userId, data)
+    if (!fields.success) {
+      return { success: false, error: fields.error }
+    }
+
+    // New rules run last
+    const last = await prisma.rule.aggregate({
+      where: { userId: userId },
+      _max: { position: true },
+    })
+
+    const rule = await prisma.rule.create({
+      data: {
+        ...fields.fields,
+        position: (last._max.position ?? -1) + 1,
+        userId: userId,
+      },
+    })
+
+    revalidatePath('/profile')
+    return { success: true, rule: serializeRule(rule) }
+  } catch (error) {
+    console.error('Error creating rule:', error)
+    return { success: false, error: `Failed to create rule: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function updateRule(id: string, data: RuleFormData) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const fields = await buildRuleFields(userId, data)
+    if (!fields.success) {
+      return { success: false, error: fields.error }
+    }
+
+    const rule = await prisma.rule.update({
+      where: { id: id, userId: userId },
+      data: fields.fields,
+    })
+
+    revalidatePath('/profile')
+    return { success: true, rule: serializeRule(rule) }
+  } catch (error) {
+    console.error('Error updating rule:', error)
+    return { success: false, error: `Failed to update rule: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function setRuleEnabled(id: string, enabled: boolean) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await prisma.rule.update({
+      where: { id: id, userId: userId },
+      data: { enabled: enabled },
+    })
+
+    revalidatePath('/profile')
+    return { success: true }
+  } catch (error) {
+    console.error('Error updating rule:', error)
+    return { success: false, error: `Failed to update rule: ${getErrorMessage(error)}` }
+  }
+}
+
+// Swap a rule with the one before or after it
+export async function moveRule(id: string, direction: 'up' | 'down') {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const rules = await prisma.rule.findMany({
+      where: { userId: userId },
+      orderBy: ruleOrderBy,
+      select: { id: true },
+    })
+    const index = rules.findIndex(rule => rule.id === id)
+    const other = index + (direction === 'up' ? -1 : 1)
+    if (index < 0 || other < 0 || other >= rules.length) {
+      return { success: false, error: 'Rule can\'t be moved further' }
+    }
+
+    // Renumber them all, which also repairs duplicate positions
+    const ordered = rules.map(rule => rule.id)
+    ;[ordered[index], ordered[other]] = [ordered[other], ordered[index]]
+    await prisma.$transaction(ordered.map((ruleId, position) =>
+      prisma.rule.update({ where: { id: ruleId }, data: { position: position } })
+    ))
+
+    revalidatePath('/profile')
+    return { success: true }
+  } catch (error) {
+    console.error('Error moving rule:', error)
+    return { success: false, error: `Failed to move rule: ${getErrorMessage(error)}` }
+  }
+}
+
+export async function deleteRule(id: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    await prisma.rule.delete({
+      where: { id: id, userId: userId },
+    })
+
+    revalidatePath('/profile')
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting rule:', error)
+    return { success: false, error: `Failed to delete rule: ${getErrorMessage(error)}` }
+  }
+}
+
+// What running one rule over the user's past transactions would change.
+// Unlike on new transactions, the rule replaces categories already set.
+async function findRuleChanges(userId: string, ruleId: string, transactionIds?: string[]) {
+  const rule = await prisma.rule.findFirst({
+    where: { id: ruleId, userId: userId },
+  })
+  if (!rule) return null
+
+  const ruleData = { ...serializeRule(rule), enabled: true }
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      ...personalWhere(userId),
+      ...(transactionIds && { id: { in: transactionIds } }),
+      ...(rule.transactionType && { type: rule.transactionType }),
+    },
+    select: {
+      id: true,
+      name: true,
+      amount: true,
+      date: true,
+      type: true,
+      categoryId: true,
+      tags: true,
+      _count: { select: { splits: true } },
+    },
+    orderBy: { date: 'desc' },
+  })
+
+  const changes: RuleChange[] = []
+  for (const transaction of transactions) {
+    const target = {
+      name: transaction.name,
+      amount: Number(transaction.amount),
+      date: transaction.date,
+      type: transaction.type,
+      categoryId: transaction.categoryId,
+      tags: transaction.tags,
+      isSplit: transaction._count.splits > 0,
+    }
+    if (!ruleMatches(ruleData, target)) continue
+
+    const result = applyRules([ruleData], target, true)
+    if (!ruleResultChanges(target, result)) continue
+
+    changes.push({
+      transactionId: transaction.id,
+      date: transaction.date,
+      amount: target.amount,
+      before: { name: target.name, categoryId: target.categoryId, tags: target.tags },
+      after: { name: result.name, categoryId: result.categoryId, tags: result.tags },
+    })
+  }
+  return changes
+}
+
+export async function previewRule(ruleId: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', changes: [], total: 0 }
+    }
+
+    const changes = await findRuleChanges(userId, ruleId)
+    if (!changes) {
+      return { success: false, error: 'Rule not found', changes: [], total: 0 }
+    }
+
+    return { success: true, changes: changes.slice(0, MAX_PREVIEW_CHANGES), total: changes.length }
+  } catch (error) {
+    console.error('Error previewing rule:', error)
+    return { success: false, error: `Failed to preview rule: ${getErrorMessage(error)}`, changes: [], total: 0 }
+  }
+}
+
+// Apply a rule to the past transactions the user picked from the preview.
+// The changes are worked out again, so only what the rule still changes is
+// written.
+export async function applyRuleToTransactions(ruleId: string, transactionIds: string[]) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', updated: 0 }
+    }
+
+    if (transactionIds.length === 0) {
+      return { success: true, updated: 0 }
+    }
+
+    const changes = await findRuleChanges(userId, ruleId, transactionIds)
+    if (!changes) {
+      return { success: false, error: 'Rule not found', updated: 0 }
+    }
+
+    await prisma.$transaction(changes.map(change =>
+      prisma.transaction.update({
+        where: { id: change.transactionId },
+        data: change.after,
+      })
+    ))
+
+    revalidatePath('/records')
+    return { success: true, updated: changes.length }
+  } catch (error) {
+    console.error('Error applying rule:', error)
+    return { success: false, error: `Failed to apply rule: ${getErrorMessage(error)}`, updated: 0 }
+  }
+}
@@ -0,0 +1,128 @@
+'use server'
+
+import { auth } from '@clerk/nextjs/server'
+import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { personalWhere } from '@/lib/transactions'
+import { findCurrency } from '@/lib/currency'
+import { getErrorMessage } from '@/lib/utils'
+import { revalidatePath } from 'next/cache'
+
+export async function getUserCurrency() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', currency: null }
+    }
+
+    // ensureUser returns the stored row, which has the currency on it
+    const user = await ensureUser(userId)
+
+    return { success: true, currency: user.currency, currencyChosen: user.currencyChosen }
+  } catch (error) {
+    console.error('Error fetching user currency:', error)
+    return { success: false, error: `Failed to fetch currency: ${getErrorMessage(error)}`, currency: null }
+  }
+}
+
+// Save the currency the browser had before the user's choice was stored on
+// the server. Only the first call counts: once a currency was chosen the
+// saved one is returned unchanged.
+export async function adoptStoredCurrency(currencyCode: string) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', currency: null }
+    }
+
+    await ensureUser(userId)
+
+    if (!findCurrency(currencyCode)) {
+      return { success: false, error: `Unsupported currency: ${currencyCode}`, currency: null }
+    }
+
+    await prisma.user.updateMany({
+      where: { id: userId, currencyChosen: false },
+      data: { currency: currencyCode, currencyChosen: true },
+    })
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } })
+
+    revalidatePath('/', 'layout')
+    return { success: true, currency: user.currency }
+  } catch (error) {
+    console.error('Error adopting stored currency:', error)
+    return { success: false, error: `Failed to save currency: ${getErrorMessage(error)}`, currency: null }
+  }
+}
+
+// Personal amounts are stored in the user's currency and aren't converted
+// when it changes, so changing it relabels every one of them (100 EUR would
+// read as 100 USD). That needs the user's confirmation.
+async function hasPersonalAmounts(userId: string) {
+  const counts = await Promise.all([
+    prisma.transaction.count({ where: personalWhere(userId), take: 1 }),
+    prisma.budget.count({ where: { userId: userId }, take: 1 }),
+    prisma.recurringTransaction.count({ where: { userId: userId }, take: 1 }),
+    prisma.goal.count({ where: { userId: userId }, take: 1 }),
+    prisma.settlement.count({ where: { userId: userId, ledgerId: null }, take: 1 }),
+    prisma.account.count({ where: { userId: userId, ledgerId: null, openingBalance: { not: 0 } }, take: 1 }),
+  ])
+  return counts.some(count => count > 0)
+}
+
+// Whether changing the currency would relabel stored amounts; see
+// hasPersonalAmounts
+export async function getCurrencyAmountsStatus() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', hasAmounts: true }
+    }
+
+    await ensureUser(userId)
+
+    return { success: true, hasAmounts: await hasPersonalAmounts(userId) }
+  } catch (error) {
+    console.error('Error checking stored amounts:', error)
+    return { success: false, error: `Failed to check currency: ${getErrorMessage(error)}`, hasAmounts: true }
+  }
+}
+
+// 'relabelConfirmed' is the user's go-ahead to relabel the amounts already
+// stored, which is required once there are any
+export async function updateUserCurrency(currencyCode: string, relabelConfirmed = false) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    // Ensure user exists in database
+    const existing = await ensureUser(userId)
+
+    if (!findCurrency(currencyCode)) {
+      return { success: false, error: `Unsupported currency: ${currencyCode}` }
+    }
+    if (currencyCode !== existing.currency && !relabelConfirmed && await hasPersonalAmounts(userId)) {
+      return {
+        success: false,
+        error: `Your amounts are stored in ${existing.currency}. Confirm that they should be relabeled as ${currencyCode} without converting them.`,
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { currency: currencyCode, currencyChosen: true },
+    })
+
+    revalidatePath('/', 'layout')
+    return { success: true, currency: user.currency }
+  } catch (error) {
+    console.error('Error updating user currency:', error)
+    return { success: false, error: `Failed to update currency: ${getErrorMessage(error)}` }
+  }
+}
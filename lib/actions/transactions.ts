@@ -1,51 +1,166 @@
 'use server'
 
 import { auth } from '@clerk/nextjs/server'
-import { currentUser } from '@clerk/nextjs/server'
+import { Prisma, type BillSplitMethod, type TransactionType } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import { ensureUser } from '@/lib/user'
+import { isTransactionType } from '@/lib/categories'
+import { resolveCategoryId } from '@/lib/user-categories'
+import { convertToBase } from '@/lib/exchange-rates'
+import { deleteStoredFiles } from '@/lib/attachment-storage'
+import { getActiveRules } from '@/lib/user-rules'
+import { applyRules } from '@/lib/rules'
+import { normalizeTags, validateTags } from '@/lib/tags'
+import { editableTransactionWhere, resolvePaidById, resolveScope } from '@/lib/user-ledgers'
+import { checkPeople } from '@/lib/user-bill-splits'
+import { resolveAccountId, resolveTransferAccountId } from '@/lib/user-accounts'
+import { MAX_NOTES_LENGTH, notReimbursedWhere, serializeTransaction, transactionInclude, dateRangeWhere, transactionFiltersWhere, type TransactionFilters } from '@/lib/transactions'
+import { validateSplitAmounts, convertSplitAmounts, toCents, type SplitFormData } from '@/lib/splits'
+import { computeShareAmounts, validateBillSplit, type BillSplitFormData } from '@/lib/bill-splits'
+import { getErrorMessage } from '@/lib/utils'
 import { revalidatePath } from 'next/cache'
 
 export type TransactionFormData = {
   name: string
   amount: string
-  category: string
+  // Id of one of the user's categories; null or unset means uncategorized
+  categoryId?: string | null
   date: Date
+  // 'Expense', 'Income' or 'Transfer'. Defaults to 'Expense'.
+  type?: string
+  // Currency the amount was entered in. Defaults to the user's base currency.
+  currency?: string
+  // Splits the amount between categories, in the same currency. When set,
+  // the splits carry the categories and categoryId is ignored.
+  splits?: SplitFormData[]
+  // Free-form tags, normalized before they're stored. Left as they are on
+  // update when unset, like the notes.
+  tags?: string[]
+  notes?: string
+  // Paid for someone who will pay it back; only personal expenses can be
+  reimbursable?: boolean
+  // The shared ledger a new transaction goes into; unset for a personal
+  // one. A transaction stays in its ledger when it is updated.
+  ledgerId?: string | null
+  // The ledger member who paid. Defaults to the user adding it.
+  paidById?: string | null
+  // The account it was paid from or into, of the user or the ledger.
+  // Defaults to the oldest open one; left as it is on update when unset.
+  accountId?: string | null
+  // The account a transfer went to; null when the money left the tracked
+  // accounts. Left as it is on update when unset, like the account.
+  toAccountId?: string | null
+  // Splits an expense between people, who each owe the payer their share.
+  // Replaced as a whole on update like the splits, so unset removes it.
+  billSplit?: BillSplitFormData | null
 }
 
-// Helper function to convert Decimal to number for serialization
-function serializeTransaction(transaction: any) {
+// Check the tags and notes sent with a transaction
+function buildDetails(data: TransactionFormData) {
+  const tags = normalizeTags(data.tags ?? [])
+  const tagError = validateTags(tags)
+  if (tagError) {
+    return { success: false as const, error: tagError }
+  }
+
+  const notes = data.notes?.trim() || null
+  if (notes && notes.length > MAX_NOTES_LENGTH) {
+    return { success: false as const, error: `Notes can be at most ${MAX_NOTES_LENGTH} characters` }
+  }
+  return { success: true as const, tags, notes }
+}
+
+// Check the splits sent with a transaction and work out the rows to store.
+// 'stored' is what convertToBase returned for the whole transaction; split
+// amounts are converted with the same rate so they add up to its amount.
+async function buildSplits(
+  userId: string,
+  splits: SplitFormData[] | undefined,
+  type: TransactionType,
+  stored: { amount: number; originalAmount: number | null; exchangeRate: number | null }
+) {
+  if (!splits || splits.length === 0) {
+    return { success: true as const, splits: [] }
+  }
+  if (type === 'Transfer') {
+    return { success: false as const, error: 'Transfers can\'t be split' }
+  }
+
+  const enteredTotal = stored.originalAmount ?? stored.amount
+  const amountError = validateSplitAmounts(enteredTotal, splits)
+  if (amountError) {
+    return { success: false as const, error: amountError }
+  }
+
+  const categoryIds: (string | null)[] = []
+  for (const split of splits) {
+    const category = await resolveCategoryId(userId, split.categoryId, type)
+    if (!category.success) {
+      return { success: false as const, error: category.error }
+    }
+    categoryIds.push(category.categoryId)
+  }
+
+  const entered = splits.map(split => parseFloat(split.amount))
+  const amounts = stored.exchangeRate != null
+    ? convertSplitAmounts(entered, stored.exchangeRate, stored.amount)
+    : entered
+
   return {
-    ...transaction,
-    amount: Number(transaction.amount),
-    date: new Date(transaction.date),
-    createdAt: new Date(transaction.createdAt),
-    updatedAt: new Date(transaction.updatedAt),
+    success: true as const,
+    splits: splits.map((split, i) => ({
+      name: split.name?.trim() || null,
+      amount: amounts[i],
+      originalAmount: stored.exchangeRate != null ? entered[i] : null,
+      categoryId: categoryIds[i],
+    })),
   }
 }
 
-// Helper function to ensure user exists in database
-async function ensureUser(userId: string) {
-  try {
-    const user = await currentUser()
-    
-    const dbUser = await prisma.user.upsert({
-      where: { id: userId },
-      update: {
-        email: user?.emailAddresses[0]?.emailAddress || '',
-        name: user?.fullName || null,
-      },
-      create: {
-        id: userId,
-        email: user?.emailAddresses[0]?.emailAddress || '',
-        name: user?.fullName || null,
-        currency: 'USD',
-      },
-    })
-    
-    return dbUser
-  } catch (error) {
-    console.error('Error ensuring user exists:', error)
-    throw new Error('Failed to create user record')
+// Check how a bill is split between people and work out everyone's share.
+// Exact amounts are in the entered currency and converted like the splits;
+// the other methods divide the stored amount.
+async function buildBillShares(
+  userId: string,
+  ledgerId: string | null,
+  billSplit: BillSplitFormData | null | undefined,
+  type: TransactionType,
+  stored: { amount: number; originalAmount: number | null; exchangeRate: number | null }
+) {
+  if (!billSplit) {
+    return { success: true as const, method: null, shares: [] }
+  }
+  if (type !== 'Expense') {
+    return { success: false as const, error: 'Only expenses can be split between people' }
+  }
+
+  const enteredTotal = stored.originalAmount ?? stored.amount
+  const splitError = validateBillSplit(enteredTotal, billSplit)
+  if (splitError) {
+    return { success: false as const, error: splitError }
+  }
+  const people = await checkPeople(userId, ledgerId, billSplit.people)
+  if (!people.success) {
+    return { success: false as const, error: people.error }
+  }
+
+  const method = billSplit.method as BillSplitMethod
+  const rate = method === 'Exact' ? stored.exchangeRate : null
+  const entered = computeShareAmounts(enteredTotal, billSplit)
+  const amounts = rate != null
+    ? convertSplitAmounts(entered, rate, stored.amount)
+    : computeShareAmounts(stored.amount, billSplit)
+
+  return {
+    success: true as const,
+    method: method,
+    shares: billSplit.people.map((person, i) => ({
+      userId: person.userId || null,
+      contactId: person.contactId || null,
+      amount: amounts[i],
+      originalAmount: rate != null ? entered[i] : null,
+      weight: method === 'Shares' ? Number(person.shares) : null,
+    })),
   }
 }
 
@@ -58,27 +173,99 @@ export async function createTransaction(data: TransactionFormData) {
     }
 
     // Ensure user exists in database
-    await ensureUser(userId)
+    const user = await ensureUser(userId)
+
+    const access = await resolveScope(userId, data.ledgerId, 'edit')
+    if (!access.success) {
+      return { success: false, error: access.error }
+    }
+    const { ledger, categoryOwnerId } = access.scope
 
     const amount = parseFloat(data.amount)
     if (isNaN(amount) || amount <= 0) {
       return { success: false, error: 'Invalid amount: Please enter a valid positive number' }
     }
 
-    // Validate category
-    const validCategories = ['Food', 'Groceries', 'Transportation', 'Internet', 'Health', 'Sport', 'Shopping', 'Entertainment', 'BadHabits', 'Other']
-    if (!validCategories.includes(data.category)) {
-      return { success: false, error: `Invalid category: ${data.category}` }
+    // Validate type and category
+    const type = data.type || 'Expense'
+    if (!isTransactionType(type)) {
+      return { success: false, error: `Invalid type: ${type}` }
+    }
+    const category = await resolveCategoryId(categoryOwnerId, data.categoryId, type)
+    if (!category.success) {
+      return { success: false, error: category.error }
+    }
+
+    // Store the amount in the user's base currency (or the ledger's),
+    // keeping what was paid
+    const conversion = await convertToBase(userId, amount, data.currency, ledger?.currency ?? user.currency, data.date)
+    if (!conversion.success) {
+      return { success: false, error: conversion.error }
     }
 
+    const splits = await buildSplits(categoryOwnerId, data.splits, type, conversion.fields)
+    if (!splits.success) {
+      return { success: false, error: splits.error }
+    }
+
+    const billShares = await buildBillShares(userId, ledger?.id ?? null, data.billSplit, type, conversion.fields)
+    if (!billShares.success) {
+      return { success: false, error: billShares.error }
+    }
+
+    const details = buildDetails(data)
+    if (!details.success) {
+      return { success: false, error: details.error }
+    }
+
+    const paidBy = ledger ? await resolvePaidById(userId, ledger.id, data.paidById) : null
+    if (paidBy && !paidBy.success) {
+      return { success: false, error: paidBy.error }
+    }
+
+    const account = await resolveAccountId(userId, access.scope, data.accountId)
+    if (!account.success) {
+      return { success: false, error: account.error }
+    }
+    const toAccount = await resolveTransferAccountId(userId, access.scope, type, account.accountId, data.toAccountId)
+    if (!toAccount.success) {
+      return { success: false, error: toAccount.error }
+    }
+
+    // The user's rules may rename it, tag it, or categorize it when no
+    // category was picked. They only know the user's own categories, so
+    // they leave shared transactions alone.
+    const ruled = applyRules(ledger ? [] : await getActiveRules(userId), {
+      name: data.name.trim(),
+      amount: conversion.fields.amount,
+      date: data.date,
+      type: type,
+      categoryId: category.categoryId,
+      tags: details.tags,
+      isSplit: splits.splits.length > 0,
+    }, false)
+
     const transaction = await prisma.transaction.create({
       data: {
-        name: data.name.trim(),
-        amount: amount,
-        category: data.category as any,
+        name: ruled.name,
+        ...conversion.fields,
+        type: type,
+        // A split transaction is categorized through its splits
+        categoryId: splits.splits.length > 0 ? null : ruled.categoryId,
+        tags: ruled.tags,
+        notes: details.notes,
+        reimbursable: !ledger && type === 'Expense' && !!data.reimbursable,
         date: data.date,
         userId: userId,
+        ledgerId: ledger?.id ?? null,
+        paidById: paidBy?.paidById ?? null,
+        accountId: account.accountId,
+        toAccountId: toAccount.toAccountId,
+        splits: { create: splits.splits },
+        billSplitMethod: billShares.method,
+        shares: { create: billShares.shares },
       },
+      include: transactionInclude,
     })
 
     revalidatePath('/records')
@@ -103,17 +290,130 @@ export async function updateTransaction(id: string, data: TransactionFormData) {
       return { success: false, error: 'Invalid amount' }
     }
 
-    const transaction = await prisma.transaction.update({
-      where: {
-        id: id,
-        userId: userId,
+    const type = data.type || 'Expense'
+    if (!isTransactionType(type)) {
+      return { success: false, error: `Invalid type: ${type}` }
+    }
+
+    // Personal transactions, or shared ones the user may edit
+    const existing = await prisma.transaction.findFirst({
+      where: { id: id, ...editableTransactionWhere(userId) },
+      select: {
+        ledgerId: true,
+        reimbursable: true,
+        claimId: true,
+        claim: { select: { status: true } },
+        amount: true,
+        type: true,
+        accountId: true,
+        toAccountId: true,
+        reconciliationId: true,
+        toReconciliationId: true,
       },
+    })
+    if (!existing) {
+      return { success: false, error: 'Transaction not found' }
+    }
+    const access = await resolveScope(userId, existing.ledgerId, 'edit')
+    if (!access.success) {
+      return { success: false, error: access.error }
+    }
+    const { ledger, categoryOwnerId } = access.scope
+
+    const category = await resolveCategoryId(categoryOwnerId, data.categoryId, type)
+    if (!category.success) {
+      return { success: false, error: category.error }
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { currency: true },
+    })
+    const conversion = await convertToBase(userId, amount, data.currency, ledger?.currency ?? user.currency, data.date)
+    if (!conversion.success) {
+      return { success: false, error: conversion.error }
+    }
+
+    const splits = await buildSplits(categoryOwnerId, data.splits, type, conversion.fields)
+    if (!splits.success) {
+      return { success: false, error: splits.error }
+    }
+
+    const billShares = await buildBillShares(userId, ledger?.id ?? null, data.billSplit, type, conversion.fields)
+    if (!billShares.success) {
+      return { success: false, error: billShares.error }
+    }
+
+    const details = buildDetails(data)
+    if (!details.success) {
+      return { success: false, error: details.error }
+    }
+
+    // Left as it is when unset, like the tags
+    const paidBy = ledger && data.paidById !== undefined
+      ? await resolvePaidById(userId, ledger.id, data.paidById)
+      : null
+    if (paidBy && !paidBy.success) {
+      return { success: false, error: paidBy.error }
+    }
+
+    const account = await resolveAccountId(userId, access.scope, data.accountId, existing.accountId)
+    if (!account.success) {
+      return { success: false, error: account.error }
+    }
+    const toAccount = await resolveTransferAccountId(
+      userId,
+      access.scope,
+      type,
+      account.accountId,
+      data.toAccountId === undefined ? existing.toAccountId : data.toAccountId,
+      existing.toAccountId
+    )
+    if (!toAccount.success) {
+      return { success: false, error: toAccount.error }
+    }
+
+    // A reconciled transaction is part of a statement balance, so what it
+    // did to its accounts can't change
+    const reconciled = !!existing.reconciliationId || !!existing.toReconciliationId
+    const changesBalances =
+      toCents(conversion.fields.amount) !== toCents(Number(existing.amount)) ||
+      type !== existing.type ||
+      account.accountId !== existing.accountId ||
+      toAccount.toAccountId !== existing.toAccountId
+    if (reconciled && changesBalances) {
+      return { success: false, error: 'This transaction was reconciled against a statement. Undo the reconciliation to change its amount or account.' }
+    }
+
+    // An expense that stops being reimbursable leaves its claim, which is
+    // only allowed while the claim can still be changed
+    const reimbursable = !ledger && type === 'Expense' && (data.reimbursable ?? existing.reimbursable)
+    const leavesClaim = !!existing.claimId && !reimbursable
+    if (leavesClaim && existing.claim?.status !== 'Draft') {
+      return { success: false, error: 'This expense is in a submitted claim. Move the claim back to draft to change it.' }
+    }
+
+    const transaction = await prisma.transaction.update({
+      where: { id: id },
       data: {
         name: data.name.trim(),
-        amount: amount,
-        category: data.category as any,
+        ...conversion.fields,
+        type: type,
+        categoryId: splits.splits.length > 0 ? null : category.categoryId,
         date: data.date,
+        ...(data.tags !== undefined && { tags: details.tags }),
+        ...(data.notes !== undefined && { notes: details.notes }),
+        reimbursable: reimbursable,
+        ...(leavesClaim && { claimId: null }),
+        ...(paidBy && { paidById: paidBy.paidById }),
+        accountId: account.accountId,
+        toAccountId: toAccount.toAccountId,
+        // Splits are replaced as a whole; an empty list removes them
+        splits: { deleteMany: {}, create: splits.splits },
+        billSplitMethod: billShares.method,
+        shares: { deleteMany: {}, create: billShares.shares },
       },
+      include: transactionInclude,
     })
 
     revalidatePath('/records')
@@ -132,12 +432,42 @@ export async function deleteTransaction(id: string) {
       return { success: false, error: 'Unauthorized' }
     }
 
-    await prisma.transaction.delete({
-      where: {
-        id: id,
-        userId: userId,
-      },
+    const existing = await prisma.transaction.findFirst({
+      where: { id: id, ...editableTransactionWhere(userId) },
+      select: { id: true, reconciliationId: true, toReconciliationId: true },
+    })
+    if (!existing) {
+      return { success: false, error: 'Transaction not found' }
+    }
+    if (existing.reconciliationId || existing.toReconciliationId) {
+      return { success: false, error: 'This transaction was reconciled against a statement. Undo the reconciliation to delete it.' }
+    }
+
+    // The rows go with the transaction, but the files have to be removed here
+    const transaction = await prisma.transaction.delete({
+      where: { id: existing.id },
+      include: { attachments: { select: { storageKey: true } } },
     })
+    await deleteStoredFiles(transaction.attachments.map(a => a.storageKey))
+
+    // A deleted occurrence of a recurring transaction must not be
+    // materialized again, so remember it as skipped
+    if (transaction.recurringTransactionId && transaction.occurrenceDate) {
+      await prisma.recurringOverride.upsert({
+        where: {
+          recurringTransactionId_date: {
+            recurringTransactionId: transaction.recurringTransactionId,
+            date: transaction.occurrenceDate,
+          },
+        },
+        update: { skipped: true },
+        create: {
+          recurringTransactionId: transaction.recurringTransactionId,
+          date: transaction.occurrenceDate,
+          skipped: true,
+        },
+      })
+    }
 
     revalidatePath('/records')
     return { success: true }
@@ -147,58 +477,126 @@ export async function deleteTransaction(id: string) {
   }
 }
 
-export async function getTransactions() {
+export type TransactionQuery = TransactionFilters & {
+  // A shared ledger the user belongs to; unset for the personal transactions
+  ledgerId?: string | null
+  // Id of the last transaction of the previous page; unset for the first page
+  cursor?: string | null
+  // Page size, up to MAX_PAGE_SIZE
+  limit?: number
+}
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+// One page of the user's transactions (or the ledger's) matching the
+// filters, newest first.
+// Totals cover every matching transaction, not just this page, and are
+// only computed for the first page since they don't change between pages.
+export async function queryTransactions(query: TransactionQuery = {}) {
+  const empty = { transactions: [], nextCursor: null, totals: null }
+
   try {
     const { userId } = await auth()
 
     if (!userId) {
-      return { success: false, error: 'Unauthorized', transactions: [] }
+      return { success: false, error: 'Unauthorized', ...empty }
     }
 
     // Ensure user exists
     await ensureUser(userId)
 
-    const transactions = await prisma.transaction.findMany({
-      where: {
-        userId: userId,
-      },
-      orderBy: {
-        date: 'desc',
-      },
-    })
+    const amounts = [query.minAmount, query.maxAmount].filter(a => a != null)
+    if (amounts.some(a => typeof a !== 'number' || !isFinite(a))) {
+      return { success: false, error: 'Invalid amount range', ...empty }
+    }
+    if (query.minAmount != null && query.maxAmount != null && query.minAmount > query.maxAmount) {
+      return { success: false, error: 'The minimum amount is larger than the maximum', ...empty }
+    }
 
-    // Convert Decimal amounts to numbers for client serialization
-    const serializedTransactions = transactions.map(serializeTransaction)
+    const access = await resolveScope(userId, query.ledgerId, 'view')
+    if (!access.success) {
+      return { success: false, error: access.error, ...empty }
+    }
 
-    return { success: true, transactions: serializedTransactions }
-  } catch (error: any) {
-    console.error('Error fetching transactions:', error)
-    return { success: false, error: `Failed to fetch transactions: ${error.message || 'Unknown error'}`, transactions: [] }
+    const limit = Math.min(Math.max(1, Math.floor(query.limit || DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE)
+    const where = transactionFiltersWhere(access.scope.where, query)
+
+    const [page, totalsByType] = await Promise.all([
+      // One extra row tells whether there is another page
+      prisma.transaction.findMany({
+        where,
+        orderBy: [{ date: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        include: transactionInclude,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      }),
+      query.cursor
+        ? null
+        : prisma.transaction.groupBy({
+            by: ['type'],
+            where,
+            _sum: { amount: true },
+            _count: { _all: true },
+          }),
+    ])
+
+    const transactions = page.slice(0, limit)
+    const nextCursor = page.length > limit ? transactions[transactions.length - 1].id : null
+
+    let totals = null
+    if (totalsByType) {
+      const sumFor = (type: string) => Number(totalsByType.find(r => r.type === type)?._sum.amount ?? 0)
+      totals = {
+        count: totalsByType.reduce((sum, r) => sum + r._count._all, 0),
+        expenses: sumFor('Expense'),
+        income: sumFor('Income'),
+        net: sumFor('Income') - sumFor('Expense'),
+      }
+    }
+
+    return { success: true, transactions: transactions.map(serializeTransaction), nextCursor, totals }
+  } catch (error) {
+    console.error('Error querying transactions:', error)
+    return { success: false, error: `Failed to fetch transactions: ${getErrorMessage(error)}`, ...empty }
   }
 }
 
-export async function getMonthlyTotal(month?: Date) {
+// 'total' is what was spent in the month; income and the net result
+// (income minus spending) are returned alongside it. Transfers are ignored.
+// Sums use 'amount', which is already converted to the base currency.
+// With a ledger id the totals are the shared ledger's.
+export async function getMonthlyTotal(month?: Date, ledgerId?: string | null) {
   try {
     const { userId } = await auth()
 
     if (!userId) {
-      return { success: false, error: 'Unauthorized', total: 0 }
+      return { success: false, error: 'Unauthorized', total: 0, income: 0, net: 0 }
     }
 
     // Ensure user exists
     await ensureUser(userId)
 
+    const access = await resolveScope(userId, ledgerId, 'view')
+    if (!access.success) {
+      return { success: false, error: access.error, total: 0, income: 0, net: 0 }
+    }
+
     const targetMonth = month || new Date()
     const startOfMonth = new Date(targetMonth.getFullYear(), targetMonth.getMonth(), 1)
-    const endOfMonth = new Date(targetMonth.getFullYear(), targetMonth.getMonth() + 1, 0)
+    // Exclusive, so transactions at any time on the last day count
+    const startOfNextMonth = new Date(targetMonth.getFullYear(), targetMonth.getMonth() + 1, 1)
 
-    const result = await prisma.transaction.aggregate({
+    // Expenses paid back through a claim are offset by the reimbursement
+    const results = await prisma.transaction.groupBy({
+      by: ['type'],
       where: {
-        userId: userId,
+        ...access.scope.where,
         date: {
           gte: startOfMonth,
-          lte: endOfMonth,
+          lt: startOfNextMonth,
         },
+        AND: [notReimbursedWhere],
       },
       _sum: {
         amount: true,
@@ -206,16 +604,21 @@ export async function getMonthlyTotal(month?: Date) {
     })
 
     // Convert Decimal to number for serialization
-    const total = result._sum.amount ? Number(result._sum.amount) : 0
+    const sumFor = (type: string) => {
+      const sum = results.find(r => r.type === type)?._sum.amount
+      return sum ? Number(sum) : 0
+    }
+    const total = sumFor('Expense')
+    const income = sumFor('Income')
 
-    return { success: true, total }
+    return { success: true, total, income, net: income - total }
   } catch (error: any) {
     console.error('Error fetching monthly total:', error)
-    return { success: false, error: `Failed to fetch monthly total: ${error.message || 'Unknown error'}`, total: 0 }
+    return { success: false, error: `Failed to fetch monthly total: ${error.message || 'Unknown error'}`, total: 0, income: 0, net: 0 }
   }
 }
 
-export async function getTransactionsByDateRange(startDate: Date, endDate: Date) {
+export async function getTransactionsByDateRange(startDate: Date, endDate: Date, ledgerId?: string | null) {
   try {
     const { userId } = await auth()
 
@@ -226,23 +629,17 @@ export async function getTransactionsByDateRange(startDate: Date, endDate: Date)
     // Ensure user exists
     await ensureUser(userId)
 
-    // Set time to start of day for startDate and end of day for endDate
-    const start = new Date(startDate)
-    start.setHours(0, 0, 0, 0)
-    const end = new Date(endDate)
-    end.setHours(23, 59, 59, 999)
+    const access = await resolveScope(userId, ledgerId, 'view')
+    if (!access.success) {
+      return { success: false, error: access.error, transactions: [] }
+    }
 
     const transactions = await prisma.transaction.findMany({
-      where: {
-        userId: userId,
-        date: {
-          gte: start,
-          lte: end,
-        },
-      },
+      where: dateRangeWhere(access.scope.where, startDate, endDate),
       orderBy: {
         date: 'desc',
       },
+      include: transactionInclude,
     })
 
     // Convert Decimal amounts to numbers for client serialization
@@ -253,4 +650,36 @@ export async function getTransactionsByDateRange(startDate: Date, endDate: Date)
     console.error('Error fetching transactions by date range:', error)
     return { success: false, error: `Failed to fetch transactions: ${error.message || 'Unknown error'}`, transactions: [] }
   }
-}
\ No newline at end of file
+}
+
+// Every tag the user has used (or the ledger's members, with a ledger id),
+// most used first, for suggestions and filters
+export async function getTags(ledgerId?: string | null) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return { success: false, error: 'Unauthorized', tags: [] }
+    }
+
+    const access = await resolveScope(userId, ledgerId, 'view')
+    if (!access.success) {
+      return { success: false, error: access.error, tags: [] }
+    }
+
+    const rows = await prisma.$queryRaw<{ tag: string; count: number }[]>`
+      SELECT tag, COUNT(*)::int AS count
+      FROM "Transaction", unnest(tags) AS tag
+      WHERE ${access.scope.ledger
+        ? Prisma.sql`"ledgerId" = ${access.scope.ledger.id}`
+        : Prisma.sql`"userId" = ${userId} AND "ledgerId" IS NULL`}
+      GROUP BY tag
+      ORDER BY count DESC, tag ASC
+    `
+
+    return { success: true, tags: rows }
+  } catch (error) {
+    console.error('Error fetching tags:', error)
+    return { success: false, error: `Failed to fetch tags: ${getErrorMessage(error)}`, tags: [] }
+  }
+}
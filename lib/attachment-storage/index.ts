@@ -0,0 +1,51 @@
+import { randomUUID } from 'crypto'
+import { createLocalStorage, DEFAULT_ATTACHMENT_DIR } from './local'
+import type { AttachmentStorage } from './types'
+
+export type { AttachmentStorage }
+
+export const attachmentStorageBackends = ['local'] as const
+
+// Pick the backend from the environment:
+//
+//   ATTACHMENT_STORAGE  local (default)
+//   ATTACHMENT_DIR      directory for local storage, ./storage/attachments by default
+//
+// Built on every call rather than at import time, like getReceiptScanner.
+export function getAttachmentStorage(env: NodeJS.ProcessEnv = process.env) {
+  const backend = (env.ATTACHMENT_STORAGE || 'local').trim().toLowerCase()
+
+  switch (backend) {
+    case 'local':
+      return { success: true as const, storage: createLocalStorage(env.ATTACHMENT_DIR || DEFAULT_ATTACHMENT_DIR) }
+    default:
+      return {
+        success: false as const,
+        error: `Unknown attachment storage "${backend}". Set ATTACHMENT_STORAGE to one of: ${attachmentStorageBackends.join(', ')}.`,
+      }
+  }
+}
+
+// Grouped by user so one user's files can be found (and removed) together
+export function newStorageKey(userId: string) {
+  return `${userId}/${randomUUID()}`
+}
+
+// Remove the files of attachments whose rows are already deleted. Failures
+// are only logged: the rows are gone, so the files are just wasted space.
+export async function deleteStoredFiles(storageKeys: string[]) {
+  if (storageKeys.length === 0) return
+
+  const storage = getAttachmentStorage()
+  if (!storage.success) {
+    console.error(`Can't delete ${storageKeys.length} attachment file(s):`, storage.error)
+    return
+  }
+
+  const results = await Promise.allSettled(storageKeys.map(key => storage.storage.delete(key)))
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`Failed to delete attachment file ${storageKeys[i]}:`, result.reason)
+    }
+  })
+}
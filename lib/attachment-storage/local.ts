@@ -0,0 +1,41 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import type { AttachmentStorage } from './types'
+
+export const DEFAULT_ATTACHMENT_DIR = './storage/attachments'
+
+// Files under a directory on the server's disk, one per key. Fine for a
+// single server; deployments without a persistent disk need another
+// backend.
+export function createLocalStorage(directory: string): AttachmentStorage {
+  const root = path.resolve(directory)
+
+  // Keys are generated by us, but never let one point outside the root
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key)
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return file
+  }
+
+  return {
+    name: `local (${directory})`,
+    async put(key: string, data: Buffer) {
+      const file = resolve(key)
+      await mkdir(path.dirname(file), { recursive: true })
+      await writeFile(file, data)
+    },
+    async get(key: string) {
+      try {
+        return await readFile(resolve(key))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+    async delete(key: string) {
+      await rm(resolve(key), { force: true })
+    },
+  }
+}
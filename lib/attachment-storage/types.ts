@@ -0,0 +1,11 @@
+// Where attachment files live. Keys are generated by the app (see
+// newStorageKey) and never come from the user.
+export interface AttachmentStorage {
+  // Shown in logs, e.g. "local (./storage/attachments)"
+  readonly name: string
+  put(key: string, data: Buffer): Promise<void>
+  // Null when nothing is stored under the key
+  get(key: string): Promise<Buffer | null>
+  // Removing a missing file is not an error
+  delete(key: string): Promise<void>
+}
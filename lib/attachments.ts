@@ -0,0 +1,119 @@
+// Attachment rules shared by the upload route and the forms, and the
+// client side of uploading. Safe to import from client components.
+
+// Same limit as receipt photos in "Add with AI"
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+export const attachmentMimeTypes = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'application/pdf',
+] as const
+
+// For the 'accept' attribute of file inputs
+export const attachmentAccept = attachmentMimeTypes.join(',')
+
+// What the client knows about a stored attachment
+export type SavedAttachment = {
+  id: string
+  fileName: string
+  mimeType: string
+  size: number
+}
+
+export function isAttachmentMimeType(value: string) {
+  return (attachmentMimeTypes as readonly string[]).includes(value)
+}
+
+// Returns an error message, or null when the file can be attached
+export function validateAttachment(file: { type: string; size: number }) {
+  if (!isAttachmentMimeType(file.type)) {
+    return 'Only images (JPEG, PNG, WebP, HEIC) and PDFs can be attached'
+  }
+  if (file.size === 0) {
+    return 'The file is empty'
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `Files can't be larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB`
+  }
+  return null
+}
+
+// Receipts queued for batch scanning: the attachment rules, minus PDFs,
+// which the scanners can't read
+export function validateReceiptImage(file: { type: string; size: number }) {
+  if (!file.type.startsWith('image/')) {
+    return 'Only images (JPEG, PNG, WebP, HEIC) can be scanned'
+  }
+  return validateAttachment(file)
+}
+
+// Longest file name kept; longer names are cut, keeping the extension
+const MAX_FILE_NAME_LENGTH = 200
+
+// The uploaded name without path separators or control characters
+export function cleanFileName(name: string) {
+  const cleaned = name.replace(/[\u0000-\u001f/\\]/g, '_').trim() || 'attachment'
+  if (cleaned.length <= MAX_FILE_NAME_LENGTH) return cleaned
+  const extension = cleaned.match(/\.[^.]{1,10}$/)?.[0] || ''
+  return cleaned.slice(0, MAX_FILE_NAME_LENGTH - extension.length) + extension
+}
+
+// Where the file can be viewed; served by app/api/attachments/[id]
+export function attachmentUrl(id: string) {
+  return `/api/attachments/${id}`
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+// Upload a file to one of the user's transactions. Files go through a route
+// handler rather than a server action, whose request bodies are limited to 1MB.
+export async function uploadAttachment(transactionId: string, file: File) {
+  try {
+    const body = new FormData()
+    body.append('transactionId', transactionId)
+    body.append('file', file)
+
+    const response = await fetch('/api/attachments', { method: 'POST', body })
+    const result = await response.json().catch(() => null)
+    if (!response.ok) {
+      return { success: false as const, error: result?.error || `Upload failed (${response.status})` }
+    }
+    return { success: true as const, attachment: result.attachment as SavedAttachment }
+  } catch (error) {
+    console.error('Error uploading attachment:', error)
+    return { success: false as const, error: 'Upload failed. Please check your connection and try again.' }
+  }
+}
+
+// Queue a receipt image for scanning as part of a batch; see
+// app/api/receipt-scans
+export async function uploadReceiptScan(batchId: string, file: File) {
+  try {
+    const body = new FormData()
+    body.append('batchId', batchId)
+    body.append('file', file)
+
+    const response = await fetch('/api/receipt-scans', { method: 'POST', body })
+    const result = await response.json().catch(() => null)
+    if (!response.ok) {
+      return { success: false as const, error: result?.error || `Upload failed (${response.status})` }
+    }
+    return { success: true as const }
+  } catch (error) {
+    console.error('Error uploading receipt:', error)
+    return { success: false as const, error: 'Upload failed. Please check your connection and try again.' }
+  }
+}
+
+// A data URL (e.g. the photo scanned in "Add with AI") as a file to upload
+export async function dataUrlToFile(dataUrl: string, fileName: string) {
+  const blob = await (await fetch(dataUrl)).blob()
+  return new File([blob], fileName, { type: blob.type })
+}
@@ -0,0 +1,194 @@
+import { BillSplitMethod } from '@prisma/client'
+import { toCents, unassignedAmount } from '@/lib/splits'
+
+// Bills shared between people: an expense someone paid for a group, where
+// everyone owes the payer their share. Personal bills are paid by the user
+// and shared with their contacts; in a shared ledger the payer and the
+// people sharing are members. Settlements record the money paid back.
+// Not to be confused with lib/splits.ts, which splits between categories.
+
+// Fewer people than this isn't a shared bill
+export const MIN_BILL_PEOPLE = 2
+
+// Largest number of shares one person can have
+export const MAX_BILL_SHARES = 100
+
+export const MAX_CONTACT_NAME_LENGTH = 60
+
+export const billSplitMethodOptions = [
+  { value: 'Equal', label: 'Equally' },
+  { value: 'Shares', label: 'By shares' },
+  { value: 'Exact', label: 'By exact amounts' },
+] as const
+
+export function isBillSplitMethod(value: string): value is BillSplitMethod {
+  return (Object.values(BillSplitMethod) as string[]).includes(value)
+}
+
+// A person money is owed to or by: a user or one of the user's contacts
+export type PersonRef = { userId?: string | null; contactId?: string | null }
+
+// Identifies a person in balances, e.g. 'user:abc' or 'contact:xyz'
+export function personKey(person: PersonRef) {
+  return person.userId ? `user:${person.userId}` : `contact:${person.contactId}`
+}
+
+// The person a key stands for
+export function personFromKey(key: string): PersonRef {
+  const [kind, id] = key.split(':')
+  return kind === 'user' ? { userId: id } : { contactId: id }
+}
+
+// Like personFromKey, for keys sent by the client: null unless the key is
+// 'user:<id>' or 'contact:<id>'
+export function parsePersonKey(key: unknown): PersonRef | null {
+  if (typeof key !== 'string') return null
+  const match = /^(user|contact):(.+)$/.exec(key)
+  if (!match) return null
+  return match[1] === 'user' ? { userId: match[2] } : { contactId: match[2] }
+}
+
+// One person sharing the bill as entered in the form. 'shares' is used by
+// the Shares method, 'amount' (in the entered currency) by Exact.
+export type BillShareFormData = PersonRef & {
+  shares?: string
+  amount?: string
+}
+
+export type BillSplitFormData = {
+  method: string
+  people: BillShareFormData[]
+}
+
+// Returns an error message, or null when the split is valid
+export function validateBillSplit(total: number, split: BillSplitFormData) {
+  if (!isBillSplitMethod(split.method)) {
+    return `Invalid split method: ${split.method}`
+  }
+  if (split.people.length < MIN_BILL_PEOPLE) {
+    return `Pick at least ${MIN_BILL_PEOPLE} people to split with`
+  }
+  if (split.people.some(person => !person.userId === !person.contactId)) {
+    return 'Every share needs a person'
+  }
+  const keys = new Set(split.people.map(personKey))
+  if (keys.size !== split.people.length) {
+    return 'Everyone can only have one share'
+  }
+
+  if (split.method === 'Shares') {
+    const invalid = split.people.some(person => {
+      const shares = Number(person.shares)
+      return !Number.isInteger(shares) || shares < 1 || shares > MAX_BILL_SHARES
+    })
+    if (invalid) {
+      return `Shares must be whole numbers from 1 to ${MAX_BILL_SHARES}`
+    }
+  }
+
+  if (split.method === 'Exact') {
+    if (split.people.some(person => !(parseFloat(person.amount || '') >= 0))) {
+      return 'Everyone needs an amount'
+    }
+    const unassigned = unassignedAmount(total, split.people.map(person => ({ amount: person.amount || '' })))
+    if (unassigned !== 0) {
+      return `Amounts must add up to the total (${unassigned > 0 ? 'short' : 'over'} by ${Math.abs(unassigned).toFixed(2)})`
+    }
+  }
+  return null
+}
+
+// Divide the total by weight, in whole cents. The cents left over go one
+// each to the first people, so the shares add up to the total.
+function divideByWeight(total: number, weights: number[]) {
+  const totalCents = toCents(total)
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0)
+  const cents = weights.map(weight => Math.floor(totalCents * weight / weightSum))
+  let left = totalCents - cents.reduce((sum, c) => sum + c, 0)
+  for (let i = 0; left > 0; i = (i + 1) % cents.length, left--) {
+    cents[i]++
+  }
+  return cents.map(c => c / 100)
+}
+
+// Each person's share of a valid split, in the currency of 'total'. Exact
+// amounts are taken as they are, so convert them separately when the
+// total is in another currency.
+export function computeShareAmounts(total: number, split: BillSplitFormData) {
+  switch (split.method) {
+    case 'Shares':
+      return divideByWeight(total, split.people.map(person => Number(person.shares)))
+    case 'Exact':
+      return split.people.map(person => parseFloat(person.amount || '0'))
+    default:
+      return divideByWeight(total, split.people.map(() => 1))
+  }
+}
+
+// A shared bill as computeBalances needs it
+export type BalanceBill = {
+  amount: number
+  paidBy: PersonRef
+  shares: (PersonRef & { amount: number })[]
+}
+
+export type BalanceSettlement = {
+  amount: number
+  from: PersonRef
+  to: PersonRef
+}
+
+// What everyone is owed, by person key: positive when others owe them,
+// negative when they owe. Paying a bill is owed back by the people sharing
+// it, less the payer's own share; paying someone back evens it out.
+export function computeBalances(bills: BalanceBill[], settlements: BalanceSettlement[]) {
+  const cents: Record<string, number> = {}
+  const add = (person: PersonRef, amount: number) => {
+    if (!person.userId && !person.contactId) return
+    const key = personKey(person)
+    cents[key] = (cents[key] || 0) + toCents(amount)
+  }
+
+  for (const bill of bills) {
+    add(bill.paidBy, bill.amount)
+    for (const share of bill.shares) {
+      add(share, -share.amount)
+    }
+  }
+  for (const settlement of settlements) {
+    add(settlement.from, settlement.amount)
+    add(settlement.to, -settlement.amount)
+  }
+
+  return Object.fromEntries(Object.entries(cents).map(([key, c]) => [key, c / 100]))
+}
+
+// A payment that settles part of the balances
+export type Debt = { from: string; to: string; amount: number }
+
+// The fewest payments that settle the balances, near enough: whoever owes
+// the most pays whoever is owed the most, until everyone is even
+export function simplifyDebts(balances: Record<string, number>): Debt[] {
+  const debtors = Object.entries(balances)
+    .map(([key, amount]) => ({ key, cents: -toCents(amount) }))
+    .filter(person => person.cents > 0)
+  const creditors = Object.entries(balances)
+    .map(([key, amount]) => ({ key, cents: toCents(amount) }))
+    .filter(person => person.cents > 0)
+
+  const debts: Debt[] = []
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => b.cents - a.cents)
+    creditors.sort((a, b) => b.cents - a.cents)
+    const debtor = debtors[0]
+    const creditor = creditors[0]
+    const cents = Math.min(debtor.cents, creditor.cents)
+
+    debts.push({ from: debtor.key, to: creditor.key, amount: cents / 100 })
+    debtor.cents -= cents
+    creditor.cents -= cents
+    if (debtor.cents === 0) debtors.shift()
+    if (creditor.cents === 0) creditors.shift()
+  }
+  return debts
+}
@@ -0,0 +1,51 @@
+import { differenceInCalendarMonths } from 'date-fns'
+
+export type BudgetStatus = {
+  categoryId: string
+  limit: number
+  spent: number
+  remaining: number
+  overspent: boolean
+}
+
+// Budgets are monthly, so a report spanning several months compares
+// spending against the limit multiplied by the number of months covered
+export function countBudgetMonths(startDate: Date, endDate: Date) {
+  return Math.max(1, differenceInCalendarMonths(endDate, startDate) + 1)
+}
+
+// Add what was spent in each subcategory to its parent, so a budget on
+// "Food" also covers "Food / Restaurants". Keys are category ids.
+export function rollUpSpending(
+  spentByCategory: Record<string, number>,
+  categories: { id: string; parentId: string | null }[]
+) {
+  const totals = { ...spentByCategory }
+  for (const category of categories) {
+    if (category.parentId && spentByCategory[category.id]) {
+      totals[category.parentId] = (totals[category.parentId] || 0) + spentByCategory[category.id]
+    }
+  }
+  return totals
+}
+
+// Combine budget limits with actual spending per category
+export function buildBudgetStatuses(
+  budgets: { categoryId: string; amount: number }[],
+  spentByCategory: Record<string, number>,
+  months = 1
+): BudgetStatus[] {
+  return budgets.map((budget) => {
+    const limit = budget.amount * months
+    const spent = spentByCategory[budget.categoryId] || 0
+    const remaining = limit - spent
+
+    return {
+      categoryId: budget.categoryId,
+      limit,
+      spent,
+      remaining,
+      overspent: remaining < 0,
+    }
+  })
+}
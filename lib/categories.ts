@@ -0,0 +1,117 @@
+import { TransactionType } from '@prisma/client'
+
+// Icons a category can use. The names are lucide icon names; the
+// components for them are in components/categories/category-icon.tsx.
+export const categoryIconNames = [
+  'UtensilsCrossed',
+  'Coffee',
+  'ShoppingCart',
+  'ShoppingBag',
+  'Shirt',
+  'Car',
+  'Bus',
+  'Fuel',
+  'Plane',
+  'Wifi',
+  'Smartphone',
+  'Tv',
+  'Zap',
+  'House',
+  'Wrench',
+  'Heart',
+  'Pill',
+  'Stethoscope',
+  'Dumbbell',
+  'Film',
+  'Music',
+  'Gamepad2',
+  'Book',
+  'GraduationCap',
+  'Baby',
+  'PawPrint',
+  'Cigarette',
+  'Gift',
+  'Receipt',
+  'Briefcase',
+  'Laptop',
+  'TrendingUp',
+  'PiggyBank',
+  'Landmark',
+  'Coins',
+  'CircleDot',
+] as const
+
+export type CategoryIconName = typeof categoryIconNames[number]
+
+// What the client needs to show and pick a category
+export type UserCategory = {
+  id: string
+  name: string
+  icon: string
+  color: string
+  type: string
+  parentId: string | null
+}
+
+// Every new user starts with these. The migration that replaced the old
+// Category enum created the same rows for existing users.
+export const defaultCategories: { name: string; icon: CategoryIconName; color: string; type: 'Expense' | 'Income' }[] = [
+  { name: 'Food', icon: 'UtensilsCrossed', color: '#f97316', type: 'Expense' },
+  { name: 'Groceries', icon: 'ShoppingCart', color: '#84cc16', type: 'Expense' },
+  { name: 'Transportation', icon: 'Car', color: '#3b82f6', type: 'Expense' },
+  { name: 'Internet', icon: 'Wifi', color: '#06b6d4', type: 'Expense' },
+  { name: 'Health', icon: 'Heart', color: '#ef4444', type: 'Expense' },
+  { name: 'Sport', icon: 'Dumbbell', color: '#10b981', type: 'Expense' },
+  { name: 'Shopping', icon: 'ShoppingBag', color: '#ec4899', type: 'Expense' },
+  { name: 'Entertainment', icon: 'Film', color: '#8b5cf6', type: 'Expense' },
+  { name: 'Bad Habits', icon: 'Cigarette', color: '#78716c', type: 'Expense' },
+  { name: 'Other', icon: 'CircleDot', color: '#94a3b8', type: 'Expense' },
+  { name: 'Salary', icon: 'Briefcase', color: '#16a34a', type: 'Income' },
+  { name: 'Freelance', icon: 'Laptop', color: '#0ea5e9', type: 'Income' },
+  { name: 'Investments', icon: 'TrendingUp', color: '#eab308', type: 'Income' },
+  { name: 'Gifts', icon: 'Gift', color: '#f43f5e', type: 'Income' },
+  { name: 'Other Income', icon: 'Coins', color: '#64748b', type: 'Income' },
+]
+
+export function isTransactionType(value: string): value is TransactionType {
+  return (Object.values(TransactionType) as string[]).includes(value)
+}
+
+export function isCategoryIconName(value: string): value is CategoryIconName {
+  return (categoryIconNames as readonly string[]).includes(value)
+}
+
+// Income uses income categories and expenses use expense categories.
+// Transfers aren't really spending or earning, so they have no category.
+export function isCategoryForType(category: { type: string } | null, type: TransactionType) {
+  if (type === 'Transfer') return category === null
+  return category === null || category.type === type
+}
+
+export function findCategory<T extends UserCategory>(categories: T[], id: string | null | undefined) {
+  return id ? categories.find(c => c.id === id) : undefined
+}
+
+// "Food / Restaurants" for a subcategory, "Food" otherwise
+export function formatCategoryName(category: { name: string }, parent?: { name: string } | null) {
+  return parent ? `${parent.name} / ${category.name}` : category.name
+}
+
+// Display name for a category id, including its parent
+export function categoryLabel(categories: UserCategory[], id: string | null | undefined) {
+  const category = findCategory(categories, id)
+  if (!category) return 'Uncategorized'
+  return formatCategoryName(category, findCategory(categories, category.parentId))
+}
+
+// Categories of one type in display order: each top-level category
+// followed by its subcategories, alphabetically within each level
+export function sortCategoryTree<T extends UserCategory>(categories: T[], type?: string) {
+  const ofType = categories
+    .filter(c => !type || c.type === type)
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  return ofType
+    .filter(c => !c.parentId || !ofType.some(p => p.id === c.parentId))
+    .flatMap(parent => [parent, ...ofType.filter(c => c.parentId === parent.id)])
+}
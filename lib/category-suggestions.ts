@@ -0,0 +1,113 @@
+import type { AiScanResponse } from '@/lib/receipt-scan'
+
+// Category suggestions learned from the user's own transactions: whatever
+// they filed "Blue Bottle Coffee" under before is the best guess for the
+// next one, better than any keyword list or AI model. Pure functions, shared
+// by the transaction form and the receipt scanner.
+
+// How the user categorized one name, summed over their transactions
+export type CategoryHistoryEntry = {
+  name: string
+  categoryId: string
+  type: string
+  count: number
+  // In the user's base currency
+  averageAmount: number
+  lastUsed: string // ISO date
+}
+
+export type CategorySuggestion = {
+  categoryId: string
+  // Typical amount in the user's base currency
+  amount: number
+  // Transactions the suggestion is based on
+  count: number
+}
+
+// Shorter names are too vague to match as a prefix ("the", "ab")
+const MIN_PREFIX_LENGTH = 4
+
+// Bits that differ between receipts from the same place
+const companySuffixes = /\b(inc|llc|ltd|gmbh|co|corp|plc|sa|srl)\b/g
+
+// "STARBUCKS #1234", "Starbucks Coffee 0042" and "starbucks" all become
+// "starbucks", "starbucks coffee"
+export function normalizeMerchantName(name: string) {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[#*]\s*\d+|\d+/g, ' ')
+    .replace(/[^\p{L}\s&]/gu, ' ')
+    .replace(companySuffixes, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// "starbucks" matches "starbucks coffee" and the other way round, but not
+// "starbuckstown"
+function isSimilar(a: string, b: string) {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+  return shorter.length >= MIN_PREFIX_LENGTH && longer.startsWith(`${shorter} `)
+}
+
+// The category most often used for this name, or for a similar one when the
+// exact name is new. Ties go to the most recently used category.
+export function suggestCategory(name: string, history: CategoryHistoryEntry[], type?: string): CategorySuggestion | null {
+  const normalized = normalizeMerchantName(name)
+  if (!normalized) return null
+
+  const candidates = history
+    .filter(entry => !type || entry.type === type)
+    .map(entry => ({ ...entry, normalized: normalizeMerchantName(entry.name) }))
+  const exact = candidates.filter(entry => entry.normalized === normalized)
+  const matches = exact.length > 0 ? exact : candidates.filter(entry => isSimilar(entry.normalized, normalized))
+  if (matches.length === 0) return null
+
+  const byCategory = new Map<string, { count: number; total: number; lastUsed: string }>()
+  for (const entry of matches) {
+    const current = byCategory.get(entry.categoryId) ?? { count: 0, total: 0, lastUsed: '' }
+    byCategory.set(entry.categoryId, {
+      count: current.count + entry.count,
+      total: current.total + entry.averageAmount * entry.count,
+      lastUsed: entry.lastUsed > current.lastUsed ? entry.lastUsed : current.lastUsed,
+    })
+  }
+
+  const [categoryId, best] = [...byCategory.entries()].sort(([, a], [, b]) =>
+    b.count - a.count || b.lastUsed.localeCompare(a.lastUsed)
+  )[0]
+
+  return {
+    categoryId,
+    amount: Math.round((best.total / best.count) * 100) / 100,
+    count: best.count,
+  }
+}
+
+// Replace the category an AI model picked for a receipt with the one the
+// user always files this merchant under. When the model put every item in
+// one category, the items follow; items it spread across categories (a
+// supermarket shop) are left alone.
+export function applyCategoryHistory(
+  receipt: AiScanResponse,
+  history: CategoryHistoryEntry[],
+  categories: { id: string; name: string }[]
+): AiScanResponse {
+  const suggestion = (receipt.merchant && suggestCategory(receipt.merchant, history, 'Expense')) ||
+    suggestCategory(receipt.name, history, 'Expense')
+  const category = suggestion && categories.find(c => c.id === suggestion.categoryId)
+  if (!category || category.id === receipt.categoryId) return receipt
+
+  const itemCategories = new Set(receipt.lineItems.map(item => item.categoryId))
+  return {
+    ...receipt,
+    category: category.name,
+    categoryId: category.id,
+    lineItems: itemCategories.size === 1
+      ? receipt.lineItems.map(item => ({ ...item, category: category.name, categoryId: category.id }))
+      : receipt.lineItems,
+    // Learned from the user, not guessed
+    confidence: { ...receipt.confidence, category: 1 },
+  }
+}
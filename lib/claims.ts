@@ -0,0 +1,31 @@
+import { ClaimStatus } from '@prisma/client'
+
+// Reimbursement claims: reimbursable expenses sent off together to be paid
+// back. A claim starts as a draft, is submitted, and is paid once the money
+// comes back; its expenses can only change while it's a draft.
+
+export const MAX_CLAIM_NAME_LENGTH = 100
+
+export function isClaimStatus(value: string): value is ClaimStatus {
+  return (Object.values(ClaimStatus) as string[]).includes(value)
+}
+
+// The status the claim moves to next, with the label of the button that
+// moves it there. Paid claims stay paid unless moved back explicitly.
+export const nextClaimStatus: Record<string, { status: ClaimStatus; label: string } | null> = {
+  Draft: { status: 'Submitted', label: 'Mark as Submitted' },
+  Submitted: { status: 'Paid', label: 'Mark as Paid' },
+  Paid: null,
+}
+
+// The status to go back to, e.g. when a claim was rejected or marked paid
+// by mistake
+export const previousClaimStatus: Record<string, { status: ClaimStatus; label: string } | null> = {
+  Draft: null,
+  Submitted: { status: 'Draft', label: 'Back to Draft' },
+  Paid: { status: 'Submitted', label: 'Mark as Unpaid' },
+}
+
+export function claimTotal(transactions: { amount: number }[]) {
+  return transactions.reduce((sum, t) => sum + t.amount, 0)
+}
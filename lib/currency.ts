@@ -0,0 +1,38 @@
+export interface Currency {
+  code: string
+  symbol: string
+  name: string
+}
+
+export const currencies: Currency[] = [
+  { code: 'USD', symbol: '$', name: 'US Dollar' },
+  { code: 'EUR', symbol: '€', name: 'Euro' },
+  { code: 'GBP', symbol: '£', name: 'British Pound' },
+  { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
+  { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' },
+  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
+  { code: 'CHF', symbol: 'Fr', name: 'Swiss Franc' },
+  { code: 'CNY', symbol: '¥', name: 'Chinese Yuan' },
+]
+
+export const DEFAULT_CURRENCY = currencies[0]
+
+export function findCurrency(code: string) {
+  return currencies.find(c => c.code === code)
+}
+
+// Intl.NumberFormat is expensive to construct, so keep one per currency/locale
+const formatters = new Map<string, Intl.NumberFormat>()
+
+// Locale-aware money formatting. Intl knows how many decimals each currency
+// uses, so JPY renders as "¥1,235" rather than "¥1234.50".
+// Leaving the locale undefined uses the browser's (or server's) default.
+export function formatCurrency(amount: number, currencyCode: string, locale?: string) {
+  const key = `${locale ?? ''}:${currencyCode}`
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency: currencyCode })
+    formatters.set(key, formatter)
+  }
+  return formatter.format(amount)
+}
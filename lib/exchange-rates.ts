@@ -0,0 +1,134 @@
+import { prisma } from '@/lib/prisma'
+import { parseCsv } from '@/lib/csv'
+import { findCurrency } from '@/lib/currency'
+
+// Rates are imported against a handful of bases; anything else is
+// converted through this currency (e.g. GBP -> USD -> JPY)
+const PIVOT_CURRENCY = 'USD'
+
+export type ExchangeRateRow = {
+  base: string
+  quote: string
+  rate: number
+  date: Date
+}
+
+// Parse a "date,base,quote,rate" CSV (with a header row) into rate rows.
+// Dates are YYYY-MM-DD and stored as UTC midnight.
+export function parseExchangeRatesCsv(text: string) {
+  const rows: ExchangeRateRow[] = []
+  const errors: string[] = []
+
+  const [header, ...lines] = parseCsv(text)
+  const columns = (header || []).map(h => h.trim().toLowerCase())
+  const index = {
+    date: columns.indexOf('date'),
+    base: columns.indexOf('base'),
+    quote: columns.indexOf('quote'),
+    rate: columns.indexOf('rate'),
+  }
+
+  if (Object.values(index).some(i => i === -1)) {
+    return { rows, errors: ['CSV header must contain date, base, quote and rate columns'] }
+  }
+
+  lines.forEach((line, i) => {
+    const lineNumber = i + 2 // 1-based, after the header
+    const dateText = line[index.date]?.trim() || ''
+    const base = line[index.base]?.trim().toUpperCase() || ''
+    const quote = line[index.quote]?.trim().toUpperCase() || ''
+    const rate = parseFloat(line[index.rate] || '')
+    const date = new Date(`${dateText}T00:00:00.000Z`)
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateText) || isNaN(date.getTime())) {
+      errors.push(`Line ${lineNumber}: invalid date "${dateText}"`)
+    } else if (!/^[A-Z]{3}$/.test(base) || !/^[A-Z]{3}$/.test(quote) || base === quote) {
+      errors.push(`Line ${lineNumber}: invalid currency pair "${base}/${quote}"`)
+    } else if (isNaN(rate) || rate <= 0) {
+      errors.push(`Line ${lineNumber}: invalid rate "${line[index.rate]}"`)
+    } else {
+      rows.push({ base, quote, rate, date })
+    }
+  })
+
+  return { rows, errors }
+}
+
+// The user's stored rate for base -> quote closest to the date: the latest
+// one on or before it, or failing that the earliest one after it
+async function storedRate(userId: string, base: string, quote: string, date: Date) {
+  const before = await prisma.exchangeRate.findFirst({
+    where: { userId, base, quote, date: { lte: date } },
+    orderBy: { date: 'desc' },
+  })
+  if (before) return Number(before.rate)
+
+  const after = await prisma.exchangeRate.findFirst({
+    where: { userId, base, quote, date: { gt: date } },
+    orderBy: { date: 'asc' },
+  })
+  return after ? Number(after.rate) : null
+}
+
+// Multiplier that converts an amount in 'from' into 'to' on a given date.
+// Tries the direct rate, then the inverse, then a cross rate via the pivot
+// currency. Returns null when the user hasn't imported a usable rate.
+export async function findExchangeRate(userId: string, from: string, to: string, date: Date): Promise<number | null> {
+  if (from === to) return 1
+
+  const direct = await storedRate(userId, from, to, date)
+  if (direct) return direct
+
+  const inverse = await storedRate(userId, to, from, date)
+  if (inverse) return 1 / inverse
+
+  if (from !== PIVOT_CURRENCY && to !== PIVOT_CURRENCY) {
+    const toPivot = await findExchangeRate(userId, from, PIVOT_CURRENCY, date)
+    const fromPivot = toPivot && await findExchangeRate(userId, PIVOT_CURRENCY, to, date)
+    if (toPivot && fromPivot) return toPivot * fromPivot
+  }
+
+  return null
+}
+
+// Work out the fields to store for an amount entered in 'currency' when the
+// user's base currency is 'baseCurrency', using the rates that user
+// imported. Amounts already in the base currency are stored as-is with no
+// original amount.
+export async function convertToBase(
+  userId: string,
+  amount: number,
+  currency: string | undefined,
+  baseCurrency: string,
+  date: Date
+) {
+  if (!currency || currency === baseCurrency) {
+    return {
+      success: true as const,
+      fields: { amount, originalAmount: null, originalCurrency: null, exchangeRate: null },
+    }
+  }
+
+  if (!findCurrency(currency)) {
+    return { success: false as const, error: `Unsupported currency: ${currency}` }
+  }
+
+  const rate = await findExchangeRate(userId, currency, baseCurrency, date)
+  if (!rate) {
+    return {
+      success: false as const,
+      error: `No exchange rate from ${currency} to ${baseCurrency}. Import exchange rates on the Profile page.`,
+    }
+  }
+
+  return {
+    success: true as const,
+    fields: {
+      // Round to cents so the stored amount matches what is displayed
+      amount: Math.round(amount * rate * 100) / 100,
+      originalAmount: amount,
+      originalCurrency: currency,
+      exchangeRate: rate,
+    },
+  }
+}
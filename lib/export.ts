@@ -0,0 +1,163 @@
+import { format } from 'date-fns'
+import type { SerializedTransaction } from '@/lib/transactions'
+
+export const exportFormats = ['csv', 'json', 'ofx'] as const
+
+export type ExportFormat = typeof exportFormats[number]
+
+// Context every format needs for its header and footer
+export type ExportMeta = {
+  userId: string
+  currency: string
+  startDate: Date
+  endDate: Date
+  generatedAt: Date
+}
+
+// A transaction with its category's display name ("Food / Restaurants").
+// For a split transaction that lists the categories of its splits.
+export type ExportTransaction = Omit<SerializedTransaction, 'splits'> & {
+  categoryName: string | null
+  splits: { name: string | null; categoryName: string | null; amount: number }[]
+}
+
+// A format is written in three parts so rows can be streamed between them.
+// 'row' gets the index so formats can place separators between rows.
+export type ExportWriter = {
+  contentType: string
+  extension: string
+  header: (meta: ExportMeta) => string
+  row: (transaction: ExportTransaction, index: number, meta: ExportMeta) => string
+  footer: (meta: ExportMeta, totals: { net: number }) => string
+}
+
+// Amount with the sign accountants expect: money out is negative
+export function signedAmount(transaction: Pick<SerializedTransaction, 'amount' | 'type'>) {
+  return transaction.type === 'Expense' ? -transaction.amount : transaction.amount
+}
+
+function csvField(value: string | number | null) {
+  let text = value === null ? '' : String(value)
+  // Spreadsheets run cells starting with these as formulas, so a name like
+  // "=HYPERLINK(...)" is written as text instead. Numbers are left alone.
+  if (/^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// OFX dates are YYYYMMDDHHMMSS
+function ofxDate(date: Date) {
+  return format(date, 'yyyyMMddHHmmss')
+}
+
+const csvWriter: ExportWriter = {
+  contentType: 'text/csv; charset=utf-8',
+  extension: 'csv',
+  header: () => 'date,name,type,category,account,to_account,amount,currency,original_amount,original_currency,tags,notes\r\n',
+  row: (t, _index, meta) => [
+    format(t.date, 'yyyy-MM-dd'),
+    t.name,
+    t.type,
+    t.categoryName,
+    t.account?.name ?? null,
+    t.toAccount?.name ?? null,
+    t.amount.toFixed(2),
+    meta.currency,
+    t.originalAmount !== null ? t.originalAmount.toFixed(2) : null,
+    t.originalCurrency,
+    t.tags.join(' '),
+    t.notes,
+  ].map(csvField).join(',') + '\r\n',
+  footer: () => '',
+}
+
+const jsonWriter: ExportWriter = {
+  contentType: 'application/json; charset=utf-8',
+  extension: 'json',
+  header: (meta) => `{"currency":${JSON.stringify(meta.currency)},"from":"${format(meta.startDate, 'yyyy-MM-dd')}","to":"${format(meta.endDate, 'yyyy-MM-dd')}","transactions":[`,
+  row: (t, index) => (index > 0 ? ',' : '') + JSON.stringify({
+    id: t.id,
+    date: format(t.date, 'yyyy-MM-dd'),
+    name: t.name,
+    type: t.type,
+    category: t.categoryName,
+    account: t.account?.name ?? null,
+    ...(t.type === 'Transfer' && { toAccount: t.toAccount?.name ?? null }),
+    amount: t.amount,
+    originalAmount: t.originalAmount,
+    originalCurrency: t.originalCurrency,
+    tags: t.tags,
+    notes: t.notes,
+    ...(t.splits.length > 0 && { splits: t.splits.map(split => ({ name: split.name, category: split.categoryName, amount: split.amount })) }),
+  }),
+  footer: () => ']}\n',
+}
+
+const ofxWriter: ExportWriter = {
+  contentType: 'application/x-ofx',
+  extension: 'ofx',
+  header: (meta) => [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    `<DTSERVER>${ofxDate(meta.generatedAt)}</DTSERVER>`,
+    '<LANGUAGE>ENG</LANGUAGE>',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>1</TRNUID>',
+    '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${meta.currency}</CURDEF>`,
+    `<BANKACCTFROM><BANKID>EXW3</BANKID><ACCTID>${escapeXml(meta.userId)}</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>`,
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(meta.startDate)}</DTSTART>`,
+    `<DTEND>${ofxDate(meta.endDate)}</DTEND>`,
+    '',
+  ].join('\n'),
+  row: (t) => [
+    '<STMTTRN>',
+    `<TRNTYPE>${t.type === 'Expense' ? 'DEBIT' : t.type === 'Income' ? 'CREDIT' : 'XFER'}</TRNTYPE>`,
+    `<DTPOSTED>${ofxDate(t.date)}</DTPOSTED>`,
+    `<TRNAMT>${signedAmount(t).toFixed(2)}</TRNAMT>`,
+    `<FITID>${escapeXml(t.id)}</FITID>`,
+    // OFX limits NAME to 32 characters
+    `<NAME>${escapeXml(t.name.slice(0, 32))}</NAME>`,
+    `<MEMO>${escapeXml(t.categoryName || '')}</MEMO>`,
+    '</STMTTRN>',
+    '',
+  ].join('\n'),
+  footer: (meta, totals) => [
+    '</BANKTRANLIST>',
+    // There are no account balances in the app; report the net of the export
+    `<LEDGERBAL><BALAMT>${totals.net.toFixed(2)}</BALAMT><DTASOF>${ofxDate(meta.endDate)}</DTASOF></LEDGERBAL>`,
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\n'),
+}
+
+const writers: Record<ExportFormat, ExportWriter> = {
+  csv: csvWriter,
+  json: jsonWriter,
+  ofx: ofxWriter,
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (exportFormats as readonly string[]).includes(value)
+}
+
+export function getExportWriter(exportFormat: ExportFormat) {
+  return writers[exportFormat]
+}
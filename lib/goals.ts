@@ -0,0 +1,71 @@
+import { addDays, differenceInCalendarDays, differenceInCalendarMonths, startOfDay } from 'date-fns'
+import { toCents } from '@/lib/splits'
+
+// Savings goals: an amount the user is saving towards, optionally by a
+// date, and the contributions made so far. Goals are personal and kept in
+// the user's base currency.
+
+export const MAX_GOAL_NAME_LENGTH = 60
+
+// Average days in a month, for turning a monthly rate into days
+const DAYS_PER_MONTH = 365.25 / 12
+
+export type GoalProgress = {
+  saved: number
+  // Left to save; zero once the goal is reached
+  remaining: number
+  // 0 to 100
+  percent: number
+  isComplete: boolean
+  // Saved per month on average since the first contribution
+  monthlyRate: number
+  // When the goal is reached at that rate; null when complete or when
+  // nothing is being saved
+  projectedDate: Date | null
+  // What has to be saved each month to reach the target date; null without
+  // one or when complete. Past the date, everything that's left.
+  requiredMonthly: number | null
+  // Whether the projected date is after the target date
+  isBehind: boolean
+}
+
+export function goalProgress(
+  goal: { targetAmount: number; targetDate: Date | null },
+  contributions: { amount: number; date: Date }[],
+  today = new Date()
+): GoalProgress {
+  const savedCents = contributions.reduce((sum, c) => sum + toCents(c.amount), 0)
+  const remainingCents = Math.max(0, toCents(goal.targetAmount) - savedCents)
+  const saved = savedCents / 100
+  const remaining = remainingCents / 100
+  const isComplete = remainingCents === 0
+
+  // A goal started today counts as a month in, so a first contribution
+  // doesn't project an absurdly fast rate
+  const first = contributions.reduce<Date | null>((min, c) => !min || c.date < min ? c.date : min, null)
+  const months = first ? Math.max(1, differenceInCalendarDays(today, first) / DAYS_PER_MONTH) : 1
+  const monthlyRate = first ? saved / months : 0
+
+  const projectedDate = !isComplete && monthlyRate > 0
+    ? addDays(startOfDay(today), Math.ceil(remaining / monthlyRate * DAYS_PER_MONTH))
+    : null
+
+  let requiredMonthly: number | null = null
+  if (goal.targetDate && !isComplete) {
+    const monthsLeft = differenceInCalendarMonths(goal.targetDate, today)
+    requiredMonthly = monthsLeft > 0 ? Math.ceil(remainingCents / monthsLeft) / 100 : remaining
+  }
+
+  const isBehind = !isComplete && !!goal.targetDate && (!projectedDate || projectedDate > goal.targetDate)
+
+  return {
+    saved,
+    remaining,
+    percent: goal.targetAmount > 0 ? Math.min(100, Math.max(0, Math.round(saved / goal.targetAmount * 100))) : 100,
+    isComplete,
+    monthlyRate,
+    projectedDate,
+    requiredMonthly,
+    isBehind,
+  }
+}
@@ -0,0 +1,42 @@
+import { LedgerRole } from '@prisma/client'
+
+// Shared ledgers: transactions kept together by several users, e.g. a
+// household. Every ledger has one owner, the user who created it, who
+// invites the others as editors or viewers. A ledger uses its owner's
+// categories, and its amounts are kept in the currency it was created with.
+// Rules, budgets, recurring transactions and claims stay personal.
+
+export const MAX_LEDGER_NAME_LENGTH = 60
+
+// How long an invite link can be used
+export const INVITE_DAYS = 7
+
+export function isLedgerRole(value: string): value is LedgerRole {
+  return (Object.values(LedgerRole) as string[]).includes(value)
+}
+
+// Whether the role may add, change and delete transactions
+export function canEditLedger(role: string) {
+  return role === 'Owner' || role === 'Editor'
+}
+
+// Roles an invite or the owner can give; there is only ever one owner
+export const memberRoleOptions = [
+  { value: 'Editor', label: 'Editor', description: 'Adds and changes transactions' },
+  { value: 'Viewer', label: 'Viewer', description: 'Only sees the transactions' },
+] as const
+
+// A ledger as the client sees it, from getLedgers
+export type UserLedger = {
+  id: string
+  name: string
+  currency: string
+  // The signed-in user's role in it
+  role: string
+  memberCount: number
+}
+
+// Where an invite link points, given its token
+export function inviteLink(origin: string, token: string) {
+  return `${origin}/ledgers/join/${token}`
+}
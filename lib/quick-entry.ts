@@ -0,0 +1,373 @@
+import { format, isAfter, isValid, parseISO, previousDay, startOfDay, subDays, subYears, type Day } from 'date-fns'
+import { currencies, findCurrency } from '@/lib/currency'
+import type { UserCategory } from '@/lib/categories'
+import type { TransactionFormData } from '@/lib/actions/transactions'
+import type { ResponseSchema } from '@/lib/receipt-scanner'
+
+// Quick entry: a one-line note like "lunch 14.50 yesterday" or "uber 23 eur
+// on friday" turned into a transaction draft. The parser here is plain rules
+// and runs on the client as the user types; the AI model is only asked for
+// what it couldn't work out (see app/actions/quick-entry.ts).
+
+// Fields the parser can fail to resolve. The date is never among them: a
+// note without one is about today.
+export type QuickEntryField = 'name' | 'amount' | 'category'
+
+export type QuickEntryResult = {
+  draft: TransactionFormData
+  unresolved: QuickEntryField[]
+  // Whether the note said when; the draft is dated today if not
+  hasDate: boolean
+}
+
+// Words that point at one of the default categories; only used when the
+// user still has a category by that name
+const categoryKeywords: Record<string, string[]> = {
+  Food: ['lunch', 'dinner', 'breakfast', 'brunch', 'coffee', 'cafe', 'restaurant', 'pizza', 'burger', 'sushi', 'takeaway', 'takeout', 'snack'],
+  Groceries: ['grocery', 'groceries', 'supermarket'],
+  Transportation: ['uber', 'lyft', 'bolt', 'taxi', 'cab', 'bus', 'train', 'metro', 'subway', 'tram', 'fuel', 'gas', 'petrol', 'parking', 'toll'],
+  Internet: ['wifi', 'broadband', 'fiber'],
+  Health: ['pharmacy', 'doctor', 'dentist', 'medicine', 'vitamins'],
+  Sport: ['gym', 'yoga', 'pool', 'climbing'],
+  Shopping: ['amazon', 'clothes', 'shoes', 'ikea'],
+  Entertainment: ['movie', 'movies', 'cinema', 'netflix', 'spotify', 'concert', 'tickets', 'theatre', 'theater'],
+  'Bad Habits': ['beer', 'beers', 'wine', 'cigarettes', 'bar'],
+  Salary: ['paycheck', 'payroll', 'wage', 'wages'],
+  Freelance: ['invoice', 'client'],
+  Gifts: ['gift', 'birthday'],
+}
+
+const currencyWords: Record<string, string> = {
+  dollar: 'USD',
+  dollars: 'USD',
+  bucks: 'USD',
+  euro: 'EUR',
+  euros: 'EUR',
+  pound: 'GBP',
+  pounds: 'GBP',
+  quid: 'GBP',
+  yen: 'JPY',
+  francs: 'CHF',
+  yuan: 'CNY',
+}
+
+const weekdays: Record<string, Day> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+}
+
+// Only after "on" or "last", since "sun" and "sat" are words too
+const weekdayAbbreviations: Record<string, Day> = {
+  sun: 0, mon: 1, tue: 2, tues: 2, wed: 3, thu: 4, thur: 4, thurs: 4, fri: 5, sat: 6,
+}
+
+const months = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+
+// Left out of the name when they're at either end of it
+const fillerWords = new Set(['on', 'at', 'for', 'in', 'from', 'to', 'spent', 'paid', 'bought', 'got', 'the', 'a'])
+
+// "14.50", "14,50", "1,200.00", with an optional sign and currency symbol
+// before or after
+const amountPattern = /^([+-])?(c\$|a\$|[$€£¥])?(\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:[.,]\d{1,2})?)(c\$|a\$|[$€£¥]|[a-z]{3})?$/i
+
+function currencyFromSymbol(symbol: string | undefined) {
+  if (!symbol) return undefined
+  const code = symbol.toUpperCase()
+  if (findCurrency(code)) return code
+  return currencies.find(c => c.symbol.toUpperCase() === code)?.code
+}
+
+function currencyFromWord(word: string) {
+  const code = word.toUpperCase()
+  return findCurrency(code) ? code : currencyWords[word]
+}
+
+function parseAmountText(value: string) {
+  // A comma is a thousands separator only in "1,200"; otherwise it's the decimal point
+  const normalized = /^\d{1,3}(,\d{3})+(\.\d+)?$/.test(value) ? value.replace(/,/g, '') : value.replace(',', '.')
+  return parseFloat(normalized)
+}
+
+// "oct", "october" and "sept"; -1 for anything else
+function monthIndex(word: string | undefined) {
+  if (!word) return -1
+  return months.findIndex(month => word === month || word === month.slice(0, 3) || (word === 'sept' && month === 'september'))
+}
+
+// A day and month without a year is the most recent one, so "dec 30"
+// typed in January is last year's
+function dayOfMonth(day: number, month: number, today: Date) {
+  const date = new Date(today.getFullYear(), month, day)
+  if (date.getMonth() !== month) return null
+  return isAfter(date, today) ? subYears(date, 1) : date
+}
+
+// Find a date in the words, returning it with how many words it used from 'start'
+function matchDate(words: string[], start: number, today: Date): { date: Date; length: number } | null {
+  const word = words[start]
+  const next = words[start + 1]
+
+  if (word === 'today') return { date: today, length: 1 }
+  if (word === 'yesterday') return { date: subDays(today, 1), length: 1 }
+
+  // "friday" is the latest Friday, today included; "last friday" is before today
+  const weekday = (value: string | undefined, abbreviated: boolean) =>
+    value === undefined ? undefined : weekdays[value] ?? (abbreviated ? weekdayAbbreviations[value] : undefined)
+  const day = weekday(word, words[start - 1] === 'on')
+  if (day !== undefined) {
+    return { date: today.getDay() === day ? today : previousDay(today, day), length: 1 }
+  }
+  const lastDay = word === 'last' ? weekday(next, true) : undefined
+  if (lastDay !== undefined) {
+    return { date: previousDay(today, lastDay), length: 2 }
+  }
+
+  // "3 days ago"
+  if (/^\d+$/.test(word) && /^days?$/.test(next ?? '') && words[start + 2] === 'ago') {
+    return { date: subDays(today, parseInt(word, 10)), length: 3 }
+  }
+
+  // "2026-10-12"
+  if (/^\d{4}-\d{2}-\d{2}$/.test(word)) {
+    const date = parseISO(word)
+    return isValid(date) && format(date, 'yyyy-MM-dd') === word ? { date, length: 1 } : null
+  }
+
+  // "oct 12", "october 12th", "12 oct"
+  const dayNumber = (value: string | undefined) => value?.match(/^(\d{1,2})(st|nd|rd|th)?$/)?.[1]
+  if (monthIndex(word) >= 0 && dayNumber(next)) {
+    const date = dayOfMonth(parseInt(dayNumber(next)!, 10), monthIndex(word), today)
+    return date && { date, length: 2 }
+  }
+  if (dayNumber(word) && monthIndex(next) >= 0) {
+    const date = dayOfMonth(parseInt(dayNumber(word)!, 10), monthIndex(next), today)
+    return date && { date, length: 2 }
+  }
+
+  return null
+}
+
+// Match the note's words against the user's categories: a category named in
+// the note first (the longest name wins, so subcategories beat their
+// parent), then the keywords of the default categories
+function matchCategory(words: string[], categories: UserCategory[], type?: string) {
+  const text = ` ${words.join(' ')} `
+  const candidates = categories.filter(c => !type || c.type === type)
+
+  const named = candidates
+    .filter(c => {
+      const name = c.name.toLowerCase()
+      return text.includes(` ${name} `) || text.includes(` ${name}s `) ||
+        (name.endsWith('s') && text.includes(` ${name.slice(0, -1)} `))
+    })
+    .sort((a, b) => b.name.length - a.name.length)
+  if (named.length > 0) return named[0]
+
+  for (const [categoryName, keywords] of Object.entries(categoryKeywords)) {
+    if (keywords.some(keyword => words.includes(keyword))) {
+      const category = candidates.find(c => c.name === categoryName)
+      if (category) return category
+    }
+  }
+  return null
+}
+
+// Parse a quick entry note. 'today' is the user's local today, which
+// "yesterday" and "friday" are counted from.
+export function parseQuickEntry(text: string, categories: UserCategory[], today = new Date()): QuickEntryResult {
+  const day = startOfDay(today)
+  const originalWords = text.replace(/[!?;]/g, ' ').split(/\s+/).filter(Boolean)
+  const words = originalWords.map(word => word.toLowerCase())
+  const used = new Set<number>()
+
+  let date: Date | null = null
+  for (let i = 0; i < words.length && !date; i++) {
+    const match = matchDate(words, i, day)
+    if (match) {
+      date = match.date
+      for (let j = i; j < i + match.length; j++) used.add(j)
+    }
+  }
+
+  let amount: number | null = null
+  let currency: string | undefined
+  let sign: string | undefined
+  for (let i = 0; i < words.length && amount === null; i++) {
+    if (used.has(i)) continue
+    const match = words[i].match(amountPattern)
+    // A trailing three letters only count when they're a currency code ("23eur")
+    if (!match || (match[4] && !currencyFromSymbol(match[4]))) continue
+
+    amount = parseAmountText(match[3])
+    sign = match[1]
+    currency = currencyFromSymbol(match[2] || match[4])
+    used.add(i)
+
+    // "23 eur", "23 euros"
+    const nextWord = words[i + 1]
+    if (!currency && nextWord && !used.has(i + 1) && currencyFromWord(nextWord)) {
+      currency = currencyFromWord(nextWord)
+      used.add(i + 1)
+    }
+  }
+  // "eur 23"
+  if (!currency) {
+    const index = words.findIndex((word, i) => !used.has(i) && /^[a-z]{3}$/.test(word) && findCurrency(word.toUpperCase()))
+    if (index >= 0) {
+      currency = words[index].toUpperCase()
+      used.add(index)
+    }
+  }
+
+  const nameWords = originalWords.filter((_, i) => !used.has(i))
+  while (nameWords.length > 0 && fillerWords.has(nameWords[0].toLowerCase())) nameWords.shift()
+  while (nameWords.length > 0 && fillerWords.has(nameWords[nameWords.length - 1].toLowerCase())) nameWords.pop()
+
+  // A "+" marks income; otherwise an income category does
+  const category = matchCategory(
+    nameWords.map(word => word.toLowerCase().replace(/[.,:]+$/, '')),
+    categories,
+    sign === '+' ? 'Income' : undefined
+  )
+  const type = sign === '+' || category?.type === 'Income' ? 'Income' : 'Expense'
+
+  const name = nameWords.join(' ').replace(/[.,:]+$/, '')
+  const unresolved: QuickEntryField[] = []
+  if (!name) unresolved.push('name')
+  if (amount === null || !(amount > 0)) unresolved.push('amount')
+  if (!category) unresolved.push('category')
+
+  return {
+    draft: {
+      name: name && name[0].toUpperCase() + name.slice(1),
+      amount: amount && amount > 0 ? amount.toString() : '',
+      categoryId: category?.id ?? null,
+      date: date ?? day,
+      type,
+      currency,
+    },
+    unresolved,
+    hasDate: date !== null,
+  }
+}
+
+// What the AI model may fill in; anything it leaves out or gets wrong stays
+// as the parser had it
+export type QuickEntryCompletion = {
+  name?: string
+  amount?: number
+  currency?: string
+  date?: string // "YYYY-MM-DD"
+  categoryId?: string | null
+  type?: 'Expense' | 'Income'
+}
+
+export function buildQuickEntryPrompt(text: string, today: string, categories: string[]) {
+  return `
+You turn short notes typed into an expense tracker into a transaction.
+Today is ${today} (${format(parseISO(today), 'EEEE')}).
+
+The note: ${JSON.stringify(text)}
+
+Extract:
+1. "name": A short description of what was paid for or received, without the amount or date (e.g., "Lunch", "Uber").
+2. "amount": The amount as a positive number, or null if the note has none.
+3. "currency": The ISO 4217 code if the note names a currency (e.g., "EUR" for "eur", "€" or "euros"), otherwise null.
+4. "date": The date in "YYYY-MM-DD" format, worked out from today for words like "yesterday" or "on friday".
+   Use null if the note doesn't mention a date.
+5. "category": The category that best fits, chosen from:
+   [${categories.join(", ")}]
+   Use null if none fits.
+6. "type": "Income" if money was received, otherwise "Expense".
+
+Return your answer ONLY as a valid JSON object.
+`
+}
+
+export function buildQuickEntrySchema(categoryNames: string[]): ResponseSchema {
+  return {
+    type: 'object',
+    properties: {
+      name: { type: 'string', nullable: true },
+      amount: { type: 'number', nullable: true },
+      currency: { type: 'string', nullable: true, description: 'ISO 4217 code' },
+      date: { type: 'string', nullable: true, description: 'YYYY-MM-DD' },
+      category: {
+        type: 'string',
+        nullable: true,
+        ...(categoryNames.length > 0 && { format: 'enum', enum: categoryNames }),
+      },
+      type: { type: 'string', format: 'enum', enum: ['Expense', 'Income'] },
+    },
+    required: ['name', 'amount', 'currency', 'date', 'category', 'type'],
+  }
+}
+
+// Keep the fields of a model response that check out. Unlike receipts there
+// is no retry: the user is waiting on a single line, and whatever is still
+// missing can be typed into the form.
+export function parseQuickEntryResponse(text: string, categories: { id: string; name: string }[]): QuickEntryCompletion {
+  let raw: Record<string, unknown>
+  try {
+    raw = JSON.parse(text.trim())
+  } catch {
+    return {}
+  }
+  if (typeof raw !== 'object' || raw === null) return {}
+
+  const result: QuickEntryCompletion = {}
+  if (typeof raw.name === 'string' && raw.name.trim()) {
+    result.name = raw.name.trim()
+  }
+  if (typeof raw.amount === 'number' && isFinite(raw.amount) && raw.amount > 0) {
+    result.amount = Math.round(raw.amount * 100) / 100
+  }
+  if (typeof raw.currency === 'string' && findCurrency(raw.currency.toUpperCase())) {
+    result.currency = raw.currency.toUpperCase()
+  }
+  if (typeof raw.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.date)) {
+    const date = parseISO(raw.date)
+    if (isValid(date) && format(date, 'yyyy-MM-dd') === raw.date) {
+      result.date = raw.date
+    }
+  }
+  if (typeof raw.category === 'string') {
+    const name = raw.category.toLowerCase()
+    const category = categories.find(c => c.name.toLowerCase() === name)
+    if (category) result.categoryId = category.id
+  }
+  if (raw.type === 'Expense' || raw.type === 'Income') {
+    result.type = raw.type
+  }
+  return result
+}
+
+// Fill in what the parser couldn't resolve from the model's answer. Fields
+// the parser did resolve are kept: what was typed beats what was guessed.
+export function completeQuickEntry(result: QuickEntryResult, completion: QuickEntryCompletion): QuickEntryResult {
+  const draft = { ...result.draft }
+  const unresolved = result.unresolved.filter(field => {
+    if (field === 'name' && completion.name) {
+      draft.name = completion.name
+      return false
+    }
+    if (field === 'amount' && completion.amount) {
+      draft.amount = completion.amount.toString()
+      draft.currency = draft.currency ?? completion.currency
+      return false
+    }
+    if (field === 'category' && completion.categoryId) {
+      draft.categoryId = completion.categoryId
+      draft.type = completion.type ?? draft.type
+      return false
+    }
+    return true
+  })
+
+  if (!result.hasDate && completion.date) {
+    draft.date = parseISO(completion.date)
+  }
+  return { draft, unresolved, hasDate: result.hasDate || !!completion.date }
+}
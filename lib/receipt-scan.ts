@@ -0,0 +1,343 @@
+import { isValid, parseISO, format } from 'date-fns'
+import { findCurrency } from '@/lib/currency'
+import type { ReceiptImage, ReceiptScanner, ResponseSchema } from '@/lib/receipt-scanner'
+import { applyCategoryHistory, type CategoryHistoryEntry } from '@/lib/category-suggestions'
+import { applyRulesToReceipt, type RuleData } from '@/lib/rules'
+
+// The shape a receipt scan must come back in, and the checks it has to
+// pass before anything reaches the user. Nothing is silently replaced: a
+// response that fails is sent back to the model with the reasons.
+
+// One item on the receipt
+export type AiScanLineItem = {
+  name: string
+  amount: number // line total; negative for discounts
+  quantity: number | null
+  category: string | null // name of one of the user's categories
+  categoryId: string | null
+}
+
+// How sure the model is of each field, from 0 to 1
+export type ReceiptConfidence = {
+  name: number
+  amount: number
+  date: number
+  category: number
+}
+
+export type AiScanResponse = {
+  name: string
+  merchant: string | null
+  amount: number // total paid
+  subtotal: number | null
+  tax: number | null
+  tip: number | null
+  category: string | null // name of one of the user's categories
+  categoryId: string | null
+  date: string | null // "YYYY-MM-DD"; null when the receipt doesn't show one
+  currency?: string // ISO 4217, only when the AI could tell
+  lineItems: AiScanLineItem[]
+  confidence: ReceiptConfidence
+}
+
+// The instructions for the vision model.
+// The categories are the user's own expense categories.
+export function buildReceiptPrompt(categories: string[]) {
+  return `
+You are an expert receipt scanner for an expense tracker.
+Analyze the provided receipt image and extract the following:
+
+1. "name": A short description of the purchase (e.g., "Starbucks", "Weekly groceries").
+2. "merchant": The name of the store or business, exactly as printed. Use null if you can't tell.
+3. "amount": The final, total amount paid. Return this as a number, not a string.
+4. "subtotal": The total before tax and tip as a number, or null if the receipt doesn't show one.
+5. "tax": The tax amount as a number, or null if the receipt doesn't show one.
+6. "tip": The tip or gratuity as a number, or null if there is none.
+7. "date": The date of the transaction. Return in "YYYY-MM-DD" format.
+   If no date is printed or it can't be read, use null. Never guess or use today's date.
+8. "category": The category that best fits this transaction as a whole.
+   You MUST choose ONE of the following categories:
+   [${categories.join(", ")}]
+   If no category fits, use null.
+9. "currency": The ISO 4217 code of the currency the receipt is in (e.g., "USD", "EUR", "GBP").
+   Use the currency symbol, country or language of the receipt to decide. Use null if you can't tell.
+10. "lineItems": Every item purchased, in the order printed. Each has a "name", an "amount"
+    (the line total as a number; negative for discounts), a "quantity" (a number, or null if not printed)
+    and a "category" from the list above (or null). Use an empty array if the items can't be read.
+11. "confidence": How sure you are of "name", "amount", "date" and "category", each from 0
+    (a guess) to 1 (clearly printed and unambiguous).
+
+Return your answer ONLY as a valid JSON object in the following format:
+{
+  "name": "...",
+  "merchant": "...",
+  "amount": 12.34,
+  "subtotal": 11.00,
+  "tax": 1.34,
+  "tip": null,
+  "date": "YYYY-MM-DD",
+  "category": "...",
+  "currency": "EUR",
+  "lineItems": [{ "name": "...", "amount": 8.50, "quantity": 2, "category": "..." }, { "name": "...", "amount": 2.50, "quantity": null, "category": "..." }],
+  "confidence": { "name": 0.9, "amount": 1, "date": 0.8, "category": 0.6 }
+}
+`
+}
+
+// Below this the confirm step asks the user to check the field
+export const LOW_CONFIDENCE = 0.7
+
+const confidenceFields = ['name', 'amount', 'date', 'category'] as const
+
+export function buildReceiptSchema(categoryNames: string[]): ResponseSchema {
+  const money = (description: string): ResponseSchema => ({ type: 'number', nullable: true, description })
+  const category: ResponseSchema = {
+    type: 'string',
+    nullable: true,
+    ...(categoryNames.length > 0 && { format: 'enum', enum: categoryNames }),
+  }
+
+  return {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      merchant: { type: 'string', nullable: true },
+      amount: { type: 'number', description: 'Total paid' },
+      subtotal: money('Total before tax and tip'),
+      tax: money('Tax'),
+      tip: money('Tip or gratuity'),
+      date: { type: 'string', nullable: true, description: 'YYYY-MM-DD, or null if no date is printed' },
+      category,
+      currency: { type: 'string', nullable: true, description: 'ISO 4217 code' },
+      lineItems: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            amount: { type: 'number', description: 'Line total; negative for discounts' },
+            quantity: { type: 'number', nullable: true },
+            category,
+          },
+          required: ['name', 'amount', 'quantity', 'category'],
+        },
+      },
+      confidence: {
+        type: 'object',
+        description: 'How sure you are of each field, from 0 (guess) to 1 (clearly printed)',
+        properties: Object.fromEntries(confidenceFields.map(field => [field, { type: 'number' } as ResponseSchema])),
+        required: [...confidenceFields],
+      },
+    },
+    required: ['name', 'merchant', 'amount', 'subtotal', 'tax', 'tip', 'date', 'category', 'currency', 'lineItems', 'confidence'],
+  }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value)
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100
+
+// Check a raw model response against the schema and the user's categories.
+// Either the cleaned up receipt, or every problem found so the model can
+// fix them all at once.
+export function parseReceiptResponse(text: string, categories: { id: string; name: string }[]) {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text.trim())
+  } catch (error) {
+    return { success: false as const, errors: [`The response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`] }
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { success: false as const, errors: ['The response must be a JSON object'] }
+  }
+
+  const data = raw as Record<string, unknown>
+  const errors: string[] = []
+
+  const findCategoryByName = (value: unknown, field: string) => {
+    if (value === null) return null
+    const category = typeof value === 'string'
+      ? categories.find(c => c.name.toLowerCase() === value.toLowerCase())
+      : undefined
+    if (!category) {
+      errors.push(`"${field}" must be one of the listed categories or null, got ${JSON.stringify(value)}`)
+      return null
+    }
+    return category
+  }
+
+  const optionalMoney = (field: string) => {
+    const value = data[field]
+    if (value === null || value === undefined) return null
+    if (!isNumber(value) || value < 0) {
+      errors.push(`"${field}" must be a non-negative number or null`)
+      return null
+    }
+    return roundToCents(value)
+  }
+
+  const name = typeof data.name === 'string' ? data.name.trim() : ''
+  if (!name) {
+    errors.push('"name" must be a non-empty string')
+  }
+
+  if (!isNumber(data.amount) || data.amount <= 0) {
+    errors.push('"amount" must be a positive number')
+  }
+
+  let date: string | null = null
+  if (data.date !== null) {
+    const parsed = typeof data.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(data.date) ? parseISO(data.date) : null
+    // parseISO accepts 2024-02-30 as March 1st; only exact dates count
+    if (!parsed || !isValid(parsed) || format(parsed, 'yyyy-MM-dd') !== data.date) {
+      errors.push(`"date" must be a real date in YYYY-MM-DD format or null, got ${JSON.stringify(data.date)}`)
+    } else {
+      date = data.date as string
+    }
+  }
+
+  const category = findCategoryByName(data.category, 'category')
+
+  const lineItems: AiScanLineItem[] = []
+  if (!Array.isArray(data.lineItems)) {
+    errors.push('"lineItems" must be an array')
+  } else {
+    data.lineItems.forEach((item: Record<string, unknown> | null, i) => {
+      const field = `lineItems[${i}]`
+      if (typeof item !== 'object' || item === null) {
+        errors.push(`"${field}" must be an object`)
+        return
+      }
+      if (!isNumber(item.amount) || item.amount === 0) {
+        errors.push(`"${field}.amount" must be a non-zero number`)
+        return
+      }
+      if (item.quantity !== null && (!isNumber(item.quantity) || item.quantity <= 0)) {
+        errors.push(`"${field}.quantity" must be a positive number or null`)
+      }
+      const itemCategory = findCategoryByName(item.category, `${field}.category`)
+      lineItems.push({
+        name: typeof item.name === 'string' ? item.name.trim() : '',
+        amount: roundToCents(item.amount),
+        quantity: isNumber(item.quantity) ? item.quantity : null,
+        category: itemCategory?.name ?? null,
+        categoryId: itemCategory?.id ?? null,
+      })
+    })
+  }
+
+  const confidence = {} as ReceiptConfidence
+  const rawConfidence = (typeof data.confidence === 'object' && data.confidence) || {}
+  for (const field of confidenceFields) {
+    const value = (rawConfidence as Record<string, unknown>)[field]
+    if (!isNumber(value) || value < 0 || value > 1) {
+      errors.push(`"confidence.${field}" must be a number from 0 to 1`)
+    }
+    confidence[field] = isNumber(value) ? value : 0
+  }
+
+  const subtotal = optionalMoney('subtotal')
+  const tax = optionalMoney('tax')
+  const tip = optionalMoney('tip')
+
+  if (errors.length > 0) {
+    return { success: false as const, errors }
+  }
+
+  // Currencies the app doesn't support fall back to the base currency;
+  // that is a limitation of the app rather than a mistake by the model
+  const currencyCode = typeof data.currency === 'string' ? data.currency.toUpperCase() : ''
+
+  const receipt: AiScanResponse = {
+    name,
+    merchant: typeof data.merchant === 'string' && data.merchant.trim() ? data.merchant.trim() : null,
+    amount: roundToCents(data.amount as number),
+    subtotal,
+    tax,
+    tip,
+    category: category?.name ?? null,
+    categoryId: category?.id ?? null,
+    date,
+    currency: findCurrency(currencyCode) ? currencyCode : undefined,
+    lineItems,
+    confidence: {
+      ...confidence,
+      // A missing date is something the user has to fill in
+      date: date ? confidence.date : 0,
+    },
+  }
+  return { success: true as const, data: receipt }
+}
+
+// Appended to the prompt when retrying, so the model can correct itself
+export function buildRetryFeedback(response: string, errors: string[]) {
+  return `
+
+Your previous answer was:
+${response.slice(0, 4000)}
+
+It was rejected for these reasons:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Read the receipt again and return a corrected JSON object. Use null where a value isn't printed instead of guessing.`
+}
+
+// Attempts per scan, including the first. Each retry tells the model what
+// was wrong with its previous answer.
+const MAX_SCAN_ATTEMPTS = 3
+
+// Scan one receipt with retries. Used by the "Add with AI" action and the
+// batch scanning queue alike. The user's category history, when given,
+// overrides the category the model picked for a merchant they know, and
+// their rules override both. Errors from the backend (network, quota) are
+// thrown; describeScanError turns them into something to show the user.
+export async function runReceiptScan(
+  scanner: ReceiptScanner,
+  image: ReceiptImage,
+  categories: { id: string; name: string }[],
+  { history = [], rules = [] }: { history?: CategoryHistoryEntry[]; rules?: RuleData[] } = {}
+) {
+  const prompt = buildReceiptPrompt(categories.map(c => c.name))
+  const schema = buildReceiptSchema(categories.map(c => c.name))
+
+  let feedback = ''
+  for (let attempt = 1; attempt <= MAX_SCAN_ATTEMPTS; attempt++) {
+    const text = await scanner.scan(prompt + feedback, image, schema)
+
+    const parsed = parseReceiptResponse(text, categories)
+    if (parsed.success) {
+      const learned = applyCategoryHistory(parsed.data, history, categories)
+      return { success: true as const, data: applyRulesToReceipt(learned, rules, categories) }
+    }
+
+    console.warn('Scanner response failed validation:', parsed.errors)
+    feedback = buildRetryFeedback(text, parsed.errors)
+  }
+
+  return {
+    success: false as const,
+    error: 'The receipt couldn\'t be read reliably. Please try again with a clearer photo, or add the transaction manually.',
+  }
+}
+
+// A message for the user from an error thrown while scanning
+export function describeScanError(error: unknown) {
+  if (!(error instanceof Error)) {
+    return 'Failed to scan receipt. Please try again with a clearer image.'
+  }
+  if (error.message.includes('API key') || error.message.includes('API_KEY')) {
+    return 'Invalid API key. Please check your receipt scanner configuration.'
+  }
+  if (error.message.includes('quota') || error.message.includes('limit') || error.message.includes('QUOTA')) {
+    return 'API quota exceeded. Please try again later.'
+  }
+  if (error.message.includes('PERMISSION_DENIED')) {
+    return 'API access denied. Please check your API key permissions.'
+  }
+  if (error.message.includes('INVALID_ARGUMENT') || error.message.includes('Invalid image data')) {
+    return 'Invalid image format. Please try with a different image.'
+  }
+  if (error.message.includes('UNAVAILABLE') || error.message.includes('network') || error.message.includes('fetch failed')) {
+    return 'Service temporarily unavailable. Please try again.'
+  }
+  return 'Failed to scan receipt. Please try again with a clearer image.'
+}
@@ -0,0 +1,32 @@
+import { GoogleGenerativeAI, type Part, type ResponseSchema as GeminiResponseSchema } from '@google/generative-ai'
+import type { ReceiptImage, ReceiptScanner, ResponseSchema } from './types'
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-flash-lite-latest'
+
+export function createGeminiScanner(apiKey: string, model = DEFAULT_GEMINI_MODEL): ReceiptScanner {
+  const client = new GoogleGenerativeAI(apiKey)
+
+  const generate = async (parts: Part[], schema?: ResponseSchema) => {
+    const generativeModel = client.getGenerativeModel({
+      model,
+      generationConfig: schema && {
+        responseMimeType: 'application/json',
+        // Same shape; the SDK types 'type' as its SchemaType enum, whose
+        // values are these strings
+        responseSchema: schema as unknown as GeminiResponseSchema,
+      },
+    })
+    const result = await generativeModel.generateContent(parts)
+    return result.response.text()
+  }
+
+  return {
+    name: `gemini (${model})`,
+    scan(prompt: string, image: ReceiptImage, schema?: ResponseSchema) {
+      return generate([{ text: prompt }, { inlineData: { data: image.data, mimeType: image.mimeType } }], schema)
+    },
+    complete(prompt: string, schema?: ResponseSchema) {
+      return generate([{ text: prompt }], schema)
+    },
+  }
+}
@@ -0,0 +1,75 @@
+import { createGeminiScanner } from './gemini'
+import { createOpenAiCompatibleScanner, DEFAULT_OPENAI_BASE_URL } from './openai-compatible'
+import { createMockScanner } from './mock'
+import type { ReceiptImage, ReceiptScanner, ResponseSchema } from './types'
+
+export type { ReceiptImage, ReceiptScanner, ResponseSchema }
+
+export const receiptScannerBackends = ['gemini', 'openai', 'mock'] as const
+
+export type ReceiptScannerBackend = typeof receiptScannerBackends[number]
+
+function isReceiptScannerBackend(value: string): value is ReceiptScannerBackend {
+  return (receiptScannerBackends as readonly string[]).includes(value)
+}
+
+// Pick the backend from the environment:
+//
+//   RECEIPT_SCANNER         gemini (default), openai or mock
+//   GEMINI_API_KEY          required for gemini
+//   GEMINI_MODEL            defaults to gemini-flash-lite-latest
+//   OPENAI_BASE_URL         defaults to a local Ollama server
+//   OPENAI_MODEL            required for openai, e.g. llama3.2-vision
+//   OPENAI_API_KEY          only if the server wants one
+//   RECEIPT_SCANNER_FIXTURE file with the response the mock returns
+//
+// Built on every call rather than at import time, so a missing key is
+// reported to the user instead of breaking the module.
+export function getReceiptScanner(env: NodeJS.ProcessEnv = process.env) {
+  const backend = (env.RECEIPT_SCANNER || 'gemini').trim().toLowerCase()
+  if (!isReceiptScannerBackend(backend)) {
+    return {
+      success: false as const,
+      error: `Unknown receipt scanner "${backend}". Set RECEIPT_SCANNER to one of: ${receiptScannerBackends.join(', ')}.`,
+    }
+  }
+
+  switch (backend) {
+    case 'gemini':
+      if (!env.GEMINI_API_KEY) {
+        return {
+          success: false as const,
+          error: 'Gemini API key not configured. Please add GEMINI_API_KEY to your .env file.',
+        }
+      }
+      return { success: true as const, scanner: createGeminiScanner(env.GEMINI_API_KEY, env.GEMINI_MODEL || undefined) }
+
+    case 'openai':
+      if (!env.OPENAI_MODEL) {
+        return {
+          success: false as const,
+          error: 'No model configured for the OpenAI-compatible scanner. Please add OPENAI_MODEL to your .env file.',
+        }
+      }
+      return {
+        success: true as const,
+        scanner: createOpenAiCompatibleScanner(env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL, env.OPENAI_MODEL, env.OPENAI_API_KEY),
+      }
+
+    case 'mock':
+      return { success: true as const, scanner: createMockScanner(env.RECEIPT_SCANNER_FIXTURE || undefined) }
+  }
+}
+
+// Split a data URL from the client ("data:image/jpeg;base64,...") into
+// what the scanners need
+export function parseReceiptImage(dataUrl: string): ReceiptImage {
+  const [header, data] = dataUrl.split(',')
+  const mimeType = header.match(/:(.*?);/)?.[1]
+
+  if (!mimeType || !data) {
+    throw new Error('Invalid image data')
+  }
+
+  return { mimeType, data }
+}
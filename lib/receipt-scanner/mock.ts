@@ -0,0 +1,55 @@
+import { readFile } from 'fs/promises'
+import { format } from 'date-fns'
+import type { ReceiptScanner } from './types'
+
+// Answers every scan with the same receipt, dated today so it shows up in
+// the current month. Its items use two of the default categories, so the
+// confirm step has something to split.
+function defaultFixture() {
+  return JSON.stringify({
+    name: 'Weekly shop',
+    merchant: 'Corner Market',
+    amount: 25.79,
+    subtotal: 23.45,
+    tax: 2.34,
+    tip: null,
+    date: format(new Date(), 'yyyy-MM-dd'),
+    category: 'Groceries',
+    currency: null,
+    lineItems: [
+      { name: 'Milk', amount: 2.49, quantity: 1, category: 'Groceries' },
+      { name: 'Bread', amount: 3.2, quantity: 1, category: 'Groceries' },
+      { name: 'Apples', amount: 4.76, quantity: 4, category: 'Groceries' },
+      { name: 'Dish soap', amount: 5.5, quantity: 1, category: 'Shopping' },
+      { name: 'Paper towels', amount: 7.5, quantity: 2, category: 'Shopping' },
+    ],
+    confidence: { name: 0.9, amount: 1, date: 1, category: 0.6 },
+  })
+}
+
+// The answer to every text prompt: a quick entry note about a coffee today
+function defaultCompletion() {
+  return JSON.stringify({
+    name: 'Coffee',
+    amount: 4.5,
+    currency: null,
+    date: format(new Date(), 'yyyy-MM-dd'),
+    category: 'Food',
+    type: 'Expense',
+  })
+}
+
+// Never touches the network, so the "Add with AI" flow can be used in
+// development and tests. 'fixturePath' points at a file holding the raw
+// model response to return for scans instead of the built-in one.
+export function createMockScanner(fixturePath?: string): ReceiptScanner {
+  return {
+    name: fixturePath ? `mock (${fixturePath})` : 'mock',
+    async scan() {
+      return fixturePath ? readFile(fixturePath, 'utf8') : defaultFixture()
+    },
+    async complete() {
+      return defaultCompletion()
+    },
+  }
+}
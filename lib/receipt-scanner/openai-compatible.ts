@@ -0,0 +1,81 @@
+import type { ReceiptImage, ReceiptScanner, ResponseSchema } from './types'
+
+// Ollama's OpenAI-compatible endpoint; LM Studio, vLLM and llama.cpp's
+// server speak the same chat completions API
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1'
+
+type ChatContent =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+
+type ChatCompletionResponse = {
+  choices?: { message?: { content?: string | null } }[]
+  error?: { message?: string }
+}
+
+// JSON Schema has no 'nullable'; a nullable field allows 'null' as a type
+// instead. Gemini's enum format marker isn't part of JSON Schema either.
+function toJsonSchema({ nullable, format, properties, items, ...schema }: ResponseSchema): Record<string, unknown> {
+  return {
+    ...schema,
+    type: nullable ? [schema.type, 'null'] : schema.type,
+    ...(schema.enum && nullable && { enum: [...schema.enum, null] }),
+    ...(format && format !== 'enum' && { format }),
+    ...(properties && {
+      properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)])),
+      additionalProperties: false,
+    }),
+    ...(items && { items: toJsonSchema(items) }),
+  }
+}
+
+// Any server implementing OpenAI's chat completions API with image input.
+// Local servers usually don't need an API key.
+export function createOpenAiCompatibleScanner(baseUrl: string, model: string, apiKey?: string): ReceiptScanner {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  const request = async (content: ChatContent[], schema?: ResponseSchema) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        temperature: 0,
+        ...(schema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', strict: true, schema: toJsonSchema(schema) },
+          },
+        }),
+      }),
+    })
+
+    const body = await response.json().catch(() => null) as ChatCompletionResponse | null
+    if (!response.ok) {
+      throw new Error(`Receipt scanner request failed (${response.status}): ${body?.error?.message || response.statusText}`)
+    }
+
+    const text = body?.choices?.[0]?.message?.content
+    if (!text) {
+      throw new Error('Receipt scanner returned an empty response')
+    }
+    return text
+  }
+
+  return {
+    name: `openai-compatible (${model} at ${baseUrl})`,
+    scan(prompt: string, image: ReceiptImage, schema?: ResponseSchema) {
+      return request([
+        { type: 'text', text: prompt },
+        { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+      ], schema)
+    },
+    complete(prompt: string, schema?: ResponseSchema) {
+      return request([{ type: 'text', text: prompt }], schema)
+    },
+  }
+}
@@ -0,0 +1,33 @@
+// A receipt photo as sent by the client, split out of its data URL
+export type ReceiptImage = {
+  mimeType: string
+  // Base64, without the "data:...;base64," prefix
+  data: string
+}
+
+// The subset of OpenAPI 3 schemas that Gemini's structured output accepts.
+// Backends speaking JSON Schema convert it; see openai-compatible.ts.
+export type ResponseSchema = {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  description?: string
+  nullable?: boolean
+  format?: string
+  enum?: string[]
+  properties?: Record<string, ResponseSchema>
+  required?: string[]
+  items?: ResponseSchema
+}
+
+// A vision model that reads receipts, also used for text-only prompts such
+// as quick entry. Backends only run the prompt and return the model's raw
+// text; parsing and validating it is left to the caller so every backend is
+// held to the same rules.
+export interface ReceiptScanner {
+  // Shown in logs, e.g. "gemini (gemini-flash-lite-latest)"
+  readonly name: string
+  // 'schema' asks the model for JSON in that shape, where the backend
+  // supports structured output. The caller still validates the result.
+  scan(prompt: string, image: ReceiptImage, schema?: ResponseSchema): Promise<string>
+  // The same without an image
+  complete(prompt: string, schema?: ResponseSchema): Promise<string>
+}
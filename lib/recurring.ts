@@ -0,0 +1,54 @@
+import { addWeeks, addMonths, addYears } from 'date-fns'
+
+export type Cadence = 'Weekly' | 'Monthly' | 'Yearly'
+
+export const cadenceOptions: { value: Cadence; label: string }[] = [
+  { value: 'Weekly', label: 'Every week' },
+  { value: 'Monthly', label: 'Every month' },
+  { value: 'Yearly', label: 'Every year' },
+]
+
+export function isCadence(value: string): value is Cadence {
+  return cadenceOptions.some(option => option.value === value)
+}
+
+// The n-th occurrence is always derived from the start date rather than the
+// previous occurrence, so a series starting on the 31st stays on month-end
+// instead of drifting to the 28th after February.
+function nthOccurrence(startDate: Date, cadence: Cadence, n: number) {
+  switch (cadence) {
+    case 'Weekly':
+      return addWeeks(startDate, n)
+    case 'Monthly':
+      return addMonths(startDate, n)
+    case 'Yearly':
+      return addYears(startDate, n)
+  }
+}
+
+// All scheduled dates of a recurring transaction that fall within [from, to]
+export function getOccurrences(
+  rule: { cadence: Cadence; startDate: Date; endDate?: Date | null },
+  from: Date,
+  to: Date
+): Date[] {
+  const occurrences: Date[] = []
+  const last = rule.endDate && rule.endDate < to ? rule.endDate : to
+
+  for (let n = 0; ; n++) {
+    const date = nthOccurrence(new Date(rule.startDate), rule.cadence, n)
+    if (date > last) break
+    if (date >= from) occurrences.push(date)
+  }
+
+  return occurrences
+}
+
+// Whether the series is scheduled on exactly this date and time
+export function isOccurrenceDate(
+  rule: { cadence: Cadence; startDate: Date; endDate?: Date | null },
+  date: Date
+) {
+  const day = new Date(date)
+  return !isNaN(day.getTime()) && getOccurrences(rule, day, day).length === 1
+}
@@ -0,0 +1,249 @@
+import type { AiScanResponse } from '@/lib/receipt-scan'
+import { MAX_TAG_LENGTH, normalizeTag } from '@/lib/tags'
+
+// The auto-categorization rules engine. Pure functions, shared by the
+// server (new transactions, imports, scanned receipts, re-applying rules to
+// past transactions) and the rules form.
+
+// A rule as the engine and the client see it; amounts are numbers
+export type RuleData = {
+  id: string
+  name: string
+  enabled: boolean
+  nameContains: string | null
+  namePattern: string | null
+  minAmount: number | null
+  maxAmount: number | null
+  weekdays: number[]
+  transactionType: string | null
+  categoryId: string | null
+  rename: string | null
+  addTag: string | null
+}
+
+// What the rules form holds; text inputs stay strings while being typed
+export type RuleFormData = {
+  name: string
+  enabled: boolean
+  nameContains: string
+  namePattern: string
+  minAmount: string
+  maxAmount: string
+  weekdays: number[]
+  categoryId: string | null
+  rename: string
+  addTag: string
+}
+
+// The parts of a transaction rules look at and change
+export type RuleTarget = {
+  name: string
+  // In the user's base currency
+  amount: number
+  date: Date
+  type: string
+  categoryId: string | null
+  tags: string[]
+  // Split transactions are categorized through their splits, so rules
+  // leave their category alone
+  isSplit?: boolean
+}
+
+export type RuleResult = {
+  name: string
+  categoryId: string | null
+  tags: string[]
+  // Rules that matched, in the order they ran
+  ruleIds: string[]
+}
+
+// Long patterns are more likely to be slow than useful
+export const MAX_PATTERN_LENGTH = 200
+
+// Only the start of a long name is matched against, so one transaction
+// can't make every rule slow
+const MAX_MATCHED_NAME_LENGTH = 200
+
+export const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Whether the whole text matches a wildcard pattern, where '*' is any run
+// of characters and '?' a single one; case doesn't matter. Rules run on the
+// server, so this walks the text once with a single backtrack point instead
+// of compiling user-written regular expressions, which can take
+// exponential time.
+export function wildcardMatches(pattern: string, text: string) {
+  const p = pattern.toLowerCase()
+  const t = text.toLowerCase()
+  let pi = 0
+  let ti = 0
+  // Where the last '*' was, and where in the text it started matching
+  let star = -1
+  let starText = 0
+
+  while (ti < t.length) {
+    if (pi < p.length && (p[pi] === '?' || p[pi] === t[ti])) {
+      pi++
+      ti++
+    } else if (pi < p.length && p[pi] === '*') {
+      star = pi++
+      starText = ti
+    } else if (star !== -1) {
+      // Let the last '*' swallow one more character and try again
+      pi = star + 1
+      ti = ++starText
+    } else {
+      return false
+    }
+  }
+  while (p[pi] === '*') pi++
+  return pi === p.length
+}
+
+export function ruleMatches(rule: RuleData, target: RuleTarget) {
+  const name = target.name.slice(0, MAX_MATCHED_NAME_LENGTH)
+  if (rule.nameContains && !name.toLowerCase().includes(rule.nameContains.toLowerCase())) return false
+  if (rule.namePattern && !wildcardMatches(rule.namePattern, name)) return false
+  if (rule.minAmount !== null && target.amount < rule.minAmount) return false
+  if (rule.maxAmount !== null && target.amount > rule.maxAmount) return false
+  if (rule.weekdays.length > 0 && !rule.weekdays.includes(target.date.getDay())) return false
+  if (rule.transactionType && rule.transactionType !== target.type) return false
+  return true
+}
+
+// Run the enabled rules over a transaction, in order. Every matching rule
+// applies: a later rule's category or name wins, tags add up. Conditions
+// are checked against the transaction as it came in, so a rename doesn't
+// change which rules match.
+//
+// 'overrideCategory' is off for new transactions, where a category the user
+// picked beats any rule; re-applying rules to past transactions turns it on.
+export function applyRules(rules: RuleData[], target: RuleTarget, overrideCategory: boolean): RuleResult {
+  const result: RuleResult = { name: target.name, categoryId: target.categoryId, tags: [...target.tags], ruleIds: [] }
+  const canSetCategory = !target.isSplit && target.type !== 'Transfer' && (overrideCategory || !target.categoryId)
+
+  for (const rule of rules) {
+    if (!rule.enabled || !ruleMatches(rule, target)) continue
+    result.ruleIds.push(rule.id)
+
+    if (rule.categoryId && canSetCategory) {
+      result.categoryId = rule.categoryId
+    }
+    if (rule.rename) {
+      result.name = rule.rename
+    }
+    if (rule.addTag && !result.tags.includes(rule.addTag)) {
+      result.tags.push(rule.addTag)
+    }
+  }
+  return result
+}
+
+// Whether applying the rules changed anything
+export function ruleResultChanges(target: RuleTarget, result: RuleResult) {
+  return result.name !== target.name ||
+    result.categoryId !== target.categoryId ||
+    result.tags.length !== target.tags.length
+}
+
+// Run the rules over a scanned receipt so the review shows their result.
+// The receipt's category came from the AI model, so a rule replaces it;
+// items the model put all in one category follow. Rules are matched on the
+// name, or on the merchant when nothing matches the name. Tags are added
+// when the receipt is saved, like for any new transaction.
+export function applyRulesToReceipt(
+  receipt: AiScanResponse,
+  rules: RuleData[],
+  categories: { id: string; name: string }[]
+): AiScanResponse {
+  const run = (name: string) => applyRules(rules, {
+    name,
+    amount: receipt.amount,
+    date: receipt.date ? new Date(`${receipt.date}T00:00:00`) : new Date(),
+    type: 'Expense',
+    categoryId: receipt.categoryId,
+    tags: [],
+  }, true)
+
+  let result = run(receipt.name)
+  if (result.ruleIds.length === 0 && receipt.merchant) {
+    result = run(receipt.merchant)
+    // The rename applies to the transaction's name, not the merchant
+    result = { ...result, name: result.name === receipt.merchant ? receipt.name : result.name }
+  }
+  if (result.ruleIds.length === 0) return receipt
+
+  const category = result.categoryId !== receipt.categoryId
+    ? categories.find(c => c.id === result.categoryId)
+    : undefined
+  const itemCategories = new Set(receipt.lineItems.map(item => item.categoryId))
+
+  return {
+    ...receipt,
+    name: result.name,
+    ...(category && {
+      category: category.name,
+      categoryId: category.id,
+      lineItems: itemCategories.size === 1
+        ? receipt.lineItems.map(item => ({ ...item, category: category.name, categoryId: category.id }))
+        : receipt.lineItems,
+      confidence: { ...receipt.confidence, category: 1 },
+    }),
+  }
+}
+
+// Returns an error message, or null when the rule can be saved
+export function validateRule(data: RuleFormData) {
+  if (!data.name.trim()) {
+    return 'Please give the rule a name'
+  }
+
+  const hasCondition = data.nameContains.trim() || data.namePattern.trim() ||
+    data.minAmount.trim() || data.maxAmount.trim() || data.weekdays.length > 0
+  if (!hasCondition) {
+    return 'Add at least one condition, or the rule would change every transaction'
+  }
+  if (!data.categoryId && !data.rename.trim() && !normalizeTag(data.addTag)) {
+    return 'Add at least one action: a category, a new name or a tag'
+  }
+
+  if (normalizeTag(data.addTag).length > MAX_TAG_LENGTH) {
+    return `Tags can be at most ${MAX_TAG_LENGTH} characters`
+  }
+  if (data.namePattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns can be at most ${MAX_PATTERN_LENGTH} characters`
+  }
+
+  const min = data.minAmount.trim() ? parseFloat(data.minAmount) : null
+  const max = data.maxAmount.trim() ? parseFloat(data.maxAmount) : null
+  if ((min !== null && (isNaN(min) || min < 0)) || (max !== null && (isNaN(max) || max < 0))) {
+    return 'Amounts must be positive numbers'
+  }
+  if (min !== null && max !== null && min > max) {
+    return 'The minimum amount is larger than the maximum'
+  }
+
+  if (data.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return 'Invalid weekday'
+  }
+  return null
+}
+
+// Plain-language summary for the rules list, e.g.
+// 'Name contains "uber" → Transportation'
+export function describeRuleConditions(rule: RuleData) {
+  const parts: string[] = []
+  if (rule.nameContains) parts.push(`name contains "${rule.nameContains}"`)
+  if (rule.namePattern) parts.push(`name matches "${rule.namePattern}"`)
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    parts.push(`amount ${rule.minAmount}–${rule.maxAmount}`)
+  } else if (rule.minAmount !== null) {
+    parts.push(`amount ≥ ${rule.minAmount}`)
+  } else if (rule.maxAmount !== null) {
+    parts.push(`amount ≤ ${rule.maxAmount}`)
+  }
+  if (rule.weekdays.length > 0) {
+    parts.push(`on ${[...rule.weekdays].sort().map(day => weekdayLabels[day]).join(', ')}`)
+  }
+  const text = parts.join(' and ')
+  return text && text[0].toUpperCase() + text.slice(1)
+}
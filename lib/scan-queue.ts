@@ -0,0 +1,157 @@
+import type { ReceiptScan } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAttachmentStorage, deleteStoredFiles } from '@/lib/attachment-storage'
+import { getReceiptScanner } from '@/lib/receipt-scanner'
+import { describeScanError, runReceiptScan, type AiScanResponse } from '@/lib/receipt-scan'
+import { getCategoryChoices, getCategoryHistory } from '@/lib/user-categories'
+import { getActiveRules } from '@/lib/user-rules'
+
+// The batch scanning queue. Uploaded receipts wait as Pending ReceiptScan
+// rows and are worked through in this process, a few at a time, so a batch
+// of 30 receipts doesn't hit the scanner's rate limits all at once.
+// The rows are the source of truth: the queue survives restarts, and
+// progress is read straight from them.
+
+// Scans running at once in this process; RECEIPT_SCAN_CONCURRENCY overrides it
+const DEFAULT_CONCURRENCY = 2
+
+// A scan still Processing after this long was cut off (e.g. by a restart)
+const STALE_AFTER_MS = 5 * 60 * 1000
+
+// Unsaved scans are removed after this many days
+export const SCAN_RETENTION_DAYS = 7
+
+let activeScans = 0
+
+function concurrency() {
+  const value = parseInt(process.env.RECEIPT_SCAN_CONCURRENCY || '', 10)
+  return value > 0 ? value : DEFAULT_CONCURRENCY
+}
+
+// Only the fields the review list needs
+export function serializeReceiptScan(scan: ReceiptScan) {
+  return {
+    id: scan.id,
+    batchId: scan.batchId,
+    fileName: scan.fileName,
+    status: scan.status as string,
+    result: scan.result as AiScanResponse | null,
+    error: scan.error,
+  }
+}
+
+export type SerializedReceiptScan = ReturnType<typeof serializeReceiptScan>
+
+// Take the oldest Pending scan. The status check in the update makes sure
+// two workers never take the same one.
+async function claimNextScan() {
+  while (true) {
+    const next = await prisma.receiptScan.findFirst({
+      where: { status: 'Pending' },
+      orderBy: { createdAt: 'asc' },
+    })
+    if (!next) return null
+
+    const claimed = await prisma.receiptScan.updateMany({
+      where: { id: next.id, status: 'Pending' },
+      data: { status: 'Processing' },
+    })
+    if (claimed.count === 1) return next
+  }
+}
+
+async function runScan(scan: ReceiptScan) {
+  // The row may be gone if the user discarded it meanwhile, hence updateMany
+  const fail = (error: string) => prisma.receiptScan.updateMany({
+    where: { id: scan.id },
+    data: { status: 'Failed', error: error },
+  })
+
+  try {
+    const scanner = getReceiptScanner()
+    if (!scanner.success) {
+      await fail(scanner.error)
+      return
+    }
+    const storage = getAttachmentStorage()
+    if (!storage.success) {
+      await fail(storage.error)
+      return
+    }
+
+    const data = await storage.storage.get(scan.storageKey)
+    if (!data) {
+      await fail('The receipt image is missing from storage')
+      return
+    }
+
+    const categories = await getCategoryChoices(scan.userId, 'Expense')
+    const history = await getCategoryHistory(scan.userId)
+    const rules = await getActiveRules(scan.userId)
+    const result = await runReceiptScan(
+      scanner.scanner,
+      { mimeType: scan.mimeType, data: data.toString('base64') },
+      categories,
+      { history, rules }
+    )
+
+    if (result.success) {
+      await prisma.receiptScan.updateMany({
+        where: { id: scan.id },
+        data: { status: 'Done', result: result.data, error: null },
+      })
+    } else {
+      await fail(result.error)
+    }
+  } catch (error) {
+    console.error(`Error scanning receipt ${scan.id}:`, error)
+    await fail(describeScanError(error)).catch(() => {})
+  }
+}
+
+// Work through Pending scans until there are none left, keeping at most
+// 'concurrency' running. Safe to call any number of times: extra calls
+// return once all slots are busy. Resolves when the work it started is done.
+export async function processScanQueue(): Promise<void> {
+  // Put scans that were cut off back in line
+  await prisma.receiptScan.updateMany({
+    where: { status: 'Processing', updatedAt: { lt: new Date(Date.now() - STALE_AFTER_MS) } },
+    data: { status: 'Pending' },
+  })
+
+  const running: Promise<void>[] = []
+  while (activeScans < concurrency()) {
+    activeScans++
+    const scan = await claimNextScan().catch(error => {
+      console.error('Error claiming a receipt scan:', error)
+      return null
+    })
+    if (!scan) {
+      activeScans--
+      break
+    }
+
+    running.push(
+      runScan(scan)
+        .finally(() => { activeScans-- })
+        // A slot is free again; look for more work
+        .then(() => processScanQueue())
+    )
+  }
+
+  await Promise.all(running)
+}
+
+// Remove the user's scans that were never saved or discarded
+export async function removeExpiredScans(userId: string) {
+  const where = {
+    userId: userId,
+    createdAt: { lt: new Date(Date.now() - SCAN_RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+    status: { not: 'Processing' as const },
+  }
+  const expired = await prisma.receiptScan.findMany({ where, select: { storageKey: true } })
+  if (expired.length === 0) return
+
+  await prisma.receiptScan.deleteMany({ where })
+  await deleteStoredFiles(expired.map(scan => scan.storageKey))
+}
@@ -0,0 +1,93 @@
+// Helpers for splitting a transaction between categories, shared by the
+// transaction form and the server actions.
+
+// One part of a split transaction as entered in the form. The amount is in
+// the currency the transaction was entered in.
+export type SplitFormData = {
+  name?: string
+  amount: string
+  categoryId: string | null
+}
+
+// Fewer parts than this isn't a split
+export const MIN_SPLITS = 2
+
+// Compare money in whole cents to avoid floating point drift
+export function toCents(amount: number) {
+  return Math.round(amount * 100)
+}
+
+// Part of the total not assigned to any split yet; negative when the
+// splits add up to more than the total
+export function unassignedAmount(total: number, splits: { amount: string }[]) {
+  const assigned = splits.reduce((sum, split) => sum + toCents(parseFloat(split.amount) || 0), 0)
+  return (toCents(total) - assigned) / 100
+}
+
+// Returns an error message, or null when the splits are valid
+export function validateSplitAmounts(total: number, splits: SplitFormData[]) {
+  if (splits.length < MIN_SPLITS) {
+    return `A split needs at least ${MIN_SPLITS} parts`
+  }
+  if (splits.some(split => !(parseFloat(split.amount) > 0))) {
+    return 'Every split needs a positive amount'
+  }
+  const unassigned = unassignedAmount(total, splits)
+  if (unassigned !== 0) {
+    return `Splits must add up to the total (${unassigned > 0 ? 'short' : 'over'} by ${Math.abs(unassigned).toFixed(2)})`
+  }
+  return null
+}
+
+// Convert split amounts with the transaction's exchange rate. Each one is
+// rounded to cents, and the rounding difference goes to the last split so
+// they still add up to the converted total.
+export function convertSplitAmounts(amounts: number[], rate: number, convertedTotal: number) {
+  const cents = amounts.map(amount => toCents(amount * rate))
+  cents[cents.length - 1] += toCents(convertedTotal) - cents.reduce((sum, c) => sum + c, 0)
+  return cents.map(c => c / 100)
+}
+
+// A purchase on a receipt and the category it belongs to
+export type LineItem = {
+  name: string
+  amount: number
+  categoryId: string | null
+}
+
+// How many item names a split lists before summarizing the rest
+const MAX_SPLIT_ITEM_NAMES = 3
+
+// Group receipt line items into one split per category. Whatever the items
+// don't cover (tax, tip, discounts) is shared out in proportion to each
+// category's items, so the splits add up to the total. Returns no splits
+// when the items are all in one category or don't make valid splits.
+export function splitsFromLineItems(total: number, items: LineItem[]): SplitFormData[] {
+  const groups = new Map<string | null, { names: string[]; cents: number }>()
+  for (const item of items) {
+    const group = groups.get(item.categoryId) || { names: [], cents: 0 }
+    if (item.name) group.names.push(item.name)
+    group.cents += toCents(item.amount)
+    groups.set(item.categoryId, group)
+  }
+
+  const itemCents = [...groups.values()].reduce((sum, group) => sum + group.cents, 0)
+  if (groups.size < MIN_SPLITS || itemCents <= 0) {
+    return []
+  }
+
+  const entries = [...groups.entries()]
+  const cents = entries.map(([, group]) => Math.round(group.cents * toCents(total) / itemCents))
+  cents[cents.length - 1] += toCents(total) - cents.reduce((sum, c) => sum + c, 0)
+
+  const splits = entries.map(([categoryId, group], i) => {
+    const extra = group.names.length - MAX_SPLIT_ITEM_NAMES
+    return {
+      name: group.names.slice(0, MAX_SPLIT_ITEM_NAMES).join(', ') + (extra > 0 ? ` +${extra} more` : ''),
+      amount: (cents[i] / 100).toFixed(2),
+      categoryId,
+    }
+  })
+
+  return validateSplitAmounts(total, splits) ? [] : splits
+}
@@ -0,0 +1,85 @@
+import { addDays, addMonths, format, getDaysInMonth, isAfter, startOfDay, subDays } from 'date-fns'
+
+// Credit card statement cycles. A card's statement closes on the same day
+// every month and covers the days since the previous one closed; its
+// payment is due on another day, after it closes. A closing or due day
+// past the end of a short month falls on its last day.
+
+export type StatementCycle = {
+  // First and last day of the cycle, inclusive
+  start: Date
+  end: Date
+}
+
+// Where a card stands with its statements, from getAccounts
+export type CardStatement = {
+  cycleStart: Date
+  // The day the current statement closes
+  cycleEnd: Date
+  // Charged to the card since the last statement closed
+  cycleSpend: number
+  // When the last statement closed, and what was owed on it
+  lastClosingDate: Date
+  statementBalance: number
+  // Null without a due day
+  dueDate: Date | null
+  // Paid into the card since the last statement closed
+  paidSinceStatement: number
+  // Whether the last statement was paid in full, or nothing was owed
+  isPaid: boolean
+  isOverdue: boolean
+}
+
+export function isStatementDay(value: number) {
+  return Number.isInteger(value) && value >= 1 && value <= 31
+}
+
+// The day in the month of 'month', clamped to the month's length
+function dayIn(month: Date, day: number) {
+  return new Date(month.getFullYear(), month.getMonth(), Math.min(day, getDaysInMonth(month)))
+}
+
+// The cycle the day falls in: it ends on the first closing day on or
+// after it
+export function statementCycle(closingDay: number, date: Date): StatementCycle {
+  const day = startOfDay(date)
+  let end = dayIn(day, closingDay)
+  if (end < day) {
+    end = dayIn(addMonths(new Date(day.getFullYear(), day.getMonth(), 1), 1), closingDay)
+  }
+  const previousEnd = dayIn(addMonths(new Date(end.getFullYear(), end.getMonth(), 1), -1), closingDay)
+  return { start: addDays(previousEnd, 1), end }
+}
+
+// The cycles that overlap [from, to], oldest first
+export function statementCyclesBetween(closingDay: number, from: Date, to: Date): StatementCycle[] {
+  const cycles: StatementCycle[] = []
+  let cycle = statementCycle(closingDay, from)
+  while (!isAfter(cycle.start, to)) {
+    cycles.push(cycle)
+    cycle = statementCycle(closingDay, addDays(cycle.end, 1))
+  }
+  return cycles
+}
+
+// The current cycle and the 'count - 1' before it, oldest first
+export function recentStatementCycles(closingDay: number, count: number, today = new Date()): StatementCycle[] {
+  const cycles = [statementCycle(closingDay, today)]
+  while (cycles.length < count) {
+    cycles.unshift(statementCycle(closingDay, subDays(cycles[0].start, 1)))
+  }
+  return cycles
+}
+
+// The first due day after a statement closes
+export function paymentDueDate(closingDate: Date, dueDay: number) {
+  const due = dayIn(closingDate, dueDay)
+  return due > startOfDay(closingDate)
+    ? due
+    : dayIn(addMonths(new Date(closingDate.getFullYear(), closingDate.getMonth(), 1), 1), dueDay)
+}
+
+// e.g. "Sep 25 – Oct 24"
+export function formatStatementCycle(cycle: StatementCycle) {
+  return `${format(cycle.start, 'MMM d')} – ${format(cycle.end, 'MMM d')}`
+}
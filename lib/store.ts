@@ -1,5 +1,8 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { type Currency, DEFAULT_CURRENCY, findCurrency, formatCurrency } from '@/lib/currency'
+import type { UserCategory } from '@/lib/categories'
+import type { UserLedger } from '@/lib/ledgers'
 
 type Theme = 'light' | 'dark' | 'system'
 
@@ -9,37 +12,30 @@ interface ThemeStore {
   resolvedTheme: 'light' | 'dark'
 }
 
-export interface Currency {
-  code: string
-  symbol: string
-  name: string
-}
-
-export const currencies: Currency[] = [
-  { code: 'USD', symbol: '$', name: 'US Dollar' },
-  { code: 'EUR', symbol: '€', name: 'Euro' },
-  { code: 'GBP', symbol: '£', name: 'British Pound' },
-  { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
-  { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' },
-  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
-  { code: 'CHF', symbol: 'Fr', name: 'Swiss Franc' },
-  { code: 'CNY', symbol: '¥', name: 'Chinese Yuan' },
-]
-
 interface CurrencyStore {
   currency: Currency
   setCurrency: (currency: Currency) => void
+  // Apply the currency saved on the server; unknown codes are ignored
+  hydrateCurrency: (code: string) => void
   formatAmount: (amount: number) => string
 }
 
+// The database is the source of truth for the user's currency.
+// localStorage only keeps the last known value so the first paint is right.
 export const useCurrencyStore = create<CurrencyStore>()(
   persist(
     (set, get) => ({
-      currency: currencies[0], // Default to USD
+      currency: DEFAULT_CURRENCY,
       setCurrency: (currency: Currency) => set({ currency }),
+      hydrateCurrency: (code: string) => {
+        const currency = findCurrency(code)
+        if (currency && currency.code !== get().currency.code) {
+          set({ currency })
+        }
+      },
       formatAmount: (amount: number) => {
         const { currency } = get()
-        return `${currency.symbol}${amount.toFixed(2)}`
+        return formatCurrency(amount, currency.code)
       },
     }),
     {
@@ -48,6 +44,52 @@ export const useCurrencyStore = create<CurrencyStore>()(
   )
 )
 
+interface CategoryStore {
+  categories: UserCategory[]
+  // False until the categories have been fetched once
+  isLoaded: boolean
+  setCategories: (categories: UserCategory[]) => void
+}
+
+// The signed-in user's categories, loaded by CategorySync and refreshed
+// after they are edited. Not persisted: they belong to the account.
+export const useCategoryStore = create<CategoryStore>()((set) => ({
+  categories: [],
+  isLoaded: false,
+  setCategories: (categories: UserCategory[]) => set({ categories, isLoaded: true }),
+}))
+
+interface LedgerStore {
+  // The shared ledger the dashboard shows, or null for the personal one
+  ledgerId: string | null
+  setLedgerId: (ledgerId: string | null) => void
+  // The ledgers the user belongs to, loaded by LedgerSync
+  ledgers: UserLedger[]
+  setLedgers: (ledgers: UserLedger[]) => void
+}
+
+// Only the choice of ledger is persisted; the list belongs to the account.
+// Categories and the currency follow the ledger that is shown.
+export const useLedgerStore = create<LedgerStore>()(
+  persist(
+    (set) => ({
+      ledgerId: null,
+      setLedgerId: (ledgerId: string | null) => set({ ledgerId }),
+      ledgers: [],
+      setLedgers: (ledgers: UserLedger[]) => set({ ledgers }),
+    }),
+    {
+      name: 'ledger-storage',
+      partialize: (state) => ({ ledgerId: state.ledgerId }),
+    }
+  )
+)
+
+// The shared ledger being shown, or null for the personal one
+export function useActiveLedger() {
+  return useLedgerStore((state) => state.ledgers.find(l => l.id === state.ledgerId) ?? null)
+}
+
 // Theme store
 const getSystemTheme = (): 'light' | 'dark' => {
   if (typeof window !== 'undefined') {
@@ -0,0 +1,29 @@
+// Free-form tags on transactions ("trip-lisbon", "reimbursable", "gift").
+// Unlike categories a transaction can have several, so a trip or project
+// can be reported on across categories. They are stored normalized, so the
+// same tag is always spelled the same way.
+
+export const MAX_TAGS = 10
+export const MAX_TAG_LENGTH = 30
+
+// "Trip Lisbon", "#trip-lisbon" and "trip-lisbon" are the same tag
+export function normalizeTag(tag: string) {
+  return tag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-')
+}
+
+// Normalized, without empty ones or duplicates, in the order given
+export function normalizeTags(tags: string[]) {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))]
+}
+
+// Returns an error message, or null when the (normalized) tags can be saved
+export function validateTags(tags: string[]) {
+  if (tags.length > MAX_TAGS) {
+    return `A transaction can have at most ${MAX_TAGS} tags`
+  }
+  const tooLong = tags.find(tag => tag.length > MAX_TAG_LENGTH)
+  if (tooLong) {
+    return `Tags can be at most ${MAX_TAG_LENGTH} characters: ${tooLong}`
+  }
+  return null
+}
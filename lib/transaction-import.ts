@@ -0,0 +1,196 @@
+import { parse, isValid, isSameDay } from 'date-fns'
+import { type UserCategory, categoryLabel } from '@/lib/categories'
+
+// Fields a CSV column can be mapped to. 'category' is optional.
+export type ImportField = 'name' | 'amount' | 'date' | 'category'
+
+// Column index for each field; null means "not in this file"
+export type ColumnMapping = Record<ImportField, number | null>
+
+export const dateFormats = [
+  { value: 'yyyy-MM-dd', label: 'YYYY-MM-DD' },
+  { value: 'dd/MM/yyyy', label: 'DD/MM/YYYY' },
+  { value: 'MM/dd/yyyy', label: 'MM/DD/YYYY' },
+  { value: 'dd.MM.yyyy', label: 'DD.MM.YYYY' },
+] as const
+
+export type ImportOptions = {
+  dateFormat: string
+  // Banks usually export debits as negative numbers. When set, negative
+  // amounts become expenses and positive ones income; otherwise every row
+  // is an expense.
+  signedAmounts: boolean
+}
+
+export type ImportRow = {
+  line: number // 1-based line in the file, for error messages
+  name: string
+  amount: number
+  date: Date | null
+  type: 'Expense' | 'Income'
+  categoryId: string | null
+  errors: string[]
+}
+
+// Header names banks commonly use for each field
+const headerHints: Record<ImportField, string[]> = {
+  name: ['name', 'description', 'payee', 'merchant', 'details', 'memo', 'narrative'],
+  amount: ['amount', 'value', 'debit', 'sum', 'total'],
+  date: ['date', 'booking date', 'transaction date', 'posted', 'value date'],
+  category: ['category', 'type'],
+}
+
+// Best guess at the mapping from the header row; unmatched fields are null
+export function guessColumnMapping(header: string[]): ColumnMapping {
+  const normalized = header.map(h => h.trim().toLowerCase())
+  const used = new Set<number>()
+
+  const find = (field: ImportField) => {
+    for (const hint of headerHints[field]) {
+      const index = normalized.findIndex((h, i) => !used.has(i) && (h === hint || h.includes(hint)))
+      if (index !== -1) {
+        used.add(index)
+        return index
+      }
+    }
+    return null
+  }
+
+  // Date first, so "transaction date" isn't mistaken for a name column
+  const date = find('date')
+  const amount = find('amount')
+  const name = find('name')
+  const category = find('category')
+  return { name, amount, date, category }
+}
+
+// Parse "1,234.56", "-12.50", "(12.50)" or "€ 12.50" into a number
+export function parseImportAmount(value: string) {
+  let text = value.trim().replace(/[^\d.,()-]/g, '')
+  const negative = text.startsWith('-') || (text.startsWith('(') && text.endsWith(')'))
+  text = text.replace(/[()-]/g, '')
+
+  // "1.234,56" (comma decimal) vs "1,234.56" (dot decimal)
+  if (/,\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.')
+  } else {
+    text = text.replace(/,/g, '')
+  }
+
+  const amount = parseFloat(text)
+  return isNaN(amount) ? NaN : negative ? -amount : amount
+}
+
+function normalizeCategoryName(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, '')
+}
+
+// Match a category cell against the user's categories of one type, by
+// name ("Restaurants") or full name ("Food / Restaurants")
+function matchCategory(value: string, categories: UserCategory[], type: string) {
+  const normalized = normalizeCategoryName(value)
+  const ofType = categories.filter(c => c.type === type)
+  return (
+    ofType.find(c => normalizeCategoryName(categoryLabel(categories, c.id)) === normalized) ||
+    ofType.find(c => normalizeCategoryName(c.name) === normalized)
+  )?.id
+}
+
+// Rows without a matching category go to "Other" / "Other Income" when
+// the user still has them, and are left uncategorized otherwise
+const fallbackCategoryNames: Record<string, string> = { Expense: 'Other', Income: 'Other Income' }
+
+// The category for an imported row that neither the file nor a rule
+// categorized. Applied after rules run, so rules get the first say.
+export function fallbackCategoryId(categories: Pick<UserCategory, 'id' | 'name' | 'type'>[], type: string) {
+  const name = fallbackCategoryNames[type]
+  if (!name) return null
+  return categories.find(c => c.type === type && normalizeCategoryName(c.name) === normalizeCategoryName(name))?.id ?? null
+}
+
+// Turn the data rows of a CSV into transactions, collecting per-row errors
+export function parseImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  categories: UserCategory[]
+): ImportRow[] {
+  return rows.map((row, i) => {
+    const errors: string[] = []
+    const cell = (field: ImportField) => {
+      const index = mapping[field]
+      return index === null ? '' : (row[index] || '').trim()
+    }
+
+    const name = cell('name')
+    if (!name) errors.push('Missing name')
+
+    const signedAmount = parseImportAmount(cell('amount'))
+    if (isNaN(signedAmount) || signedAmount === 0) errors.push(`Invalid amount "${cell('amount')}"`)
+    const type = options.signedAmounts && signedAmount > 0 ? 'Income' : 'Expense'
+
+    const parsedDate = parse(cell('date'), options.dateFormat, new Date())
+    const date = isValid(parsedDate) ? parsedDate : null
+    if (!date) errors.push(`Invalid date "${cell('date')}"`)
+
+    // Unmatched rows stay uncategorized here so rules can still pick a
+    // category on import; see fallbackCategoryId
+    const categoryId = (cell('category') && matchCategory(cell('category'), categories, type)) || null
+
+    return {
+      line: i + 2, // after the header row
+      name,
+      amount: Math.abs(signedAmount),
+      date,
+      type,
+      categoryId,
+      errors,
+    }
+  })
+}
+
+function normalizeName(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function bigrams(text: string) {
+  const compact = text.replace(/ /g, '')
+  const result: string[] = []
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2))
+  }
+  return result
+}
+
+// Names are similar when one contains the other ("UBER" vs "UBER *TRIP")
+// or when they share most of their character pairs (Dice coefficient)
+export function isSimilarName(a: string, b: string) {
+  const left = normalizeName(a)
+  const right = normalizeName(b)
+  if (!left || !right) return false
+  if (left.includes(right) || right.includes(left)) return true
+
+  const leftPairs = bigrams(left)
+  const rightPairs = bigrams(right)
+  if (leftPairs.length === 0 || rightPairs.length === 0) return false
+
+  const remaining = [...rightPairs]
+  let shared = 0
+  for (const pair of leftPairs) {
+    const index = remaining.indexOf(pair)
+    if (index !== -1) {
+      shared++
+      remaining.splice(index, 1)
+    }
+  }
+
+  return (2 * shared) / (leftPairs.length + rightPairs.length) >= 0.6
+}
+
+// Likely the same transaction: same day, same amount and a similar name
+export function isLikelyDuplicate(
+  a: { name: string; amount: number; date: Date },
+  b: { name: string; amount: number; date: Date }
+) {
+  return isSameDay(a.date, b.date) && Math.abs(a.amount - b.amount) < 0.005 && isSimilarName(a.name, b.name)
+}
@@ -0,0 +1,250 @@
+import type { Attachment, BillShare, Prisma, Transaction, TransactionSplit } from '@prisma/client'
+import { normalizeTag } from '@/lib/tags'
+
+// Shared by the transaction server actions and the export route handler.
+// Kept out of the 'use server' module because those may only export actions;
+// it only imports types from Prisma, so the pages can use the pure helpers.
+
+function serializeSplit(split: TransactionSplit) {
+  return {
+    id: split.id,
+    name: split.name,
+    amount: Number(split.amount),
+    originalAmount: split.originalAmount != null ? Number(split.originalAmount) : null,
+    categoryId: split.categoryId,
+  }
+}
+
+// A person's share of a bill split between people, named after the user
+// or contact
+function serializeShare({ user, contact, ...share }: BillShare & {
+  user: { name: string | null; email: string } | null
+  contact: { name: string } | null
+}) {
+  return {
+    id: share.id,
+    userId: share.userId,
+    contactId: share.contactId,
+    name: user ? user.name || user.email : contact?.name ?? 'Unknown',
+    amount: Number(share.amount),
+    originalAmount: share.originalAmount != null ? Number(share.originalAmount) : null,
+    weight: share.weight,
+  }
+}
+
+// Only what the client needs; the storage key stays on the server
+export function serializeAttachment(attachment: Attachment) {
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+  }
+}
+
+export const MAX_NOTES_LENGTH = 2000
+
+// The claim a reimbursable expense was sent off in
+type TransactionClaim = { id: string; name: string; status: string }
+
+// The ledger member who paid a shared transaction
+type TransactionPayer = { id: string; name: string | null; email: string }
+
+// The account it was paid from, or a transfer went to
+type TransactionAccount = { id: string; name: string }
+
+// Queries should include these; without them 'splits', 'attachments' and
+// 'shares' are empty and 'claim', 'paidBy', 'account' and 'toAccount' are null
+export const transactionInclude = {
+  splits: { orderBy: { createdAt: 'asc' } },
+  attachments: { orderBy: { createdAt: 'asc' } },
+  claim: { select: { id: true, name: true, status: true } },
+  paidBy: { select: { id: true, name: true, email: true } },
+  account: { select: { id: true, name: true } },
+  toAccount: { select: { id: true, name: true } },
+  shares: {
+    orderBy: { createdAt: 'asc' },
+    include: { user: { select: { name: true, email: true } }, contact: { select: { name: true } } },
+  },
+} satisfies Prisma.TransactionInclude
+
+// Helper function to convert Decimal to number for serialization
+export function serializeTransaction({
+  splits,
+  attachments,
+  claim,
+  paidBy,
+  account,
+  toAccount,
+  shares,
+  ...transaction
+}: Transaction & {
+  splits?: TransactionSplit[]
+  attachments?: Attachment[]
+  claim?: TransactionClaim | null
+  paidBy?: TransactionPayer | null
+  account?: TransactionAccount | null
+  toAccount?: TransactionAccount | null
+  shares?: Parameters<typeof serializeShare>[0][]
+}) {
+  return {
+    ...transaction,
+    splits: (splits || []).map(serializeSplit),
+    attachments: (attachments || []).map(serializeAttachment),
+    claim: claim ? { id: claim.id, name: claim.name, status: claim.status } : null,
+    paidBy: paidBy ? { id: paidBy.id, name: paidBy.name || paidBy.email } : null,
+    account: account ? { id: account.id, name: account.name } : null,
+    toAccount: toAccount ? { id: toAccount.id, name: toAccount.name } : null,
+    shares: (shares || []).map(serializeShare),
+    amount: Number(transaction.amount),
+    originalAmount: transaction.originalAmount != null ? Number(transaction.originalAmount) : null,
+    exchangeRate: transaction.exchangeRate != null ? Number(transaction.exchangeRate) : null,
+    date: new Date(transaction.date),
+    createdAt: new Date(transaction.createdAt),
+    updatedAt: new Date(transaction.updatedAt),
+  }
+}
+
+export type SerializedTransaction = ReturnType<typeof serializeTransaction>
+export type SerializedSplit = ReturnType<typeof serializeSplit>
+export type SerializedShare = ReturnType<typeof serializeShare>
+
+// Whether the expense was paid back through a claim, so it no longer
+// counts as the user's own spending
+export function isReimbursed(transaction: { claim: { status: string } | null }) {
+  return transaction.claim?.status === 'Paid'
+}
+
+// The server-side counterpart of isReimbursed: transactions that still
+// count towards the user's spending
+export const notReimbursedWhere: Prisma.TransactionWhereInput = {
+  OR: [{ claimId: null }, { claim: { status: { not: 'Paid' } } }],
+}
+
+// Amount per category id for a list of transactions. Split transactions
+// count towards the categories of their splits; uncategorized amounts are
+// keyed by 'uncategorizedKey'.
+export function sumByCategory(
+  transactions: { amount: number; categoryId: string | null; splits: { amount: number; categoryId: string | null }[] }[],
+  uncategorizedKey: string
+) {
+  const totals: Record<string, number> = {}
+  for (const transaction of transactions) {
+    const parts = transaction.splits.length > 0 ? transaction.splits : [transaction]
+    for (const part of parts) {
+      const key = part.categoryId || uncategorizedKey
+      totals[key] = (totals[key] || 0) + part.amount
+    }
+  }
+  return totals
+}
+
+// The user's own transactions, leaving out those of shared ledgers
+export function personalWhere(userId: string): Prisma.TransactionWhereInput {
+  return { userId: userId, ledgerId: null }
+}
+
+// Filter for transactions between two days, inclusive. 'scope' picks whose
+// transactions, e.g. personalWhere(userId).
+export function dateRangeWhere(scope: Prisma.TransactionWhereInput, startDate: Date, endDate: Date): Prisma.TransactionWhereInput {
+  // Set time to start of day for startDate and end of day for endDate
+  const start = new Date(startDate)
+  start.setHours(0, 0, 0, 0)
+  const end = new Date(endDate)
+  end.setHours(23, 59, 59, 999)
+
+  return {
+    ...scope,
+    date: {
+      gte: start,
+      lte: end,
+    },
+  }
+}
+
+// Filters for the paginated transaction list. Every field is optional.
+export type TransactionFilters = {
+  // Matches the transaction name, notes, category name or a tag
+  search?: string
+  // A parent category also matches its subcategories
+  categoryIds?: string[]
+  // Transactions with any of these tags
+  tags?: string[]
+  // Paid from or into the account, including transfers to it
+  accountId?: string | null
+  // Inclusive bounds on the amount in the base currency
+  minAmount?: number | null
+  maxAmount?: number | null
+  // Inclusive days
+  startDate?: Date | null
+  endDate?: Date | null
+}
+
+export function transactionFiltersWhere(scope: Prisma.TransactionWhereInput, filters: TransactionFilters): Prisma.TransactionWhereInput {
+  const search = filters.search?.trim()
+  const conditions: Prisma.TransactionWhereInput[] = []
+
+  if (search) {
+    conditions.push({
+      OR: [
+        { name: { contains: search, mode: 'insensitive' } },
+        { notes: { contains: search, mode: 'insensitive' } },
+        { category: { name: { contains: search, mode: 'insensitive' } } },
+        { splits: { some: { category: { name: { contains: search, mode: 'insensitive' } } } } },
+        // "#trip" and "trip" both find the tag "trip"
+        { tags: { has: normalizeTag(search) } },
+      ],
+    })
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    conditions.push({ tags: { hasSome: filters.tags } })
+  }
+
+  if (filters.accountId) {
+    conditions.push({
+      OR: [{ accountId: filters.accountId }, { toAccountId: filters.accountId }],
+    })
+  }
+
+  if (filters.categoryIds && filters.categoryIds.length > 0) {
+    const inCategories = {
+      OR: [
+        { categoryId: { in: filters.categoryIds } },
+        { category: { parentId: { in: filters.categoryIds } } },
+      ],
+    }
+    // A split transaction matches when any of its splits does
+    conditions.push({
+      OR: [inCategories, { splits: { some: inCategories } }],
+    })
+  }
+
+  if (filters.minAmount != null || filters.maxAmount != null) {
+    conditions.push({
+      amount: {
+        ...(filters.minAmount != null && { gte: filters.minAmount }),
+        ...(filters.maxAmount != null && { lte: filters.maxAmount }),
+      },
+    })
+  }
+
+  if (filters.startDate || filters.endDate) {
+    const start = filters.startDate ? new Date(filters.startDate) : null
+    start?.setHours(0, 0, 0, 0)
+    const end = filters.endDate ? new Date(filters.endDate) : null
+    end?.setHours(23, 59, 59, 999)
+
+    conditions.push({
+      date: {
+        ...(start && { gte: start }),
+        ...(end && { lte: end }),
+      },
+    })
+  }
+
+  return {
+    ...scope,
+    AND: conditions,
+  }
+}
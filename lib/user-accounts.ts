@@ -0,0 +1,207 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { endOfDay, startOfDay, subDays } from 'date-fns'
+import { DEFAULT_ACCOUNT_NAME, type UserAccount } from '@/lib/accounts'
+import { toCents } from '@/lib/splits'
+import { paymentDueDate, statementCycle, type CardStatement } from '@/lib/statement-cycles'
+import type { TransactionScope } from '@/lib/user-ledgers'
+
+// Server-side account lookups. Kept apart from lib/accounts.ts, which the
+// client imports too.
+
+// Whose accounts a scope's transactions are paid from: the user's personal
+// ones, or the ledger's
+export function accountScopeWhere(userId: string, scope: TransactionScope): Prisma.AccountWhereInput {
+  return scope.ledger ? { ledgerId: scope.ledger.id } : { userId: userId, ledgerId: null }
+}
+
+// The account transactions go into when none is picked: the oldest open
+// one, created if every account was archived or deleted
+export async function defaultAccountId(userId: string, scope: TransactionScope) {
+  const owner = accountScopeWhere(userId, scope)
+  const account = await prisma.account.findFirst({
+    where: { ...owner, archived: false },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  })
+  if (account) {
+    return account.id
+  }
+
+  const created = await prisma.account.create({
+    data: scope.ledger
+      ? { name: DEFAULT_ACCOUNT_NAME, ledgerId: scope.ledger.id }
+      : { name: DEFAULT_ACCOUNT_NAME, userId: userId },
+    select: { id: true },
+  })
+  return created.id
+}
+
+// Check that an account picked for a transaction belongs to the scope and
+// is still open; the default account when unset. 'current' is the account
+// the transaction is already in, which it may keep after it's archived.
+export async function resolveAccountId(
+  userId: string,
+  scope: TransactionScope,
+  accountId: string | null | undefined,
+  current?: string
+) {
+  if (!accountId) {
+    return { success: true as const, accountId: current ?? await defaultAccountId(userId, scope) }
+  }
+  if (accountId === current) {
+    return { success: true as const, accountId }
+  }
+
+  const account = await prisma.account.findFirst({
+    where: { id: accountId, ...accountScopeWhere(userId, scope) },
+    select: { id: true, archived: true },
+  })
+  if (!account) {
+    return { success: false as const, error: 'Account not found' }
+  }
+  if (account.archived) {
+    return { success: false as const, error: 'That account is closed. Reopen it to add transactions.' }
+  }
+  return { success: true as const, accountId: account.id }
+}
+
+// Where a transfer's money went: another account of the same scope, or
+// none when it left the tracked accounts. Other types never have one.
+export async function resolveTransferAccountId(
+  userId: string,
+  scope: TransactionScope,
+  type: string,
+  accountId: string,
+  toAccountId: string | null | undefined,
+  current?: string | null
+) {
+  if (type !== 'Transfer' || !toAccountId) {
+    return { success: true as const, toAccountId: null }
+  }
+  if (toAccountId === accountId) {
+    return { success: false as const, error: 'A transfer has to go to a different account' }
+  }
+
+  const account = await resolveAccountId(userId, scope, toAccountId, current ?? undefined)
+  if (!account.success) {
+    return account
+  }
+  return { success: true as const, toAccountId: account.accountId }
+}
+
+// What the transactions on or before 'until' did to each account's
+// balance, or every transaction without it
+async function sumAccountEffects(accountIds: string[], until?: Date) {
+  const date = until ? { date: { lte: endOfDay(until) } } : {}
+  const [outgoing, incoming] = await Promise.all([
+    prisma.transaction.groupBy({
+      by: ['accountId', 'type'],
+      where: { accountId: { in: accountIds }, ...date },
+      _sum: { amount: true },
+    }),
+    prisma.transaction.groupBy({
+      by: ['toAccountId'],
+      where: { toAccountId: { in: accountIds }, type: 'Transfer', ...date },
+      _sum: { amount: true },
+    }),
+  ])
+
+  const effects = new Map<string, number>()
+  for (const row of outgoing) {
+    const sum = Number(row._sum.amount ?? 0)
+    const sign = row.type === 'Income' ? 1 : -1
+    effects.set(row.accountId, (effects.get(row.accountId) ?? 0) + sign * sum)
+  }
+  for (const row of incoming) {
+    if (row.toAccountId) {
+      effects.set(row.toAccountId, (effects.get(row.toAccountId) ?? 0) + Number(row._sum.amount ?? 0))
+    }
+  }
+  return effects
+}
+
+// Summed sums of decimals, so round back to cents
+function roundCents(amount: number) {
+  return Math.round(amount * 100) / 100
+}
+
+// Where a credit card stands: what was charged this cycle, what the last
+// statement said was owed, and whether that's been paid
+async function getCardStatement(
+  account: { id: string; openingBalance: number; statementClosingDay: number; paymentDueDay: number | null },
+  today = new Date()
+): Promise<CardStatement> {
+  const cycle = statementCycle(account.statementClosingDay, today)
+  const lastClosingDate = subDays(cycle.start, 1)
+
+  const [atClosing, cycleSpend, payments, transfersIn] = await Promise.all([
+    sumAccountEffects([account.id], lastClosingDate),
+    // Only this cycle's charges: future-dated ones belong to a later statement
+    prisma.transaction.aggregate({
+      where: { accountId: account.id, type: 'Expense', date: { gte: cycle.start, lte: endOfDay(cycle.end) } },
+      _sum: { amount: true },
+    }),
+    // Money into the card since it closed: payments made straight to it,
+    // refunds, and transfers from the bank
+    prisma.transaction.aggregate({
+      where: { accountId: account.id, type: 'Income', date: { gte: cycle.start } },
+      _sum: { amount: true },
+    }),
+    prisma.transaction.aggregate({
+      where: { toAccountId: account.id, type: 'Transfer', date: { gte: cycle.start } },
+      _sum: { amount: true },
+    }),
+  ])
+
+  // Owed shows as a negative balance; a card in credit owes nothing
+  const balanceAtClosing = account.openingBalance + (atClosing.get(account.id) ?? 0)
+  const statementBalance = roundCents(Math.max(0, -balanceAtClosing))
+  const paidSinceStatement = roundCents(Number(payments._sum.amount ?? 0) + Number(transfersIn._sum.amount ?? 0))
+  const isPaid = toCents(paidSinceStatement) >= toCents(statementBalance)
+  const dueDate = account.paymentDueDay ? paymentDueDate(lastClosingDate, account.paymentDueDay) : null
+
+  return {
+    cycleStart: cycle.start,
+    cycleEnd: cycle.end,
+    cycleSpend: roundCents(Number(cycleSpend._sum.amount ?? 0)),
+    lastClosingDate,
+    statementBalance,
+    dueDate,
+    paidSinceStatement,
+    isPaid,
+    isOverdue: !isPaid && !!dueDate && startOfDay(today) > dueDate,
+  }
+}
+
+// The accounts of a scope with their balances, open ones first
+export async function getScopeAccounts(userId: string, scope: TransactionScope): Promise<UserAccount[]> {
+  const accounts = await prisma.account.findMany({
+    where: accountScopeWhere(userId, scope),
+    orderBy: [{ archived: 'asc' }, { createdAt: 'asc' }],
+  })
+  if (accounts.length === 0) {
+    return []
+  }
+
+  const effects = await sumAccountEffects(accounts.map(account => account.id))
+
+  return Promise.all(accounts.map(async (account) => {
+    const openingBalance = Number(account.openingBalance)
+    // Closed cards have no statements to keep track of
+    const closingDay = account.type === 'CreditCard' && !account.archived ? account.statementClosingDay : null
+    return {
+      id: account.id,
+      name: account.name,
+      type: account.type,
+      openingBalance: openingBalance,
+      archived: account.archived,
+      balance: roundCents(openingBalance + (effects.get(account.id) ?? 0)),
+      statementClosingDay: account.statementClosingDay,
+      paymentDueDay: account.paymentDueDay,
+      statement: closingDay !== null
+        ? await getCardStatement({ ...account, openingBalance, statementClosingDay: closingDay })
+        : null,
+    }
+  }))
+}
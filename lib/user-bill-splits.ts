@@ -0,0 +1,39 @@
+import { prisma } from '@/lib/prisma'
+import type { PersonRef } from '@/lib/bill-splits'
+
+// Server-side checks for the people bills are split between. Kept apart
+// from lib/bill-splits.ts, which the client imports too.
+
+// In a shared ledger, bills are split between its members. Personal bills
+// are split between the user and the user's contacts.
+export async function checkPeople(userId: string, ledgerId: string | null, people: PersonRef[]) {
+  if (people.some(person => !person.userId && !person.contactId)) {
+    return { success: false as const, error: 'Person not found' }
+  }
+  const userIds = [...new Set(people.flatMap(person => person.userId ? [person.userId] : []))]
+  const contactIds = [...new Set(people.flatMap(person => person.contactId ? [person.contactId] : []))]
+
+  if (ledgerId) {
+    if (contactIds.length > 0) {
+      return { success: false as const, error: 'Bills in a shared ledger can only be split between its members' }
+    }
+    const members = await prisma.ledgerMember.count({
+      where: { ledgerId: ledgerId, userId: { in: userIds } },
+    })
+    if (members !== userIds.length) {
+      return { success: false as const, error: 'Everyone must be a member of the ledger' }
+    }
+    return { success: true as const }
+  }
+
+  if (userIds.some(id => id !== userId)) {
+    return { success: false as const, error: 'Add the people you share bills with as contacts' }
+  }
+  const contacts = await prisma.contact.count({
+    where: { id: { in: contactIds }, userId: userId },
+  })
+  if (contacts !== contactIds.length) {
+    return { success: false as const, error: 'Contact not found' }
+  }
+  return { success: true as const }
+}
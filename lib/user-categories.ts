@@ -0,0 +1,83 @@
+import type { Category, TransactionType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { personalWhere } from '@/lib/transactions'
+import { formatCategoryName, isCategoryForType } from '@/lib/categories'
+import type { CategoryHistoryEntry } from '@/lib/category-suggestions'
+
+// Server-side checks for the categories a transaction points at.
+// Kept apart from lib/categories.ts, which the client imports too.
+
+// The only fields the client needs; see UserCategory in lib/categories.ts
+export function serializeCategory(category: Category) {
+  return {
+    id: category.id,
+    name: category.name,
+    icon: category.icon,
+    color: category.color,
+    type: category.type as string,
+    parentId: category.parentId,
+  }
+}
+
+// Check a category id sent by the client: it must belong to the user and
+// match the transaction type. Transfers never have a category, so any id
+// sent with one is dropped. Returns the id to store.
+export async function resolveCategoryId(userId: string, categoryId: string | null | undefined, type: TransactionType) {
+  if (type === 'Transfer' || !categoryId) {
+    return { success: true as const, categoryId: null }
+  }
+
+  const category = await prisma.category.findFirst({
+    where: { id: categoryId, userId: userId },
+    select: { type: true },
+  })
+
+  if (!category || !isCategoryForType(category, type)) {
+    return { success: false as const, error: `Invalid category: ${categoryId}` }
+  }
+
+  return { success: true as const, categoryId }
+}
+
+// The user's categories by display name ("Food / Restaurants"), for an AI
+// model to choose from. Receipts only pick from expense categories.
+export async function getCategoryChoices(userId: string, type?: TransactionType) {
+  const categories = await prisma.category.findMany({
+    where: { userId: userId, ...(type && { type: type }) },
+    include: { parent: true },
+    orderBy: { name: 'asc' },
+  })
+  return categories.map(c => ({ id: c.id, name: formatCategoryName(c, c.parent), type: c.type }))
+}
+
+// Names the user kept for the longest are dropped past this many, so a
+// long history doesn't make every form slower to open
+const CATEGORY_HISTORY_LIMIT = 2000
+
+// How the user has categorized each transaction name, most recently used
+// first; see lib/category-suggestions.ts. Split transactions have no single
+// category, so they don't count.
+export async function getCategoryHistory(userId: string): Promise<CategoryHistoryEntry[]> {
+  const groups = await prisma.transaction.groupBy({
+    by: ['name', 'categoryId', 'type'],
+    where: {
+      ...personalWhere(userId),
+      categoryId: { not: null },
+      type: { in: ['Expense', 'Income'] },
+    },
+    _count: { _all: true },
+    _avg: { amount: true },
+    _max: { date: true },
+    orderBy: { _max: { date: 'desc' } },
+    take: CATEGORY_HISTORY_LIMIT,
+  })
+
+  return groups.map(group => ({
+    name: group.name,
+    categoryId: group.categoryId!,
+    type: group.type,
+    count: group._count._all,
+    averageAmount: Number(group._avg.amount ?? 0),
+    lastUsed: (group._max.date ?? new Date(0)).toISOString(),
+  }))
+}
@@ -0,0 +1,87 @@
+import type { LedgerRole, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { canEditLedger } from '@/lib/ledgers'
+import { personalWhere } from '@/lib/transactions'
+
+// Server-side membership checks for shared ledgers. Kept apart from
+// lib/ledgers.ts, which the client imports too.
+
+// The transactions an action works on: the user's personal ones, or those
+// of a shared ledger the user belongs to
+export type TransactionScope = {
+  where: Prisma.TransactionWhereInput
+  // Null for the personal transactions
+  ledger: { id: string; currency: string; role: LedgerRole } | null
+  // Whose categories the transactions are filed under
+  categoryOwnerId: string
+}
+
+// Check that the user may see ('view') or change ('edit') the transactions
+// of the ledger. No ledger id means the user's personal transactions.
+export async function resolveScope(userId: string, ledgerId: string | null | undefined, access: 'view' | 'edit') {
+  if (!ledgerId) {
+    const scope: TransactionScope = { where: personalWhere(userId), ledger: null, categoryOwnerId: userId }
+    return { success: true as const, scope }
+  }
+
+  const member = await prisma.ledgerMember.findUnique({
+    where: { ledgerId_userId: { ledgerId: ledgerId, userId: userId } },
+    include: {
+      ledger: {
+        select: { id: true, currency: true, members: { where: { role: 'Owner' }, select: { userId: true } } },
+      },
+    },
+  })
+  if (!member) {
+    return { success: false as const, error: 'Ledger not found' }
+  }
+  if (access === 'edit' && !canEditLedger(member.role)) {
+    return { success: false as const, error: 'Viewers can\'t change the transactions in this ledger' }
+  }
+
+  const scope: TransactionScope = {
+    where: { ledgerId: ledgerId },
+    ledger: { id: ledgerId, currency: member.ledger.currency, role: member.role },
+    categoryOwnerId: member.ledger.members[0]?.userId ?? userId,
+  }
+  return { success: true as const, scope }
+}
+
+// Transactions the user can see, personal or shared, for looking up a
+// single row such as an attachment's
+export function visibleTransactionWhere(userId: string): Prisma.TransactionWhereInput {
+  return {
+    OR: [
+      personalWhere(userId),
+      { ledger: { members: { some: { userId: userId } } } },
+    ],
+  }
+}
+
+// Transactions the user can change: personal ones, and those of ledgers
+// where the user is an owner or editor
+export function editableTransactionWhere(userId: string): Prisma.TransactionWhereInput {
+  return {
+    OR: [
+      personalWhere(userId),
+      { ledger: { members: { some: { userId: userId, role: { in: ['Owner', 'Editor'] } } } } },
+    ],
+  }
+}
+
+// Who paid a ledger transaction must be one of its members; the user
+// adding it when unset
+export async function resolvePaidById(userId: string, ledgerId: string, paidById: string | null | undefined) {
+  if (!paidById || paidById === userId) {
+    return { success: true as const, paidById: userId }
+  }
+
+  const member = await prisma.ledgerMember.findUnique({
+    where: { ledgerId_userId: { ledgerId: ledgerId, userId: paidById } },
+    select: { id: true },
+  })
+  if (!member) {
+    return { success: false as const, error: 'Whoever paid must be a member of the ledger' }
+  }
+  return { success: true as const, paidById }
+}
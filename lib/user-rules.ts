@@ -0,0 +1,35 @@
+import type { Rule } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { RuleData } from '@/lib/rules'
+
+// Loading the user's rules for the engine in lib/rules.ts, which the client
+// imports too
+
+export function serializeRule(rule: Rule): RuleData {
+  return {
+    id: rule.id,
+    name: rule.name,
+    enabled: rule.enabled,
+    nameContains: rule.nameContains,
+    namePattern: rule.namePattern,
+    minAmount: rule.minAmount != null ? Number(rule.minAmount) : null,
+    maxAmount: rule.maxAmount != null ? Number(rule.maxAmount) : null,
+    weekdays: rule.weekdays,
+    transactionType: rule.transactionType,
+    categoryId: rule.categoryId,
+    rename: rule.rename,
+    addTag: rule.addTag,
+  }
+}
+
+// In the order they run
+export const ruleOrderBy = [{ position: 'asc' as const }, { createdAt: 'asc' as const }]
+
+// The rules that run on new transactions, imports and scanned receipts
+export async function getActiveRules(userId: string) {
+  const rules = await prisma.rule.findMany({
+    where: { userId: userId, enabled: true },
+    orderBy: ruleOrderBy,
+  })
+  return rules.map(serializeRule)
+}
@@ -0,0 +1,39 @@
+import { currentUser } from '@clerk/nextjs/server'
+import { prisma } from '@/lib/prisma'
+import { defaultCategories } from '@/lib/categories'
+import { DEFAULT_ACCOUNT_NAME } from '@/lib/accounts'
+
+// Helper function to ensure user exists in database
+// Lives outside the 'use server' modules so every action file can share it
+// without exposing it as a callable server action.
+export async function ensureUser(userId: string) {
+  try {
+    const user = await currentUser()
+    
+    const dbUser = await prisma.user.upsert({
+      where: { id: userId },
+      update: {
+        email: user?.emailAddresses[0]?.emailAddress || '',
+        name: user?.fullName || null,
+      },
+      create: {
+        id: userId,
+        email: user?.emailAddresses[0]?.emailAddress || '',
+        name: user?.fullName || null,
+        currency: 'USD',
+        // Nested writes in 'create' only run for a brand-new user
+        categories: {
+          create: defaultCategories,
+        },
+        accounts: {
+          create: { name: DEFAULT_ACCOUNT_NAME },
+        },
+      },
+    })
+    
+    return dbUser
+  } catch (error) {
+    console.error('Error ensuring user exists:', error)
+    throw new Error('Failed to create user record')
+  }
+}
@@ -5,3 +5,7 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// Message for a caught value, which may not be an Error
+export function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
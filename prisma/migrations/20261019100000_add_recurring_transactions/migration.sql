@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "Cadence" AS ENUM ('Weekly', 'Monthly', 'Yearly');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "occurrenceDate" TIMESTAMP(3),
+ADD COLUMN     "recurringTransactionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecurringTransaction" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "category" "Category" NOT NULL,
+    "cadence" "Cadence" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "RecurringTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringOverride" (
+    "id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "skipped" BOOLEAN NOT NULL DEFAULT false,
+    "name" TEXT,
+    "amount" DECIMAL(65,30),
+    "category" "Category",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "recurringTransactionId" TEXT NOT NULL,
+
+    CONSTRAINT "RecurringOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringTransaction_userId_idx" ON "RecurringTransaction"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringOverride_recurringTransactionId_date_key" ON "RecurringOverride"("recurringTransactionId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_recurringTransactionId_occurrenceDate_key" ON "Transaction"("recurringTransactionId", "occurrenceDate");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_recurringTransactionId_fkey" FOREIGN KEY ("recurringTransactionId") REFERENCES "RecurringTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTransaction" ADD CONSTRAINT "RecurringTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringOverride" ADD CONSTRAINT "RecurringOverride_recurringTransactionId_fkey" FOREIGN KEY ("recurringTransactionId") REFERENCES "RecurringTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "TransactionType" AS ENUM ('Expense', 'Income', 'Transfer');
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "Category" ADD VALUE 'Salary';
+ALTER TYPE "Category" ADD VALUE 'Freelance';
+ALTER TYPE "Category" ADD VALUE 'Investments';
+ALTER TYPE "Category" ADD VALUE 'Gifts';
+ALTER TYPE "Category" ADD VALUE 'OtherIncome';
+
+-- AlterTable
+ALTER TABLE "RecurringTransaction" ADD COLUMN     "type" "TransactionType" NOT NULL DEFAULT 'Expense';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "type" "TransactionType" NOT NULL DEFAULT 'Expense';
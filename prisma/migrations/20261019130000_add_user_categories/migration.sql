@@ -0,0 +1,111 @@
+-- The "Category" table's row type would clash with the old enum's name,
+-- so move the enum aside until the data has been copied over
+ALTER TYPE "Category" RENAME TO "Category_old";
+
+-- CreateTable
+CREATE TABLE "Category" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "icon" TEXT NOT NULL DEFAULT 'CircleDot',
+    "color" TEXT NOT NULL DEFAULT '#94a3b8',
+    "type" "TransactionType" NOT NULL DEFAULT 'Expense',
+    "parentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Category_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Category_userId_idx" ON "Category"("userId");
+
+-- Give every existing user one category per old enum value (the same
+-- defaults new users get, see lib/categories.ts). The id is derived from
+-- the user and the enum value so the old columns can be mapped below.
+INSERT INTO "Category" ("id", "name", "icon", "color", "type", "updatedAt", "userId")
+SELECT 'cat_' || md5(u."id" || ':' || d."key"), d."name", d."icon", d."color", d."type"::"TransactionType", CURRENT_TIMESTAMP, u."id"
+FROM "User" u
+CROSS JOIN (VALUES
+    ('Food', 'Food', 'UtensilsCrossed', '#f97316', 'Expense'),
+    ('Groceries', 'Groceries', 'ShoppingCart', '#84cc16', 'Expense'),
+    ('Transportation', 'Transportation', 'Car', '#3b82f6', 'Expense'),
+    ('Internet', 'Internet', 'Wifi', '#06b6d4', 'Expense'),
+    ('Health', 'Health', 'Heart', '#ef4444', 'Expense'),
+    ('Sport', 'Sport', 'Dumbbell', '#10b981', 'Expense'),
+    ('Shopping', 'Shopping', 'ShoppingBag', '#ec4899', 'Expense'),
+    ('Entertainment', 'Entertainment', 'Film', '#8b5cf6', 'Expense'),
+    ('BadHabits', 'Bad Habits', 'Cigarette', '#78716c', 'Expense'),
+    ('Other', 'Other', 'CircleDot', '#94a3b8', 'Expense'),
+    ('Salary', 'Salary', 'Briefcase', '#16a34a', 'Income'),
+    ('Freelance', 'Freelance', 'Laptop', '#0ea5e9', 'Income'),
+    ('Investments', 'Investments', 'TrendingUp', '#eab308', 'Income'),
+    ('Gifts', 'Gifts', 'Gift', '#f43f5e', 'Income'),
+    ('OtherIncome', 'Other Income', 'Coins', '#64748b', 'Income')
+) AS d("key", "name", "icon", "color", "type");
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "categoryId" TEXT;
+
+-- Transfers were stored as 'Other' only because a category was required
+UPDATE "Transaction"
+SET "categoryId" = 'cat_' || md5("userId" || ':' || "category"::text)
+WHERE "type" <> 'Transfer';
+
+ALTER TABLE "Transaction" DROP COLUMN "category";
+
+-- AlterTable
+ALTER TABLE "Budget" ADD COLUMN     "categoryId" TEXT;
+
+UPDATE "Budget"
+SET "categoryId" = 'cat_' || md5("userId" || ':' || "category"::text);
+
+ALTER TABLE "Budget" ALTER COLUMN "categoryId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Budget_userId_category_key";
+
+ALTER TABLE "Budget" DROP COLUMN "category";
+
+-- AlterTable
+ALTER TABLE "RecurringTransaction" ADD COLUMN     "categoryId" TEXT;
+
+UPDATE "RecurringTransaction"
+SET "categoryId" = 'cat_' || md5("userId" || ':' || "category"::text)
+WHERE "type" <> 'Transfer';
+
+ALTER TABLE "RecurringTransaction" DROP COLUMN "category";
+
+-- AlterTable
+ALTER TABLE "RecurringOverride" ADD COLUMN     "categoryId" TEXT;
+
+UPDATE "RecurringOverride" o
+SET "categoryId" = 'cat_' || md5(r."userId" || ':' || o."category"::text)
+FROM "RecurringTransaction" r
+WHERE o."recurringTransactionId" = r."id" AND o."category" IS NOT NULL;
+
+ALTER TABLE "RecurringOverride" DROP COLUMN "category";
+
+-- DropEnum
+DROP TYPE "Category_old";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Budget_userId_categoryId_key" ON "Budget"("userId", "categoryId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Budget" ADD CONSTRAINT "Budget_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTransaction" ADD CONSTRAINT "RecurringTransaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringOverride" ADD CONSTRAINT "RecurringOverride_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ReceiptScanStatus" AS ENUM ('Pending', 'Processing', 'Done', 'Failed');
+
+-- CreateTable
+CREATE TABLE "ReceiptScan" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "status" "ReceiptScanStatus" NOT NULL DEFAULT 'Pending',
+    "result" JSONB,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "ReceiptScan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReceiptScan_storageKey_key" ON "ReceiptScan"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "ReceiptScan_userId_batchId_idx" ON "ReceiptScan"("userId", "batchId");
+
+-- CreateIndex
+CREATE INDEX "ReceiptScan_status_createdAt_idx" ON "ReceiptScan"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ReceiptScan" ADD CONSTRAINT "ReceiptScan_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
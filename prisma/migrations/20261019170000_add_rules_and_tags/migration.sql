@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "Rule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "nameContains" TEXT,
+    "namePattern" TEXT,
+    "minAmount" DECIMAL(65,30),
+    "maxAmount" DECIMAL(65,30),
+    "weekdays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "transactionType" "TransactionType",
+    "categoryId" TEXT,
+    "rename" TEXT,
+    "addTag" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Rule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Rule_userId_idx" ON "Rule"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Rule" ADD CONSTRAINT "Rule_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Rule" ADD CONSTRAINT "Rule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
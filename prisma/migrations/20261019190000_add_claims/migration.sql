@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "ClaimStatus" AS ENUM ('Draft', 'Submitted', 'Paid');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "claimId" TEXT,
+ADD COLUMN     "reimbursable" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "Claim" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" "ClaimStatus" NOT NULL DEFAULT 'Draft',
+    "notes" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Claim_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_claimId_idx" ON "Transaction"("claimId");
+
+-- CreateIndex
+CREATE INDEX "Claim_userId_idx" ON "Claim"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "Claim"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Claim" ADD CONSTRAINT "Claim_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "LedgerRole" AS ENUM ('Owner', 'Editor', 'Viewer');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "ledgerId" TEXT,
+ADD COLUMN     "paidById" TEXT;
+
+-- CreateTable
+CREATE TABLE "Ledger" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Ledger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerMember" (
+    "id" TEXT NOT NULL,
+    "role" "LedgerRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ledgerId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "LedgerMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerInvite" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "role" "LedgerRole" NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ledgerId" TEXT NOT NULL,
+
+    CONSTRAINT "LedgerInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_ledgerId_idx" ON "Transaction"("ledgerId");
+
+-- CreateIndex
+CREATE INDEX "LedgerMember_userId_idx" ON "LedgerMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerMember_ledgerId_userId_key" ON "LedgerMember"("ledgerId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerInvite_token_key" ON "LedgerInvite"("token");
+
+-- CreateIndex
+CREATE INDEX "LedgerInvite_ledgerId_idx" ON "LedgerInvite"("ledgerId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_ledgerId_fkey" FOREIGN KEY ("ledgerId") REFERENCES "Ledger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_paidById_fkey" FOREIGN KEY ("paidById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerMember" ADD CONSTRAINT "LedgerMember_ledgerId_fkey" FOREIGN KEY ("ledgerId") REFERENCES "Ledger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerMember" ADD CONSTRAINT "LedgerMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerInvite" ADD CONSTRAINT "LedgerInvite_ledgerId_fkey" FOREIGN KEY ("ledgerId") REFERENCES "Ledger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "AccountType" AS ENUM ('Cash', 'Checking', 'Savings', 'CreditCard');
+
+-- CreateTable
+CREATE TABLE "Account" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "AccountType" NOT NULL DEFAULT 'Checking',
+    "openingBalance" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT,
+    "ledgerId" TEXT,
+
+    CONSTRAINT "Account_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Reconciliation" (
+    "id" TEXT NOT NULL,
+    "statementDate" TIMESTAMP(3) NOT NULL,
+    "statementBalance" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "accountId" TEXT NOT NULL,
+
+    CONSTRAINT "Reconciliation_pkey" PRIMARY KEY ("id")
+);
+
+-- Give every user and every shared ledger the account new users and
+-- ledgers start with (see lib/accounts.ts). The id is derived from the
+-- owner so the existing transactions can be moved into it below.
+INSERT INTO "Account" ("id", "name", "type", "updatedAt", "userId")
+SELECT 'acc_' || md5(u."id" || ':default'), 'Main Account', 'Checking', CURRENT_TIMESTAMP, u."id"
+FROM "User" u;
+
+INSERT INTO "Account" ("id", "name", "type", "updatedAt", "ledgerId")
+SELECT 'acc_' || md5(l."id" || ':default'), 'Main Account', 'Checking', CURRENT_TIMESTAMP, l."id"
+FROM "Ledger" l;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "accountId" TEXT,
+ADD COLUMN     "toAccountId" TEXT,
+ADD COLUMN     "reconciliationId" TEXT,
+ADD COLUMN     "toReconciliationId" TEXT;
+
+UPDATE "Transaction"
+SET "accountId" = 'acc_' || md5(COALESCE("ledgerId", "userId") || ':default');
+
+ALTER TABLE "Transaction" ALTER COLUMN "accountId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "RecurringTransaction" ADD COLUMN     "accountId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Account_userId_idx" ON "Account"("userId");
+
+-- CreateIndex
+CREATE INDEX "Account_ledgerId_idx" ON "Account"("ledgerId");
+
+-- CreateIndex
+CREATE INDEX "Reconciliation_accountId_idx" ON "Reconciliation"("accountId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_accountId_idx" ON "Transaction"("accountId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_toAccountId_idx" ON "Transaction"("toAccountId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_toAccountId_fkey" FOREIGN KEY ("toAccountId") REFERENCES "Account"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_reconciliationId_fkey" FOREIGN KEY ("reconciliationId") REFERENCES "Reconciliation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_toReconciliationId_fkey" FOREIGN KEY ("toReconciliationId") REFERENCES "Reconciliation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringTransaction" ADD CONSTRAINT "RecurringTransaction_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Account" ADD CONSTRAINT "Account_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Account" ADD CONSTRAINT "Account_ledgerId_fkey" FOREIGN KEY ("ledgerId") REFERENCES "Ledger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reconciliation" ADD CONSTRAINT "Reconciliation_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Account" ADD COLUMN     "paymentDueDay" INTEGER,
+ADD COLUMN     "statementClosingDay" INTEGER;
@@ -0,0 +1,22 @@
+-- DropIndex
+DROP INDEX "ExchangeRate_base_quote_date_key";
+
+-- AlterTable
+ALTER TABLE "ExchangeRate" ADD COLUMN     "userId" TEXT;
+
+-- Rates used to be shared by everyone. Give every user a copy of them so
+-- their conversions keep working, then drop the shared rows.
+INSERT INTO "ExchangeRate" ("id", "base", "quote", "rate", "date", "createdAt", "updatedAt", "userId")
+SELECT 'xr_' || md5(r."id" || ':' || u."id"), r."base", r."quote", r."rate", r."date", r."createdAt", r."updatedAt", u."id"
+FROM "ExchangeRate" r CROSS JOIN "User" u
+WHERE r."userId" IS NULL;
+
+DELETE FROM "ExchangeRate" WHERE "userId" IS NULL;
+
+ALTER TABLE "ExchangeRate" ALTER COLUMN "userId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_userId_base_quote_date_key" ON "ExchangeRate"("userId", "base", "quote", "date");
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRate" ADD CONSTRAINT "ExchangeRate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
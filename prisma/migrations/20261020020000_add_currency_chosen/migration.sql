@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "currencyChosen" BOOLEAN NOT NULL DEFAULT false;